@@ -0,0 +1,33 @@
+import { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { AdminDashboard } from '@/features/admin/components/admin-dashboard';
+import { AdminSignIn } from '@/features/admin/components/admin-sign-in';
+import { getAdminDashboardService } from '@/features/admin/services/admin.service';
+import {
+  ADMIN_SESSION_COOKIE,
+  isAdminConfigured,
+  verifyAdminSession,
+} from '@/lib/security/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Admin | Match Vibe',
+  robots: { index: false, follow: false },
+};
+
+export default async function AdminPage() {
+  // The dashboard doesn't exist without ADMIN_TOKEN
+  if (!isAdminConfigured()) {
+    notFound();
+  }
+
+  const cookieStore = await cookies();
+  if (!verifyAdminSession(cookieStore.get(ADMIN_SESSION_COOKIE)?.value)) {
+    return <AdminSignIn />;
+  }
+
+  const dashboard = await getAdminDashboardService();
+  return <AdminDashboard dashboard={dashboard} />;
+}
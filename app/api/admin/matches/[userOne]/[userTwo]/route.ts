@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteMatchService, refreshMatchService } from '@/features/admin/services/admin.service';
+import {
+  DEFAULT_SCORING_PRESET,
+  isScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { adminErrorResponse, withAdminAuth } from '@/lib/security/middleware/admin-auth';
+import { getRateLimitClient } from '@/lib/security/rate-limit';
+
+export const maxDuration = 300; // A force refresh may fetch both profiles before matching
+
+type RouteContext = { params: Promise<{ userOne: string; userTwo: string }> };
+
+// Force-refresh a cached match from Grok (?preset= picks the scoring preset)
+export const POST = withAdminAuth(refreshMatch);
+
+// Delete a cached match (every scoring preset of the pair)
+export const DELETE = withAdminAuth(deleteMatch);
+
+async function refreshMatch(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userOne, userTwo } = await params;
+    const preset = request.nextUrl.searchParams.get('preset');
+    const { score } = await refreshMatchService(
+      userOne,
+      userTwo,
+      isScoringPresetId(preset) ? preset : DEFAULT_SCORING_PRESET,
+      getRateLimitClient(request).id
+    );
+
+    return NextResponse.json({ refreshed: true, users: [userOne, userTwo], score });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
+
+async function deleteMatch(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userOne, userTwo } = await params;
+    const { deleted } = await deleteMatchService(userOne, userTwo, getRateLimitClient(request).id);
+
+    return NextResponse.json(
+      { deleted, users: [userOne, userTwo] },
+      { status: deleted ? 200 : 404 }
+    );
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
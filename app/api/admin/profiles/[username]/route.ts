@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteProfileService,
+  refreshProfileService,
+} from '@/features/admin/services/admin.service';
+import { adminErrorResponse, withAdminAuth } from '@/lib/security/middleware/admin-auth';
+import { getRateLimitClient } from '@/lib/security/rate-limit';
+
+export const maxDuration = 60; // A force refresh runs one Grok profile fetch
+
+type RouteContext = { params: Promise<{ username: string }> };
+
+// Force-refresh a cached profile from Grok
+export const POST = withAdminAuth(refreshProfile);
+
+// Delete a cached profile
+export const DELETE = withAdminAuth(deleteProfile);
+
+async function refreshProfile(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { username } = await params;
+    await refreshProfileService(username, getRateLimitClient(request).id);
+    return NextResponse.json({ refreshed: true, username });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
+
+async function deleteProfile(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { username } = await params;
+    const { deleted } = await deleteProfileService(username, getRateLimitClient(request).id);
+    return NextResponse.json({ deleted, username }, { status: deleted ? 200 : 404 });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
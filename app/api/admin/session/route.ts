@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_MAX_AGE,
+  getAdminSessionValue,
+  isAdminConfigured,
+  verifyAdminToken,
+} from '@/lib/security/admin-auth';
+import { withRateLimit } from '@/lib/security/middleware/rate-limit';
+import { getRateLimitClient } from '@/lib/security/rate-limit';
+import { createChildLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+const logger = createChildLogger('AdminSessionAPI');
+
+const signInSchema = z.object({ token: z.string().min(1) });
+
+// Sign in to /admin with ADMIN_TOKEN - rate limited like the analysis endpoints
+export const POST = withRateLimit(signIn);
+
+async function signIn(request: NextRequest): Promise<NextResponse> {
+  if (!isAdminConfigured()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const parsed = signInSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success || !verifyAdminToken(parsed.data.token)) {
+    logger.warn({ client: getRateLimitClient(request).id }, 'Failed admin sign-in');
+    return NextResponse.json(
+      { error: 'Invalid admin token', code: 'UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json({ signedIn: true });
+  response.cookies.set(ADMIN_SESSION_COOKIE, getAdminSessionValue()!, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: ADMIN_SESSION_MAX_AGE,
+  });
+
+  return response;
+}
+
+// Sign out
+export async function DELETE(_request: NextRequest): Promise<NextResponse> {
+  const response = NextResponse.json({ signedIn: false });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
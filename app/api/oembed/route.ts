@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVibeOEmbedService } from '@/features/vibe-analysis/services/share.service';
+import { EMBED_CONFIG } from '@/features/vibe-analysis/config/vibe-constants';
+import { NotFoundError } from '@/shared/lib/errors/specific.errors';
+import { createChildLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+const logger = createChildLogger('OEmbedAPI');
+
+// oEmbed provider endpoint for vibe result URLs - called by other sites' servers,
+// so no Bot ID; it only builds markup (no Convex or Grok calls)
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    // Only JSON is implemented - the spec asks for 501 on other formats
+    const format = searchParams.get('format');
+    if (format && format !== 'json') {
+      return NextResponse.json(
+        {
+          error: `Format "${format}" is not supported`,
+          code: 'FORMAT_NOT_SUPPORTED',
+          details: { supported: ['json'] },
+        },
+        { status: 501 }
+      );
+    }
+
+    const result = getVibeOEmbedService({
+      url: searchParams.get('url') ?? undefined,
+      maxwidth: searchParams.get('maxwidth') ?? undefined,
+      maxheight: searchParams.get('maxheight') ?? undefined,
+    });
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': `public, max-age=${EMBED_CONFIG.CACHE_AGE_SECONDS}`,
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'oEmbed API error'
+    );
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        {
+          error: 'URL is not a Match Vibe result',
+          code: 'URL_NOT_SUPPORTED',
+          details: { url: error.metadata?.identifier },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to build oEmbed response',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { analyzeVibeService } from '@/features/vibe-analysis/services/analyze.service';
+import { drainRefreshQueueService } from '@/features/vibe-analysis/services/refresh.service';
 import { vibeAnalysisRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
-import { ValidationError, NotFoundError } from '@/shared/lib/errors/specific.errors';
+import { DEFAULT_SCORING_PRESET } from '@/features/vibe-analysis/config/scoring-presets';
+import {
+  ValidationError,
+  NotFoundError,
+  InsufficientDataError,
+  RateLimitError,
+  BudgetExceededError,
+} from '@/shared/lib/errors/specific.errors';
 import { withBotProtection } from '@/lib/security/middleware/bot-protection';
+import { withRateLimit, type RateLimiter } from '@/lib/security/middleware/rate-limit';
+import { issueHandoffToken } from '@/lib/security/handoff-token';
 import { createChildLogger } from '@/lib/logger';
 import { z } from 'zod';
 
@@ -11,8 +21,17 @@ const logger = createChildLogger('VibeAnalyzeAPI');
 // Remove explicit runtime setting - let Vercel auto-detect
 export const maxDuration = 300; // 300 seconds (5 minutes) - Vercel Pro plan with Fluid Compute
 
-// Protect the POST endpoint with bot detection
-export const POST = withBotProtection(async (request: NextRequest): Promise<NextResponse> => {
+// Keep-alive comment interval so proxies don't drop idle SSE connections during long Grok calls
+const SSE_HEARTBEAT_MS = 15000;
+
+// Protect the POST endpoint with bot detection and per-client rate limits
+// Clients sending `Accept: text/event-stream` get progress events; everyone else gets plain JSON
+export const POST = withBotProtection(withRateLimit(analyze));
+
+/**
+ * Validate the request and run the analysis (JSON or streamed)
+ */
+async function analyze(request: NextRequest, limiter: RateLimiter): Promise<NextResponse> {
   try {
     // Parse request body
     const body = await request.json();
@@ -20,77 +39,216 @@ export const POST = withBotProtection(async (request: NextRequest): Promise<Next
     // Validate request with Zod schema
     const validatedData = vibeAnalysisRequestSchema.parse(body);
 
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamAnalysis(validatedData, limiter);
+    }
+
     // Call the service - it handles all caching internally via Convex
     const result = await analyzeVibeService(
       validatedData.userOne,
       validatedData.userTwo,
-      validatedData.analysisDepth || 'standard'
+      validatedData.analysisDepth || 'standard',
+      validatedData.scoringPreset,
+      undefined,
+      limiter.consumeFresh,
+      scheduleRefreshDrain
     );
 
     // Return successful response
     return NextResponse.json(result);
   } catch (error) {
-    logger.error(
+    const { status, body } = toErrorResponse(error);
+    return NextResponse.json(body, { status });
+  }
+}
+
+/**
+ * Run the analysis and stream stage events as Server-Sent Events
+ * Emits `progress` events while running, then a single `result` or `error` event
+ * Once the caller is charged for a fresh analysis it also emits a `handoff` event whose token
+ * lets a background job take the analysis over without charging again
+ */
+function streamAnalysis(
+  data: z.infer<typeof vibeAnalysisRequestSchema>,
+  limiter: RateLimiter
+): NextResponse {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const send = (event: string, payload: unknown) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+
+      heartbeat = setInterval(() => write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+
+      const chargeFresh = async () => {
+        await limiter.consumeFresh();
+        const token = issueHandoffToken({
+          userOne: data.userOne,
+          userTwo: data.userTwo,
+          analysisDepth: data.analysisDepth || 'standard',
+          scoringPreset: data.scoringPreset || DEFAULT_SCORING_PRESET,
+        });
+        if (token) {
+          send('handoff', { token });
+        }
+      };
+
+      try {
+        const result = await analyzeVibeService(
+          data.userOne,
+          data.userTwo,
+          data.analysisDepth || 'standard',
+          data.scoringPreset,
+          (event) => send('progress', event),
+          chargeFresh,
+          scheduleRefreshDrain
+        );
+        send('result', result);
+      } catch (error) {
+        const { status, body } = toErrorResponse(error);
+        send('error', { ...body, status });
+      } finally {
+        clearInterval(heartbeat);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client went away - the analysis still finishes so its result gets cached
+      closed = true;
+      clearInterval(heartbeat);
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+/**
+ * Grok answered a fresh analysis, so pairs queued while it was unavailable can be refreshed
+ * after the response
+ */
+function scheduleRefreshDrain(): void {
+  after(drainRefreshQueueService);
+}
+
+/**
+ * Map an analysis error to its HTTP status and response body
+ * Shared by the JSON response and the SSE `error` event
+ */
+function toErrorResponse(error: unknown): { status: number; body: Record<string, unknown> } {
+  logger.error(
+    {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    },
+    'Vibe analysis API error'
+  );
+
+  // Handle validation errors
+  if (error instanceof ValidationError) {
+    return {
+      status: 400,
+      body: {
+        error: error.message,
+        details: error.metadata,
+      },
+    };
+  }
+
+  // Handle user not found errors
+  if (error instanceof NotFoundError) {
+    logger.info(
       {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
+        error: error.message,
+        username: error.metadata?.identifier,
+        operation: 'vibe-analysis',
       },
-      'Vibe analysis API error'
+      'User not found during vibe analysis'
     );
 
-    // Handle validation errors
-    if (error instanceof ValidationError) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          details: error.metadata,
-        },
-        { status: 400 }
-      );
-    }
+    return {
+      status: 404,
+      body: {
+        error: error.message,
+        code: 'USER_NOT_FOUND',
+        details: { username: error.metadata?.identifier },
+      },
+    };
+  }
 
-    // Handle user not found errors
-    if (error instanceof NotFoundError) {
-      logger.info(
-        {
-          error: error.message,
-          username: error.metadata?.identifier,
-          operation: 'vibe-analysis',
-        },
-        'User not found during vibe analysis'
-      );
-
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: 'USER_NOT_FOUND',
-          details: { username: error.metadata?.identifier },
-        },
-        { status: 404 }
-      );
-    }
+  // Handle profiles too thin on evidence to score
+  if (error instanceof InsufficientDataError) {
+    return {
+      status: 422,
+      body: {
+        error: error.message,
+        code: error.code,
+        details: { username: error.username, flags: error.metadata?.flags },
+      },
+    };
+  }
 
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        {
-          error: 'Invalid request data',
-          issues: error.issues,
-        },
-        { status: 400 }
-      );
-    }
+  // Handle per-client rate limits (the client's fresh analysis quota)
+  if (error instanceof RateLimitError) {
+    return {
+      status: 429,
+      body: {
+        error: error.message,
+        code: error.code,
+        details: { retryAfter: error.retryAfter, bucket: error.metadata?.bucket },
+      },
+    };
+  }
 
-    // Generic error response
-    return NextResponse.json(
-      {
-        error: 'Failed to analyze vibe compatibility',
-        message: error instanceof Error ? error.message : 'Unknown error occurred',
+  // Handle the Grok spend budget (only reached when nothing was cached for the pair)
+  if (error instanceof BudgetExceededError) {
+    return {
+      status: 503,
+      body: {
+        error: error.message,
+        code: error.code,
+        details: { period: error.period, resetAt: error.metadata?.resetAt },
       },
-      { status: 500 }
-    );
+    };
   }
-});
+
+  // Handle Zod validation errors
+  if (error instanceof z.ZodError) {
+    return {
+      status: 400,
+      body: {
+        error: 'Invalid request data',
+        issues: error.issues,
+      },
+    };
+  }
+
+  // Generic error response
+  return {
+    status: 500,
+    body: {
+      error: 'Failed to analyze vibe compatibility',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    },
+  };
+}
 
 // Support preflight requests
 export async function OPTIONS(_request: NextRequest) {
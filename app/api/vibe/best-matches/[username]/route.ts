@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rankBestMatchesService } from '@/features/vibe-analysis/services/ranking.service';
+import { bestMatchesRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import { NetworkError, NotFoundError } from '@/shared/lib/errors/specific.errors';
+import { withBotProtection } from '@/lib/security/middleware/bot-protection';
+import { withRateLimit, type RateLimiter } from '@/lib/security/middleware/rate-limit';
+import { createChildLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+const logger = createChildLogger('BestMatchesAPI');
+
+type RouteContext = { params: Promise<{ username: string }> };
+
+// Protect the GET endpoint with bot detection and per-client rate limits
+// No Grok calls, but each request reads every fresh cached profile - counts against the
+// request limit
+export const GET = withBotProtection(withRateLimit(getBestMatches));
+
+// Cache-only endpoint: scores against stored dimension vectors, no Grok calls
+async function getBestMatches(
+  request: NextRequest,
+  _limiter: RateLimiter,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  try {
+    const { username } = await params;
+
+    // Validate path and query params with Zod schema
+    const validatedData = bestMatchesRequestSchema.parse({
+      username: decodeURIComponent(username).replace('@', ''),
+      limit: request.nextUrl.searchParams.get('limit') ?? undefined,
+    });
+
+    const result = await rankBestMatchesService(validatedData.username, validatedData.limit);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Best matches API error'
+    );
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        {
+          error: `${error.message}. Run a vibe analysis with this user first.`,
+          code: 'PROFILE_NOT_CACHED',
+          details: { username: error.metadata?.identifier },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof NetworkError) {
+      return NextResponse.json(
+        { error: 'Cached profiles are unavailable right now', code: 'CACHE_UNAVAILABLE' },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to rank best matches',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
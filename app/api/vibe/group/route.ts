@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeGroupService } from '@/features/vibe-analysis/services/group.service';
+import { vibeGroupRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import {
+  ValidationError,
+  NotFoundError,
+  InsufficientDataError,
+  RateLimitError,
+  BudgetExceededError,
+} from '@/shared/lib/errors/specific.errors';
+import { withBotProtection } from '@/lib/security/middleware/bot-protection';
+import {
+  rateLimitedResponse,
+  withRateLimit,
+  type RateLimiter,
+} from '@/lib/security/middleware/rate-limit';
+import { createChildLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+const logger = createChildLogger('VibeGroupAPI');
+
+export const maxDuration = 300; // Up to 10 profile fetches plus the top-pair narratives
+
+// Protect the POST endpoint with bot detection and per-client rate limits
+export const POST = withBotProtection(withRateLimit(analyzeGroup));
+
+/**
+ * Validate the request and run the group analysis
+ * Group analyses count against their own quota - one may need up to 10 profile fetches plus
+ * the narratives, far more Grok calls than the single fresh analysis a pair costs
+ */
+async function analyzeGroup(request: NextRequest, limiter: RateLimiter): Promise<NextResponse> {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate request with Zod schema
+    const validatedData = vibeGroupRequestSchema.parse(body);
+    await limiter.consumeGroup();
+
+    // Call the service - profiles and narratives are cached via Convex
+    const result = await analyzeGroupService(validatedData.usernames);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Group vibe analysis API error'
+    );
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.metadata,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'USER_NOT_FOUND',
+          details: { username: error.metadata?.identifier },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof InsufficientDataError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          details: { username: error.username, flags: error.metadata?.flags },
+        },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          details: { period: error.period, resetAt: error.metadata?.resetAt },
+        },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze group compatibility',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Support preflight requests
+export async function OPTIONS(_request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
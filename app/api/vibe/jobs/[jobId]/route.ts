@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisJobService } from '@/features/vibe-analysis/services/job.service';
+import { ConfigError } from '@/shared/lib/errors/specific.errors';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('VibeJobAPI');
+
+// Poll an analysis job - `result` is set once status is done, `error` once it failed
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { jobId } = await params;
+    const job = await getAnalysisJobService(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Analysis job not found', code: 'JOB_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(job, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Vibe job API error'
+    );
+
+    if (error instanceof ConfigError) {
+      return NextResponse.json({ error: error.message, code: 'JOBS_UNAVAILABLE' }, { status: 503 });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load analysis job',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAnalysisJobService } from '@/features/vibe-analysis/services/job.service';
+import { vibeJobRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import { DEFAULT_SCORING_PRESET } from '@/features/vibe-analysis/config/scoring-presets';
+import { ConfigError, RateLimitError, ValidationError } from '@/shared/lib/errors/specific.errors';
+import { withBotProtection } from '@/lib/security/middleware/bot-protection';
+import {
+  rateLimitedResponse,
+  withRateLimit,
+  type RateLimiter,
+} from '@/lib/security/middleware/rate-limit';
+import { verifyHandoffToken } from '@/lib/security/handoff-token';
+import { createChildLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+const logger = createChildLogger('VibeJobsAPI');
+
+// Queue a background analysis and return its job ID right away
+// The Grok work runs in a Convex action - follow it with GET /api/vibe/jobs/{jobId}
+// or a Convex subscription to analysisJobs.getJob
+export const POST = withBotProtection(withRateLimit(createJob));
+
+/**
+ * Validate the request and create the job
+ * Jobs count as fresh analyses - the action runs outside this request - unless they take over
+ * a streamed analysis whose handoff token shows the stream already charged for it
+ */
+async function createJob(request: NextRequest, limiter: RateLimiter): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+    const validatedData = vibeJobRequestSchema.parse(body);
+
+    const handoffId = verifyHandoffToken(validatedData.handoffToken, {
+      userOne: validatedData.userOne,
+      userTwo: validatedData.userTwo,
+      analysisDepth: validatedData.analysisDepth || 'standard',
+      scoringPreset: validatedData.scoringPreset || DEFAULT_SCORING_PRESET,
+    });
+    if (!handoffId) {
+      await limiter.consumeFresh();
+    }
+
+    const jobId = await createAnalysisJobService(
+      validatedData.userOne,
+      validatedData.userTwo,
+      validatedData.analysisDepth || 'standard',
+      validatedData.scoringPreset,
+      handoffId ?? undefined
+    );
+
+    return NextResponse.json({ jobId, status: 'queued' }, { status: 202 });
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Vibe jobs API error'
+    );
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message, details: error.metadata }, { status: 400 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    if (error instanceof ConfigError) {
+      return NextResponse.json({ error: error.message, code: 'JOBS_UNAVAILABLE' }, { status: 503 });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to queue vibe analysis',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserProfileService } from '@/features/vibe-analysis/services/profile.service';
+import {
+  NotFoundError,
+  InsufficientDataError,
+  RateLimitError,
+  BudgetExceededError,
+} from '@/shared/lib/errors/specific.errors';
+import { withBotProtection } from '@/lib/security/middleware/bot-protection';
+import {
+  rateLimitedResponse,
+  withRateLimit,
+  type RateLimiter,
+} from '@/lib/security/middleware/rate-limit';
+import { createChildLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+const logger = createChildLogger('VibeProfileAPI');
+
+export const maxDuration = 120; // An uncached profile is fetched from Grok on demand
+
+type RouteContext = { params: Promise<{ username: string }> };
+
+// Protect the GET endpoint with bot detection and per-client rate limits
+// Cached profiles only count against the request limit; fetches count as fresh analyses
+export const GET = withBotProtection(withRateLimit(getProfile));
+
+async function getProfile(
+  request: NextRequest,
+  limiter: RateLimiter,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  try {
+    const { username } = await params;
+    const result = await getUserProfileService(decodeURIComponent(username), limiter.consumeFresh);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Profile API error'
+    );
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'USER_NOT_FOUND',
+          details: { username: error.metadata?.identifier },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof InsufficientDataError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          details: { username: error.username, flags: error.metadata?.flags },
+        },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error);
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          details: { period: error.period, resetAt: error.metadata?.resetAt },
+        },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load profile',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
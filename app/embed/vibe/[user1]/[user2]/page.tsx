@@ -0,0 +1,50 @@
+import { Metadata } from 'next';
+import { VibeEmbedCard } from '@/features/vibe-analysis/components/vibe-embed-card';
+import { getVibeEmbedService } from '@/features/vibe-analysis/services/share.service';
+import {
+  DEFAULT_SCORING_PRESET,
+  isScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+
+interface PageProps {
+  params: Promise<{
+    user1: string;
+    user2: string;
+  }>;
+  searchParams: Promise<{
+    preset?: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { user1, user2 } = await params;
+
+  return {
+    title: `@${user1} × @${user2} | Match Vibe`,
+    robots: { index: false, follow: false },
+  };
+}
+
+// Frameable by other sites (see the /embed headers in next.config.ts)
+export default async function EmbedVibePage({ params, searchParams }: PageProps) {
+  const { user1, user2 } = await params;
+  const { preset } = await searchParams;
+
+  const scoringPreset = isScoringPresetId(preset) ? preset : DEFAULT_SCORING_PRESET;
+
+  const cleanUser1 = decodeURIComponent(user1).replace('@', '').trim();
+  const cleanUser2 = decodeURIComponent(user2).replace('@', '').trim();
+
+  // Shows the latest cached result - opening the full page runs fresh analyses
+  const result = await getVibeEmbedService(cleanUser1, cleanUser2, scoringPreset);
+  const presetQuery = scoringPreset === DEFAULT_SCORING_PRESET ? '' : `?preset=${scoringPreset}`;
+
+  return (
+    <VibeEmbedCard
+      userOne={cleanUser1}
+      userTwo={cleanUser2}
+      result={result}
+      resultUrl={`/vibe/${encodeURIComponent(cleanUser1)}/${encodeURIComponent(cleanUser2)}${presetQuery}`}
+    />
+  );
+}
@@ -0,0 +1,27 @@
+import { Metadata } from 'next';
+import { GroupAnalysisPage } from '@/features/vibe-analysis/components/group-analysis-page';
+
+interface PageProps {
+  params: Promise<{
+    users: string[];
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { users } = await params;
+  const handles = users.map((user) => `@${decodeURIComponent(user).replace('@', '')}`);
+
+  return {
+    title: `Group Vibe: ${handles.join(' × ')} | Match Vibe`,
+    description: `AI-powered group vibe compatibility for ${handles.join(', ')}`,
+  };
+}
+
+export default async function GroupVibePage({ params }: PageProps) {
+  const { users } = await params;
+
+  // Clean usernames
+  const usernames = users.map((user) => decodeURIComponent(user).replace('@', '').trim());
+
+  return <GroupAnalysisPage usernames={usernames} />;
+}
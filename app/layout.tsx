@@ -6,6 +6,7 @@ import { ConvexClientProvider } from '@/components/ConvexClientProvider';
 import { QueryProvider } from '@/components/providers/query-provider';
 import { Analytics } from '@vercel/analytics/next';
 import { Toaster } from '@/components/ui/sonner';
+import { SHARE_CONFIG } from '@/features/vibe-analysis/config/vibe-constants';
 import './globals.css';
 
 const geistSans = Geist({
@@ -19,6 +20,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  // Resolves the Open Graph image URLs of shared results
+  metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || SHARE_CONFIG.BASE_URL),
   title: 'Match Vibe',
   description: 'Analyze compatibility between X users with AI-driven vibe scoring',
 };
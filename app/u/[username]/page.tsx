@@ -0,0 +1,39 @@
+import { Metadata } from 'next';
+import { UserProfilePage } from '@/features/vibe-analysis/components/user-profile-page';
+import {
+  DEFAULT_SCORING_PRESET,
+  isScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+
+interface PageProps {
+  params: Promise<{
+    username: string;
+  }>;
+  searchParams: Promise<{
+    preset?: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { username } = await params;
+
+  return {
+    title: `@${username}'s Vibe Profile | Match Vibe`,
+    description: `Personality dimensions, topics and matches of @${username} on Match Vibe`,
+  };
+}
+
+export default async function UserPage({ params, searchParams }: PageProps) {
+  const { username } = await params;
+  const { preset } = await searchParams;
+
+  // Unknown presets fall back to the default rather than erroring (applies to matches and compare)
+  const scoringPreset = isScoringPresetId(preset) ? preset : DEFAULT_SCORING_PRESET;
+
+  return (
+    <UserProfilePage
+      username={decodeURIComponent(username).replace('@', '').trim()}
+      scoringPreset={scoringPreset}
+    />
+  );
+}
@@ -0,0 +1,25 @@
+import { ImageResponse } from 'next/og';
+import { getVibeShareCardService } from '@/features/vibe-analysis/services/share.service';
+import {
+  GenericShareCard,
+  VibeShareCard,
+} from '@/features/vibe-analysis/components/vibe-share-card';
+
+export const alt = 'Match Vibe compatibility result';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+interface ImageProps {
+  params: Promise<{
+    user1: string;
+    user2: string;
+  }>;
+}
+
+// Preview card for shared result links - built from the cached match (default scoring preset)
+export default async function Image({ params }: ImageProps) {
+  const { user1, user2 } = await params;
+  const card = await getVibeShareCardService(decodeURIComponent(user1), decodeURIComponent(user2));
+
+  return new ImageResponse(card ? <VibeShareCard card={card} /> : <GenericShareCard />, size);
+}
@@ -1,25 +1,45 @@
 import { Metadata } from 'next';
 import { VibeAnalysisPage } from '@/features/vibe-analysis/components/vibe-analysis-page';
 import { VibeErrorBoundary } from '@/features/vibe-analysis/components/vibe-error-boundary';
+import {
+  DEFAULT_SCORING_PRESET,
+  isScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { SHARE_CONFIG } from '@/features/vibe-analysis/config/vibe-constants';
 
 interface PageProps {
   params: Promise<{
     user1: string;
     user2: string;
   }>;
+  searchParams: Promise<{
+    preset?: string;
+  }>;
 }
 
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
   const { user1, user2 } = await params;
 
+  const resultUrl = `${process.env.NEXT_PUBLIC_APP_URL || SHARE_CONFIG.BASE_URL}/vibe/${user1}/${user2}`;
+
+  // The preview image comes from opengraph-image.tsx next to this page; the oEmbed link lets
+  // other sites discover the embeddable card
   return {
     title: `Vibe Analysis: @${user1} × @${user2} | Match Vibe`,
     description: `AI-powered vibe compatibility analysis between @${user1} and @${user2}`,
+    twitter: { card: 'summary_large_image' },
+    alternates: {
+      types: { 'application/json+oembed': `/api/oembed?url=${encodeURIComponent(resultUrl)}` },
+    },
   };
 }
 
-export default async function VibePage({ params }: PageProps) {
+export default async function VibePage({ params, searchParams }: PageProps) {
   const { user1, user2 } = await params;
+  const { preset } = await searchParams;
+
+  // Unknown presets fall back to the default rather than erroring
+  const scoringPreset = isScoringPresetId(preset) ? preset : DEFAULT_SCORING_PRESET;
 
   // Clean usernames
   const cleanUser1 = user1.replace('@', '').trim();
@@ -28,7 +48,7 @@ export default async function VibePage({ params }: PageProps) {
   // Pass cleaned usernames to the client component with error boundary
   return (
     <VibeErrorBoundary userOne={cleanUser1} userTwo={cleanUser2}>
-      <VibeAnalysisPage user1={cleanUser1} user2={cleanUser2} />
+      <VibeAnalysisPage user1={cleanUser1} user2={cleanUser2} scoringPreset={scoringPreset} />
     </VibeErrorBoundary>
   );
 }
@@ -5,12 +5,19 @@ import { ReactNode } from 'react';
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
 
-if (!convexUrl) {
+if (!convexUrl && process.env.NODE_ENV === 'production') {
   throw new Error('NEXT_PUBLIC_CONVEX_URL is not configured');
 }
 
-const convex = new ConvexReactClient(convexUrl);
+// Offline development runs without a deployment - components using Convex hooks must check this
+export const isConvexConfigured = Boolean(convexUrl);
+
+const convex = convexUrl ? new ConvexReactClient(convexUrl) : null;
 
 export function ConvexClientProvider({ children }: { children: ReactNode }) {
+  if (!convex) {
+    return <>{children}</>;
+  }
+
   return <ConvexProvider client={convex}>{children}</ConvexProvider>;
 }
@@ -9,6 +9,7 @@ import {
 
 interface CircularProgressFullscreenProps {
   progress: number;
+  message?: string | null; // Real status message - overrides the phase messages when set
   className?: string;
   onComplete?: () => void;
   completionDelay?: number;
@@ -16,6 +17,7 @@ interface CircularProgressFullscreenProps {
 
 export function CircularProgressFullscreen({
   progress,
+  message,
   className,
   onComplete,
   completionDelay = 500,
@@ -226,7 +228,7 @@ export function CircularProgressFullscreen({
                 className="flex items-center justify-center text-center text-base font-medium text-white/90 md:text-lg"
                 role="status"
               >
-                <span>{currentMessage}</span>
+                <span>{message || currentMessage}</span>
                 <span className="ml-1 inline-flex" aria-hidden="true">
                   {[0, 1, 2].map((i) => (
                     <span
@@ -0,0 +1,213 @@
+import { v } from 'convex/values';
+import { mutation, query, type MutationCtx } from './_generated/server';
+import { getProfileTTL, isProfileExpired } from './userProfiles';
+import { deleteMatchRow, getMatchTTL, isMatchExpired, sortUsers } from './vibeMatches';
+import { tokensMatch } from './serverAuth';
+
+// Rows returned per dashboard list
+const DEFAULT_DASHBOARD_ROWS = 100;
+const MAX_DASHBOARD_ROWS = 500;
+
+// Days of spend history on the dashboard
+const SPEND_HISTORY_DAYS = 30;
+
+// Admin functions take the dashboard's ADMIN_TOKEN - set the same value in the Convex
+// deployment's environment. Without it every admin function is rejected
+function assertAdmin(adminToken: string) {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected || !tokensMatch(adminToken, expected)) {
+    throw new Error('Unauthorized');
+  }
+}
+
+// Write an audit log entry
+async function recordAudit(
+  ctx: MutationCtx,
+  entry: {
+    action: string;
+    target: string;
+    outcome: 'succeeded' | 'failed';
+    error?: string;
+    actor: string;
+  }
+) {
+  await ctx.db.insert('adminAuditLog', { ...entry, createdAt: Date.now() });
+}
+
+// Everything the dashboard lists: newest profiles and matches with expiry status,
+// daily Grok spend, prompt variant outcomes, the latest audit log entries and retention cleanup runs
+export const getDashboard = query({
+  args: {
+    adminToken: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    assertAdmin(args.adminToken);
+
+    const limit = Math.min(Math.max(1, args.limit ?? DEFAULT_DASHBOARD_ROWS), MAX_DASHBOARD_ROWS);
+    const now = Date.now();
+    const profileTTL = getProfileTTL();
+    const matchTTL = getMatchTTL();
+
+    const [profiles, matches, auditLog, retentionRuns] = await Promise.all([
+      ctx.db.query('userProfiles').withIndex('by_created').order('desc').take(limit),
+      ctx.db.query('vibeMatches').withIndex('by_created').order('desc').take(limit),
+      ctx.db.query('adminAuditLog').withIndex('by_created').order('desc').take(limit),
+      ctx.db.query('retentionRuns').withIndex('by_started').order('desc').take(limit),
+    ]);
+
+    const firstDay = new Date(now - (SPEND_HISTORY_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const spend = await ctx.db
+      .query('grokSpend')
+      .withIndex('by_period', (q) =>
+        q.gte('period', `day:${firstDay.toISOString().slice(0, 10)}`).lt('period', 'day;')
+      )
+      .collect();
+
+    // One row per prompt version and experiment - stays small
+    const promptStats = await ctx.db.query('promptStats').collect();
+
+    return {
+      profiles: profiles.map((profile) => ({
+        username: profile.username,
+        createdAt: profile.createdAt,
+        isExpired: isProfileExpired(profile.createdAt),
+        expiresIn: Math.max(0, profile.createdAt + profileTTL * 1000 - now),
+        searchConfidence: profile.searchConfidence,
+        dataCompleteness: profile.dataCompleteness,
+      })),
+      matches: matches.map((match) => ({
+        users: [match.userOneTag, match.userTwoTag],
+        scoringPreset: match.scoringPreset,
+        score: match.score,
+        createdAt: match.createdAt,
+        isExpired: isMatchExpired(match.createdAt),
+        expiresIn: Math.max(0, match.createdAt + matchTTL * 1000 - now),
+      })),
+      spend: spend.map((period) => ({
+        day: period.period.slice('day:'.length),
+        cost: period.cost,
+        calls: period.calls,
+      })),
+      promptVariants: promptStats.map((variant) => {
+        const scoredRuns = variant.scoreBuckets.reduce((sum, count) => sum + count, 0);
+        return {
+          stage: variant.stage,
+          promptVersion: variant.promptVersion,
+          experimentId: variant.experimentId,
+          runs: variant.runs,
+          parseFailures: variant.parseFailures,
+          meanScore: scoredRuns > 0 ? variant.scoreSum / scoredRuns : null,
+          scoreBuckets: variant.scoreBuckets,
+          vibeTypes: variant.vibeTypes ?? {},
+          lastRunAt: variant.lastRunAt,
+        };
+      }),
+      auditLog: auditLog.map((entry) => ({
+        action: entry.action,
+        target: entry.target,
+        outcome: entry.outcome,
+        error: entry.error,
+        actor: entry.actor,
+        createdAt: entry.createdAt,
+      })),
+      retentionRuns: retentionRuns.map((run) => ({
+        table: run.table,
+        cutoff: run.cutoff,
+        scanned: run.scanned,
+        deleted: run.deleted,
+        batches: run.batches,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+      })),
+    };
+  },
+});
+
+// Delete a cached profile (and its audit log entry)
+export const deleteProfile = mutation({
+  args: {
+    adminToken: v.string(),
+    username: v.string(),
+    actor: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertAdmin(args.adminToken);
+
+    const profile = await ctx.db
+      .query('userProfiles')
+      .withIndex('by_username', (q) => q.eq('username', args.username))
+      .first();
+
+    if (profile) {
+      await ctx.db.delete(profile._id);
+    }
+
+    await recordAudit(ctx, {
+      action: 'delete_profile',
+      target: args.username,
+      outcome: profile ? 'succeeded' : 'failed',
+      error: profile ? undefined : 'Profile not cached',
+      actor: args.actor,
+    });
+
+    return { deleted: !!profile, username: args.username };
+  },
+});
+
+// Delete every scoring preset of a cached match (and its audit log entry)
+export const deleteMatch = mutation({
+  args: {
+    adminToken: v.string(),
+    user1: v.string(),
+    user2: v.string(),
+    actor: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertAdmin(args.adminToken);
+
+    const [userOne, userTwo] = sortUsers(args.user1, args.user2);
+    const matches = await ctx.db
+      .query('vibeMatches')
+      .withIndex('by_users', (q) => q.eq('userOneTag', userOne).eq('userTwoTag', userTwo))
+      .collect();
+
+    for (const match of matches) {
+      await deleteMatchRow(ctx, match._id);
+    }
+
+    await recordAudit(ctx, {
+      action: 'delete_match',
+      target: `${userOne}:${userTwo}`,
+      outcome: matches.length > 0 ? 'succeeded' : 'failed',
+      error: matches.length > 0 ? undefined : 'Match not cached',
+      actor: args.actor,
+    });
+
+    return { deleted: matches.length > 0, users: [userOne, userTwo] };
+  },
+});
+
+// Record an admin action that ran outside Convex (force refreshes run Grok on the server)
+export const recordAction = mutation({
+  args: {
+    adminToken: v.string(),
+    action: v.string(),
+    target: v.string(),
+    outcome: v.union(v.literal('succeeded'), v.literal('failed')),
+    error: v.optional(v.string()),
+    actor: v.string(),
+  },
+  handler: async (ctx, args) => {
+    assertAdmin(args.adminToken);
+
+    await recordAudit(ctx, {
+      action: args.action,
+      target: args.target,
+      outcome: args.outcome,
+      error: args.error,
+      actor: args.actor,
+    });
+    return null;
+  },
+});
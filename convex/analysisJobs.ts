@@ -0,0 +1,99 @@
+import { v } from 'convex/values';
+import { internalMutation, mutation, query } from './_generated/server';
+import { internal } from './_generated/api';
+import {
+  analysisDepthValidator,
+  analysisJobErrorValidator,
+  analysisJobStatusValidator,
+  vibeAnalysisResultValidator,
+} from './validators';
+import { assertServer } from './serverAuth';
+
+// Statuses a job can't leave
+const FINISHED_STATUSES = ['done', 'failed'];
+
+// Create a job and schedule the analysis right away - server only, the API route
+// checks BotID and the rate limits before calling it
+export const createJob = mutation({
+  args: {
+    serverSecret: v.string(),
+    userOne: v.string(),
+    userTwo: v.string(),
+    analysisDepth: analysisDepthValidator,
+    scoringPreset: v.optional(v.string()), // Omitted for the default preset
+    handoffId: v.optional(v.string()), // Set when taking over a streamed analysis
+  },
+  handler: async (ctx, { serverSecret, ...args }) => {
+    assertServer(serverSecret);
+
+    // A handoff gets one job - retries of the same handoff follow it
+    if (args.handoffId) {
+      const existing = await ctx.db
+        .query('analysisJobs')
+        .withIndex('by_handoff', (q) => q.eq('handoffId', args.handoffId))
+        .first();
+      if (existing) {
+        return existing._id;
+      }
+    }
+
+    const now = Date.now();
+
+    const jobId = await ctx.db.insert('analysisJobs', {
+      ...args,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.analysisJobsNode.runAnalysisJob, { jobId });
+
+    return jobId;
+  },
+});
+
+// Get a job (clients subscribe to this until it is done or failed)
+export const getJob = query({
+  args: { jobId: v.id('analysisJobs') },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.jobId);
+  },
+});
+
+// Move a running job to its next stage
+export const setJobStatus = internalMutation({
+  args: {
+    jobId: v.id('analysisJobs'),
+    status: analysisJobStatusValidator,
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || FINISHED_STATUSES.includes(job.status)) {
+      return;
+    }
+
+    await ctx.db.patch(args.jobId, { status: args.status, updatedAt: Date.now() });
+  },
+});
+
+// Store the result of a finished job
+export const completeJob = internalMutation({
+  args: {
+    jobId: v.id('analysisJobs'),
+    result: vibeAnalysisResultValidator,
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, { status: 'done', result: args.result, updatedAt: Date.now() });
+  },
+});
+
+// Store why a job failed
+export const failJob = internalMutation({
+  args: {
+    jobId: v.id('analysisJobs'),
+    error: analysisJobErrorValidator,
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, { status: 'failed', error: args.error, updatedAt: Date.now() });
+  },
+});
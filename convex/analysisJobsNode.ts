@@ -0,0 +1,104 @@
+'use node';
+
+import { v } from 'convex/values';
+import { internalAction } from './_generated/server';
+import { api, internal } from './_generated/api';
+import { GrokService } from '../features/vibe-analysis/services/grok/grok.service';
+import { isScoringPresetId } from '../features/vibe-analysis/config/scoring-presets';
+import type {
+  AnalysisJobError,
+  AnalysisJobStatus,
+  AnalysisProgressEvent,
+} from '../features/vibe-analysis/types';
+import { AppError, InsufficientDataError, NotFoundError } from '../shared/lib/errors';
+import { getGrokApiKey } from '../lib/env';
+
+// Job stage reached by a pipeline event (other events don't change the stage)
+function stageForEvent(event: AnalysisProgressEvent): AnalysisJobStatus | null {
+  return event.type === 'matching_started' ? 'matching' : null;
+}
+
+// Same code / status the analyze API responds with for the error
+function toJobError(error: unknown): AnalysisJobError {
+  if (error instanceof NotFoundError) {
+    return {
+      code: 'USER_NOT_FOUND',
+      message: error.message,
+      status: 404,
+      username:
+        typeof error.metadata?.identifier === 'string' ? error.metadata.identifier : undefined,
+    };
+  }
+
+  if (error instanceof InsufficientDataError) {
+    return {
+      code: error.code,
+      message: error.message,
+      status: error.statusCode,
+      username: error.username,
+    };
+  }
+
+  if (error instanceof AppError) {
+    return { code: error.code, message: error.message, status: error.statusCode };
+  }
+
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+    status: 500,
+  };
+}
+
+// Run the Grok analysis for a job (scheduled by analysisJobs.createJob)
+// Needs GROK_API_KEY in the Convex deployment's environment
+export const runAnalysisJob = internalAction({
+  args: { jobId: v.id('analysisJobs') },
+  handler: async (ctx, args): Promise<null> => {
+    const job = await ctx.runQuery(api.analysisJobs.getJob, { jobId: args.jobId });
+    if (!job || job.status !== 'queued') {
+      return null;
+    }
+
+    // Stage updates are written in order without blocking the analysis
+    let stage: AnalysisJobStatus = 'fetching_profiles';
+    let stageWrites = ctx.runMutation(internal.analysisJobs.setJobStatus, {
+      jobId: args.jobId,
+      status: stage,
+    });
+
+    const onProgress = (event: AnalysisProgressEvent) => {
+      const next = stageForEvent(event);
+      if (!next || next === stage) return;
+
+      stage = next;
+      stageWrites = stageWrites.then(() =>
+        ctx.runMutation(internal.analysisJobs.setJobStatus, { jobId: args.jobId, status: next })
+      );
+    };
+
+    try {
+      const grokService = new GrokService(getGrokApiKey());
+      const result = await grokService.analyzeVibe(
+        {
+          userOne: job.userOne,
+          userTwo: job.userTwo,
+          analysisDepth: job.analysisDepth,
+          scoringPreset: isScoringPresetId(job.scoringPreset) ? job.scoringPreset : undefined,
+        },
+        onProgress
+      );
+
+      await stageWrites;
+      await ctx.runMutation(internal.analysisJobs.completeJob, { jobId: args.jobId, result });
+    } catch (error) {
+      await stageWrites.catch(() => undefined);
+      await ctx.runMutation(internal.analysisJobs.failJob, {
+        jobId: args.jobId,
+        error: toJobError(error),
+      });
+    }
+
+    return null;
+  },
+});
@@ -0,0 +1,62 @@
+import { v } from 'convex/values';
+import { mutation } from './_generated/server';
+import { assertServer } from './serverAuth';
+
+// Take the lease for a key unless another owner holds one that hasn't expired
+// heldSince is when the current holder took it - its results are written after that
+// App server only - anyone else could hold a key and stall every analysis waiting on it
+export const acquireLease = mutation({
+  args: {
+    serverSecret: v.string(),
+    key: v.string(),
+    owner: v.string(),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, { serverSecret, ...args }) => {
+    assertServer(serverSecret);
+
+    const now = Date.now();
+
+    const lease = await ctx.db
+      .query('analysisLeases')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    if (lease && lease.owner !== args.owner && lease.expiresAt > now) {
+      return { acquired: false, heldSince: lease.acquiredAt };
+    }
+
+    const fields = { owner: args.owner, acquiredAt: now, expiresAt: now + args.ttlMs };
+    if (lease) {
+      await ctx.db.patch(lease._id, fields);
+    } else {
+      await ctx.db.insert('analysisLeases', { key: args.key, ...fields });
+    }
+
+    return { acquired: true, heldSince: now };
+  },
+});
+
+// Release a lease (only its owner can, from the app server)
+export const releaseLease = mutation({
+  args: {
+    serverSecret: v.string(),
+    key: v.string(),
+    owner: v.string(),
+  },
+  handler: async (ctx, { serverSecret, ...args }) => {
+    assertServer(serverSecret);
+
+    const lease = await ctx.db
+      .query('analysisLeases')
+      .withIndex('by_key', (q) => q.eq('key', args.key))
+      .first();
+
+    if (!lease || lease.owner !== args.owner) {
+      return { released: false };
+    }
+
+    await ctx.db.delete(lease._id);
+    return { released: true };
+  },
+});
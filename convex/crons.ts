@@ -0,0 +1,9 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+// Delete rows past their retention window (see retention.ts) - runs in batches
+crons.daily('retention cleanup', { hourUTC: 4, minuteUTC: 0 }, internal.retention.startCleanup);
+
+export default crons;
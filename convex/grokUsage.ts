@@ -0,0 +1,85 @@
+import { v } from 'convex/values';
+import { mutation, query, type MutationCtx, type QueryCtx } from './_generated/server';
+import { getSpendPeriods } from '../features/vibe-analysis/lib/usage-tracker';
+import { assertServer } from './serverAuth';
+
+// Upper bound for one call's cost (USD) - far above any real call, stops a bad record from
+// tripping the spend budget on its own
+const MAX_CALL_COST_USD = 10;
+
+// Running total for a spend period (zero if nothing was spent yet)
+async function getPeriodSpend(ctx: QueryCtx | MutationCtx, period: string) {
+  return await ctx.db
+    .query('grokSpend')
+    .withIndex('by_period', (q) => q.eq('period', period))
+    .first();
+}
+
+// Record a Grok API call and add its cost to the current day and month (app server only)
+export const recordUsage = mutation({
+  args: {
+    serverSecret: v.string(),
+    operation: v.string(),
+    model: v.string(),
+    usernames: v.array(v.string()),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    reasoningTokens: v.number(),
+    totalTokens: v.number(),
+    sourcesUsed: v.number(),
+    cost: v.number(),
+  },
+  handler: async (ctx, { serverSecret, ...args }) => {
+    assertServer(serverSecret);
+
+    const counts = [
+      args.promptTokens,
+      args.completionTokens,
+      args.reasoningTokens,
+      args.totalTokens,
+    ];
+    if (counts.some((count) => !Number.isFinite(count) || count < 0)) {
+      throw new Error('Token counts must be non-negative');
+    }
+    if (!Number.isFinite(args.cost) || args.cost < 0 || args.cost > MAX_CALL_COST_USD) {
+      throw new Error(`Cost must be between 0 and ${MAX_CALL_COST_USD} USD`);
+    }
+
+    const now = Date.now();
+
+    await ctx.db.insert('grokUsage', {
+      ...args,
+      usernames: args.usernames.map((username) => username.toLowerCase()),
+      createdAt: now,
+    });
+
+    const { day, month } = getSpendPeriods(now);
+    for (const period of [day, month]) {
+      const existing = await getPeriodSpend(ctx, period);
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          cost: existing.cost + args.cost,
+          calls: existing.calls + 1,
+        });
+      } else {
+        await ctx.db.insert('grokSpend', { period, cost: args.cost, calls: 1 });
+      }
+    }
+
+    return null;
+  },
+});
+
+// Get Grok spend for the current UTC day and month
+export const getSpend = query({
+  args: {},
+  handler: async (ctx) => {
+    const { day, month } = getSpendPeriods(Date.now());
+    const [daily, monthly] = await Promise.all([
+      getPeriodSpend(ctx, day),
+      getPeriodSpend(ctx, month),
+    ]);
+
+    return { daily: daily?.cost ?? 0, monthly: monthly?.cost ?? 0 };
+  },
+});
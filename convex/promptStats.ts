@@ -0,0 +1,75 @@
+import { v } from 'convex/values';
+import { mutation } from './_generated/server';
+import { assertServer } from './serverAuth';
+
+// Score ranges per variant: 0-9, 10-19, ... 90-100
+const SCORE_BUCKETS = 10;
+
+// Bucket of a 0-100 score (100 goes with 90-99)
+function scoreBucket(score: number): number {
+  const clamped = Math.min(100, Math.max(0, score));
+  return Math.min(SCORE_BUCKETS - 1, Math.floor(clamped / (100 / SCORE_BUCKETS)));
+}
+
+// Add one run of a prompt variant to its running totals (server only)
+export const recordPromptRun = mutation({
+  args: {
+    serverSecret: v.string(),
+    stage: v.string(),
+    promptVersion: v.string(),
+    experimentId: v.optional(v.string()),
+    parsed: v.boolean(), // False when the response couldn't be parsed even after repair
+    score: v.optional(v.number()), // Profile quality of a fetched profile
+    vibeType: v.optional(v.string()), // Vibe type a matching call picked
+  },
+  handler: async (ctx, { serverSecret, ...args }) => {
+    assertServer(serverSecret);
+    const now = Date.now();
+    const { parsed, score, vibeType } = args;
+
+    const existing = await ctx.db
+      .query('promptStats')
+      .withIndex('by_variant', (q) =>
+        q
+          .eq('stage', args.stage)
+          .eq('promptVersion', args.promptVersion)
+          .eq('experimentId', args.experimentId)
+      )
+      .first();
+
+    const scoreBuckets = existing?.scoreBuckets ?? new Array<number>(SCORE_BUCKETS).fill(0);
+    if (score !== undefined) {
+      scoreBuckets[scoreBucket(score)] += 1;
+    }
+
+    const vibeTypes = { ...existing?.vibeTypes };
+    if (vibeType !== undefined) {
+      vibeTypes[vibeType] = (vibeTypes[vibeType] ?? 0) + 1;
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        runs: existing.runs + 1,
+        parseFailures: existing.parseFailures + (parsed ? 0 : 1),
+        scoreSum: existing.scoreSum + (score ?? 0),
+        scoreBuckets,
+        vibeTypes,
+        lastRunAt: now,
+      });
+    } else {
+      await ctx.db.insert('promptStats', {
+        stage: args.stage,
+        promptVersion: args.promptVersion,
+        experimentId: args.experimentId,
+        runs: 1,
+        parseFailures: parsed ? 0 : 1,
+        scoreSum: score ?? 0,
+        scoreBuckets,
+        vibeTypes,
+        lastRunAt: now,
+      });
+    }
+
+    return null;
+  },
+});
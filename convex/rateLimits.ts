@@ -0,0 +1,59 @@
+import { v } from 'convex/values';
+import { mutation } from './_generated/server';
+import { consumeSlidingWindow } from '../lib/security/sliding-window';
+import { assertServer } from './serverAuth';
+
+// Count a hit for a client's bucket (atomic, so concurrent instances share the window)
+// App server only - clients could otherwise spend each other's quota. The app passes the limit
+// and window from its RATE_LIMIT_* settings (see lib/security/rate-limit-policy.ts)
+export const consume = mutation({
+  args: {
+    serverSecret: v.string(),
+    bucket: v.union(v.literal('requests'), v.literal('fresh'), v.literal('group')),
+    client: v.string(), // 'ip:<address>' or 'key:<hash>'
+    limit: v.number(),
+    windowMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    assertServer(args.serverSecret);
+
+    const { limit, windowMs } = args;
+    if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(windowMs) || windowMs < 1) {
+      throw new Error('Invalid rate limit');
+    }
+
+    const key = `${args.bucket}:${args.client}`;
+
+    const existing = await ctx.db
+      .query('rateLimits')
+      .withIndex('by_key', (q) => q.eq('key', key))
+      .first();
+
+    const decision = consumeSlidingWindow(
+      existing && {
+        windowStart: existing.windowStart,
+        count: existing.count,
+        previousCount: existing.previousCount,
+      },
+      Date.now(),
+      limit,
+      windowMs
+    );
+
+    if (decision.allowed) {
+      if (existing) {
+        await ctx.db.patch(existing._id, decision.counter);
+      } else {
+        await ctx.db.insert('rateLimits', { key, ...decision.counter });
+      }
+    }
+
+    return {
+      allowed: decision.allowed,
+      limit,
+      remaining: decision.remaining,
+      resetAt: decision.resetAt,
+      windowMs,
+    };
+  },
+});
@@ -0,0 +1,96 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+import { assertServer } from './serverAuth';
+import { scoringPresetValidator, staleReasonValidator } from './validators';
+import { sortUsers } from './vibeMatches';
+
+// Entries are dropped after this many failed refreshes
+const MAX_REFRESH_ATTEMPTS = 3;
+
+// Queue a pair for refresh (one entry per pair and preset) - app server only, since every entry
+// is refreshed with Grok calls no client's rate limit pays for
+export const enqueueRefresh = mutation({
+  args: {
+    serverSecret: v.string(),
+    user1: v.string(),
+    user2: v.string(),
+    scoringPreset: v.optional(scoringPresetValidator), // Omitted for the default preset
+    reason: staleReasonValidator,
+  },
+  handler: async (ctx, { serverSecret, ...args }) => {
+    assertServer(serverSecret);
+
+    const [userOne, userTwo] = sortUsers(args.user1, args.user2);
+
+    const existing = await ctx.db
+      .query('refreshQueue')
+      .withIndex('by_users_preset', (q) =>
+        q
+          .eq('userOneTag', userOne)
+          .eq('userTwoTag', userTwo)
+          .eq('scoringPreset', args.scoringPreset)
+      )
+      .first();
+
+    if (existing) {
+      return { queued: false, id: existing._id };
+    }
+
+    const id = await ctx.db.insert('refreshQueue', {
+      userOneTag: userOne,
+      userTwoTag: userTwo,
+      scoringPreset: args.scoringPreset,
+      reason: args.reason,
+      attempts: 0,
+      createdAt: Date.now(),
+    });
+
+    return { queued: true, id };
+  },
+});
+
+// Get the oldest queued refreshes
+export const getPendingRefreshes = query({
+  args: { limit: v.number() },
+  handler: async (ctx, args) => {
+    return await ctx.db.query('refreshQueue').withIndex('by_created').order('asc').take(args.limit);
+  },
+});
+
+// Remove a refreshed entry (app server only)
+export const completeRefresh = mutation({
+  args: { serverSecret: v.string(), id: v.id('refreshQueue') },
+  handler: async (ctx, args) => {
+    assertServer(args.serverSecret);
+
+    const entry = await ctx.db.get(args.id);
+    if (!entry) {
+      return { deleted: false };
+    }
+
+    await ctx.db.delete(args.id);
+    return { deleted: true };
+  },
+});
+
+// Record a failed refresh - entries that keep failing are dropped (app server only)
+export const failRefresh = mutation({
+  args: { serverSecret: v.string(), id: v.id('refreshQueue') },
+  handler: async (ctx, args) => {
+    assertServer(args.serverSecret);
+
+    const entry = await ctx.db.get(args.id);
+    if (!entry) {
+      return { dropped: false };
+    }
+
+    const attempts = entry.attempts + 1;
+    if (attempts >= MAX_REFRESH_ATTEMPTS) {
+      await ctx.db.delete(args.id);
+      return { dropped: true };
+    }
+
+    await ctx.db.patch(args.id, { attempts, lastAttemptAt: Date.now() });
+    return { dropped: false };
+  },
+});
@@ -0,0 +1,211 @@
+import { v } from 'convex/values';
+import type { PaginationResult } from 'convex/server';
+import { internalMutation, type MutationCtx } from './_generated/server';
+import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { getProfileTTL } from './userProfiles';
+import { deleteMatchRow, getMatchTTL } from './vibeMatches';
+import { getSpendPeriods } from '../features/vibe-analysis/lib/usage-tracker';
+import { advanceRetentionRun, RETENTION_BATCH_SIZE } from '../lib/retention-batch';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rate limit windows are minutes long - a counter untouched for a day is dead
+const RATE_LIMIT_RETENTION_MS = DAY_MS;
+
+// Tables cleaned by age (createdAt via their by_created index)
+// Retention windows are separate from the freshness TTLs: expired profiles and matches are
+// still served by the stale fallback, so they are never deleted before their TTL
+const AGE_RETENTION = {
+  userProfiles: { envVar: 'USER_PROFILE_RETENTION_DAYS', defaultDays: 30, minTTL: getProfileTTL },
+  vibeMatches: { envVar: 'VIBE_MATCH_RETENTION_DAYS', defaultDays: 30, minTTL: getMatchTTL },
+  analysisJobs: { envVar: 'ANALYSIS_JOB_RETENTION_DAYS', defaultDays: 7 },
+  refreshQueue: { envVar: 'REFRESH_QUEUE_RETENTION_DAYS', defaultDays: 7 },
+  grokUsage: { envVar: 'GROK_USAGE_RETENTION_DAYS', defaultDays: 90 },
+  adminAuditLog: { envVar: 'ADMIN_AUDIT_RETENTION_DAYS', defaultDays: 365 },
+  vibeMatchHistory: { envVar: 'MATCH_HISTORY_RETENTION_DAYS', defaultDays: 365 },
+  userProfileSnapshots: { envVar: 'PROFILE_SNAPSHOT_RETENTION_DAYS', defaultDays: 365 },
+} as const;
+
+// Running totals, scanned whole (a row per period / prompt variant): spend periods that ended
+// and prompt variants that stopped running before the cutoff are deleted
+const TOTALS_RETENTION = {
+  grokSpend: { envVar: 'GROK_SPEND_RETENTION_DAYS', defaultDays: 400 },
+  promptStats: { envVar: 'PROMPT_STATS_RETENTION_DAYS', defaultDays: 90 },
+} as const;
+
+type AgeRetentionTable = keyof typeof AGE_RETENTION;
+type TotalsRetentionTable = keyof typeof TOTALS_RETENTION;
+
+// Everything the cleanup handles: age-based tables and running totals, plus expired leases and
+// idle rate limit counters
+const RETENTION_TABLES = [
+  ...(Object.keys(AGE_RETENTION) as AgeRetentionTable[]),
+  ...(Object.keys(TOTALS_RETENTION) as TotalsRetentionTable[]),
+  'analysisLeases',
+  'rateLimits',
+] as const;
+
+type RetentionTable = (typeof RETENTION_TABLES)[number];
+
+function isRetentionTable(table: string): table is RetentionTable {
+  return (RETENTION_TABLES as readonly string[]).includes(table);
+}
+
+// Retention window in days from the environment (with fallback to the default)
+function getRetentionDays(envVar: string, defaultDays: number): number {
+  const days = Number(process.env[envVar]);
+  return Number.isFinite(days) && days > 0 ? days : defaultDays;
+}
+
+// Rows created (or, for leases and rate limits, expired / last used) before this are deleted
+function getCutoff(table: RetentionTable, now: number): number {
+  if (table === 'analysisLeases') return now;
+  if (table === 'rateLimits') return now - RATE_LIMIT_RETENTION_MS;
+  if (table === 'grokSpend' || table === 'promptStats') {
+    const policy = TOTALS_RETENTION[table];
+    return now - getRetentionDays(policy.envVar, policy.defaultDays) * DAY_MS;
+  }
+
+  const policy = AGE_RETENTION[table];
+  const retentionMs = getRetentionDays(policy.envVar, policy.defaultDays) * DAY_MS;
+  const minMs = 'minTTL' in policy ? policy.minTTL() * 1000 : 0;
+  return now - Math.max(retentionMs, minMs);
+}
+
+interface ScannedBatch {
+  expired: Id<RetentionTable>[];
+  scanned: number;
+  isDone: boolean;
+  continueCursor: string;
+}
+
+// Split a page into the rows to delete and the ones to keep
+function splitPage<T extends { _id: Id<RetentionTable> }>(
+  page: PaginationResult<T>,
+  isExpired: (row: T) => boolean = () => true
+): ScannedBatch {
+  return {
+    expired: page.page.filter(isExpired).map((row) => row._id),
+    scanned: page.page.length,
+    isDone: page.isDone,
+    continueCursor: page.continueCursor,
+  };
+}
+
+// Next page of rows past the cutoff (oldest first) and which of them to delete
+async function scanBatch(
+  ctx: MutationCtx,
+  table: RetentionTable,
+  cutoff: number,
+  cursor: string | null
+): Promise<ScannedBatch> {
+  const page = { numItems: RETENTION_BATCH_SIZE, cursor };
+
+  switch (table) {
+    case 'analysisLeases':
+      return splitPage(
+        await ctx.db
+          .query('analysisLeases')
+          .withIndex('by_expires', (q) => q.lt('expiresAt', cutoff))
+          .paginate(page)
+      );
+    case 'rateLimits':
+      return splitPage(
+        await ctx.db
+          .query('rateLimits')
+          .withIndex('by_window_start', (q) => q.lt('windowStart', cutoff))
+          .paginate(page)
+      );
+    case 'analysisJobs':
+      // A job updated since the cutoff is still running (or only just finished)
+      return splitPage(
+        await ctx.db
+          .query('analysisJobs')
+          .withIndex('by_created', (q) => q.lt('createdAt', cutoff))
+          .paginate(page),
+        (job) => job.updatedAt < cutoff
+      );
+    case 'grokSpend': {
+      // Period keys sort by date, so a period before the cutoff's day / month has ended
+      const { day, month } = getSpendPeriods(cutoff);
+      return splitPage(await ctx.db.query('grokSpend').paginate(page), (row) =>
+        row.period.startsWith('day:') ? row.period < day : row.period < month
+      );
+    }
+    case 'promptStats':
+      return splitPage(
+        await ctx.db.query('promptStats').paginate(page),
+        (variant) => variant.lastRunAt < cutoff
+      );
+    default:
+      return splitPage(
+        await ctx.db
+          .query(table)
+          .withIndex('by_created', (q) => q.lt('createdAt', cutoff))
+          .paginate(page)
+      );
+  }
+}
+
+// Start a cleanup run for every table (called by the daily cron, see crons.ts)
+export const startCleanup = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    for (const table of RETENTION_TABLES) {
+      const runId = await ctx.db.insert('retentionRuns', {
+        table,
+        cutoff: getCutoff(table, now),
+        scanned: 0,
+        deleted: 0,
+        batches: 0,
+        startedAt: now,
+      });
+
+      await ctx.scheduler.runAfter(0, internal.retention.cleanupBatch, { runId });
+    }
+
+    return null;
+  },
+});
+
+// Delete one batch for a run and schedule the next until the scan is done (or hits the batch cap)
+export const cleanupBatch = internalMutation({
+  args: { runId: v.id('retentionRuns') },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run || run.finishedAt !== undefined || !isRetentionTable(run.table)) {
+      return null;
+    }
+
+    const batch = await scanBatch(ctx, run.table, run.cutoff, run.cursor ?? null);
+    for (const id of batch.expired) {
+      // Matches take their participant rows with them
+      if (run.table === 'vibeMatches') {
+        await deleteMatchRow(ctx, id as Id<'vibeMatches'>);
+      } else {
+        await ctx.db.delete(id);
+      }
+    }
+
+    const { progress, more } = advanceRetentionRun(run, {
+      scanned: batch.scanned,
+      deleted: batch.expired.length,
+      isDone: batch.isDone,
+    });
+
+    await ctx.db.patch(args.runId, {
+      ...progress,
+      cursor: batch.continueCursor,
+      finishedAt: more ? undefined : Date.now(),
+    });
+
+    if (more) {
+      await ctx.scheduler.runAfter(0, internal.retention.cleanupBatch, { runId: args.runId });
+    }
+
+    return null;
+  },
+});
@@ -1,5 +1,13 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { v } from 'convex/values';
+import {
+  analysisDepthValidator,
+  analysisJobErrorValidator,
+  analysisJobStatusValidator,
+  matchBreakdownFields,
+  sampleTweetValidator,
+  vibeAnalysisResultValidator,
+} from './validators';
 
 export default defineSchema({
   userProfiles: defineTable({
@@ -44,14 +52,23 @@ export default defineSchema({
     humorRating: v.optional(v.number()), // 0=serious only, 1=constantly joking
     aiGeneratedRating: v.optional(v.number()), // 0=clearly human, 1=likely AI-generated
 
+    // Precomputed normalized vector of the 15 dimensions (see features/vibe-analysis/lib/dimension-vector.ts)
+    // Lets rankings score against every cached profile without rebuilding full profiles
+    dimensionVector: v.optional(v.array(v.union(v.number(), v.null()))),
+
     // Topics & Traits
     topTopics: v.array(v.string()),
     notableTraits: v.array(v.string()),
 
+    // First few recent tweets, shown on the profile page (missing on profiles cached before)
+    sampleTweets: v.optional(v.array(sampleTweetValidator)),
+
     // Data Quality Metrics
     searchConfidence: v.number(), // 0-100
     dataCompleteness: v.number(), // 0-100
 
+    promptVersion: v.optional(v.string()), // Prompt that produced it (see config/prompt-registry.ts)
+
     // Timestamp (Unix milliseconds)
     createdAt: v.number(),
   })
@@ -73,14 +90,203 @@ export default defineSchema({
     strengths: v.array(v.string()),
     challenges: v.array(v.string()),
     sharedInterests: v.array(v.string()),
+    dimensionAnalysis: v.optional(v.record(v.string(), v.string())), // Per-dimension commentary (deep)
+
+    // Calculated breakdown (schema v2+)
+    ...matchBreakdownFields,
 
     // Metadata
     modelUsed: v.optional(v.string()),
     sourcesUsed: v.number(),
+    analysisDepth: v.optional(v.string()), // 'standard' or 'deep'
+    scoringPreset: v.optional(v.string()), // Missing = default preset (see config/scoring-presets.ts)
+    schemaVersion: v.optional(v.number()), // Missing = v1 (see MATCH_SCHEMA_VERSION)
+    promptVersion: v.optional(v.string()), // Missing = cached before prompt versioning
 
     // Timestamp (Unix milliseconds)
     createdAt: v.number(),
   })
     .index('by_users', ['userOneTag', 'userTwoTag'])
+    .index('by_users_preset', ['userOneTag', 'userTwoTag', 'scoringPreset'])
+    .index('by_created', ['createdAt']),
+
+  // One row per side of each vibeMatches row, so a user's matches can be listed by index
+  // Written and deleted together with the match (see vibeMatches.ts)
+  matchParticipants: defineTable({
+    username: v.string(), // Lowercased
+    otherUser: v.string(), // Lowercased
+    matchId: v.id('vibeMatches'),
+    score: v.number(),
+    scoreSuppressed: v.optional(v.boolean()), // Copied from the match - the score isn't shown
+    vibeType: v.optional(v.string()),
+    scoringPreset: v.optional(v.string()), // Missing = default preset
+    createdAt: v.number(), // Copied from the match
+  })
+    .index('by_match', ['matchId'])
+    .index('by_username_score', ['username', 'scoringPreset', 'score'])
+    .index('by_username_created', ['username', 'scoringPreset', 'createdAt'])
+    .index('by_username_any_preset_created', ['username', 'createdAt']),
+
+  // Append-only: one row per fresh analysis, never replaced (vibeMatches only keeps the latest)
+  vibeMatchHistory: defineTable({
+    // User identifiers (always sorted alphabetically)
+    userOneTag: v.string(),
+    userTwoTag: v.string(),
+
+    score: v.number(), // 0-100 compatibility score
+    vibeType: v.optional(v.string()),
+    ...matchBreakdownFields,
+    modelUsed: v.optional(v.string()),
+    analysisDepth: v.optional(v.string()),
+    scoringPreset: v.optional(v.string()), // Missing = default preset
+    promptVersion: v.optional(v.string()),
+
+    // Timestamp (Unix milliseconds)
+    createdAt: v.number(),
+  })
+    .index('by_users_created', ['userOneTag', 'userTwoTag', 'createdAt'])
+    .index('by_created', ['createdAt']),
+
+  // Append-only: one row per fresh profile fetch, never replaced (userProfiles only keeps the latest)
+  userProfileSnapshots: defineTable({
+    username: v.string(),
+    dimensionVector: v.optional(v.array(v.union(v.number(), v.null()))), // See userProfiles
+    topTopics: v.array(v.string()),
+    searchConfidence: v.number(), // 0-100
+    dataCompleteness: v.number(), // 0-100
+    promptVersion: v.optional(v.string()),
+
+    // Timestamp (Unix milliseconds)
+    createdAt: v.number(),
+  })
+    .index('by_username_created', ['username', 'createdAt'])
     .index('by_created', ['createdAt']),
+
+  // Background analyses (POST /api/vibe/jobs) - run by analysisJobsNode.runAnalysisJob
+  analysisJobs: defineTable({
+    // Users in the requested order (not sorted)
+    userOne: v.string(),
+    userTwo: v.string(),
+    analysisDepth: analysisDepthValidator,
+    scoringPreset: v.optional(v.string()), // Missing = default preset
+    handoffId: v.optional(v.string()), // Streamed analysis the job took over (one job each)
+
+    status: analysisJobStatusValidator,
+    result: v.optional(vibeAnalysisResultValidator), // Set when done
+    error: v.optional(analysisJobErrorValidator), // Set when failed
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_created', ['createdAt'])
+    .index('by_handoff', ['handoffId']),
+
+  // Pairs served from expired cache while Grok was unavailable - refreshed once it recovers
+  refreshQueue: defineTable({
+    // User identifiers (always sorted alphabetically)
+    userOneTag: v.string(),
+    userTwoTag: v.string(),
+    scoringPreset: v.optional(v.string()), // Missing = default preset
+
+    reason: v.string(), // Why the stale result was served ('circuit_open', 'credits_exhausted', 'budget_exceeded')
+    attempts: v.number(), // Failed refresh attempts so far
+
+    // Timestamps (Unix milliseconds)
+    createdAt: v.number(),
+    lastAttemptAt: v.optional(v.number()),
+  })
+    .index('by_users_preset', ['userOneTag', 'userTwoTag', 'scoringPreset'])
+    .index('by_created', ['createdAt']),
+
+  // Cross-instance locks so one server instance runs an analysis while the others wait
+  analysisLeases: defineTable({
+    key: v.string(), // 'match:<user>:<user>:<preset>:<depth>' or 'profile:<username>:<depth>'
+    owner: v.string(), // Random ID of the call holding the lease
+
+    // Timestamps (Unix milliseconds)
+    acquiredAt: v.number(),
+    expiresAt: v.number(), // A crashed holder's lease can be taken over after this
+  })
+    .index('by_key', ['key'])
+    .index('by_expires', ['expiresAt']),
+
+  // Sliding window rate limit counters per client and bucket
+  rateLimits: defineTable({
+    key: v.string(), // '<bucket>:<client>' (client is 'ip:<address>' or 'key:<hash>')
+
+    // Counter state (see lib/security/sliding-window.ts)
+    windowStart: v.number(), // Start of the current fixed window (Unix milliseconds)
+    count: v.number(),
+    previousCount: v.number(),
+  })
+    .index('by_key', ['key'])
+    .index('by_window_start', ['windowStart']),
+
+  // One row per Grok API call (cost ledger)
+  grokUsage: defineTable({
+    operation: v.string(), // 'fetchProfile', 'matchVibe' or 'consistencyCheck'
+    model: v.string(),
+    usernames: v.array(v.string()), // Lowercased
+
+    // Tokens
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    reasoningTokens: v.number(),
+    totalTokens: v.number(),
+    sourcesUsed: v.number(), // Live Search sources
+
+    cost: v.number(), // USD
+
+    // Timestamp (Unix milliseconds)
+    createdAt: v.number(),
+  }).index('by_created', ['createdAt']),
+
+  // Running Grok spend per UTC day and month (checked against the budget)
+  grokSpend: defineTable({
+    period: v.string(), // 'day:YYYY-MM-DD' or 'month:YYYY-MM'
+    cost: v.number(), // USD
+    calls: v.number(),
+  }).index('by_period', ['period']),
+
+  // Running outcome totals per prompt variant (see config/prompt-registry.ts)
+  promptStats: defineTable({
+    stage: v.string(), // 'fetchProfile' or 'matchVibe'
+    promptVersion: v.string(),
+    experimentId: v.optional(v.string()), // Missing = served without an experiment
+    runs: v.number(),
+    parseFailures: v.number(), // Responses that couldn't be parsed even after repair
+    scoreSum: v.number(), // Profile quality of scored runs (fetchProfile)
+    scoreBuckets: v.array(v.number()), // Scored runs per 10-point range (0-9 ... 90-100)
+    vibeTypes: v.optional(v.record(v.string(), v.number())), // Matching runs per vibe type
+
+    // Timestamp (Unix milliseconds)
+    lastRunAt: v.number(),
+  }).index('by_variant', ['stage', 'promptVersion', 'experimentId']),
+
+  // Every action taken from the /admin dashboard
+  adminAuditLog: defineTable({
+    action: v.string(), // 'delete_profile', 'delete_match', 'refresh_profile', 'refresh_match'
+    target: v.string(), // Username, or '<user>:<user>' for matches
+    outcome: v.union(v.literal('succeeded'), v.literal('failed')),
+    error: v.optional(v.string()), // Set when the action failed
+    actor: v.string(), // Client the admin acted from ('ip:<address>')
+
+    // Timestamp (Unix milliseconds)
+    createdAt: v.number(),
+  }).index('by_created', ['createdAt']),
+
+  // One row per table per scheduled cleanup (see retention.ts)
+  retentionRuns: defineTable({
+    table: v.string(),
+    cutoff: v.number(), // Rows created (or expired) before this were deleted (Unix milliseconds)
+    scanned: v.number(), // Rows examined
+    deleted: v.number(), // Rows deleted - fewer than scanned when some were still in use
+    batches: v.number(),
+    cursor: v.optional(v.string()), // Where the next batch continues (missing before the first)
+
+    // Timestamps (Unix milliseconds)
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()), // Missing while batches are still running
+  }).index('by_started', ['startedAt']),
 });
@@ -0,0 +1,17 @@
+// Functions that only the app server may call take its CONVEX_SERVER_SECRET - set the same value
+// in the Convex deployment's environment. Without it every such call is rejected
+export function assertServer(serverSecret: string) {
+  const expected = process.env.CONVEX_SERVER_SECRET;
+  if (!expected || !tokensMatch(serverSecret, expected)) {
+    throw new Error('Unauthorized');
+  }
+}
+
+// Compare without returning early on the first differing character
+export function tokensMatch(candidate: string, expected: string): boolean {
+  let difference = candidate.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (candidate.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
@@ -1,14 +1,16 @@
 import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
 import { mutation, query } from './_generated/server';
+import { sampleTweetValidator } from './validators';
 
 // Get TTL from environment (with fallback to 1 hour)
-function getProfileTTL(): number {
+export function getProfileTTL(): number {
   const ttl = process.env.USER_PROFILE_TTL_SECONDS;
   return ttl ? Number(ttl) : 3600; // Default: 1 hour
 }
 
 // Check if profile is expired based on createdAt timestamp
-function isProfileExpired(createdAt: number): boolean {
+export function isProfileExpired(createdAt: number): boolean {
   const ttlMs = getProfileTTL() * 1000;
   return Date.now() > createdAt + ttlMs;
 }
@@ -39,10 +41,13 @@ export const upsertProfile = mutation({
     optimismRating: v.optional(v.number()),
     humorRating: v.optional(v.number()),
     aiGeneratedRating: v.optional(v.number()),
+    dimensionVector: v.optional(v.array(v.union(v.number(), v.null()))),
     topTopics: v.array(v.string()),
     notableTraits: v.array(v.string()),
+    sampleTweets: v.optional(v.array(sampleTweetValidator)),
     searchConfidence: v.number(),
     dataCompleteness: v.number(),
+    promptVersion: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -58,6 +63,17 @@ export const upsertProfile = mutation({
       await ctx.db.delete(existing._id);
     }
 
+    // Keep a snapshot so profile changes can be tracked over time
+    await ctx.db.insert('userProfileSnapshots', {
+      username: args.username,
+      dimensionVector: args.dimensionVector,
+      topTopics: args.topTopics,
+      searchConfidence: args.searchConfidence,
+      dataCompleteness: args.dataCompleteness,
+      promptVersion: args.promptVersion,
+      createdAt: now,
+    });
+
     // Insert fresh profile with current timestamp
     return await ctx.db.insert('userProfiles', {
       ...args,
@@ -86,53 +102,39 @@ export const getFreshProfile = query({
   },
 });
 
-// Get profile regardless of expiry (for debugging/admin purposes)
-export const getProfile = query({
-  args: { username: v.string() },
+// Page through dimension vectors of all fresh profiles (for rankings)
+export const getFreshDimensionVectors = query({
+  args: { paginationOpts: paginationOptsValidator },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const freshSince = Date.now() - getProfileTTL() * 1000;
+
+    const result = await ctx.db
       .query('userProfiles')
-      .withIndex('by_username', (q) => q.eq('username', args.username))
-      .first();
+      .withIndex('by_created', (q) => q.gt('createdAt', freshSince))
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page
+        .filter((profile) => profile.dimensionVector !== undefined)
+        .map((profile) => ({
+          username: profile.username,
+          dimensionVector: profile.dimensionVector!,
+          searchConfidence: profile.searchConfidence,
+          dataCompleteness: profile.dataCompleteness,
+        })),
+    };
   },
 });
 
-// Delete a specific profile
-export const deleteProfile = mutation({
+// Get profile regardless of expiry (stale fallback, debugging/admin purposes)
+export const getProfile = query({
   args: { username: v.string() },
   handler: async (ctx, args) => {
-    const profile = await ctx.db
+    return await ctx.db
       .query('userProfiles')
       .withIndex('by_username', (q) => q.eq('username', args.username))
       .first();
-
-    if (profile) {
-      await ctx.db.delete(profile._id);
-      return { deleted: true, username: args.username };
-    }
-
-    return { deleted: false, username: args.username };
-  },
-});
-
-// Clean up expired profiles (can be called by a cron job)
-export const deleteExpiredProfiles = mutation({
-  handler: async (ctx) => {
-    const profiles = await ctx.db.query('userProfiles').collect();
-    const deleted: string[] = [];
-
-    for (const profile of profiles) {
-      if (isProfileExpired(profile.createdAt)) {
-        await ctx.db.delete(profile._id);
-        deleted.push(profile.username);
-      }
-    }
-
-    return {
-      deletedCount: deleted.length,
-      deleted,
-      ttlSeconds: getProfileTTL(),
-    };
   },
 });
 
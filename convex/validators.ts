@@ -0,0 +1,198 @@
+import { v, type Validator } from 'convex/values';
+
+// Current vibeMatches row layout - bump when stored fields change and backfill older rows
+// v1: narrative only, v2: + dimension breakdown, category scores, top matches/clashes,
+// v3: + score range and suppression, v4: suppression copied to the participant rows
+export const MATCH_SCHEMA_VERSION = 4;
+
+// One dimension comparison from CompatibilityCalculator (user1/user2 follow userOneTag/userTwoTag)
+export const dimensionComparisonValidator = v.object({
+  dimension: v.string(),
+  user1Value: v.union(v.number(), v.null()),
+  user2Value: v.union(v.number(), v.null()),
+  difference: v.number(),
+  score: v.number(),
+  weight: v.number(),
+});
+
+// Calculated breakdown stored with each match so cached results match fresh ones
+export const matchBreakdownFields = {
+  dimensionBreakdown: v.optional(v.array(dimensionComparisonValidator)),
+  categoryScores: v.optional(v.record(v.string(), v.number())), // Category name -> 0-100
+  topMatches: v.optional(v.array(v.string())), // Dimension names
+  topClashes: v.optional(v.array(v.string())), // Dimension names
+  scoreRange: v.optional(v.object({ low: v.number(), high: v.number() })), // 0-100
+  scoreSuppressed: v.optional(v.boolean()), // Too few dimensions compared to show the score
+};
+
+// A recent tweet as returned in the profile fetch (see UserProfile.recentTweets)
+export const sampleTweetValidator = v.object({
+  text: v.string(),
+  isReply: v.optional(v.boolean()),
+  hasMedia: v.optional(v.boolean()),
+});
+
+// Pipeline depth requested for an analysis job
+export const analysisDepthValidator = v.union(
+  v.literal('quick'),
+  v.literal('standard'),
+  v.literal('deep')
+);
+
+// Scoring preset a server-only function accepts (see SCORING_PRESET_IDS)
+export const scoringPresetValidator = v.union(
+  v.literal('balanced'),
+  v.literal('friendship'),
+  v.literal('cofounder'),
+  v.literal('dating'),
+  v.literal('debate_partner')
+);
+
+// Why an expired result was served (see StaleReason)
+export const staleReasonValidator = v.union(
+  v.literal('circuit_open'),
+  v.literal('credits_exhausted'),
+  v.literal('budget_exceeded')
+);
+
+// Analysis job lifecycle: queued -> fetching_profiles -> matching -> done | failed
+export const analysisJobStatusValidator = v.union(
+  v.literal('queued'),
+  v.literal('fetching_profiles'),
+  v.literal('matching'),
+  v.literal('done'),
+  v.literal('failed')
+);
+
+// Why a job failed - same code / status the analyze API would have responded with
+export const analysisJobErrorValidator = v.object({
+  code: v.string(),
+  message: v.string(),
+  status: v.number(),
+  username: v.optional(v.string()), // Set for USER_NOT_FOUND and INSUFFICIENT_DATA
+});
+
+// Optional field of UserProfile that Grok reports as null when it can't tell
+const nullable = <T extends Validator<unknown, 'required', string>>(validator: T) =>
+  v.union(validator, v.null());
+
+// 0-1 personality rating (see PERSONALITY_DIMENSIONS)
+const ratingValidator = nullable(v.number());
+
+// Profile as returned by the profile fetch (see userProfileSchema)
+export const userProfileValidator = v.object({
+  username: v.string(),
+  displayName: nullable(v.string()),
+  recentTweets: nullable(v.array(sampleTweetValidator)),
+  contentStyle: v.object({
+    primaryContentType: nullable(
+      v.union(
+        v.literal('shitposts'),
+        v.literal('serious'),
+        v.literal('mixed'),
+        v.literal('news'),
+        v.literal('personal')
+      )
+    ),
+    humorStyle: nullable(
+      v.union(
+        v.literal('sarcastic'),
+        v.literal('wholesome'),
+        v.literal('edgy'),
+        v.literal('dry'),
+        v.literal('none')
+      )
+    ),
+    tone: nullable(
+      v.union(
+        v.literal('positive'),
+        v.literal('negative'),
+        v.literal('neutral'),
+        v.literal('mixed')
+      )
+    ),
+    usesEmojis: nullable(v.boolean()),
+    formality: nullable(
+      v.union(
+        v.literal('very_formal'),
+        v.literal('formal'),
+        v.literal('casual'),
+        v.literal('very_casual')
+      )
+    ),
+    positivityRating: ratingValidator,
+    empathyRating: ratingValidator,
+    engagementRating: ratingValidator,
+    debateRating: ratingValidator,
+    shitpostRating: ratingValidator,
+    memeRating: ratingValidator,
+    intellectualRating: ratingValidator,
+    politicalRating: ratingValidator,
+    personalSharingRating: ratingValidator,
+    inspirationalQuotesRating: ratingValidator,
+    extroversionRating: ratingValidator,
+    authenticityRating: ratingValidator,
+    optimismRating: ratingValidator,
+    humorRating: ratingValidator,
+    aiGeneratedRating: ratingValidator,
+  }),
+  topTopics: nullable(v.array(v.string())),
+  notableTraits: nullable(v.array(v.string())),
+  searchConfidence: v.number(), // 0-100
+  dataCompleteness: v.number(), // 0-100
+  citations: v.optional(
+    nullable(
+      v.array(
+        v.object({
+          id: v.optional(v.number()),
+          source: v.optional(v.string()),
+          url: v.optional(v.string()),
+          text: v.optional(v.string()),
+        })
+      )
+    )
+  ),
+});
+
+// Confidence and completeness (0-100) of one profile behind a result
+const profileQualityValidator = v.object({ confidence: v.number(), completeness: v.number() });
+
+// Full analysis result (see VibeAnalysisResult) - stored on finished jobs
+export const vibeAnalysisResultValidator = v.object({
+  score: v.number(),
+  analysis: v.string(),
+  strengths: v.array(v.string()),
+  challenges: v.array(v.string()),
+  sharedInterests: v.array(v.string()),
+  vibeType: v.optional(
+    v.union(
+      v.literal('perfect_match'),
+      v.literal('complementary'),
+      v.literal('growth'),
+      v.literal('challenging'),
+      v.literal('incompatible')
+    )
+  ),
+  recommendation: v.optional(v.string()),
+  dimensionAnalysis: v.optional(v.record(v.string(), v.string())),
+  profiles: v.optional(v.object({ user1: userProfileValidator, user2: userProfileValidator })),
+  stale: v.optional(v.boolean()),
+  staleAgeSeconds: v.optional(v.number()),
+  staleReason: v.optional(
+    v.union(v.literal('circuit_open'), v.literal('credits_exhausted'), v.literal('budget_exceeded'))
+  ),
+  metadata: v.object({
+    userOne: v.string(),
+    userTwo: v.string(),
+    sourcesUsed: v.number(),
+    timestamp: v.string(), // ISO 8601
+    modelUsed: v.optional(v.string()),
+    analysisDepth: v.optional(analysisDepthValidator),
+    scoringPreset: v.optional(v.string()),
+    promptVersion: v.optional(v.string()),
+    ...matchBreakdownFields,
+    profileQuality: v.optional(
+      v.object({ userOne: profileQualityValidator, userTwo: profileQualityValidator })
+    ),
+  }),
+});
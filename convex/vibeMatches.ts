@@ -1,24 +1,75 @@
 import { v } from 'convex/values';
-import { mutation, query } from './_generated/server';
+import { paginationOptsValidator } from 'convex/server';
+import { internalMutation, mutation, query, type MutationCtx } from './_generated/server';
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import { assertServer } from './serverAuth';
+import { MATCH_SCHEMA_VERSION, matchBreakdownFields } from './validators';
 
 // Helper to sort usernames for consistent storage (case-insensitive)
-function sortUsers(user1: string, user2: string): [string, string] {
+export function sortUsers(user1: string, user2: string): [string, string] {
   const sorted = [user1.toLowerCase(), user2.toLowerCase()].sort();
   return [sorted[0], sorted[1]];
 }
 
 // Get TTL from environment (with fallback to 2 hours)
-function getMatchTTL(): number {
+export function getMatchTTL(): number {
   const ttl = process.env.VIBE_MATCH_TTL_SECONDS;
   return ttl ? Number(ttl) : 7200; // Default: 2 hours
 }
 
+// History points returned by getMatchHistory
+const DEFAULT_HISTORY_POINTS = 30;
+const MAX_HISTORY_POINTS = 200;
+
+// Matches returned by getUserMatches
+const DEFAULT_USER_MATCHES = 50;
+const MAX_USER_MATCHES = 200;
+
+// Matches indexed per indexMatchParticipants batch
+const PARTICIPANT_BACKFILL_BATCH = 100;
+
 // Check if match is expired based on createdAt timestamp
-function isMatchExpired(createdAt: number): boolean {
+export function isMatchExpired(createdAt: number): boolean {
   const ttlMs = getMatchTTL() * 1000;
   return Date.now() > createdAt + ttlMs;
 }
 
+// Index both sides of a match for per-user lookups
+async function insertParticipants(ctx: MutationCtx, match: Doc<'vibeMatches'>) {
+  const sides = [
+    [match.userOneTag, match.userTwoTag],
+    [match.userTwoTag, match.userOneTag],
+  ];
+
+  for (const [username, otherUser] of sides) {
+    await ctx.db.insert('matchParticipants', {
+      username,
+      otherUser,
+      matchId: match._id,
+      score: match.score,
+      scoreSuppressed: match.scoreSuppressed,
+      vibeType: match.vibeType,
+      scoringPreset: match.scoringPreset,
+      createdAt: match.createdAt,
+    });
+  }
+}
+
+// Delete a match together with its participant rows
+export async function deleteMatchRow(ctx: MutationCtx, matchId: Id<'vibeMatches'>) {
+  const participants = await ctx.db
+    .query('matchParticipants')
+    .withIndex('by_match', (q) => q.eq('matchId', matchId))
+    .collect();
+
+  for (const participant of participants) {
+    await ctx.db.delete(participant._id);
+  }
+
+  await ctx.db.delete(matchId);
+}
+
 // Create or replace match with fresh data
 export const upsertMatch = mutation({
   args: {
@@ -31,32 +82,143 @@ export const upsertMatch = mutation({
     strengths: v.array(v.string()),
     challenges: v.array(v.string()),
     sharedInterests: v.array(v.string()),
+    dimensionAnalysis: v.optional(v.record(v.string(), v.string())),
+    ...matchBreakdownFields,
     modelUsed: v.optional(v.string()),
     sourcesUsed: v.number(),
+    analysisDepth: v.optional(v.string()),
+    scoringPreset: v.optional(v.string()), // Omitted for the default preset
+    promptVersion: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Sort usernames for consistent storage
+    // Callers pass the breakdown already oriented to the sorted order
     const [userOne, userTwo] = sortUsers(args.userOneTag, args.userTwoTag);
     const now = Date.now();
 
-    // Check for existing match
+    // Check for existing match with the same scoring preset
     const existing = await ctx.db
       .query('vibeMatches')
-      .withIndex('by_users', (q) => q.eq('userOneTag', userOne).eq('userTwoTag', userTwo))
+      .withIndex('by_users_preset', (q) =>
+        q
+          .eq('userOneTag', userOne)
+          .eq('userTwoTag', userTwo)
+          .eq('scoringPreset', args.scoringPreset)
+      )
       .first();
 
     if (existing) {
       // Replace with fresh data and new timestamp
-      await ctx.db.delete(existing._id);
+      await deleteMatchRow(ctx, existing._id);
     }
 
+    // Append to history so score changes can be tracked over time
+    await ctx.db.insert('vibeMatchHistory', {
+      userOneTag: userOne,
+      userTwoTag: userTwo,
+      score: args.score,
+      vibeType: args.vibeType,
+      dimensionBreakdown: args.dimensionBreakdown,
+      categoryScores: args.categoryScores,
+      topMatches: args.topMatches,
+      topClashes: args.topClashes,
+      scoreRange: args.scoreRange,
+      scoreSuppressed: args.scoreSuppressed,
+      modelUsed: args.modelUsed,
+      analysisDepth: args.analysisDepth,
+      scoringPreset: args.scoringPreset,
+      promptVersion: args.promptVersion,
+      createdAt: now,
+    });
+
     // Insert fresh match with sorted usernames
-    return await ctx.db.insert('vibeMatches', {
+    const matchId = await ctx.db.insert('vibeMatches', {
       ...args,
       userOneTag: userOne,
       userTwoTag: userTwo,
+      schemaVersion: MATCH_SCHEMA_VERSION,
       createdAt: now,
     });
+
+    await insertParticipants(ctx, (await ctx.db.get(matchId))!);
+    return matchId;
+  },
+});
+
+// Page through matches stored with an older schema version (for backfills)
+export const getOutdatedMatches = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('vibeMatches')
+      .filter((q) =>
+        q.or(
+          q.eq(q.field('schemaVersion'), undefined),
+          q.lt(q.field('schemaVersion'), MATCH_SCHEMA_VERSION)
+        )
+      )
+      .paginate(args.paginationOpts);
+  },
+});
+
+// Write participant rows for matches cached before matchParticipants existed, a batch at a time
+// Run once with `npx convex run vibeMatches:indexMatchParticipants` - each batch schedules the next
+export const indexMatchParticipants = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query('vibeMatches')
+      .paginate({ numItems: PARTICIPANT_BACKFILL_BATCH, cursor: args.cursor ?? null });
+
+    for (const match of page.page) {
+      const existing = await ctx.db
+        .query('matchParticipants')
+        .withIndex('by_match', (q) => q.eq('matchId', match._id))
+        .first();
+
+      if (!existing) {
+        await insertParticipants(ctx, match);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.vibeMatches.indexMatchParticipants, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return null;
+  },
+});
+
+// Backfill the calculated breakdown of an existing match (keeps createdAt so TTL is unchanged)
+// Server secret only - the breakdown and suppression are shown on embeds and share cards
+export const patchMatchBreakdown = mutation({
+  args: {
+    serverSecret: v.string(),
+    id: v.id('vibeMatches'),
+    ...matchBreakdownFields,
+  },
+  handler: async (ctx, args) => {
+    const { serverSecret, id, ...breakdown } = args;
+    assertServer(serverSecret);
+
+    const match = await ctx.db.get(id);
+    if (!match) {
+      return { patched: false };
+    }
+
+    await ctx.db.patch(id, { ...breakdown, schemaVersion: MATCH_SCHEMA_VERSION });
+
+    const participants = await ctx.db
+      .query('matchParticipants')
+      .withIndex('by_match', (q) => q.eq('matchId', id))
+      .collect();
+    for (const participant of participants) {
+      await ctx.db.patch(participant._id, { scoreSuppressed: breakdown.scoreSuppressed });
+    }
+
+    return { patched: true };
   },
 });
 
@@ -65,6 +227,7 @@ export const getFreshMatch = query({
   args: {
     user1: v.string(),
     user2: v.string(),
+    scoringPreset: v.optional(v.string()), // Omitted for the default preset
   },
   handler: async (ctx, args) => {
     // Sort usernames for consistent lookup
@@ -72,7 +235,12 @@ export const getFreshMatch = query({
 
     const match = await ctx.db
       .query('vibeMatches')
-      .withIndex('by_users', (q) => q.eq('userOneTag', userOne).eq('userTwoTag', userTwo))
+      .withIndex('by_users_preset', (q) =>
+        q
+          .eq('userOneTag', userOne)
+          .eq('userTwoTag', userTwo)
+          .eq('scoringPreset', args.scoringPreset)
+      )
       .first();
 
     if (!match) return null;
@@ -86,93 +254,133 @@ export const getFreshMatch = query({
   },
 });
 
-// Get match regardless of expiry (for debugging/admin purposes)
-export const getMatch = query({
+// Get the score and per-dimension time series for a pair (oldest first)
+export const getMatchHistory = query({
   args: {
     user1: v.string(),
     user2: v.string(),
+    scoringPreset: v.optional(v.string()), // Omitted for the default preset
+    limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     // Sort usernames for consistent lookup
     const [userOne, userTwo] = sortUsers(args.user1, args.user2);
-
-    return await ctx.db
-      .query('vibeMatches')
-      .withIndex('by_users', (q) => q.eq('userOneTag', userOne).eq('userTwoTag', userTwo))
-      .first();
-  },
-});
-
-// Get all matches for a specific user
-export const getUserMatches = query({
-  args: { username: v.string() },
-  handler: async (ctx, args) => {
-    const userLower = args.username.toLowerCase();
-
-    // Get matches where user is userOne
-    const matchesAsOne = await ctx.db
-      .query('vibeMatches')
-      .filter((q) => q.eq(q.field('userOneTag'), userLower))
-      .collect();
-
-    // Get matches where user is userTwo
-    const matchesAsTwo = await ctx.db
-      .query('vibeMatches')
-      .filter((q) => q.eq(q.field('userTwoTag'), userLower))
-      .collect();
-
-    // Combine and sort by creation date (newest first)
-    const allMatches = [...matchesAsOne, ...matchesAsTwo].sort((a, b) => b.createdAt - a.createdAt);
-
-    // Add expiry status to each match
-    return allMatches.map((match) => ({
-      ...match,
-      isExpired: isMatchExpired(match.createdAt),
+    const swapped = userOne !== args.user1.toLowerCase();
+
+    // Scores from different presets aren't comparable - only chart one preset
+    const rows = await ctx.db
+      .query('vibeMatchHistory')
+      .withIndex('by_users_created', (q) => q.eq('userOneTag', userOne).eq('userTwoTag', userTwo))
+      .filter((q) => q.eq(q.field('scoringPreset'), args.scoringPreset))
+      .order('desc')
+      .take(Math.min(args.limit ?? DEFAULT_HISTORY_POINTS, MAX_HISTORY_POINTS));
+
+    // Return points oldest first, with per-user values in the caller's order
+    return rows.reverse().map((row) => ({
+      createdAt: row.createdAt,
+      score: row.score,
+      scoreSuppressed: row.scoreSuppressed ?? false,
+      vibeType: row.vibeType,
+      categoryScores: row.categoryScores,
+      dimensions: (row.dimensionBreakdown ?? []).map((d) => ({
+        dimension: d.dimension,
+        score: d.score,
+        user1Value: swapped ? d.user2Value : d.user1Value,
+        user2Value: swapped ? d.user1Value : d.user2Value,
+      })),
     }));
   },
 });
 
-// Delete a specific match
-export const deleteMatch = mutation({
+// Get match regardless of expiry (stale fallback, debugging/admin purposes)
+export const getMatch = query({
   args: {
     user1: v.string(),
     user2: v.string(),
+    scoringPreset: v.optional(v.string()), // Omitted for the default preset
   },
   handler: async (ctx, args) => {
     // Sort usernames for consistent lookup
     const [userOne, userTwo] = sortUsers(args.user1, args.user2);
 
-    const match = await ctx.db
+    return await ctx.db
       .query('vibeMatches')
-      .withIndex('by_users', (q) => q.eq('userOneTag', userOne).eq('userTwoTag', userTwo))
+      .withIndex('by_users_preset', (q) =>
+        q
+          .eq('userOneTag', userOne)
+          .eq('userTwoTag', userTwo)
+          .eq('scoringPreset', args.scoringPreset)
+      )
       .first();
+  },
+});
 
-    if (match) {
-      await ctx.db.delete(match._id);
-      return { deleted: true, users: [userOne, userTwo] };
-    }
+// Get a user's most recent matches (every scoring preset, newest first)
+export const getUserMatches = query({
+  args: { username: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const participants = await ctx.db
+      .query('matchParticipants')
+      .withIndex('by_username_any_preset_created', (q) =>
+        q.eq('username', args.username.toLowerCase())
+      )
+      .order('desc')
+      .take(Math.min(args.limit ?? DEFAULT_USER_MATCHES, MAX_USER_MATCHES));
+
+    const matches = await Promise.all(participants.map((p) => ctx.db.get(p.matchId)));
 
-    return { deleted: false, users: [userOne, userTwo] };
+    // Add expiry status to each match
+    return matches
+      .filter((match) => match !== null)
+      .map((match) => ({
+        ...match,
+        isExpired: isMatchExpired(match.createdAt),
+      }));
   },
 });
 
-// Clean up expired matches (can be called by a cron job)
-export const deleteExpiredMatches = mutation({
-  handler: async (ctx) => {
-    const matches = await ctx.db.query('vibeMatches').collect();
-    const deleted: string[] = [];
-
-    for (const match of matches) {
-      if (isMatchExpired(match.createdAt)) {
-        await ctx.db.delete(match._id);
-        deleted.push(`${match.userOneTag}-${match.userTwoTag}`);
-      }
-    }
+// Page through everyone a user has been matched with under one scoring preset
+// sort: 'score' (highest first, suppressed scores left out) or 'recent' (newest first)
+export const listUserMatches = query({
+  args: {
+    username: v.string(),
+    sort: v.union(v.literal('score'), v.literal('recent')),
+    scoringPreset: v.optional(v.string()), // Omitted for the default preset
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const username = args.username.toLowerCase();
+    const query =
+      args.sort === 'score'
+        ? ctx.db
+            .query('matchParticipants')
+            .withIndex('by_username_score', (q) =>
+              q.eq('username', username).eq('scoringPreset', args.scoringPreset)
+            )
+        : ctx.db
+            .query('matchParticipants')
+            .withIndex('by_username_created', (q) =>
+              q.eq('username', username).eq('scoringPreset', args.scoringPreset)
+            );
+
+    // A score too uncertain to show can't rank a match either
+    const ordered = query.order('desc');
+    const result = await (
+      args.sort === 'score'
+        ? ordered.filter((q) => q.neq(q.field('scoreSuppressed'), true))
+        : ordered
+    ).paginate(args.paginationOpts);
 
     return {
-      deletedCount: deleted.length,
-      deleted,
-      ttlSeconds: getMatchTTL(),
+      ...result,
+      page: result.page.map((participant) => ({
+        otherUser: participant.otherUser,
+        score: participant.score,
+        scoreSuppressed: participant.scoreSuppressed ?? false,
+        vibeType: participant.vibeType,
+        createdAt: participant.createdAt,
+        isExpired: isMatchExpired(participant.createdAt),
+      })),
     };
   },
 });
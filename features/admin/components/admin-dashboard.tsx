@@ -0,0 +1,407 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { LogOut, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { SpendChart } from './spend-chart';
+import type { AdminDashboard as AdminDashboardData, AdminPromptVariant } from '../types';
+
+interface AdminDashboardProps {
+  dashboard: AdminDashboardData;
+}
+
+/**
+ * Format milliseconds as a short duration (e.g. "1h 20m")
+ */
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="rounded-lg border border-white/10 bg-white/5 p-4 backdrop-blur-sm">
+      <h2 className="mb-3 text-sm font-semibold text-purple-300">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function ExpiryBadge({ isExpired, expiresIn }: { isExpired: boolean; expiresIn: number }) {
+  return isExpired ? (
+    <Badge variant="destructive">Expired</Badge>
+  ) : (
+    <Badge variant="secondary">Fresh · {formatDuration(expiresIn)} left</Badge>
+  );
+}
+
+// Runs per score range as bars scaled to the fullest range
+function ScoreDistribution({ buckets }: { buckets: number[] }) {
+  const max = Math.max(1, ...buckets);
+
+  return (
+    <div className="flex h-6 items-end gap-px" aria-label="Score distribution">
+      {buckets.map((count, i) => (
+        <div
+          key={i}
+          className="w-2 rounded-sm bg-purple-400/70"
+          style={{ height: `${Math.max(2, (count / max) * 100)}%` }}
+          title={`${i * 10}-${i === buckets.length - 1 ? 100 : i * 10 + 9}: ${count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function VibeTypeCounts({ vibeTypes }: { vibeTypes: Record<string, number> }) {
+  const entries = Object.entries(vibeTypes).sort(([, a], [, b]) => b - a);
+
+  return (
+    <span className="text-xs text-white/60">
+      {entries.map(([vibeType, count]) => `${vibeType} ${count}`).join(' · ')}
+    </span>
+  );
+}
+
+function formatParseFailures(variant: AdminPromptVariant): string {
+  return `${((variant.parseFailures / variant.runs) * 100).toFixed(1)}%`;
+}
+
+/**
+ * Admin dashboard - cache contents, Grok health and spend, prompt variants, the audit log and retention runs
+ * Actions call the /api/admin routes and re-render the page with fresh data
+ */
+export function AdminDashboard({ dashboard }: AdminDashboardProps) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const runAction = async (key: string, url: string, method: 'POST' | 'DELETE', label: string) => {
+    if (method === 'DELETE' && !window.confirm(`${label}?`)) return;
+
+    setPendingAction(key);
+    try {
+      const response = await fetch(url, { method });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        toast.error(body?.error ?? `${label} failed`);
+      } else {
+        toast.success(`${label}: done`);
+      }
+      router.refresh();
+    } catch {
+      toast.error(`${label} failed - network error`);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+    router.refresh();
+  };
+
+  const { circuitBreaker, retries, outputRepairs, budget } = dashboard;
+  const retryEntries = Object.entries(retries.byOperation);
+  const repairEntries = Object.entries(outputRepairs.byContract);
+  const today = dashboard.spend[dashboard.spend.length - 1];
+
+  return (
+    <main className="mx-auto max-w-6xl space-y-6 px-6 py-10 text-white">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold tracking-tight">Admin</h1>
+        <Button variant="ghost" size="sm" onClick={signOut}>
+          <LogOut className="h-4 w-4" />
+          Sign out
+        </Button>
+      </div>
+
+      {!dashboard.convexConfigured && (
+        <p className="rounded-lg border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm text-yellow-200">
+          No Convex deployment configured - cache, spend and audit log are unavailable.
+        </p>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Section title="Circuit breaker (this instance)">
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            <dt className="text-white/60">State</dt>
+            <dd>
+              <Badge variant={circuitBreaker.state === 'CLOSED' ? 'secondary' : 'destructive'}>
+                {circuitBreaker.state}
+              </Badge>
+            </dd>
+            <dt className="text-white/60">Failures / successes</dt>
+            <dd className="tabular-nums">
+              {circuitBreaker.failures} / {circuitBreaker.successes}
+            </dd>
+            <dt className="text-white/60">Requests</dt>
+            <dd className="tabular-nums">{circuitBreaker.requests}</dd>
+            {circuitBreaker.nextAttempt && (
+              <>
+                <dt className="text-white/60">Next attempt</dt>
+                <dd>{formatTime(circuitBreaker.nextAttempt)}</dd>
+              </>
+            )}
+          </dl>
+        </Section>
+
+        <Section title="Grok retries (this instance)">
+          {retryEntries.length === 0 ? (
+            <p className="text-sm text-white/50">No retries since {formatTime(retries.since)}.</p>
+          ) : (
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              {retryEntries.map(([operation, count]) => (
+                <div key={operation} className="contents">
+                  <dt className="text-white/60">{operation}</dt>
+                  <dd className="tabular-nums">{count}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </Section>
+
+        <Section title="Model output repairs (this instance)">
+          {repairEntries.length === 0 ? (
+            <p className="text-sm text-white/50">
+              No responses parsed since {formatTime(outputRepairs.since)}.
+            </p>
+          ) : (
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              {repairEntries.map(([contract, counts]) => (
+                <div key={contract} className="contents">
+                  <dt className="text-white/60">{contract}</dt>
+                  <dd className="tabular-nums">
+                    {counts.repaired} of {counts.validated + counts.repaired} repaired
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </Section>
+      </div>
+
+      <Section title="Grok spend (last 30 days, UTC)">
+        <p className="mb-3 text-sm text-white/60">
+          Today: ${(today?.cost ?? 0).toFixed(2)}
+          {budget.daily !== undefined && ` of $${budget.daily.toFixed(2)} daily budget`}
+          {budget.monthly !== undefined && ` · Monthly budget: $${budget.monthly.toFixed(2)}`}
+        </p>
+        <SpendChart spend={dashboard.spend} dailyBudget={budget.daily} />
+      </Section>
+
+      <Section title="Prompt variants">
+        {dashboard.promptVariants.length === 0 ? (
+          <p className="text-sm text-white/50">No profile fetches or matches recorded yet.</p>
+        ) : (
+          <AdminTable
+            headers={['Stage', 'Version', 'Experiment', 'Runs', 'Parse failures', 'Mean score', '']}
+          >
+            {dashboard.promptVariants.map((variant) => (
+              <tr key={`${variant.stage}:${variant.promptVersion}:${variant.experimentId ?? ''}`}>
+                <td>{variant.stage}</td>
+                <td className="font-medium">{variant.promptVersion}</td>
+                <td className="text-white/60">{variant.experimentId ?? '-'}</td>
+                <td className="tabular-nums">{variant.runs}</td>
+                <td className={cn('tabular-nums', variant.parseFailures > 0 && 'text-yellow-300')}>
+                  {formatParseFailures(variant)}
+                </td>
+                <td className="tabular-nums">{variant.meanScore?.toFixed(1) ?? '-'}</td>
+                <td>
+                  {variant.stage === 'matchVibe' ? (
+                    <VibeTypeCounts vibeTypes={variant.vibeTypes} />
+                  ) : (
+                    <ScoreDistribution buckets={variant.scoreBuckets} />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </AdminTable>
+        )}
+      </Section>
+
+      <Section title={`Cached profiles (${dashboard.profiles.length})`}>
+        <AdminTable headers={['Username', 'Cached', 'Status', 'Confidence', '']}>
+          {dashboard.profiles.map((profile) => (
+            <tr key={profile.username}>
+              <td className="font-medium">@{profile.username}</td>
+              <td className="text-white/60">{formatTime(profile.createdAt)}</td>
+              <td>
+                <ExpiryBadge isExpired={profile.isExpired} expiresIn={profile.expiresIn} />
+              </td>
+              <td className="tabular-nums">{profile.searchConfidence}%</td>
+              <td>
+                <RowActions
+                  pending={pendingAction}
+                  actionKey={`profile:${profile.username}`}
+                  onRefresh={() =>
+                    runAction(
+                      `profile:${profile.username}`,
+                      `/api/admin/profiles/${encodeURIComponent(profile.username)}`,
+                      'POST',
+                      `Refresh @${profile.username}`
+                    )
+                  }
+                  onDelete={() =>
+                    runAction(
+                      `profile:${profile.username}`,
+                      `/api/admin/profiles/${encodeURIComponent(profile.username)}`,
+                      'DELETE',
+                      `Delete @${profile.username}`
+                    )
+                  }
+                />
+              </td>
+            </tr>
+          ))}
+        </AdminTable>
+      </Section>
+
+      <Section title={`Cached matches (${dashboard.matches.length})`}>
+        <AdminTable headers={['Pair', 'Preset', 'Score', 'Cached', 'Status', '']}>
+          {dashboard.matches.map((match) => {
+            const [userOne, userTwo] = match.users;
+            const key = `match:${userOne}:${userTwo}:${match.scoringPreset ?? ''}`;
+            const url = `/api/admin/matches/${encodeURIComponent(userOne)}/${encodeURIComponent(userTwo)}`;
+
+            return (
+              <tr key={key}>
+                <td className="font-medium">
+                  @{userOne} × @{userTwo}
+                </td>
+                <td className="text-white/60">{match.scoringPreset ?? 'balanced'}</td>
+                <td className="tabular-nums">{match.score}</td>
+                <td className="text-white/60">{formatTime(match.createdAt)}</td>
+                <td>
+                  <ExpiryBadge isExpired={match.isExpired} expiresIn={match.expiresIn} />
+                </td>
+                <td>
+                  <RowActions
+                    pending={pendingAction}
+                    actionKey={key}
+                    onRefresh={() =>
+                      runAction(
+                        key,
+                        match.scoringPreset ? `${url}?preset=${match.scoringPreset}` : url,
+                        'POST',
+                        `Refresh @${userOne} × @${userTwo}`
+                      )
+                    }
+                    onDelete={() =>
+                      runAction(key, url, 'DELETE', `Delete @${userOne} × @${userTwo}`)
+                    }
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </AdminTable>
+      </Section>
+
+      <Section title="Audit log">
+        <AdminTable headers={['Time', 'Action', 'Target', 'Outcome', 'Actor']}>
+          {dashboard.auditLog.map((entry) => (
+            <tr key={`${entry.createdAt}:${entry.action}:${entry.target}`}>
+              <td className="text-white/60">{formatTime(entry.createdAt)}</td>
+              <td>{entry.action}</td>
+              <td>{entry.target}</td>
+              <td className={cn(entry.outcome === 'failed' && 'text-red-400')} title={entry.error}>
+                {entry.outcome}
+              </td>
+              <td className="text-white/60">{entry.actor}</td>
+            </tr>
+          ))}
+        </AdminTable>
+      </Section>
+
+      <Section title="Retention cleanup">
+        <AdminTable headers={['Started', 'Table', 'Cutoff', 'Scanned', 'Deleted', 'Status']}>
+          {dashboard.retentionRuns.map((run) => (
+            <tr key={`${run.startedAt}:${run.table}`}>
+              <td className="text-white/60">{formatTime(run.startedAt)}</td>
+              <td>{run.table}</td>
+              <td className="text-white/60">{formatTime(run.cutoff)}</td>
+              <td className="tabular-nums">{run.scanned}</td>
+              <td className="tabular-nums">{run.deleted}</td>
+              <td>
+                {run.finishedAt ? (
+                  <Badge variant="secondary">
+                    Done in {run.batches} {run.batches === 1 ? 'batch' : 'batches'}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Running</Badge>
+                )}
+              </td>
+            </tr>
+          ))}
+        </AdminTable>
+      </Section>
+    </main>
+  );
+}
+
+function AdminTable({ headers, children }: { headers: string[]; children: ReactNode }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm [&_td]:py-1.5 [&_td]:pr-4 [&_th]:pr-4 [&_th]:pb-2">
+        <thead className="text-xs text-white/50">
+          <tr>
+            {headers.map((header, i) => (
+              <th key={i} scope="col" className="font-medium">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5">{children}</tbody>
+      </table>
+    </div>
+  );
+}
+
+function RowActions({
+  pending,
+  actionKey,
+  onRefresh,
+  onDelete,
+}: {
+  pending: string | null;
+  actionKey: string;
+  onRefresh: () => void;
+  onDelete: () => void;
+}) {
+  const busy = pending === actionKey;
+
+  return (
+    <div className="flex justify-end gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRefresh}
+        disabled={pending !== null}
+        aria-label="Force refresh"
+      >
+        <RefreshCw className={cn('h-4 w-4', busy && 'animate-spin')} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onDelete}
+        disabled={pending !== null}
+        aria-label="Delete"
+      >
+        <Trash2 className="h-4 w-4 text-red-400" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/**
+ * Sign-in form for /admin - exchanges ADMIN_TOKEN for a session cookie
+ */
+export function AdminSignIn() {
+  const router = useRouter();
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setPending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setError(body?.error ?? 'Sign-in failed');
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError('Network error - please try again');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <section className="relative flex min-h-screen items-center justify-center px-6">
+      <div className="gradient-bg absolute inset-0" />
+
+      <form
+        onSubmit={handleSubmit}
+        className="relative z-10 w-full max-w-sm space-y-4 rounded-lg border border-white/10 bg-white/5 p-6 backdrop-blur-sm"
+      >
+        <div className="flex items-center gap-2 text-white">
+          <Lock className="h-5 w-5 text-purple-300" />
+          <h1 className="text-xl font-semibold">Admin</h1>
+        </div>
+
+        <Input
+          type="password"
+          autoComplete="current-password"
+          placeholder="Admin token"
+          value={token}
+          onChange={(event) => setToken(event.target.value)}
+          required
+        />
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <Button type="submit" className="w-full" disabled={pending || !token}>
+          {pending ? 'Signing in...' : 'Sign in'}
+        </Button>
+      </form>
+    </section>
+  );
+}
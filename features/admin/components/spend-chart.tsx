@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { AdminSpendDay } from '../types';
+import { cn } from '@/lib/utils';
+
+interface SpendChartProps {
+  spend: AdminSpendDay[];
+  dailyBudget?: number;
+  className?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+const BAR_GAP = 2;
+
+/**
+ * Daily Grok spend as bars, with the daily budget as a dashed line when one is set
+ */
+export function SpendChart({ spend, dailyBudget, className }: SpendChartProps) {
+  const chart = useMemo(() => {
+    if (spend.length === 0) {
+      return null;
+    }
+
+    const max = Math.max(dailyBudget ?? 0, ...spend.map((day) => day.cost)) || 1;
+    const barWidth = WIDTH / spend.length;
+
+    return {
+      bars: spend.map((day, i) => {
+        const height = (day.cost / max) * HEIGHT;
+        return { ...day, x: i * barWidth, y: HEIGHT - height, width: barWidth - BAR_GAP, height };
+      }),
+      budgetY: dailyBudget ? HEIGHT - (dailyBudget / max) * HEIGHT : null,
+      total: spend.reduce((sum, day) => sum + day.cost, 0),
+    };
+  }, [spend, dailyBudget]);
+
+  if (!chart) {
+    return <p className={cn('text-sm text-white/50', className)}>No Grok spend recorded yet.</p>;
+  }
+
+  return (
+    <div className={className}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-32 w-full"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Grok spend over ${chart.bars.length} days, $${chart.total.toFixed(2)} in total`}
+      >
+        {chart.bars.map((bar) => (
+          <rect
+            key={bar.day}
+            x={bar.x}
+            y={bar.y}
+            width={Math.max(1, bar.width)}
+            height={bar.height}
+            fill="oklch(0.75 0.22 315)"
+            fillOpacity={0.8}
+          >
+            <title>
+              {bar.day}: ${bar.cost.toFixed(4)} · {bar.calls} calls
+            </title>
+          </rect>
+        ))}
+        {chart.budgetY !== null && (
+          <line
+            x1={0}
+            x2={WIDTH}
+            y1={chart.budgetY}
+            y2={chart.budgetY}
+            stroke="rgb(248 113 113)"
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="mt-1 flex justify-between text-xs text-white/50">
+        <span>{chart.bars[0].day}</span>
+        <span>${chart.total.toFixed(2)} total</span>
+        <span>{chart.bars[chart.bars.length - 1].day}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
+import { GrokService } from '@/features/vibe-analysis/services/grok/grok.service';
+import {
+  DEFAULT_SCORING_PRESET,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import type { AdminAction, AdminDashboard } from '../types';
+import { ConfigError } from '@/shared/lib/errors';
+import { getAdminToken, getGrokApiKey, getGrokBudgetConfig } from '@/lib/env';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('AdminService');
+
+let convexClient: ConvexHttpClient | null | undefined;
+
+function getConvexClient(): ConvexHttpClient | null {
+  if (convexClient === undefined) {
+    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    convexClient = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+  }
+
+  return convexClient;
+}
+
+/**
+ * Convex client for admin actions - they change cached data and write the audit log
+ * @throws {ConfigError} If NEXT_PUBLIC_CONVEX_URL is not configured
+ */
+function requireConvexClient(): ConvexHttpClient {
+  const client = getConvexClient();
+  if (!client) {
+    throw new ConfigError(
+      'Admin actions need a Convex deployment (NEXT_PUBLIC_CONVEX_URL)',
+      'NEXT_PUBLIC_CONVEX_URL'
+    );
+  }
+
+  return client;
+}
+
+/**
+ * Admin token passed to the Convex admin functions
+ * @throws {ConfigError} If ADMIN_TOKEN is not configured
+ */
+function requireAdminToken(): string {
+  const adminToken = getAdminToken();
+  if (!adminToken) {
+    throw new ConfigError('The admin dashboard is disabled', 'ADMIN_TOKEN');
+  }
+
+  return adminToken;
+}
+
+/**
+ * Load everything the admin dashboard shows
+ * Without a Convex deployment only the circuit breaker, retries, output repairs and budget are available
+ */
+export async function getAdminDashboardService(): Promise<AdminDashboard> {
+  const adminToken = requireAdminToken();
+  const grokService = new GrokService(getGrokApiKey());
+  const convex = getConvexClient();
+
+  const stored = convex
+    ? await convex.query(api.admin.getDashboard, { adminToken })
+    : {
+        profiles: [],
+        matches: [],
+        spend: [],
+        promptVariants: [],
+        auditLog: [],
+        retentionRuns: [],
+      };
+
+  return {
+    convexConfigured: !!convex,
+    ...stored,
+    circuitBreaker: grokService.getCircuitBreakerStats(),
+    retries: grokService.getRetryStats(),
+    outputRepairs: grokService.getOutputRepairStats(),
+    budget: getGrokBudgetConfig(),
+  };
+}
+
+/**
+ * Delete a cached profile
+ * @param username - Username as stored
+ * @param actor - Client the admin acted from
+ */
+export async function deleteProfileService(
+  username: string,
+  actor: string
+): Promise<{ deleted: boolean }> {
+  const { deleted } = await requireConvexClient().mutation(api.admin.deleteProfile, {
+    adminToken: requireAdminToken(),
+    username,
+    actor,
+  });
+
+  logger.info({ username, deleted, actor }, 'Admin deleted profile');
+  return { deleted };
+}
+
+/**
+ * Delete a cached match (every scoring preset of the pair)
+ * @param actor - Client the admin acted from
+ */
+export async function deleteMatchService(
+  userOne: string,
+  userTwo: string,
+  actor: string
+): Promise<{ deleted: boolean }> {
+  const { deleted } = await requireConvexClient().mutation(api.admin.deleteMatch, {
+    adminToken: requireAdminToken(),
+    user1: userOne,
+    user2: userTwo,
+    actor,
+  });
+
+  logger.info({ users: [userOne, userTwo], deleted, actor }, 'Admin deleted match');
+  return { deleted };
+}
+
+/**
+ * Fetch a profile fresh from Grok, replacing the cached one
+ * @param actor - Client the admin acted from
+ */
+export async function refreshProfileService(username: string, actor: string): Promise<void> {
+  await auditAction('refresh_profile', username, actor, () =>
+    new GrokService(getGrokApiKey()).refreshProfile(username)
+  );
+}
+
+/**
+ * Re-match a pair with Grok, replacing the cached match for the preset
+ * @param actor - Client the admin acted from
+ * @returns The fresh score
+ */
+export async function refreshMatchService(
+  userOne: string,
+  userTwo: string,
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET,
+  actor: string
+): Promise<{ score: number }> {
+  const result = await auditAction('refresh_match', `${userOne}:${userTwo}`, actor, () =>
+    new GrokService(getGrokApiKey()).refreshMatch({ userOne, userTwo, scoringPreset })
+  );
+
+  return { score: result.score };
+}
+
+/**
+ * Run an action that happens outside Convex and write its outcome to the audit log
+ * Failed actions are recorded as failed and rethrown
+ */
+async function auditAction<T>(
+  action: AdminAction,
+  target: string,
+  actor: string,
+  run: () => Promise<T>
+): Promise<T> {
+  const convex = requireConvexClient();
+  const adminToken = requireAdminToken();
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn({ action, target, actor, error: message }, 'Admin action failed');
+    await convex
+      .mutation(api.admin.recordAction, {
+        adminToken,
+        action,
+        target,
+        outcome: 'failed',
+        error: message,
+        actor,
+      })
+      .catch((auditError) =>
+        logger.error({ error: auditError, action }, 'Error writing audit log')
+      );
+    throw error;
+  }
+
+  await convex.mutation(api.admin.recordAction, {
+    adminToken,
+    action,
+    target,
+    outcome: 'succeeded',
+    actor,
+  });
+  logger.info({ action, target, actor }, 'Admin action succeeded');
+  return result;
+}
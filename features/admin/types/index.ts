@@ -0,0 +1,103 @@
+/**
+ * Types for the admin dashboard (/admin)
+ */
+
+import type { CircuitBreakerStats } from '@/lib/circuit-breaker';
+import type { GrokBudgetConfig } from '@/lib/env';
+import type { OutputContract } from '@/features/vibe-analysis/services/transformers/model-output';
+
+/**
+ * Cached profile row with expiry status
+ */
+export interface AdminProfileRow {
+  username: string;
+  createdAt: number;
+  isExpired: boolean;
+  expiresIn: number; // Milliseconds until expiry (0 once expired)
+  searchConfidence: number;
+  dataCompleteness: number;
+}
+
+/**
+ * Cached match row with expiry status
+ */
+export interface AdminMatchRow {
+  users: string[]; // Sorted, lowercased
+  scoringPreset?: string; // Missing = default preset
+  score: number;
+  createdAt: number;
+  isExpired: boolean;
+  expiresIn: number; // Milliseconds until expiry (0 once expired)
+}
+
+/**
+ * Grok spend for one UTC day
+ */
+export interface AdminSpendDay {
+  day: string; // YYYY-MM-DD
+  cost: number; // USD
+  calls: number;
+}
+
+export type AdminAction = 'delete_profile' | 'delete_match' | 'refresh_profile' | 'refresh_match';
+
+/**
+ * Audit log entry for an admin action
+ */
+export interface AdminAuditEntry {
+  action: string;
+  target: string;
+  outcome: 'succeeded' | 'failed';
+  error?: string;
+  actor: string;
+  createdAt: number;
+}
+
+/**
+ * One table's pass of the scheduled retention cleanup
+ */
+export interface AdminRetentionRun {
+  table: string;
+  cutoff: number; // Rows older than this are deleted
+  scanned: number; // Rows examined
+  deleted: number; // Fewer than scanned when some rows were still in use
+  batches: number;
+  startedAt: number;
+  finishedAt?: number; // Missing while batches are still running
+}
+
+/**
+ * Running outcome totals of one prompt version (per experiment it ran in)
+ */
+export interface AdminPromptVariant {
+  stage: string; // 'fetchProfile' or 'matchVibe'
+  promptVersion: string;
+  experimentId?: string; // Missing = served without an experiment
+  runs: number;
+  parseFailures: number;
+  meanScore: number | null; // Profile quality of scored runs (fetchProfile)
+  scoreBuckets: number[]; // Scored runs per 10-point score range
+  vibeTypes: Record<string, number>; // Matching runs per vibe type (matchVibe)
+  lastRunAt: number;
+}
+
+/**
+ * Everything the dashboard shows
+ * Circuit breaker, retries and output repairs are per server instance; the rest comes from Convex
+ */
+export interface AdminDashboard {
+  convexConfigured: boolean;
+  profiles: AdminProfileRow[];
+  matches: AdminMatchRow[];
+  spend: AdminSpendDay[];
+  promptVariants: AdminPromptVariant[];
+  auditLog: AdminAuditEntry[];
+  retentionRuns: AdminRetentionRun[];
+  circuitBreaker: CircuitBreakerStats;
+  retries: { since: number; byOperation: Record<string, number> };
+  outputRepairs: {
+    since: number;
+    byContract: Partial<Record<OutputContract, { validated: number; repaired: number }>>;
+  };
+  budget: GrokBudgetConfig;
+}
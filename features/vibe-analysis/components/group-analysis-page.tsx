@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { fetchGroupAnalysis, VibeAPIError } from '@/features/vibe-analysis/lib/vibe-api-client';
+import { getCompatibilityLevel } from '@/features/vibe-analysis/lib/api-client';
+import { GroupHeatmap } from '@/features/vibe-analysis/components/group-heatmap';
+import { CircularProgressFullscreen } from '@/components/ui/circular-progress-fullscreen';
+import { useSimulatedProgress } from '@/features/vibe-analysis/hooks/use-simulated-progress';
+import { LinkedText } from '@/components/ui/linked-text';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, ArrowLeft, Home, RefreshCw } from 'lucide-react';
+import type { GroupPairScore, VibeGroupResult } from '@/features/vibe-analysis/types';
+
+// Insight shown when no pair in the group has enough dimensions in common to be scored
+const NOT_ENOUGH_OVERLAP = 'Not enough overlap';
+
+interface GroupAnalysisPageProps {
+  usernames: string[];
+}
+
+export function GroupAnalysisPage({ usernames }: GroupAnalysisPageProps) {
+  const router = useRouter();
+
+  // Groups fetch up to 10 profiles, so expect a longer run than a pair
+  const { progress, start, complete, isComplete } = useSimulatedProgress({
+    expectedDuration: 30000,
+    updateInterval: 100,
+    minDuration: 3000,
+  });
+
+  const {
+    data: result,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['vibe-group-analysis', ...usernames],
+    queryFn: () => fetchGroupAnalysis(usernames),
+    enabled: usernames.length > 0,
+    retry: 1,
+    staleTime: 1000 * 60 * 5, // 5 minutes - considers data fresh
+    gcTime: 1000 * 60 * 10, // 10 minutes - garbage collection time
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (isLoading) {
+      start();
+    }
+  }, [isLoading, start]);
+
+  useEffect(() => {
+    if (result || error) {
+      complete();
+    }
+  }, [result, error, complete]);
+
+  if (isLoading || !isComplete) {
+    return <CircularProgressFullscreen progress={progress} />;
+  }
+
+  if (error) {
+    let errorMessage = 'Something went wrong while analyzing the group. Please try again.';
+
+    if (error instanceof VibeAPIError) {
+      errorMessage = error.message;
+
+      if (
+        error.status === 404 &&
+        error.details &&
+        typeof error.details === 'object' &&
+        'username' in error.details
+      ) {
+        errorMessage = `X user '@${error.details.username as string}' not found`;
+      }
+    }
+
+    return (
+      <section className="relative flex min-h-screen items-center justify-center overflow-hidden px-6 py-12">
+        <div className="gradient-bg absolute inset-0" />
+
+        <div className="relative z-10 mx-auto max-w-md text-center">
+          <div className="mb-6 inline-flex h-20 w-20 items-center justify-center rounded-full border border-red-500/20 bg-red-500/10">
+            <AlertCircle className="h-10 w-10 text-red-400" />
+          </div>
+
+          <h1 className="mb-4 text-3xl font-bold tracking-tight text-white">
+            Group Analysis Failed
+          </h1>
+
+          <div className="mb-8 rounded-lg border border-white/10 bg-white/5 p-4 backdrop-blur-sm">
+            <p className="text-sm text-white/70">{errorMessage}</p>
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+            <Button
+              onClick={() => refetch()}
+              className="border border-white/20 bg-white/10 text-white backdrop-blur-sm hover:bg-white/20"
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Try Again
+            </Button>
+            <Button
+              onClick={() => router.push('/')}
+              variant="outline"
+              className="border-white/20 bg-white/5 text-white hover:bg-white/10"
+            >
+              <Home className="mr-2 h-4 w-4" />
+              Go Home
+            </Button>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  if (result) {
+    return <GroupResults result={result} />;
+  }
+
+  return null;
+}
+
+function GroupResults({ result }: { result: VibeGroupResult }) {
+  const router = useRouter();
+  const narratedPairs = result.pairs.filter((pair) => pair.narrative);
+
+  return (
+    <section className="relative min-h-screen overflow-hidden">
+      <div className="gradient-bg absolute inset-0" />
+
+      <div className="relative z-10 mx-auto max-w-6xl px-4 py-6 sm:px-6">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <Button
+            onClick={() => router.push('/')}
+            size="sm"
+            className="gap-2 border border-white/20 bg-white/10 text-white backdrop-blur-sm hover:bg-white/20"
+          >
+            <ArrowLeft className="h-3.5 w-3.5" />
+            <span>Back</span>
+          </Button>
+          <h1 className="text-center text-xl font-bold tracking-tight text-white sm:text-2xl">
+            Group Vibe <span className="gradient-text">{result.members.length} members</span>
+          </h1>
+          <span className="text-sm text-white/60">Avg {result.averageScore ?? '?'}/100</span>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[3fr_2fr] md:gap-6">
+          <div className="liquid-glass-card rounded-lg p-4 sm:p-5">
+            <h2 className="mb-3 text-lg font-bold text-white">Compatibility Matrix</h2>
+            <GroupHeatmap members={result.members} matrix={result.matrix} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 self-start">
+            <InsightCard
+              title="Most Central"
+              value={result.mostCentral ? `@${result.mostCentral.username}` : NOT_ENOUGH_OVERLAP}
+              detail={
+                result.mostCentral && `Avg ${result.mostCentral.averageScore}/100 with the group`
+              }
+            />
+            <InsightCard
+              title="Outlier"
+              value={result.outlier ? `@${result.outlier.username}` : NOT_ENOUGH_OVERLAP}
+              detail={result.outlier && `Avg ${result.outlier.averageScore}/100 with the group`}
+            />
+            <InsightCard
+              title="Best Pair"
+              value={result.bestPair ? formatPair(result.bestPair) : NOT_ENOUGH_OVERLAP}
+              detail={result.bestPair && `${result.bestPair.score}/100`}
+            />
+            <InsightCard
+              title="Worst Pair"
+              value={result.worstPair ? formatPair(result.worstPair) : NOT_ENOUGH_OVERLAP}
+              detail={result.worstPair && `${result.worstPair.score}/100`}
+            />
+          </div>
+        </div>
+
+        {narratedPairs.length > 0 && (
+          <div className="mt-6 space-y-4">
+            <h2 className="text-lg font-bold text-white">Top Pairs</h2>
+            {narratedPairs.map((pair) => (
+              <div
+                key={`${pair.userOne}-${pair.userTwo}`}
+                className="liquid-glass-card-subtle rounded-lg p-4 sm:p-5"
+              >
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => router.push(`/vibe/${pair.userOne}/${pair.userTwo}`)}
+                    className="gradient-text text-left font-semibold hover:underline"
+                  >
+                    {formatPair(pair)}
+                  </button>
+                  <span
+                    className={`text-sm font-semibold ${getCompatibilityLevel(pair.score).color}`}
+                  >
+                    {pair.score}/100
+                  </span>
+                </div>
+                <LinkedText
+                  text={pair.narrative!.analysis}
+                  className="text-sm leading-relaxed text-white/80"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function InsightCard({ title, value, detail }: { title: string; value: string; detail?: string }) {
+  return (
+    <div className="liquid-glass-card-subtle rounded-lg p-3 sm:p-4">
+      <h3 className="mb-1 text-xs font-semibold tracking-wide text-white/50 uppercase">{title}</h3>
+      <p className="truncate font-semibold text-white">{value}</p>
+      {detail && <p className="mt-1 text-xs text-white/60">{detail}</p>}
+    </div>
+  );
+}
+
+function formatPair(pair: GroupPairScore): string {
+  return `@${pair.userOne} × @${pair.userTwo}`;
+}
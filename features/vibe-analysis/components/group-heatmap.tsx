@@ -0,0 +1,76 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { VibeGroupResult } from '@/features/vibe-analysis/types';
+
+interface GroupHeatmapProps {
+  members: VibeGroupResult['members'];
+  matrix: VibeGroupResult['matrix'];
+  className?: string;
+}
+
+/**
+ * Map a 0-100 score to a red → yellow → green cell color
+ */
+function getCellColor(score: number): string {
+  const hue = Math.round((score / 100) * 130);
+  return `hsla(${hue}, 70%, 45%, 0.55)`;
+}
+
+export function GroupHeatmap({ members, matrix, className }: GroupHeatmapProps) {
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <table className="w-full border-separate border-spacing-1 text-xs">
+        <thead>
+          <tr>
+            <th className="sr-only">Member</th>
+            {members.map((member) => (
+              <th
+                key={member}
+                scope="col"
+                className="max-w-20 truncate px-1 pb-1 text-center font-medium text-white/60"
+              >
+                @{member}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {members.map((rowMember, i) => (
+            <tr key={rowMember}>
+              <th
+                scope="row"
+                className="max-w-28 truncate pr-2 text-right font-medium whitespace-nowrap text-white/60"
+              >
+                @{rowMember}
+              </th>
+              {matrix[i].map((score, j) => {
+                const pair = `@${rowMember} × @${members[j]}`;
+
+                return (
+                  <td
+                    key={members[j]}
+                    className={cn(
+                      'h-10 min-w-10 rounded text-center font-semibold text-white tabular-nums',
+                      score === null && 'bg-white/5 text-white/20'
+                    )}
+                    style={score === null ? undefined : { backgroundColor: getCellColor(score) }}
+                    title={
+                      i === j
+                        ? undefined
+                        : score === null
+                          ? `${pair}: not enough overlap to score`
+                          : `${pair}: ${score}/100`
+                    }
+                  >
+                    {i === j ? '—' : (score ?? '?')}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
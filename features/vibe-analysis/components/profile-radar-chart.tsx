@@ -0,0 +1,111 @@
+'use client';
+
+import { useMemo } from 'react';
+import { DIMENSION_LABELS } from '@/features/vibe-analysis/config/vibe-constants';
+import type { UserProfile } from '@/features/vibe-analysis/types';
+import { cn } from '@/lib/utils';
+
+interface ProfileRadarChartProps {
+  profile: UserProfile;
+  className?: string;
+}
+
+const SIZE = 320;
+const CENTER = SIZE / 2;
+const RADIUS = 110;
+const LABEL_RADIUS = RADIUS + 18;
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+/**
+ * Radar chart of the 15 personality dimensions (0-1 each)
+ * Dimensions without data are drawn at the center and their label dimmed
+ */
+export function ProfileRadarChart({ profile, className }: ProfileRadarChartProps) {
+  const axes = useMemo(() => {
+    const dimensions = Object.keys(DIMENSION_LABELS) as (keyof UserProfile['contentStyle'])[];
+    const step = (Math.PI * 2) / dimensions.length;
+
+    return dimensions.map((dimension, i) => {
+      const angle = -Math.PI / 2 + i * step;
+      const raw = profile.contentStyle[dimension];
+      const value = typeof raw === 'number' ? raw : null;
+
+      return {
+        dimension,
+        label: DIMENSION_LABELS[dimension],
+        value,
+        cos: Math.cos(angle),
+        sin: Math.sin(angle),
+      };
+    });
+  }, [profile]);
+
+  const point = (cos: number, sin: number, r: number) =>
+    `${(CENTER + cos * r).toFixed(1)},${(CENTER + sin * r).toFixed(1)}`;
+
+  const shape = axes.map((axis) => point(axis.cos, axis.sin, (axis.value ?? 0) * RADIUS)).join(' ');
+
+  return (
+    <svg
+      viewBox={`-40 -10 ${SIZE + 80} ${SIZE + 20}`}
+      className={cn('h-auto w-full', className)}
+      role="img"
+      aria-label={`Personality dimensions of @${profile.username}`}
+    >
+      {/* Grid rings and spokes */}
+      {RINGS.map((ring) => (
+        <polygon
+          key={ring}
+          points={axes.map((axis) => point(axis.cos, axis.sin, ring * RADIUS)).join(' ')}
+          className="fill-none stroke-white/10"
+        />
+      ))}
+      {axes.map((axis) => (
+        <line
+          key={axis.dimension}
+          x1={CENTER}
+          y1={CENTER}
+          x2={CENTER + axis.cos * RADIUS}
+          y2={CENTER + axis.sin * RADIUS}
+          className="stroke-white/10"
+        />
+      ))}
+
+      {/* Profile shape */}
+      <polygon
+        points={shape}
+        className="fill-purple-400/25 stroke-purple-300"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+      {axes.map(
+        (axis) =>
+          axis.value !== null && (
+            <circle
+              key={axis.dimension}
+              cx={CENTER + axis.cos * axis.value * RADIUS}
+              cy={CENTER + axis.sin * axis.value * RADIUS}
+              r={2.5}
+              className="fill-purple-200"
+            >
+              <title>{`${axis.label}: ${Math.round(axis.value * 100)}%`}</title>
+            </circle>
+          )
+      )}
+
+      {/* Labels */}
+      {axes.map((axis) => (
+        <text
+          key={axis.dimension}
+          x={CENTER + axis.cos * LABEL_RADIUS}
+          y={CENTER + axis.sin * LABEL_RADIUS}
+          textAnchor={axis.cos > 0.2 ? 'start' : axis.cos < -0.2 ? 'end' : 'middle'}
+          dominantBaseline="middle"
+          className={cn('text-[10px]', axis.value === null ? 'fill-white/30' : 'fill-white/70')}
+        >
+          {axis.label}
+        </text>
+      ))}
+    </svg>
+  );
+}
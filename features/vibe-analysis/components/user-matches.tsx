@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { useListUserMatches } from '@/hooks/useConvex';
+import { isConvexConfigured } from '@/components/ConvexClientProvider';
+import { getCompatibilityLevel } from '@/features/vibe-analysis/lib/api-client';
+import {
+  DEFAULT_SCORING_PRESET,
+  SCORING_PRESETS,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { USER_MATCHES } from '@/features/vibe-analysis/config/vibe-constants';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+type MatchSort = 'score' | 'recent';
+
+interface UserMatchesProps {
+  username: string;
+  scoringPreset: ScoringPresetId;
+}
+
+const SORT_LABELS: Record<MatchSort, string> = {
+  score: 'Best match',
+  recent: 'Most recent',
+};
+
+/**
+ * Everyone a user has been matched with, from cached analyses
+ * Sorted by score or recency, one scoring preset at a time
+ */
+export function UserMatches({ username, scoringPreset }: UserMatchesProps) {
+  const [sort, setSort] = useState<MatchSort>('score');
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h2 className="text-lg font-bold text-white">
+          Matches{' '}
+          <span className="text-sm font-normal text-white/50">
+            {SCORING_PRESETS[scoringPreset].label}
+          </span>
+        </h2>
+        {isConvexConfigured && (
+          <div className="flex gap-2" role="group" aria-label="Sort matches">
+            {(Object.keys(SORT_LABELS) as MatchSort[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant="ghost"
+                aria-pressed={sort === option}
+                onClick={() => setSort(option)}
+                className={cn(
+                  'border border-white/20 text-white hover:bg-white/20',
+                  sort === option ? 'bg-white/20' : 'bg-white/5'
+                )}
+              >
+                {SORT_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isConvexConfigured ? (
+        <MatchList username={username} sort={sort} scoringPreset={scoringPreset} />
+      ) : (
+        <p className="liquid-glass-card-subtle rounded-lg p-4 text-sm text-white/70">
+          Match history needs a Convex deployment.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function MatchList({
+  username,
+  sort,
+  scoringPreset,
+}: {
+  username: string;
+  sort: MatchSort;
+  scoringPreset: ScoringPresetId;
+}) {
+  const { results, status, loadMore } = useListUserMatches(username, sort, scoringPreset);
+  const presetQuery = scoringPreset !== DEFAULT_SCORING_PRESET ? `?preset=${scoringPreset}` : '';
+
+  if (status === 'LoadingFirstPage') {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <p className="liquid-glass-card-subtle rounded-lg p-4 text-sm text-white/70">
+        @{username} hasn&apos;t been matched with anyone yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {results.map((match) => {
+          const compatibility = match.scoreSuppressed
+            ? { label: 'Not enough overlap', color: 'text-white/50' }
+            : getCompatibilityLevel(match.score);
+
+          return (
+            <li key={match.otherUser}>
+              <Link
+                href={`/vibe/${username}/${match.otherUser}${presetQuery}`}
+                className="liquid-glass-card-subtle flex items-center justify-between gap-4 rounded-lg p-4 transition-colors hover:bg-white/10"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-semibold text-white">@{match.otherUser}</p>
+                  <p className="text-xs text-white/50">
+                    {new Date(match.createdAt).toLocaleDateString()}
+                    {match.isExpired && ' · may have changed since'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={cn('text-lg font-bold tabular-nums', compatibility.color)}>
+                    {match.scoreSuppressed ? '?' : match.score}/100
+                  </p>
+                  <p className="text-xs text-white/60">{compatibility.label}</p>
+                </div>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+
+      {status !== 'Exhausted' && (
+        <div className="flex justify-center">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => loadMore(USER_MATCHES.PAGE_SIZE)}
+            disabled={status === 'LoadingMore'}
+            className="border border-white/20 bg-white/10 text-white hover:bg-white/20"
+          >
+            {status === 'LoadingMore' ? 'Loading…' : 'Load more'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
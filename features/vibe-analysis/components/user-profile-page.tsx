@@ -0,0 +1,392 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { fetchUserProfile, VibeAPIError } from '@/features/vibe-analysis/lib/vibe-api-client';
+import { ProfileRadarChart } from '@/features/vibe-analysis/components/profile-radar-chart';
+import { getValueBarColor } from '@/features/vibe-analysis/components/user-values-chart';
+import { UserMatches } from '@/features/vibe-analysis/components/user-matches';
+import { CircularProgressFullscreen } from '@/components/ui/circular-progress-fullscreen';
+import { useSimulatedProgress } from '@/features/vibe-analysis/hooks/use-simulated-progress';
+import {
+  DEFAULT_SCORING_PRESET,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { DIMENSION_LABELS, PROFILE_PAGE } from '@/features/vibe-analysis/config/vibe-constants';
+import { LinkedText } from '@/components/ui/linked-text';
+import { GlassInput } from '@/components/ui/glass-input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { AlertCircle, ArrowLeft, Home, RefreshCw, Sparkles } from 'lucide-react';
+import type { UserProfile, UserProfileResult } from '@/features/vibe-analysis/types';
+
+interface UserProfilePageProps {
+  username: string;
+  scoringPreset: ScoringPresetId;
+}
+
+/**
+ * Public vibe profile of one user (/u/[username])
+ * Loads the cached profile, or fetches it from X when nothing is cached
+ */
+export function UserProfilePage({ username, scoringPreset }: UserProfilePageProps) {
+  const router = useRouter();
+
+  // Cache hits return immediately; a fresh profile fetch takes a while
+  const { progress, start, complete, isComplete } = useSimulatedProgress({
+    expectedDuration: 20000,
+    updateInterval: 100,
+    minDuration: 1000,
+  });
+
+  const {
+    data: result,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['vibe-profile', username.toLowerCase()],
+    queryFn: () => fetchUserProfile(username),
+    enabled: username.length > 0,
+    retry: 1,
+    staleTime: 1000 * 60 * 5, // 5 minutes - considers data fresh
+    gcTime: 1000 * 60 * 10, // 10 minutes - garbage collection time
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (isLoading) {
+      start();
+    }
+  }, [isLoading, start]);
+
+  useEffect(() => {
+    if (result || error) {
+      complete();
+    }
+  }, [result, error, complete]);
+
+  if (isLoading || !isComplete) {
+    return <CircularProgressFullscreen progress={progress} />;
+  }
+
+  if (error) {
+    let errorMessage = 'Something went wrong while loading the profile. Please try again.';
+
+    if (error instanceof VibeAPIError) {
+      errorMessage = error.status === 404 ? `X user '@${username}' not found` : error.message;
+    }
+
+    return (
+      <section className="relative flex min-h-screen items-center justify-center overflow-hidden px-6 py-12">
+        <div className="gradient-bg absolute inset-0" />
+
+        <div className="relative z-10 mx-auto max-w-md text-center">
+          <div className="mb-6 inline-flex h-20 w-20 items-center justify-center rounded-full border border-red-500/20 bg-red-500/10">
+            <AlertCircle className="h-10 w-10 text-red-400" />
+          </div>
+
+          <h1 className="mb-4 text-3xl font-bold tracking-tight text-white">Profile Unavailable</h1>
+
+          <div className="mb-8 rounded-lg border border-white/10 bg-white/5 p-4 backdrop-blur-sm">
+            <p className="text-sm text-white/70">{errorMessage}</p>
+          </div>
+
+          <div className="flex flex-col gap-3 sm:flex-row sm:justify-center">
+            <Button
+              onClick={() => refetch()}
+              className="border border-white/20 bg-white/10 text-white backdrop-blur-sm hover:bg-white/20"
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Try Again
+            </Button>
+            <Button
+              onClick={() => router.push('/')}
+              variant="outline"
+              className="border-white/20 bg-white/5 text-white hover:bg-white/10"
+            >
+              <Home className="mr-2 h-4 w-4" />
+              Go Home
+            </Button>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  if (result) {
+    return <ProfileView result={result} scoringPreset={scoringPreset} />;
+  }
+
+  return null;
+}
+
+function ProfileView({
+  result,
+  scoringPreset,
+}: {
+  result: UserProfileResult;
+  scoringPreset: ScoringPresetId;
+}) {
+  const router = useRouter();
+  const { profile } = result;
+  const tweets = (profile.recentTweets ?? []).slice(0, PROFILE_PAGE.SAMPLE_TWEETS);
+
+  return (
+    <section className="relative min-h-screen overflow-hidden">
+      <div className="gradient-bg absolute inset-0" />
+
+      <div className="relative z-10 mx-auto max-w-5xl px-4 py-6 sm:px-6">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <Button
+            onClick={() => router.push('/')}
+            size="sm"
+            className="gap-2 border border-white/20 bg-white/10 text-white backdrop-blur-sm hover:bg-white/20"
+          >
+            <ArrowLeft className="h-3.5 w-3.5" />
+            <span>Back</span>
+          </Button>
+          <h1 className="text-center text-xl font-bold tracking-tight text-white sm:text-2xl">
+            {profile.displayName && <span className="mr-2">{profile.displayName}</span>}
+            <span className="gradient-text">@{profile.username}</span>
+          </h1>
+          <span className="text-sm text-white/60">{profile.searchConfidence}% confidence</span>
+        </div>
+
+        {result.stale && (
+          <p className="mb-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm text-yellow-200">
+            Showing an older snapshot of this profile - live analysis is temporarily unavailable.
+          </p>
+        )}
+
+        <CompareForm username={profile.username} scoringPreset={scoringPreset} className="mb-6" />
+
+        <div className="grid gap-4 md:grid-cols-2 md:gap-6">
+          <div className="liquid-glass-card rounded-lg p-4 sm:p-5">
+            <h2 className="mb-3 text-lg font-bold text-white">Personality</h2>
+            <ProfileRadarChart profile={profile} />
+          </div>
+
+          <div className="space-y-4">
+            <ContentStyleCard profile={profile} />
+            <DataQualityCard profile={profile} />
+          </div>
+        </div>
+
+        <div className="liquid-glass-card-subtle mt-6 rounded-lg p-4 sm:p-5">
+          <h2 className="mb-3 text-lg font-bold text-white">Dimensions</h2>
+          <DimensionBars profile={profile} />
+        </div>
+
+        <div className="mt-6 grid gap-4 md:grid-cols-2 md:gap-6">
+          <TagCard title="Top Topics" tags={profile.topTopics} />
+          <TagCard title="Notable Traits" tags={profile.notableTraits} />
+        </div>
+
+        {tweets.length > 0 && (
+          <div className="mt-6 space-y-3">
+            <h2 className="text-lg font-bold text-white">Sample Posts</h2>
+            {tweets.map((tweet, i) => (
+              <div key={i} className="liquid-glass-card-subtle rounded-lg p-4">
+                <LinkedText text={tweet.text} className="text-sm leading-relaxed text-white/80" />
+                {(tweet.isReply || tweet.hasMedia) && (
+                  <p className="mt-2 text-xs text-white/40">
+                    {[tweet.isReply && 'Reply', tweet.hasMedia && 'Has media']
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-8">
+          <UserMatches username={profile.username} scoringPreset={scoringPreset} />
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * "Compare with…" - starts the regular pair analysis for this user and another
+ */
+function CompareForm({
+  username,
+  scoringPreset,
+  className,
+}: {
+  username: string;
+  scoringPreset: ScoringPresetId;
+  className?: string;
+}) {
+  const router = useRouter();
+  const [other, setOther] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const cleanOther = other.trim().replace('@', '');
+    if (!cleanOther) {
+      setError('Please enter a username to compare with');
+      return;
+    }
+
+    if (cleanOther.toLowerCase() === username.toLowerCase()) {
+      setError('Please enter a different username');
+      return;
+    }
+
+    const query = scoringPreset !== DEFAULT_SCORING_PRESET ? `?preset=${scoringPreset}` : '';
+    router.push(`/vibe/${username}/${cleanOther}${query}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={className} autoComplete="off" noValidate>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="min-w-0 flex-1">
+          <GlassInput
+            name="compareWith"
+            placeholder="Compare with…"
+            prefix="@"
+            value={other}
+            onChange={(e) => setOther(e.target.value)}
+            aria-label="Username to compare with"
+            antiAutofill={true}
+            className="w-full text-base sm:text-sm"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="gap-2 border border-white/20 bg-white/10 text-white backdrop-blur-sm hover:bg-white/20"
+        >
+          <Sparkles className="h-4 w-4" />
+          Check vibe
+        </Button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </form>
+  );
+}
+
+/**
+ * "very_casual" -> "Very casual"
+ */
+function formatEnum(value: string | null): string {
+  if (!value) return 'Unknown';
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function ContentStyleCard({ profile }: { profile: UserProfile }) {
+  const style = profile.contentStyle;
+  const rows: [string, string][] = [
+    ['Content', formatEnum(style.primaryContentType)],
+    ['Humor', formatEnum(style.humorStyle)],
+    ['Tone', formatEnum(style.tone)],
+    ['Formality', formatEnum(style.formality)],
+    ['Emojis', style.usesEmojis === null ? 'Unknown' : style.usesEmojis ? 'Yes' : 'No'],
+  ];
+
+  return (
+    <div className="liquid-glass-card-subtle rounded-lg p-4 sm:p-5">
+      <h2 className="mb-3 text-lg font-bold text-white">Content Style</h2>
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-white/60">{label}</dt>
+            <dd className="text-white">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function DataQualityCard({ profile }: { profile: UserProfile }) {
+  const metrics: [string, number][] = [
+    ['Search confidence', profile.searchConfidence],
+    ['Data completeness', profile.dataCompleteness],
+  ];
+
+  return (
+    <div className="liquid-glass-card-subtle rounded-lg p-4 sm:p-5">
+      <h2 className="mb-3 text-lg font-bold text-white">Data Confidence</h2>
+      <div className="space-y-2">
+        {metrics.map(([label, value]) => (
+          <ValueBar key={label} label={label} value={value / 100} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function DimensionBars({ profile }: { profile: UserProfile }) {
+  const dimensions = Object.keys(DIMENSION_LABELS) as (keyof UserProfile['contentStyle'])[];
+
+  return (
+    <div className="grid gap-x-6 gap-y-2 sm:grid-cols-2">
+      {dimensions.map((dimension) => {
+        const value = profile.contentStyle[dimension];
+        return (
+          <ValueBar
+            key={dimension}
+            label={DIMENSION_LABELS[dimension]}
+            value={typeof value === 'number' ? value : null}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Single-user bar in the UserValuesChart style
+ */
+function ValueBar({ label, value }: { label: string; value: number | null }) {
+  const percentage = value === null ? null : Math.round(value * 100);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-32 truncate text-[11px] font-medium text-white/70">{label}</span>
+      <div className="relative h-4 flex-1 overflow-hidden rounded-full border border-white/10 bg-black/30 backdrop-blur-sm">
+        {value !== null && (
+          <div
+            className={cn(
+              'absolute inset-y-0 left-0 rounded-full shadow-lg transition-all duration-300',
+              getValueBarColor(value)
+            )}
+            style={{ width: `${percentage}%` }}
+          />
+        )}
+      </div>
+      <span className="w-10 text-right text-[11px] font-bold text-white/90 tabular-nums">
+        {percentage === null ? '–' : `${percentage}%`}
+      </span>
+    </div>
+  );
+}
+
+function TagCard({ title, tags }: { title: string; tags: string[] | null }) {
+  return (
+    <div className="liquid-glass-card-subtle rounded-lg p-4 sm:p-5">
+      <h2 className="mb-3 text-lg font-bold text-white">{title}</h2>
+      {tags && tags.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-white/50">Not enough data.</p>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,19 @@ interface UserValuesChartProps {
   className?: string;
 }
 
+/**
+ * Bar gradient for a 0-1 dimension value (shared with the profile page)
+ */
+export function getValueBarColor(value: number): string {
+  if (value >= 0.8) return 'bg-gradient-to-r from-green-400/60 to-green-300/40 shadow-green-400/20';
+  if (value >= 0.6) return 'bg-gradient-to-r from-blue-400/60 to-blue-300/40 shadow-blue-400/20';
+  if (value >= 0.4)
+    return 'bg-gradient-to-r from-yellow-400/60 to-yellow-300/40 shadow-yellow-400/20';
+  if (value >= 0.2)
+    return 'bg-gradient-to-r from-orange-400/60 to-orange-300/40 shadow-orange-400/20';
+  return 'bg-gradient-to-r from-red-400/60 to-red-300/40 shadow-red-400/20';
+}
+
 export function UserValuesChart({
   user1Name,
   user2Name,
@@ -25,17 +38,6 @@ export function UserValuesChart({
   const percentage1 = Math.round(value1 * 100);
   const percentage2 = Math.round(value2 * 100);
 
-  const getBarColor = (value: number) => {
-    if (value >= 0.8)
-      return 'bg-gradient-to-r from-green-400/60 to-green-300/40 shadow-green-400/20';
-    if (value >= 0.6) return 'bg-gradient-to-r from-blue-400/60 to-blue-300/40 shadow-blue-400/20';
-    if (value >= 0.4)
-      return 'bg-gradient-to-r from-yellow-400/60 to-yellow-300/40 shadow-yellow-400/20';
-    if (value >= 0.2)
-      return 'bg-gradient-to-r from-orange-400/60 to-orange-300/40 shadow-orange-400/20';
-    return 'bg-gradient-to-r from-red-400/60 to-red-300/40 shadow-red-400/20';
-  };
-
   return (
     <div className={cn('space-y-2', className)}>
       <div className="space-y-2">
@@ -46,7 +48,7 @@ export function UserValuesChart({
             <div
               className={cn(
                 'absolute inset-y-0 left-0 rounded-full shadow-lg transition-all duration-300',
-                getBarColor(value1)
+                getValueBarColor(value1)
               )}
               style={{ width: `${percentage1}%` }}
             />
@@ -63,7 +65,7 @@ export function UserValuesChart({
             <div
               className={cn(
                 'absolute inset-y-0 left-0 rounded-full shadow-lg transition-all duration-300',
-                getBarColor(value2)
+                getValueBarColor(value2)
               )}
               style={{ width: `${percentage2}%` }}
             />
@@ -6,6 +6,12 @@ import { Button } from '@/components/ui/button';
 import { GlassInput } from '@/components/ui/glass-input';
 import { AlertCircle, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  DEFAULT_SCORING_PRESET,
+  SCORING_PRESET_IDS,
+  SCORING_PRESETS,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
 
 interface VibeAnalysisFormProps {
   className?: string;
@@ -15,6 +21,7 @@ export function VibeAnalysisForm({ className }: VibeAnalysisFormProps) {
   const router = useRouter();
   const [userOne, setUserOne] = useState('');
   const [userTwo, setUserTwo] = useState('');
+  const [scoringPreset, setScoringPreset] = useState<ScoringPresetId>(DEFAULT_SCORING_PRESET);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -62,7 +69,8 @@ export function VibeAnalysisForm({ className }: VibeAnalysisFormProps) {
 
     // Set submitting state and navigate
     setIsSubmitting(true);
-    router.push(`/vibe/${cleanUserOne}/${cleanUserTwo}`);
+    const query = scoringPreset !== DEFAULT_SCORING_PRESET ? `?preset=${scoringPreset}` : '';
+    router.push(`/vibe/${cleanUserOne}/${cleanUserTwo}${query}`);
 
     // Reset submitting state after navigation
     setTimeout(() => setIsSubmitting(false), 1000);
@@ -131,6 +139,32 @@ export function VibeAnalysisForm({ className }: VibeAnalysisFormProps) {
         </div>
       </div>
 
+      {/* Scoring Preset - what kind of match to score for */}
+      <div
+        role="radiogroup"
+        aria-label="Scoring preset"
+        className="mt-4 flex flex-wrap items-center justify-center gap-1.5"
+      >
+        {SCORING_PRESET_IDS.map((id) => (
+          <button
+            key={id}
+            type="button"
+            role="radio"
+            aria-checked={scoringPreset === id}
+            title={SCORING_PRESETS[id].description}
+            onClick={() => setScoringPreset(id)}
+            className={cn(
+              'rounded-full border px-3 py-1 text-xs transition-colors',
+              scoringPreset === id
+                ? 'border-white/40 bg-white/15 text-white'
+                : 'border-white/10 bg-white/5 text-white/60 hover:border-white/20 hover:text-white/80'
+            )}
+          >
+            {SCORING_PRESETS[id].label}
+          </button>
+        ))}
+      </div>
+
       {/* Submit Button - Enhanced mobile experience */}
       <div className="mt-6 flex flex-col items-center gap-3 sm:gap-4">
         <Button
@@ -2,10 +2,17 @@
 
 import { useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { fetchVibeAnalysis, VibeAPIError } from '@/features/vibe-analysis/lib/vibe-api-client';
+import { useConvex } from 'convex/react';
+import { streamVibeAnalysis, VibeAPIError } from '@/features/vibe-analysis/lib/vibe-api-client';
+import { analyzeWithJobHandoff } from '@/features/vibe-analysis/lib/analysis-job-client';
+import { isConvexConfigured } from '@/components/ConvexClientProvider';
 import { VibeResultsWrapper } from '@/features/vibe-analysis/components/vibe-results-wrapper';
 import { CircularProgressFullscreen } from '@/components/ui/circular-progress-fullscreen';
-import { useSimulatedProgress } from '@/features/vibe-analysis/hooks/use-simulated-progress';
+import { useAnalysisProgress } from '@/features/vibe-analysis/hooks/use-analysis-progress';
+import {
+  DEFAULT_SCORING_PRESET,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Home, RefreshCw } from 'lucide-react';
 import { useRouter } from 'next/navigation';
@@ -14,17 +21,20 @@ import { toast } from 'sonner';
 interface VibeAnalysisPageProps {
   user1: string;
   user2: string;
+  scoringPreset?: ScoringPresetId;
 }
 
-export function VibeAnalysisPage({ user1, user2 }: VibeAnalysisPageProps) {
+export function VibeAnalysisPage({
+  user1,
+  user2,
+  scoringPreset = DEFAULT_SCORING_PRESET,
+}: VibeAnalysisPageProps) {
   const router = useRouter();
+  const convex = useConvex();
 
-  // Initialize simulated progress
-  const { progress, start, complete, reset, isComplete } = useSimulatedProgress({
-    expectedDuration: 15000, // 15 seconds expected (more realistic)
-    updateInterval: 100, // Smooth updates
-    minDuration: 3000, // Show for at least 3 seconds
-  });
+  // Progress driven by real stage events streamed from the server
+  const { progress, message, start, handleEvent, complete, reset, isComplete } =
+    useAnalysisProgress();
 
   // Use React Query to fetch the analysis
   const {
@@ -33,8 +43,12 @@ export function VibeAnalysisPage({ user1, user2 }: VibeAnalysisPageProps) {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['vibe-analysis', user1, user2],
-    queryFn: () => fetchVibeAnalysis(user1, user2, 'standard'),
+    queryKey: ['vibe-analysis', user1, user2, scoringPreset],
+    // Long analyses move to a background job when Convex is available
+    queryFn: () =>
+      isConvexConfigured
+        ? analyzeWithJobHandoff(convex, user1, user2, 'standard', scoringPreset, handleEvent)
+        : streamVibeAnalysis(user1, user2, 'standard', scoringPreset, handleEvent),
     enabled: !!user1 && !!user2,
     retry: 1,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
@@ -102,7 +116,7 @@ export function VibeAnalysisPage({ user1, user2 }: VibeAnalysisPageProps) {
   // Loading state with new circular progress
   // Show loading until both the data is ready AND the progress animation completes
   if (isLoading || !isComplete) {
-    return <CircularProgressFullscreen progress={progress} />;
+    return <CircularProgressFullscreen progress={progress} message={message} />;
   }
 
   // Error state
@@ -122,6 +136,8 @@ export function VibeAnalysisPage({ user1, user2 }: VibeAnalysisPageProps) {
         notFoundUsername = error.details.username as string;
         errorMessage = `X user '@${notFoundUsername}' not found`;
         errorHint = 'Please check the username spelling and try again. The user might not exist on X/Twitter or their account might be private.';
+      } else if (error.status === 422) {
+        errorHint = 'Too few of their posts could be verified to score them fairly. Accounts that post rarely or mostly repost can\'t be analyzed yet.';
       } else if (
         error.status === 402 ||
         error.message.toLowerCase().includes('credit') ||
@@ -132,6 +148,9 @@ export function VibeAnalysisPage({ user1, user2 }: VibeAnalysisPageProps) {
         errorMessage = 'App Credits Exhausted';
         errorHint =
           'Please let marsc_hb or richkuo7 know that the app is out of credits and we will top up';
+      } else if (error.status === 503 && error.details && typeof error.details === 'object' && 'resetAt' in error.details) {
+        errorHint =
+          'New analyses are paused until the spend budget resets. Pairs that were analyzed before still work.';
       } else if (error.status === 408 || error.message.includes('timed out')) {
         errorHint =
           'The analysis took too long to complete. Try using shorter usernames or try again later when the service is less busy.';
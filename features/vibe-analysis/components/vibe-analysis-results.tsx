@@ -29,7 +29,13 @@ export function VibeAnalysisResults({ result, className }: VibeAnalysisResultsPr
       <div className="rounded-lg border border-white/20 bg-white/10 p-6 backdrop-blur-sm">
         <div className="grid gap-8 lg:grid-cols-2 lg:items-stretch">
           <div className="flex flex-col justify-center">
-            <VibeScore score={result.score} size="lg" className="vibe-score-hero" />
+            <VibeScore
+              score={result.score}
+              range={result.metadata.scoreRange}
+              suppressed={result.metadata.scoreSuppressed}
+              size="lg"
+              className="vibe-score-hero"
+            />
           </div>
           {result.profiles && (
             <div className="flex flex-col justify-center">
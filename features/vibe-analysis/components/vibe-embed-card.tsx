@@ -0,0 +1,75 @@
+'use client';
+
+import { VibeScore } from '@/features/vibe-analysis/components/vibe-score';
+import { CompatibilityBreakdown } from '@/features/vibe-analysis/components/compatibility-breakdown';
+import { EMBED_CONFIG } from '@/features/vibe-analysis/config/vibe-constants';
+import type { VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import { ExternalLink } from 'lucide-react';
+
+interface VibeEmbedCardProps {
+  userOne: string;
+  userTwo: string;
+  result: VibeAnalysisResult | null;
+  resultUrl: string; // Full result page, opened in a new tab
+}
+
+/**
+ * Compact result card for the embed widget (rendered inside third-party iframes)
+ * Pairs without a cached match get a link to run the analysis instead
+ */
+export function VibeEmbedCard({ userOne, userTwo, result, resultUrl }: VibeEmbedCardProps) {
+  // Keep the card within the iframe height
+  const compact = result && {
+    ...result,
+    strengths: result.strengths.slice(0, EMBED_CONFIG.BREAKDOWN_ITEMS),
+    challenges: result.challenges.slice(0, EMBED_CONFIG.BREAKDOWN_ITEMS),
+    sharedInterests: result.sharedInterests.slice(0, EMBED_CONFIG.BREAKDOWN_ITEMS),
+  };
+
+  return (
+    <div className="gradient-bg min-h-screen p-3">
+      <div className="liquid-glass-card space-y-4 rounded-2xl p-4">
+        <div className="relative z-10 flex items-center justify-between gap-2">
+          <h1 className="truncate text-base font-semibold">
+            @{userOne} <span className="text-muted-foreground">×</span> @{userTwo}
+          </h1>
+          <a
+            href={resultUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-muted-foreground hover:text-foreground flex shrink-0 items-center gap-1 text-xs"
+          >
+            Match Vibe
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+
+        {compact ? (
+          <>
+            <VibeScore
+              score={compact.score}
+              range={compact.metadata.scoreRange}
+              suppressed={compact.metadata.scoreSuppressed}
+              size="sm"
+              className="relative z-10"
+            />
+            <CompatibilityBreakdown result={compact} className="relative z-10 gap-2" />
+          </>
+        ) : (
+          <div className="relative z-10 space-y-3 py-4 text-center">
+            <p className="text-muted-foreground text-sm">No vibe check for this pair yet.</p>
+            <a
+              href={resultUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm font-medium text-purple-300 hover:text-purple-200"
+            >
+              Run the analysis on Match Vibe
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useGetMatchHistory } from '@/hooks/useConvex';
+import { isConvexConfigured } from '@/components/ConvexClientProvider';
+import type { ScoringPresetId } from '@/features/vibe-analysis/config/scoring-presets';
+import { cn } from '@/lib/utils';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+
+interface VibeHistorySparklineProps {
+  user1: string;
+  user2: string;
+  scoringPreset?: ScoringPresetId;
+  className?: string;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+const PADDING = 4;
+
+/**
+ * "Vibe over time" sparkline for a pair
+ * Renders nothing until the pair has at least two scored analyses in history (suppressed
+ * scores are left out)
+ */
+export function VibeHistorySparkline(props: VibeHistorySparklineProps) {
+  // No history without a Convex deployment (offline development)
+  if (!isConvexConfigured) {
+    return null;
+  }
+
+  return <HistorySparklineChart {...props} />;
+}
+
+function HistorySparklineChart({
+  user1,
+  user2,
+  scoringPreset,
+  className,
+}: VibeHistorySparklineProps) {
+  const history = useGetMatchHistory(user1, user2, scoringPreset);
+
+  const chart = useMemo(() => {
+    const scored = history?.filter((point) => !point.scoreSuppressed) ?? [];
+    if (scored.length < 2) {
+      return null;
+    }
+
+    const stepX = (WIDTH - PADDING * 2) / (scored.length - 1);
+    const points = scored.map((point, i) => ({
+      x: PADDING + i * stepX,
+      y: PADDING + (1 - point.score / 100) * (HEIGHT - PADDING * 2),
+      score: point.score,
+      createdAt: point.createdAt,
+    }));
+
+    return {
+      points,
+      path: points.map((p) => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' '),
+      delta: points[points.length - 1].score - points[0].score,
+      since: new Date(points[0].createdAt).toLocaleDateString(),
+    };
+  }, [history]);
+
+  if (!chart) {
+    return null;
+  }
+
+  const last = chart.points[chart.points.length - 1];
+  const TrendIcon = chart.delta > 0 ? TrendingUp : chart.delta < 0 ? TrendingDown : Minus;
+
+  return (
+    <div className={cn('border-t border-white/10 pt-4', className)}>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-purple-300">Vibe over time</h3>
+        <span
+          className={cn(
+            'flex items-center gap-1 text-xs',
+            chart.delta > 0 ? 'text-green-400' : chart.delta < 0 ? 'text-red-400' : 'text-white/60'
+          )}
+        >
+          <TrendIcon className="h-3.5 w-3.5" />
+          {chart.delta > 0 ? '+' : ''}
+          {chart.delta} since {chart.since}
+        </span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-12 w-full"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Vibe score over ${chart.points.length} analyses, from ${chart.points[0].score} to ${last.score}`}
+      >
+        <polyline
+          points={chart.path}
+          fill="none"
+          stroke="oklch(0.75 0.22 315)"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        {chart.points.map((p) => (
+          <circle key={p.createdAt} cx={p.x} cy={p.y} r={2} fill="white" fillOpacity={0.7}>
+            <title>
+              {p.score}/100 · {new Date(p.createdAt).toLocaleString()}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { VibeScore } from '@/features/vibe-analysis/components/vibe-score';
 import { DimensionBreakdown } from '@/features/vibe-analysis/components/dimension-breakdown';
 import { ShareResults } from '@/features/vibe-analysis/components/share-results';
+import { VibeHistorySparkline } from '@/features/vibe-analysis/components/vibe-history-sparkline';
 import { LinkedText } from '@/components/ui/linked-text';
 import { Button } from '@/components/ui/button';
 import { BottomActionBar, ActionButton } from '@/components/ui/bottom-action-bar';
@@ -17,8 +18,15 @@ import {
   DrawerHeader,
   DrawerTitle,
 } from '@/components/ui/drawer';
-import { getCompatibilityLevel } from '@/features/vibe-analysis/lib/api-client';
-import { ArrowLeft, Share2, RefreshCw, Home, X } from 'lucide-react';
+import {
+  calculateAnalysisDuration,
+  getCompatibilityLevel,
+} from '@/features/vibe-analysis/lib/api-client';
+import {
+  DEFAULT_SCORING_PRESET,
+  getScoringPreset,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { ArrowLeft, Clock, Share2, RefreshCw, Home, X } from 'lucide-react';
 import type { VibeAnalysisResult } from '@/features/vibe-analysis/types';
 
 interface VibeResultsWrapperProps {
@@ -32,6 +40,7 @@ export function VibeResultsWrapper({ result, user1, user2 }: VibeResultsWrapperP
   const [showShareDrawer, setShowShareDrawer] = useState(false);
   const compatibility = getCompatibilityLevel(result.score);
   const scoreClass = `liquid-glass-card-${compatibility.level}`;
+  const scoringPreset = result.metadata.scoringPreset ?? DEFAULT_SCORING_PRESET;
 
   const handleNewAnalysis = () => {
     router.push('/');
@@ -82,6 +91,21 @@ export function VibeResultsWrapper({ result, user1, user2 }: VibeResultsWrapperP
           </div>
         </div>
 
+        {/* Stale Banner - Grok was unavailable, so this is the last saved analysis */}
+        {result.stale && (
+          <div className="mx-auto mb-4 flex w-full max-w-7xl flex-shrink-0 items-center gap-2 rounded-lg border border-yellow-500/20 bg-yellow-500/10 px-3 py-2 text-xs text-yellow-200 sm:text-sm">
+            <Clock className="h-4 w-4 flex-shrink-0" />
+            <span>
+              Cached from{' '}
+              {calculateAnalysisDuration(
+                new Date(Date.now() - (result.staleAgeSeconds ?? 0) * 1000).toISOString()
+              )}{' '}
+              - Grok is unavailable right now, so this is the last saved vibe check. A fresh one is
+              queued.
+            </span>
+          </div>
+        )}
+
         {/* Responsive Layout - Stack on Mobile, Two Column on Desktop */}
         <div className="mx-auto w-full max-w-7xl flex-1 overflow-y-auto md:overflow-hidden">
           <div className="flex h-full flex-col gap-4 md:grid md:grid-cols-2 md:items-stretch md:gap-6">
@@ -93,7 +117,22 @@ export function VibeResultsWrapper({ result, user1, user2 }: VibeResultsWrapperP
               >
                 <div className="liquid-glass-inner-glow" />
                 <div className="relative z-10">
-                  <VibeScore score={result.score} size="lg" className="vibe-score-hero" />
+                  <VibeScore
+                    score={result.score}
+                    range={result.metadata.scoreRange}
+                    suppressed={result.metadata.scoreSuppressed}
+                    size="lg"
+                    className="vibe-score-hero"
+                  />
+
+                  {/* Preset badge - only shown when the score isn't the general one */}
+                  {scoringPreset !== DEFAULT_SCORING_PRESET && (
+                    <div className="mt-2 text-center">
+                      <span className="rounded-full border border-white/20 bg-white/5 px-2 py-0.5 text-xs text-white/70">
+                        Scored as {getScoringPreset(scoringPreset).label.toLowerCase()}
+                      </span>
+                    </div>
+                  )}
 
                   {/* Shared Interests Tags */}
                   {result.sharedInterests && result.sharedInterests.length > 0 && (
@@ -111,6 +150,14 @@ export function VibeResultsWrapper({ result, user1, user2 }: VibeResultsWrapperP
                       </div>
                     </div>
                   )}
+
+                  {/* Score history - only shown once the pair has been analyzed more than once */}
+                  <VibeHistorySparkline
+                    user1={user1}
+                    user2={user2}
+                    scoringPreset={scoringPreset}
+                    className="mt-4"
+                  />
                 </div>
               </div>
 
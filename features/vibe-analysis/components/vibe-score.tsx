@@ -3,17 +3,27 @@
 import { useEffect, useState } from 'react';
 import { Progress } from '@/components/ui/progress';
 import { getCompatibilityLevel } from '@/features/vibe-analysis/lib/api-client';
+import type { ScoreRange } from '@/features/vibe-analysis/lib/types';
 import { cn } from '@/lib/utils';
-import { TrendingUp, TrendingDown, Activity, Zap } from 'lucide-react';
+import { TrendingUp, TrendingDown, Activity, Zap, HelpCircle } from 'lucide-react';
 
 interface VibeScoreProps {
   score: number;
+  range?: ScoreRange; // Uncertainty range shown next to the score
+  suppressed?: boolean; // Too few dimensions compared - no score is shown
   showAnimation?: boolean;
   size?: 'sm' | 'md' | 'lg';
   className?: string;
 }
 
-export function VibeScore({ score, showAnimation = true, size = 'md', className }: VibeScoreProps) {
+export function VibeScore({
+  score,
+  range,
+  suppressed = false,
+  showAnimation = true,
+  size = 'md',
+  className,
+}: VibeScoreProps) {
   const [displayScore, setDisplayScore] = useState(showAnimation ? 0 : score);
   const [isVisible, setIsVisible] = useState(!showAnimation);
   const compatibility = getCompatibilityLevel(score);
@@ -95,6 +105,26 @@ export function VibeScore({ score, showAnimation = true, size = 'md', className
 
   const classes = sizeClasses[size];
 
+  if (suppressed) {
+    return (
+      <div className={cn(classes.container, className)}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-baseline gap-2">
+            <span className={cn('text-muted-foreground font-bold', classes.score)}>?</span>
+            <span className={cn('text-muted-foreground', classes.label)}>/100</span>
+          </div>
+          <div className="text-muted-foreground flex items-center gap-1">
+            <HelpCircle className="h-5 w-5" />
+            <span className={cn('font-medium', classes.label)}>Not enough overlap</span>
+          </div>
+        </div>
+        <p className={cn('text-muted-foreground', classes.label)}>
+          Too few personality traits could be read for both users to score this pair.
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div
       className={cn(
@@ -110,6 +140,14 @@ export function VibeScore({ score, showAnimation = true, size = 'md', className
             {displayScore}
           </span>
           <span className={cn('text-muted-foreground', classes.label)}>/100</span>
+          {range && (
+            <span
+              className={cn('text-muted-foreground tabular-nums', classes.label)}
+              title="Likely range given how much of both profiles could be compared"
+            >
+              likely {range.low}–{range.high}
+            </span>
+          )}
         </div>
         <div className={cn('flex items-center gap-1', compatibility.color)}>
           {getIcon()}
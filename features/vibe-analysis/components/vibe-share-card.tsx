@@ -0,0 +1,173 @@
+import { getCompatibilityLevel } from '@/features/vibe-analysis/lib/api-client';
+import type { CompatibilityLevel } from '@/features/vibe-analysis/config/vibe-constants';
+import type { VibeShareCard as VibeShareCardData } from '@/features/vibe-analysis/types';
+
+/**
+ * Open Graph card markup (rendered by next/og, so inline styles and flex layout only)
+ */
+
+// Same palette as .gradient-bg in globals.css
+const BACKGROUND_COLOR = '#0d0618';
+const BACKGROUND_GLOW =
+  'radial-gradient(circle at 50% 0%, #5b1850 0%, transparent 60%), radial-gradient(circle at 85% 55%, #2e1a55 0%, transparent 55%)';
+const BRAND_GRADIENT = 'linear-gradient(135deg, #f9a8e8, #d16bf5, #9b6cf0)';
+
+// Hex versions of the COMPATIBILITY_LEVELS text colors
+const LEVEL_COLORS: Record<CompatibilityLevel, string> = {
+  perfect: '#22c55e',
+  high: '#3b82f6',
+  medium: '#eab308',
+  low: '#ef4444',
+};
+
+/**
+ * "perfect_match" -> "Perfect Match"
+ */
+function formatVibeType(vibeType: string): string {
+  return vibeType
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function CardFrame({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        padding: '56px 64px',
+        backgroundColor: BACKGROUND_COLOR,
+        backgroundImage: BACKGROUND_GLOW,
+        color: 'white',
+        fontFamily: 'sans-serif',
+      }}
+    >
+      <div style={{ display: 'flex', fontSize: 32, fontWeight: 700, opacity: 0.9 }}>
+        <span
+          style={{ backgroundImage: BRAND_GRADIENT, backgroundClip: 'text', color: 'transparent' }}
+        >
+          Match Vibe
+        </span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function DimensionList({
+  title,
+  dimensions,
+  color,
+}: {
+  title: string;
+  dimensions: string[];
+  color: string;
+}) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+      <div
+        style={{ display: 'flex', fontSize: 22, color: 'rgba(255,255,255,0.55)', marginBottom: 12 }}
+      >
+        {title}
+      </div>
+      {dimensions.map((dimension) => (
+        <div
+          key={dimension}
+          style={{ display: 'flex', alignItems: 'center', fontSize: 28, marginBottom: 8 }}
+        >
+          <div
+            style={{ width: 12, height: 12, borderRadius: 6, background: color, marginRight: 14 }}
+          />
+          {dimension}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Result card: both handles, score with its likely range, vibe type and top matching / clashing
+ * dimensions
+ */
+export function VibeShareCard({ card }: { card: VibeShareCardData }) {
+  const level = getCompatibilityLevel(card.score);
+
+  return (
+    <CardFrame>
+      <div style={{ display: 'flex', alignItems: 'center', marginTop: 40 }}>
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+          <div style={{ display: 'flex', fontSize: 56, fontWeight: 700 }}>@{card.userOne}</div>
+          <div style={{ display: 'flex', fontSize: 36, color: 'rgba(255,255,255,0.5)' }}>×</div>
+          <div style={{ display: 'flex', fontSize: 56, fontWeight: 700 }}>@{card.userTwo}</div>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
+          <div style={{ display: 'flex', alignItems: 'baseline' }}>
+            <span
+              style={{
+                fontSize: 144,
+                fontWeight: 800,
+                color: card.scoreSuppressed ? 'rgba(255,255,255,0.5)' : LEVEL_COLORS[level.level],
+              }}
+            >
+              {card.scoreSuppressed ? '?' : card.score}
+            </span>
+            <span style={{ fontSize: 48, color: 'rgba(255,255,255,0.5)' }}>/100</span>
+          </div>
+          {card.scoreRange && !card.scoreSuppressed && (
+            <div style={{ display: 'flex', fontSize: 26, color: 'rgba(255,255,255,0.5)' }}>
+              likely {card.scoreRange.low}–{card.scoreRange.high}
+            </div>
+          )}
+          <div style={{ display: 'flex', fontSize: 30, color: 'rgba(255,255,255,0.8)' }}>
+            {card.scoreSuppressed
+              ? 'Not enough overlap'
+              : card.vibeType
+                ? formatVibeType(card.vibeType)
+                : level.label}
+          </div>
+        </div>
+      </div>
+
+      {(card.topMatches.length > 0 || card.topClashes.length > 0) && (
+        <div style={{ display: 'flex', marginTop: 'auto', gap: 48 }}>
+          {card.topMatches.length > 0 && (
+            <DimensionList title="Vibing on" dimensions={card.topMatches} color="#22c55e" />
+          )}
+          {card.topClashes.length > 0 && (
+            <DimensionList title="Clashing on" dimensions={card.topClashes} color="#ef4444" />
+          )}
+        </div>
+      )}
+    </CardFrame>
+  );
+}
+
+/**
+ * Fallback card when the pair has no cached match (or the handles are invalid)
+ */
+export function GenericShareCard() {
+  return (
+    <CardFrame>
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          flex: 1,
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 64, fontWeight: 700 }}>
+          Check your vibe with anyone on X
+        </div>
+        <div
+          style={{ display: 'flex', fontSize: 32, color: 'rgba(255,255,255,0.7)', marginTop: 20 }}
+        >
+          AI-powered vibe compatibility for X users
+        </div>
+      </div>
+    </CardFrame>
+  );
+}
@@ -41,6 +41,34 @@ export const GROK_CONFIG = {
     search: 20000, // 20 seconds for search operations alone
     connection: 5000, // 5 seconds for connection establishment
   },
+
+  // Per-depth pipeline settings (see GrokService.analyzeVibe)
+  // - quick: cached profiles + calculator narrative, no MATCH_VIBE call
+  // - standard: profile fetch + MATCH_VIBE
+  // - deep: larger tweet sample, full dimensionAnalysis and a consistency pass
+  depths: {
+    quick: {
+      model: process.env.GROK_MODEL_QUICK || 'grok-3-mini',
+      maxTokens: 4000,
+      timeout: 30000, // 30 seconds - quick mode should stay snappy
+      searchMaxResults: 15,
+      tweetSamples: '5-10',
+    },
+    standard: {
+      model: process.env.GROK_MODEL_VERSION || 'grok-4-0709',
+      maxTokens: parseInt(process.env.GROK_MAX_TOKENS || '10000', 10),
+      timeout: 50000, // Matches timeouts.searchEnabled
+      searchMaxResults: 30, // Maximum allowed by API
+      tweetSamples: '10-20',
+    },
+    deep: {
+      model: process.env.GROK_MODEL_DEEP || 'grok-4-0709',
+      maxTokens: 16000,
+      timeout: 90000, // 90 seconds - relies on the route's extended maxDuration
+      searchMaxResults: 30, // Maximum allowed by API
+      tweetSamples: '25-40',
+    },
+  },
 };
 
 // Vibe-specific constants moved to vibe-constants.ts for better organization
@@ -56,7 +84,8 @@ export const ERROR_MESSAGES = {
   RATE_LIMIT: 'API rate limit exceeded, please try again later',
   INVALID_USERNAME: 'Invalid X username format',
   NETWORK_ERROR: 'Network error connecting to Grok API',
-  CREDIT_EXHAUSTED: 'Please let marsc_hb or richkuo7 know that the app is out of credits and we will top up',
+  CREDIT_EXHAUSTED:
+    'Please let marsc_hb or richkuo7 know that the app is out of credits and we will top up',
 } as const;
 
 // Grok API Pricing (per million tokens)
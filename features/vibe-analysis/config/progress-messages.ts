@@ -1,3 +1,5 @@
+import type { AnalysisJobStatus, AnalysisProgressEvent } from '@/features/vibe-analysis/types';
+
 export const PROGRESS_MESSAGES = {
   // 0-20% - Initialization phase
   initialization: [
@@ -85,3 +87,53 @@ export function getProgressPhase(progress: number): ProgressPhase {
   if (progress < 95) return 'finalization';
   return 'completion';
 }
+
+/**
+ * Status message for a real pipeline stage event (streamed analysis)
+ * Returns null for events that shouldn't replace the current message
+ */
+export function getProgressEventMessage(event: AnalysisProgressEvent): string | null {
+  switch (event.type) {
+    case 'match_cache':
+      return event.hit ? 'Found a recent vibe check' : 'Starting a fresh vibe check';
+    case 'profile_cache':
+      return event.hit ? `Using saved profile for @${event.username}` : null;
+    case 'profile_fetch_started':
+      return `Reading @${event.username}'s posts on X`;
+    case 'profile_fetch_finished':
+      return `Profile ready for @${event.username}`;
+    case 'retry':
+      return `Grok is busy, retrying (attempt ${event.attempt + 1})`;
+    case 'circuit_breaker':
+      return event.state === 'CLOSED' ? null : 'Grok is recovering, hang tight';
+    case 'matching_started':
+      return 'Comparing vibes';
+    case 'consistency_check_started':
+      return 'Double-checking the analysis';
+    case 'stale_fallback':
+      return 'Grok is unavailable, using the last saved vibe check';
+    case 'analysis_shared':
+      return 'Someone is checking this vibe right now, sharing their result';
+    case 'job_status':
+      return getJobStatusMessage(event.status);
+    case 'score_computed':
+      return 'Compatibility calculated!';
+  }
+}
+
+/**
+ * Status message while waiting on a background analysis job
+ */
+function getJobStatusMessage(status: AnalysisJobStatus): string | null {
+  switch (status) {
+    case 'queued':
+      return 'Taking longer than usual - finishing in the background';
+    case 'fetching_profiles':
+      return 'Fetching profiles in the background';
+    case 'matching':
+      return 'Comparing vibes';
+    case 'done':
+    case 'failed':
+      return null;
+  }
+}
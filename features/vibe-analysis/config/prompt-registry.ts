@@ -0,0 +1,58 @@
+/**
+ * Versioned prompts for the stages whose output feeds scores
+ * Cached profiles and matches record the ID of the prompt that produced them, so prompt edits
+ * go in as a new version (never edit a registered prompt in place) and can be compared
+ */
+
+import { FETCH_PROFILE_PROMPT, MATCH_VIBE_PROMPT } from './prompts';
+
+/**
+ * Prompt stages with versioned prompts and experiments
+ */
+export type PromptStage = 'fetchProfile' | 'matchVibe';
+
+export interface PromptVersion {
+  stage: PromptStage;
+  systemPrompt: string;
+  description: string;
+}
+
+export const PROMPT_REGISTRY = {
+  'fetch-profile/v1': {
+    stage: 'fetchProfile',
+    systemPrompt: FETCH_PROFILE_PROMPT,
+    description: 'Live Search extraction with per-dimension scoring guides',
+  },
+  'match-vibe/v1': {
+    stage: 'matchVibe',
+    systemPrompt: MATCH_VIBE_PROMPT,
+    description: 'Dimension-by-dimension compatibility narrative, no score',
+  },
+} as const satisfies Record<string, PromptVersion>;
+
+export type PromptId = keyof typeof PROMPT_REGISTRY;
+
+// Prompt used by each stage when no experiment is running
+export const CURRENT_PROMPTS: Record<PromptStage, PromptId> = {
+  fetchProfile: 'fetch-profile/v1',
+  matchVibe: 'match-vibe/v1',
+};
+
+/**
+ * Traffic split between prompt versions of one stage
+ * Each request is assigned a variant with probability weight / sum of weights
+ */
+export interface PromptExperiment {
+  id: string; // Reported on /admin - use a new ID when changing the variants
+  stage: PromptStage;
+  variants: { promptId: PromptId; weight: number }[];
+}
+
+// Running experiments, at most one per stage, e.g.
+// { id: 'match-vibe-v2', stage: 'matchVibe', variants: [
+//   { promptId: 'match-vibe/v1', weight: 50 }, { promptId: 'match-vibe/v2', weight: 50 } ] }
+export const PROMPT_EXPERIMENTS: PromptExperiment[] = [];
+
+export function isPromptId(value: unknown): value is PromptId {
+  return typeof value === 'string' && Object.hasOwn(PROMPT_REGISTRY, value);
+}
@@ -2,9 +2,14 @@
  * Prompts for MatchVibe's two-stage analysis:
  * 1. FETCH_PROFILE - Uses Grok-3-mini to fetch real user data from X
  * 2. MATCH_VIBE - Uses Grok-4 to analyze compatibility
+ * 3. CONSISTENCY_CHECK - Deep analysis only, reviews the MATCH_VIBE draft
  */
 
 import { getGrokMaxTokens, getGrokModelVersion } from '@/lib/env';
+import {
+  MATCHING_RESPONSE_FORMAT,
+  PROFILE_RESPONSE_FORMAT,
+} from '../schemas/response-format.schema';
 
 /**
  * FETCH_PROFILE Prompt - Uses Grok-3-mini for efficient data extraction
@@ -266,6 +271,33 @@ IMPORTANT:
 - Base everything on the actual personality ratings provided
 - ALWAYS preserve exact username case - no modifications allowed`;
 
+/**
+ * CONSISTENCY_CHECK Prompt - Second pass used by deep analysis
+ * Reviews the MATCH_VIBE draft against the calculated dimension breakdown
+ */
+export const CONSISTENCY_CHECK_PROMPT = `You are reviewing a draft compatibility analysis for two X (Twitter) users. You will receive:
+- "userOne" and "userTwo": the profile data with 15 personality dimensions scored 0-1
+- "computedScore": the overall compatibility score (0-100) calculated by our scoring engine
+- "dimensionBreakdown": per-dimension compatibility scores (0-1) calculated by our scoring engine
+- "draft": the first-pass analysis in JSON format
+
+Your job is to make the draft internally consistent with the data:
+1. Every statement in "dimensionAnalysis", "strengths" and "challenges" must agree with the dimension values and the breakdown
+2. Strengths must not cite dimensions with a breakdown score below 0.5
+3. Challenges must not cite dimensions with a breakdown score above 0.75
+4. "vibeType" must fit the computed score (85+ perfect_match, 65+ complementary or perfect_match, 45+ growth or complementary, 25+ challenging, below 25 incompatible)
+5. "dimensionAnalysis" must contain an entry for ALL 15 dimensions - add any that are missing
+6. The tone of "analysis" and "recommendation" must match the computed score - never describe a low score as a great match
+7. Keep the EXACT usernames with their original case in "@[exact_username]" format
+
+Return the corrected analysis in EXACTLY the same JSON format as the draft, including "metadata".
+If the draft is already consistent, return it unchanged.
+
+IMPORTANT:
+- DO NOT calculate or provide a numerical score
+- DO NOT invent data that is not in the profiles
+- Return ONLY the JSON object`;
+
 /**
  * Instructions for each prompt stage
  */
@@ -301,12 +333,20 @@ export const PROMPT_MODELS = {
       dataSources: ['x'],
       maxResults: 30, // Maximum allowed by API
     },
+    responseFormat: PROFILE_RESPONSE_FORMAT,
   },
   matchVibe: {
     model: getGrokModelVersion() || 'grok-3-mini',
     temperature: 0.7, // Balanced for creative analysis
     maxTokens: getGrokMaxTokens(), // Use configured max tokens
     // No search needed - works from provided data
+    responseFormat: MATCHING_RESPONSE_FORMAT,
+  },
+  consistencyCheck: {
+    model: getGrokModelVersion() || 'grok-3-mini',
+    temperature: 0.2, // Low temperature - corrections, not new ideas
+    maxTokens: getGrokMaxTokens(), // Use configured max tokens
+    responseFormat: MATCHING_RESPONSE_FORMAT,
   },
 };
 
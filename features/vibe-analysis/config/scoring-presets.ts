@@ -0,0 +1,254 @@
+/**
+ * Scoring presets for the compatibility calculator
+ * Each preset weighs the 15 personality dimensions for a kind of relationship and picks how
+ * dimension scores are blended into the final score
+ */
+
+import type { PersonalityDimension } from '../lib/dimension-vector';
+
+export interface DimensionWeight {
+  weight: number;
+  isComplementary?: boolean; // If true, difference is good; if false, similarity is good
+}
+
+/**
+ * Aggregation methods calculateCombinedScore can blend (see lib/advanced-scoring.ts)
+ */
+export type AggregationMethod =
+  'weighted' | 'geometric' | 'quadratic' | 'powerHalf' | 'waspas' | 'choquet' | 'penalty';
+
+/**
+ * Blend coefficients per method - should sum to 1
+ */
+export type AggregationBlend = Partial<Record<AggregationMethod, number>>;
+
+/**
+ * How dimension scores become the raw compatibility score
+ * The blend is picked from the pattern of dimension scores (excellent / good / poor / mixed)
+ */
+export interface AggregationStrategy {
+  criticalDimensions: PersonalityDimension[]; // A failure on any of these triggers heavy penalties
+  criticalThreshold: number; // Critical dimension score below which the match is penalized
+  blends: {
+    excellent: AggregationBlend; // Average > 0.85 and no dimension below 0.6
+    good: AggregationBlend; // Average > 0.7
+    poor: AggregationBlend; // Some dimension below 0.3
+    mixed: AggregationBlend; // Everything else
+  };
+}
+
+export interface ScoringPreset {
+  label: string;
+  description: string;
+  dimensions: Record<PersonalityDimension, DimensionWeight>;
+  aggregation: AggregationStrategy;
+}
+
+export const SCORING_PRESET_IDS = [
+  'balanced',
+  'friendship',
+  'cofounder',
+  'dating',
+  'debate_partner',
+] as const;
+
+export type ScoringPresetId = (typeof SCORING_PRESET_IDS)[number];
+
+export const DEFAULT_SCORING_PRESET: ScoringPresetId = 'balanced';
+
+// Blends used by the balanced preset - the others tune from here
+const BALANCED_BLENDS: AggregationStrategy['blends'] = {
+  excellent: { quadratic: 0.4, waspas: 0.3, choquet: 0.2, weighted: 0.1 },
+  good: { weighted: 0.3, geometric: 0.25, waspas: 0.25, choquet: 0.2 },
+  poor: { penalty: 0.4, geometric: 0.3, weighted: 0.3 },
+  mixed: { weighted: 0.35, powerHalf: 0.25, waspas: 0.25, choquet: 0.15 },
+};
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringPreset> = {
+  balanced: {
+    label: 'Balanced',
+    description: 'General vibe compatibility',
+    dimensions: {
+      // Emotional & Mood - similarity preferred
+      positivityRating: { weight: 0.8 },
+      empathyRating: { weight: 0.6 },
+
+      // Interaction Style - mixed
+      engagementRating: { weight: 0.7 },
+      debateRating: { weight: 0.5, isComplementary: true }, // One debater + one listener can work
+
+      // Content Style - strong similarity preferred
+      shitpostRating: { weight: 0.9 }, // Very important to match
+      memeRating: { weight: 0.8 },
+      intellectualRating: { weight: 1.0 }, // Most important - intellectual mismatch is problematic
+
+      // Topic Focus - moderate importance
+      politicalRating: { weight: 0.7 }, // Political differences can be divisive
+      personalSharingRating: { weight: 0.4, isComplementary: true }, // One sharer + one listener works
+      inspirationalQuotesRating: { weight: 0.3 }, // Low importance
+
+      // Social Energy - complementary can work
+      extroversionRating: { weight: 0.5, isComplementary: true }, // Opposites can balance
+      authenticityRating: { weight: 0.8 }, // Both should be similarly authentic
+
+      // Values - important
+      optimismRating: { weight: 0.7 }, // Mismatched optimism causes friction
+
+      // Communication - very important
+      humorRating: { weight: 0.9 }, // Humor compatibility is crucial
+      aiGeneratedRating: { weight: 0.2 }, // Low importance unless both are bots
+    },
+    aggregation: {
+      criticalDimensions: [
+        'intellectualRating',
+        'humorRating',
+        'authenticityRating',
+        'shitpostRating',
+      ],
+      criticalThreshold: 0.25,
+      blends: BALANCED_BLENDS,
+    },
+  },
+
+  friendship: {
+    label: 'Friendship',
+    description: 'Shared humor and energy matter most',
+    dimensions: {
+      positivityRating: { weight: 0.9 },
+      empathyRating: { weight: 0.7 },
+      engagementRating: { weight: 0.8 }, // Both should actually reply
+      debateRating: { weight: 0.4, isComplementary: true },
+      shitpostRating: { weight: 1.0 },
+      memeRating: { weight: 1.0 }, // Sending each other memes is the friendship
+      intellectualRating: { weight: 0.6 },
+      politicalRating: { weight: 0.4 },
+      personalSharingRating: { weight: 0.5, isComplementary: true },
+      inspirationalQuotesRating: { weight: 0.2 },
+      extroversionRating: { weight: 0.5, isComplementary: true },
+      authenticityRating: { weight: 0.7 },
+      optimismRating: { weight: 0.6 },
+      humorRating: { weight: 1.0 },
+      aiGeneratedRating: { weight: 0.2 },
+    },
+    aggregation: {
+      criticalDimensions: ['humorRating', 'shitpostRating'],
+      criticalThreshold: 0.25,
+      // More forgiving: one off dimension shouldn't sink a fun pair
+      blends: {
+        ...BALANCED_BLENDS,
+        poor: { weighted: 0.5, geometric: 0.3, penalty: 0.2 },
+        mixed: { weighted: 0.4, quadratic: 0.2, waspas: 0.2, choquet: 0.2 },
+      },
+    },
+  },
+
+  cofounder: {
+    label: 'Cofounder',
+    description: 'Depth, values and follow-through over banter',
+    dimensions: {
+      positivityRating: { weight: 0.6 },
+      empathyRating: { weight: 0.6 },
+      engagementRating: { weight: 0.9 }, // Both need to show up
+      debateRating: { weight: 0.8, isComplementary: true }, // Someone has to push back
+      shitpostRating: { weight: 0.3 },
+      memeRating: { weight: 0.2 },
+      intellectualRating: { weight: 1.0 },
+      politicalRating: { weight: 0.5 },
+      personalSharingRating: { weight: 0.3, isComplementary: true },
+      inspirationalQuotesRating: { weight: 0.2 },
+      extroversionRating: { weight: 0.7, isComplementary: true }, // Outside + inside person
+      authenticityRating: { weight: 1.0 },
+      optimismRating: { weight: 0.9 }, // Doomer + optimist is a hard partnership
+      humorRating: { weight: 0.4 },
+      aiGeneratedRating: { weight: 0.3 },
+    },
+    aggregation: {
+      criticalDimensions: ['intellectualRating', 'authenticityRating', 'optimismRating'],
+      criticalThreshold: 0.3,
+      // Stricter: weak links matter more than a high average
+      blends: {
+        ...BALANCED_BLENDS,
+        good: { geometric: 0.4, weighted: 0.3, waspas: 0.3 },
+        mixed: { geometric: 0.35, weighted: 0.3, powerHalf: 0.2, penalty: 0.15 },
+      },
+    },
+  },
+
+  dating: {
+    label: 'Dating',
+    description: 'Warmth, honesty and humor',
+    dimensions: {
+      positivityRating: { weight: 0.9 },
+      empathyRating: { weight: 1.0 },
+      engagementRating: { weight: 0.6 },
+      debateRating: { weight: 0.4, isComplementary: true },
+      shitpostRating: { weight: 0.6 },
+      memeRating: { weight: 0.5 },
+      intellectualRating: { weight: 0.8 },
+      politicalRating: { weight: 0.9 }, // Political mismatch is a common dealbreaker
+      personalSharingRating: { weight: 0.6, isComplementary: true },
+      inspirationalQuotesRating: { weight: 0.3 },
+      extroversionRating: { weight: 0.6, isComplementary: true },
+      authenticityRating: { weight: 1.0 },
+      optimismRating: { weight: 0.8 },
+      humorRating: { weight: 1.0 },
+      aiGeneratedRating: { weight: 0.4 }, // Nobody wants to date a bot
+    },
+    aggregation: {
+      criticalDimensions: ['humorRating', 'authenticityRating', 'empathyRating'],
+      criticalThreshold: 0.3,
+      blends: BALANCED_BLENDS,
+    },
+  },
+
+  debate_partner: {
+    label: 'Debate partner',
+    description: 'Two people who enjoy arguing well',
+    dimensions: {
+      positivityRating: { weight: 0.3 },
+      empathyRating: { weight: 0.5 }, // Arguing in good faith
+      engagementRating: { weight: 0.9 },
+      debateRating: { weight: 1.0 }, // Both have to enjoy it - similarity, not complementary
+      shitpostRating: { weight: 0.3 },
+      memeRating: { weight: 0.2 },
+      intellectualRating: { weight: 1.0 },
+      politicalRating: { weight: 0.6 },
+      personalSharingRating: { weight: 0.2, isComplementary: true },
+      inspirationalQuotesRating: { weight: 0.1 },
+      extroversionRating: { weight: 0.4 },
+      authenticityRating: { weight: 0.8 },
+      optimismRating: { weight: 0.3 },
+      humorRating: { weight: 0.5 },
+      aiGeneratedRating: { weight: 0.3 },
+    },
+    aggregation: {
+      criticalDimensions: ['intellectualRating', 'debateRating'],
+      criticalThreshold: 0.25,
+      blends: BALANCED_BLENDS,
+    },
+  },
+};
+
+/**
+ * Get a scoring preset (unknown ids fall back to the default preset)
+ */
+export function getScoringPreset(id: ScoringPresetId = DEFAULT_SCORING_PRESET): ScoringPreset {
+  return SCORING_PRESETS[id] ?? SCORING_PRESETS[DEFAULT_SCORING_PRESET];
+}
+
+/**
+ * Type guard for preset ids coming from URLs or stored rows
+ */
+export function isScoringPresetId(value: unknown): value is ScoringPresetId {
+  return (SCORING_PRESET_IDS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Preset as stored on Convex match rows
+ * The default preset is stored as missing, so rows cached before presets existed keep serving it
+ */
+export function toStoredScoringPreset(
+  id: ScoringPresetId | undefined
+): ScoringPresetId | undefined {
+  return id && id !== DEFAULT_SCORING_PRESET ? id : undefined;
+}
@@ -20,6 +20,27 @@ export const ANALYSIS_DEPTHS = {
   DEEP: 'deep',
 } as const;
 
+/**
+ * Human-readable labels for the 15 personality dimensions
+ */
+export const DIMENSION_LABELS: Record<string, string> = {
+  positivityRating: 'Positivity',
+  empathyRating: 'Empathy',
+  engagementRating: 'Engagement',
+  debateRating: 'Debate Style',
+  shitpostRating: 'Shitposting',
+  memeRating: 'Meme Culture',
+  intellectualRating: 'Intellectual Depth',
+  politicalRating: 'Political Content',
+  personalSharingRating: 'Personal Sharing',
+  inspirationalQuotesRating: 'Inspirational Quotes',
+  extroversionRating: 'Extroversion',
+  authenticityRating: 'Authenticity',
+  optimismRating: 'Optimism',
+  humorRating: 'Humor Style',
+  aiGeneratedRating: 'AI Content',
+};
+
 /**
  * Compatibility level labels and colors
  */
@@ -54,13 +75,107 @@ export const USERNAME_LIMITS = {
   MAX: 50,
 } as const;
 
+/**
+ * Group analysis limits
+ */
+export const GROUP_ANALYSIS = {
+  MIN_MEMBERS: 3,
+  MAX_MEMBERS: 10,
+  NARRATIVE_PAIRS: 3, // Only the best pairs get a Grok narrative to keep costs bounded
+} as const;
+
+/**
+ * Best-matches ranking limits
+ */
+export const BEST_MATCHES = {
+  DEFAULT_LIMIT: 10,
+  MAX_LIMIT: 50,
+} as const;
+
+/**
+ * User profile page (/u/[username])
+ */
+export const USER_MATCHES = {
+  PAGE_SIZE: 20,
+} as const;
+
+export const PROFILE_PAGE = {
+  SAMPLE_TWEETS: 5, // Recent tweets kept with cached profiles and shown on the page
+} as const;
+
+/**
+ * Evidence checks on fetched profiles (see lib/profile-verifier.ts)
+ * The rejection threshold is PROFILE_MIN_EVIDENCE_SCORE
+ */
+export const PROFILE_EVIDENCE = {
+  CITED_WORD_SHARE: 0.6, // Share of a tweet's words a citation text must contain to back it
+  TEMPLATE_SIMILARITY: 0.6, // Word overlap above which two tweets count as one template
+  MIN_COMPARED_WORDS: 3, // Shorter tweets are only checked for exact duplicates and quotes
+  FULL_CITATIONS: 3, // Citations of the user's own posts needed for full citation credit
+  FULL_CONFIDENCE_SCORE: 60, // searchConfidence is scaled down below this evidence score
+} as const;
+
+/**
+ * Uncertainty range around calculated scores (see CompatibilityCalculator.calculateScore)
+ * Certainty is the share of dimensions compared times the weaker profile's extraction quality
+ */
+export const SCORE_CONFIDENCE = {
+  MIN_COMPARED_DIMENSIONS: 5, // Fewer dimensions rated for both users suppress the score
+  MIN_MARGIN: 3, // Range half-width for fully compared, fully confident profiles
+  MAX_MARGIN: 25, // Range half-width with no certainty at all
+} as const;
+
+/**
+ * Refresh queue for pairs served stale while Grok was unavailable
+ */
+export const REFRESH_QUEUE = {
+  DRAIN_BATCH: 3, // Refreshes run after a successful analysis, one at a time
+} as const;
+
+/**
+ * Coalescing of identical concurrent analyses (within and across server instances)
+ */
+export const SINGLE_FLIGHT = {
+  MATCH_LEASE_MS: 120000, // Longest a pair analysis holds its lease if never released
+  PROFILE_LEASE_MS: 60000, // Longest a profile fetch holds its lease if never released
+  POLL_INTERVAL_MS: 1000, // How often waiting instances check for the holder's result
+} as const;
+
+/**
+ * Background analysis jobs (Convex action instead of the 60s API route)
+ */
+export const ANALYSIS_JOBS = {
+  HANDOFF_MS: 40000, // Streamed analyses still running after this move to a job
+  CLIENT_TIMEOUT_MS: 300000, // Give up waiting on a job after 5 minutes
+} as const;
+
 /**
  * Share functionality constants
  */
 export const SHARE_CONFIG = {
   BASE_URL: 'https://matchvibe.app',
-  SHARE_TEXT_TEMPLATE: 'Vibe Check: @{user1} × @{user2} = {score}/100 ({level}) 🎯',
+  SHARE_TEXT_TEMPLATE: 'Vibe Check: @{user1} × @{user2} = {score}/100 ({level}){range} 🎯',
+  SHARE_RANGE_TEMPLATE: ' · likely {low}–{high}',
+  SUPPRESSED_SHARE_TEXT_TEMPLATE:
+    'Vibe Check: @{user1} × @{user2} = not enough overlap to score 🤔',
+} as const;
+
+/**
+ * Embeddable result card (/embed/vibe/[user1]/[user2]) and its oEmbed endpoint
+ */
+export const EMBED_CONFIG = {
+  WIDTH: 480, // Default iframe size in the oEmbed html (shrunk to maxwidth / maxheight)
+  HEIGHT: 420,
+  BREAKDOWN_ITEMS: 2, // Strengths, challenges and shared interests shown per list
+  CACHE_AGE_SECONDS: 86400, // How long consumers may cache an oEmbed response
 } as const;
 
 export type AnalysisDepth = (typeof ANALYSIS_DEPTHS)[keyof typeof ANALYSIS_DEPTHS];
 export type CompatibilityLevel = keyof typeof COMPATIBILITY_LEVELS;
+
+/**
+ * Whether a value is a known analysis depth
+ */
+export function isAnalysisDepth(value: unknown): value is AnalysisDepth {
+  return (Object.values(ANALYSIS_DEPTHS) as unknown[]).includes(value);
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState, useRef, useCallback } from 'react';
+import type { AnalysisProgressEvent } from '@/features/vibe-analysis/types';
+import { getProgressEventMessage } from '@/features/vibe-analysis/config/progress-messages';
+
+interface UseAnalysisProgressOptions {
+  updateInterval?: number; // How often to creep toward the current stage ceiling in milliseconds
+  minDuration?: number; // Minimum time to show loading (for UX)
+  completionDelay?: number; // Delay before marking as complete after reaching 100%
+}
+
+interface UseAnalysisProgressReturn {
+  progress: number;
+  message: string | null;
+  isComplete: boolean;
+  start: () => void;
+  handleEvent: (event: AnalysisProgressEvent) => void;
+  complete: () => void;
+  reset: () => void;
+}
+
+// Progress range per stage: jump to `floor` when the stage starts, creep toward `ceiling` while it runs
+const STAGES = {
+  started: { floor: 2, ceiling: 10 },
+  cachedMatch: { floor: 60, ceiling: 90 },
+  profiles: { floor: 15, ceiling: 55 },
+  matching: { floor: 60, ceiling: 85 },
+  consistency: { floor: 85, ceiling: 93 },
+  scored: { floor: 95, ceiling: 95 },
+} as const;
+
+// Share of the profile stage each ready profile accounts for
+const PROFILE_STEP = (STAGES.profiles.ceiling - STAGES.profiles.floor) / 2;
+
+/**
+ * Progress driven by real pipeline events from the streaming analyze endpoint
+ * Each event moves progress to its stage floor; between events it creeps toward the stage
+ * ceiling so long Grok calls still feel alive without ever running ahead of the server
+ */
+export function useAnalysisProgress({
+  updateInterval = 200,
+  minDuration = 1500,
+  completionDelay = 500,
+}: UseAnalysisProgressOptions = {}): UseAnalysisProgressReturn {
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isComplete, setIsComplete] = useState(false);
+
+  const startTimeRef = useRef<number>(0);
+  const ceilingRef = useRef<number>(0);
+  const profilesReadyRef = useRef(0);
+  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const completionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isRunningRef = useRef(false);
+  const isMountedRef = useRef(true);
+
+  const clearTimers = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+    if (completionTimeoutRef.current) {
+      clearTimeout(completionTimeoutRef.current);
+      completionTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Move to a stage: never go backwards, raise the creep ceiling
+  const advance = useCallback((floor: number, ceiling: number) => {
+    ceilingRef.current = Math.max(ceilingRef.current, ceiling);
+    setProgress((current) => Math.max(current, floor));
+  }, []);
+
+  const start = useCallback(() => {
+    // Prevent multiple simultaneous starts
+    if (isRunningRef.current) {
+      return;
+    }
+
+    clearTimers();
+    isRunningRef.current = true;
+    startTimeRef.current = Date.now();
+    profilesReadyRef.current = 0;
+    ceilingRef.current = STAGES.started.ceiling;
+    setProgress(STAGES.started.floor);
+    setMessage(null);
+    setIsComplete(false);
+
+    intervalRef.current = setInterval(() => {
+      if (!isMountedRef.current) {
+        return;
+      }
+
+      // Ease toward the ceiling - slows down the closer it gets
+      setProgress((current) => {
+        const remaining = ceilingRef.current - current;
+        return remaining > 0.1 ? current + remaining * 0.04 : current;
+      });
+    }, updateInterval);
+  }, [clearTimers, updateInterval]);
+
+  const handleEvent = useCallback(
+    (event: AnalysisProgressEvent) => {
+      if (!isRunningRef.current || !isMountedRef.current) {
+        return;
+      }
+
+      const eventMessage = getProgressEventMessage(event);
+      if (eventMessage) {
+        setMessage(eventMessage);
+      }
+
+      switch (event.type) {
+        case 'match_cache':
+          if (event.hit) {
+            advance(STAGES.cachedMatch.floor, STAGES.cachedMatch.ceiling);
+          } else {
+            advance(STAGES.started.ceiling, STAGES.profiles.floor);
+          }
+          break;
+        case 'circuit_breaker':
+          advance(STAGES.profiles.floor, STAGES.profiles.floor);
+          break;
+        case 'profile_fetch_started':
+          advance(STAGES.profiles.floor, STAGES.profiles.ceiling);
+          break;
+        case 'profile_cache':
+        case 'profile_fetch_finished':
+          if (event.type === 'profile_fetch_finished' || event.hit) {
+            profilesReadyRef.current = Math.min(2, profilesReadyRef.current + 1);
+            const ready = STAGES.profiles.floor + PROFILE_STEP * profilesReadyRef.current;
+            advance(ready, ready);
+          }
+          break;
+        case 'matching_started':
+          advance(STAGES.matching.floor, STAGES.matching.ceiling);
+          break;
+        case 'consistency_check_started':
+          advance(STAGES.consistency.floor, STAGES.consistency.ceiling);
+          break;
+        case 'score_computed':
+          advance(STAGES.scored.floor, STAGES.scored.ceiling);
+          break;
+        case 'job_status':
+          // Background jobs only report coarse stages
+          if (event.status === 'fetching_profiles') {
+            advance(STAGES.profiles.floor, STAGES.profiles.ceiling);
+          } else if (event.status === 'matching') {
+            advance(STAGES.matching.floor, STAGES.matching.ceiling);
+          }
+          break;
+        case 'analysis_shared':
+          advance(STAGES.profiles.floor, STAGES.matching.ceiling);
+          break;
+        case 'stale_fallback':
+        case 'retry':
+          // Retries and stale fallbacks don't move progress - the message tells the user why it's slow
+          break;
+      }
+    },
+    [advance]
+  );
+
+  // Complete the progress (fill to 100% once the result has arrived)
+  const complete = useCallback(() => {
+    if (!isRunningRef.current || !isMountedRef.current) {
+      return;
+    }
+
+    clearTimers();
+    const remainingMinTime = Math.max(0, minDuration - (Date.now() - startTimeRef.current));
+
+    completionTimeoutRef.current = setTimeout(() => {
+      if (!isMountedRef.current) {
+        return;
+      }
+
+      setProgress(100);
+
+      // Wait before marking as complete for smooth transition
+      completionTimeoutRef.current = setTimeout(() => {
+        if (!isMountedRef.current) {
+          return;
+        }
+
+        setIsComplete(true);
+        isRunningRef.current = false;
+      }, completionDelay);
+    }, remainingMinTime);
+  }, [clearTimers, minDuration, completionDelay]);
+
+  const reset = useCallback(() => {
+    clearTimers();
+    setProgress(0);
+    setMessage(null);
+    setIsComplete(false);
+    startTimeRef.current = 0;
+    ceilingRef.current = 0;
+    profilesReadyRef.current = 0;
+    isRunningRef.current = false;
+  }, [clearTimers]);
+
+  // Track mount status and clean up timers on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    return () => {
+      isMountedRef.current = false;
+      clearTimers();
+    };
+  }, [clearTimers]);
+
+  return {
+    progress,
+    message,
+    isComplete,
+    start,
+    handleEvent,
+    complete,
+    reset,
+  };
+}
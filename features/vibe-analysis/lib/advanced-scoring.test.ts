@@ -0,0 +1,298 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import {
+  powerMean,
+  geometricMean,
+  harmonicMean,
+  choquetInspired,
+  outranking,
+  frankCopula,
+  orderedWeightedAverage,
+  waspas,
+  sigmoidTransform,
+  penaltyBased,
+  hybridAggregator,
+  TNorms,
+  TConorms,
+} from './advanced-scoring';
+import type { DimensionComparison } from './types';
+
+// Aggregators clamp scores to 0.001 before logs/divisions, so properties use scores above that
+const score = fc.double({ min: 0.001, max: 1, noNaN: true });
+const weight = fc.double({ min: 0.1, max: 1, noNaN: true });
+const scored = fc
+  .array(fc.tuple(score, weight), { minLength: 1, maxLength: 15 })
+  .map((pairs) => ({ scores: pairs.map(([s]) => s), weights: pairs.map(([, w]) => w) }));
+
+// p = 0 is special-cased; exponents within float noise of 0 overflow 1 / p and are not meaningful
+const exponent = fc.oneof(
+  fc.constant(0),
+  fc.double({ min: 0.01, max: 5, noNaN: true }),
+  fc.double({ min: -5, max: -0.01, noNaN: true })
+);
+
+const EPSILON = 1e-9;
+
+function weightedAverage(scores: number[], weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return scores.reduce((sum, s, i) => sum + s * weights[i], 0) / total;
+}
+
+function toComparisons(scores: number[], weights: number[]): DimensionComparison[] {
+  return scores.map((s, i) => ({
+    dimension: `dimension${i}`,
+    user1Value: null,
+    user2Value: null,
+    difference: 0,
+    score: s,
+    weight: weights[i],
+  }));
+}
+
+describe('powerMean', () => {
+  it('matches the weighted arithmetic mean at p = 1', () => {
+    expect(powerMean([0.2, 0.8], [1, 3], 1)).toBeCloseTo(0.65);
+  });
+
+  it('delegates to the geometric mean at p = 0', () => {
+    expect(powerMean([0.25, 1], [1, 1], 0)).toBeCloseTo(geometricMean([0.25, 1], [1, 1]));
+  });
+
+  it('returns max / min for infinite p', () => {
+    expect(powerMean([0.2, 0.9, 0.5], [1, 1, 1], Infinity)).toBe(0.9);
+    expect(powerMean([0.2, 0.9, 0.5], [1, 1, 1], -Infinity)).toBe(0.2);
+  });
+
+  it('returns 0 for empty input or zero total weight', () => {
+    expect(powerMean([], [], 2)).toBe(0);
+    expect(powerMean([0.5], [0], 2)).toBe(0);
+  });
+
+  it('stays between the smallest and largest score', () => {
+    fc.assert(
+      fc.property(scored, exponent, ({ scores, weights }, p) => {
+        const mean = powerMean(scores, weights, p);
+        expect(mean).toBeGreaterThanOrEqual(Math.min(...scores) - EPSILON);
+        expect(mean).toBeLessThanOrEqual(Math.max(...scores) + EPSILON);
+      })
+    );
+  });
+
+  it('is non-decreasing in p (power mean inequality)', () => {
+    fc.assert(
+      fc.property(scored, exponent, exponent, ({ scores, weights }, a, b) => {
+        const lower = powerMean(scores, weights, Math.min(a, b));
+        const higher = powerMean(scores, weights, Math.max(a, b));
+        expect(higher).toBeGreaterThanOrEqual(lower - 1e-6);
+      })
+    );
+  });
+});
+
+describe('geometricMean / harmonicMean', () => {
+  it('orders harmonic <= geometric <= arithmetic', () => {
+    fc.assert(
+      fc.property(scored, ({ scores, weights }) => {
+        const harmonic = harmonicMean(scores, weights);
+        const geometric = geometricMean(scores, weights);
+        const arithmetic = weightedAverage(scores, weights);
+        expect(harmonic).toBeLessThanOrEqual(geometric + EPSILON);
+        expect(geometric).toBeLessThanOrEqual(arithmetic + EPSILON);
+      })
+    );
+  });
+
+  it('collapses towards zero when one score is zero', () => {
+    expect(geometricMean([0, 1, 1], [1, 1, 1])).toBeLessThan(0.11);
+    expect(harmonicMean([0, 1, 1], [1, 1, 1])).toBeLessThan(0.01);
+  });
+
+  it('returns the score itself when all scores are equal', () => {
+    expect(geometricMean([0.4, 0.4], [0.3, 0.9])).toBeCloseTo(0.4);
+    expect(harmonicMean([0.4, 0.4], [0.3, 0.9])).toBeCloseTo(0.4);
+  });
+});
+
+describe('choquetInspired', () => {
+  it('reduces to the weighted average without interactions', () => {
+    fc.assert(
+      fc.property(scored, ({ scores, weights }) => {
+        expect(choquetInspired(toComparisons(scores, weights))).toBeCloseTo(
+          weightedAverage(scores, weights),
+          9
+        );
+      })
+    );
+  });
+
+  it('rewards positive interactions and punishes negative ones', () => {
+    const comparisons = toComparisons([0.4, 0.8], [1, 1]);
+    const base = choquetInspired(comparisons);
+
+    expect(choquetInspired(comparisons, { dimension0: { dimension1: 0.2 } })).toBeGreaterThan(base);
+    expect(choquetInspired(comparisons, { dimension0: { dimension1: -0.2 } })).toBeLessThan(base);
+  });
+
+  it('returns 0 for no comparisons', () => {
+    expect(choquetInspired([])).toBe(0);
+  });
+});
+
+describe('waspas', () => {
+  it('interpolates between the weighted sum (lambda 1) and product (lambda 0)', () => {
+    fc.assert(
+      fc.property(scored, fc.double({ min: 0, max: 1, noNaN: true }), ({ scores, weights }, l) => {
+        const sum = waspas(scores, weights, 1);
+        const product = waspas(scores, weights, 0);
+        const mixed = waspas(scores, weights, l);
+
+        expect(sum).toBeCloseTo(weightedAverage(scores, weights), 9);
+        expect(product).toBeCloseTo(geometricMean(scores, weights), 9);
+        expect(mixed).toBeGreaterThanOrEqual(Math.min(sum, product) - EPSILON);
+        expect(mixed).toBeLessThanOrEqual(Math.max(sum, product) + EPSILON);
+      })
+    );
+  });
+});
+
+describe('penaltyBased', () => {
+  it('equals the weighted average when nothing is below the threshold', () => {
+    const comparisons = toComparisons([0.5, 0.9], [1, 2]);
+    expect(penaltyBased(comparisons, 0.4, 0.5)).toBeCloseTo(weightedAverage([0.5, 0.9], [1, 2]));
+  });
+
+  it('never exceeds the weighted average and never goes negative', () => {
+    fc.assert(
+      fc.property(scored, ({ scores, weights }) => {
+        const result = penaltyBased(toComparisons(scores, weights), 0.4, 0.5);
+        expect(result).toBeGreaterThanOrEqual(0);
+        expect(result).toBeLessThanOrEqual(weightedAverage(scores, weights) + EPSILON);
+      })
+    );
+  });
+});
+
+describe('outranking', () => {
+  it('caps the result at 0.4 when any dimension is vetoed', () => {
+    fc.assert(
+      fc.property(scored, fc.double({ min: 0, max: 0.29, noNaN: true }), (input, vetoed) => {
+        const comparisons = toComparisons([...input.scores, vetoed], [...input.weights, 1]);
+        expect(outranking(comparisons, 0.3)).toBeLessThanOrEqual(0.4);
+      })
+    );
+  });
+});
+
+describe('frankCopula / orderedWeightedAverage', () => {
+  it('keeps the copula within 0-1', () => {
+    fc.assert(
+      fc.property(scored, fc.double({ min: 0.5, max: 20, noNaN: true }), (input, theta) => {
+        const result = frankCopula(input.scores, input.weights, theta);
+        expect(result).toBeGreaterThanOrEqual(0);
+        expect(result).toBeLessThanOrEqual(1);
+      })
+    );
+  });
+
+  it('treats OWA with default weights as the plain average', () => {
+    expect(orderedWeightedAverage([0.2, 0.4, 0.9])).toBeCloseTo(0.5);
+    expect(orderedWeightedAverage([0.2, 0.4, 0.9], [1, 0, 0])).toBe(0.9);
+  });
+});
+
+describe('sigmoidTransform', () => {
+  it('maps the midpoint to 0.5', () => {
+    expect(sigmoidTransform(0.5, 5, 0.5)).toBe(0.5);
+  });
+
+  it('is strictly increasing and bounded', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        (a, b) => {
+          fc.pre(Math.abs(a - b) > 1e-6);
+          const [low, high] = a < b ? [a, b] : [b, a];
+          expect(sigmoidTransform(high, 5)).toBeGreaterThan(sigmoidTransform(low, 5));
+          expect(sigmoidTransform(high, 5)).toBeLessThan(1);
+          expect(sigmoidTransform(low, 5)).toBeGreaterThan(0);
+        }
+      )
+    );
+  });
+});
+
+describe('T-norms and T-conorms', () => {
+  const unit = fc.double({ min: 0, max: 1, noNaN: true });
+  const pair = fc.tuple(unit, unit);
+
+  it('keep 1 as the neutral element of every t-norm', () => {
+    fc.assert(
+      fc.property(unit, (x) => {
+        expect(TNorms.minimum([x, 1])).toBeCloseTo(x, 12);
+        expect(TNorms.product([x, 1])).toBeCloseTo(x, 12);
+        expect(TNorms.lukasiewicz([x, 1])).toBeCloseTo(x, 12);
+        expect(TNorms.hamacher([x, 1])).toBeCloseTo(x, 12);
+        expect(TNorms.einstein([x, 1])).toBeCloseTo(x, 12);
+      })
+    );
+  });
+
+  it('never exceed the minimum', () => {
+    fc.assert(
+      fc.property(pair, ([a, b]) => {
+        const min = Math.min(a, b);
+        for (const norm of [TNorms.product, TNorms.lukasiewicz, TNorms.einstein]) {
+          expect(norm([a, b])).toBeLessThanOrEqual(min + EPSILON);
+        }
+      })
+    );
+  });
+
+  it('keep 0 as the neutral element of every t-conorm and never fall below the maximum', () => {
+    fc.assert(
+      fc.property(pair, ([a, b]) => {
+        for (const conorm of [
+          TConorms.maximum,
+          TConorms.probabilistic,
+          TConorms.lukasiewicz,
+          TConorms.einstein,
+        ]) {
+          expect(conorm([a, 0])).toBeCloseTo(a, 12);
+          expect(conorm([a, b])).toBeGreaterThanOrEqual(Math.max(a, b) - EPSILON);
+          expect(conorm([a, b])).toBeLessThanOrEqual(1 + EPSILON);
+        }
+      })
+    );
+  });
+
+  it('are symmetric', () => {
+    fc.assert(
+      fc.property(pair, ([a, b]) => {
+        expect(TNorms.einstein([a, b])).toBeCloseTo(TNorms.einstein([b, a]), 12);
+        expect(TNorms.hamacher([a, b])).toBeCloseTo(TNorms.hamacher([b, a]), 12);
+        expect(TConorms.einstein([a, b])).toBeCloseTo(TConorms.einstein([b, a]), 12);
+      })
+    );
+  });
+});
+
+describe('hybridAggregator', () => {
+  it('stays within 0-1 for every configuration', () => {
+    fc.assert(
+      fc.property(
+        scored,
+        fc.record({
+          useChoquet: fc.boolean(),
+          useOutranking: fc.boolean(),
+          usePenalty: fc.boolean(),
+        }),
+        ({ scores, weights }, config) => {
+          const result = hybridAggregator(toComparisons(scores, weights), config);
+          expect(result).toBeGreaterThanOrEqual(0);
+          expect(result).toBeLessThanOrEqual(1);
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ConvexReactClient } from 'convex/react';
+import { waitForAnalysisJob } from './analysis-job-client';
+import { VibeAPIError } from './vibe-api-client';
+import { ANALYSIS_JOBS } from '../config/vibe-constants';
+import type { AnalysisProgressEvent } from '../types';
+
+type JobDoc = {
+  status: string;
+  result?: unknown;
+  error?: { code: string; message: string; status: number; username?: string };
+} | null;
+
+/**
+ * Convex client whose getJob subscription is driven by the test
+ */
+function fakeConvex() {
+  let job: JobDoc | undefined;
+  const listeners = new Set<() => void>();
+
+  const client = {
+    watchQuery: () => ({
+      localQueryResult: () => job,
+      onUpdate: (callback: () => void) => {
+        listeners.add(callback);
+        return () => listeners.delete(callback);
+      },
+    }),
+  } as unknown as ConvexReactClient;
+
+  return {
+    client,
+    listeners,
+    push(next: JobDoc) {
+      job = next;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+describe('waitForAnalysisJob', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports each stage once and resolves with the result', async () => {
+    const convex = fakeConvex();
+    const events: AnalysisProgressEvent[] = [];
+    const pending = waitForAnalysisJob(convex.client, 'job1', (event) => events.push(event));
+
+    convex.push({ status: 'queued' });
+    convex.push({ status: 'fetching_profiles' });
+    convex.push({ status: 'fetching_profiles' });
+    convex.push({ status: 'matching' });
+    convex.push({ status: 'done', result: { score: 72 } });
+
+    await expect(pending).resolves.toEqual({ score: 72 });
+    expect(events.map((event) => event.type === 'job_status' && event.status)).toEqual([
+      'queued',
+      'fetching_profiles',
+      'matching',
+      'done',
+    ]);
+    expect(convex.listeners.size).toBe(0);
+  });
+
+  it('rejects with the stored error code and status when the job fails', async () => {
+    const convex = fakeConvex();
+    const pending = waitForAnalysisJob(convex.client, 'job1');
+
+    convex.push({
+      status: 'failed',
+      error: {
+        code: 'USER_NOT_FOUND',
+        message: 'X user not found',
+        status: 404,
+        username: 'ghost',
+      },
+    });
+
+    const error = await pending.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(VibeAPIError);
+    expect(error).toMatchObject({
+      status: 404,
+      details: { code: 'USER_NOT_FOUND', username: 'ghost' },
+    });
+  });
+
+  it('rejects with 404 for an unknown job', async () => {
+    const convex = fakeConvex();
+    const pending = waitForAnalysisJob(convex.client, 'missing');
+
+    convex.push(null);
+
+    await expect(pending).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('stops waiting after the client timeout', async () => {
+    vi.useFakeTimers();
+    const convex = fakeConvex();
+    const pending = waitForAnalysisJob(convex.client, 'job1');
+    convex.push({ status: 'matching' });
+
+    vi.advanceTimersByTime(ANALYSIS_JOBS.CLIENT_TIMEOUT_MS);
+
+    await expect(pending).rejects.toMatchObject({ status: 408 });
+    expect(convex.listeners.size).toBe(0);
+  });
+});
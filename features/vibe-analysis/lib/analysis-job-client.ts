@@ -0,0 +1,191 @@
+import type { ConvexReactClient } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import type {
+  AnalysisJobStatus,
+  AnalysisProgressListener,
+  VibeAnalysisResult,
+} from '@/features/vibe-analysis/types';
+import {
+  DEFAULT_SCORING_PRESET,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { ANALYSIS_JOBS } from '@/features/vibe-analysis/config/vibe-constants';
+import { streamVibeAnalysis, VibeAPIError } from './vibe-api-client';
+
+/**
+ * Client-side API for background analysis jobs
+ * Jobs are created through the API and followed with a Convex subscription
+ */
+
+/**
+ * Queue a background analysis
+ * @param handoffToken - From the stream the job takes over, so the job isn't charged again
+ * @returns Job ID
+ * @throws {VibeAPIError} If the job can't be created
+ */
+export async function createAnalysisJob(
+  user1: string,
+  user2: string,
+  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard',
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET,
+  handoffToken?: string
+): Promise<string> {
+  const apiUrl =
+    typeof window !== 'undefined' ? `${window.location.origin}/api/vibe/jobs` : '/api/vibe/jobs';
+
+  let response: Response;
+  try {
+    response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify({
+        userOne: user1.replace('@', '').trim(),
+        userTwo: user2.replace('@', '').trim(),
+        analysisDepth,
+        scoringPreset,
+        handoffToken,
+      }),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new VibeAPIError(`Network error: ${errorMessage}`, 0, { url: apiUrl });
+  }
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new VibeAPIError(
+      data.error || 'Failed to queue vibe analysis',
+      response.status,
+      data.details || data.issues
+    );
+  }
+
+  return data.jobId as string;
+}
+
+/**
+ * Follow a job until it finishes
+ * Emits a `job_status` progress event whenever the job moves to a new stage
+ * @returns The job's result once it is done
+ * @throws {VibeAPIError} With the job's error code and status if it failed, or 408 on timeout
+ */
+export function waitForAnalysisJob(
+  convex: ConvexReactClient,
+  jobId: string,
+  onProgress?: AnalysisProgressListener
+): Promise<VibeAnalysisResult> {
+  return new Promise((resolve, reject) => {
+    const watch = convex.watchQuery(api.analysisJobs.getJob, {
+      jobId: jobId as Id<'analysisJobs'>,
+    });
+    let lastStatus: AnalysisJobStatus | null = null;
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timeoutId);
+      unsubscribe();
+      settle();
+    };
+
+    const timeoutId = setTimeout(
+      () =>
+        finish(() =>
+          reject(
+            new VibeAPIError(
+              'The analysis is taking longer than expected. Please try again later.',
+              408,
+              { timeout: true, duration: ANALYSIS_JOBS.CLIENT_TIMEOUT_MS, jobId }
+            )
+          )
+        ),
+      ANALYSIS_JOBS.CLIENT_TIMEOUT_MS
+    );
+
+    const onUpdate = () => {
+      let job;
+      try {
+        job = watch.localQueryResult();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        finish(() => reject(new VibeAPIError(`Failed to load analysis job: ${errorMessage}`, 500)));
+        return;
+      }
+
+      if (job === undefined) return; // Still loading
+
+      if (job === null) {
+        finish(() => reject(new VibeAPIError('Analysis job not found', 404, { jobId })));
+        return;
+      }
+
+      if (job.status !== lastStatus) {
+        lastStatus = job.status;
+        onProgress?.({ type: 'job_status', status: job.status });
+      }
+
+      if (job.status === 'done') {
+        finish(() => resolve(job.result as VibeAnalysisResult));
+      } else if (job.status === 'failed') {
+        const { code, message, status, username } = job.error ?? {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to analyze vibe compatibility',
+          status: 500,
+        };
+        finish(() => reject(new VibeAPIError(message, status, { code, username })));
+      }
+    };
+
+    const unsubscribe = watch.onUpdate(onUpdate);
+    onUpdate(); // The query may already be cached locally
+  });
+}
+
+/**
+ * Stream the analysis and move it to a background job if it runs long
+ * The stream is aborted after ANALYSIS_JOBS.HANDOFF_MS, so a long analysis doesn't depend on
+ * the connection lasting up to the analyze route's maxDuration (300s) or on the plan allowing it.
+ * The server keeps analyzing after the abort and holds the pair's lease, so the job waits for
+ * and shares that result instead of calling Grok again; the stream's handoff token keeps the
+ * job from being charged a second time
+ * @returns Vibe analysis result from whichever finished
+ * @throws {VibeAPIError} If the stream or the job fails
+ */
+export async function analyzeWithJobHandoff(
+  convex: ConvexReactClient,
+  user1: string,
+  user2: string,
+  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard',
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET,
+  onProgress?: AnalysisProgressListener
+): Promise<VibeAnalysisResult> {
+  const controller = new AbortController();
+  const handoffId = setTimeout(() => controller.abort(), ANALYSIS_JOBS.HANDOFF_MS);
+  let handoffToken: string | undefined;
+
+  try {
+    return await streamVibeAnalysis(
+      user1,
+      user2,
+      analysisDepth,
+      scoringPreset,
+      onProgress,
+      controller.signal,
+      (token) => {
+        handoffToken = token;
+      }
+    );
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      throw error;
+    }
+  } finally {
+    clearTimeout(handoffId);
+  }
+
+  const jobId = await createAnalysisJob(user1, user2, analysisDepth, scoringPreset, handoffToken);
+  return waitForAnalysisJob(convex, jobId, onProgress);
+}
@@ -4,6 +4,7 @@ import {
   SHARE_CONFIG,
   type CompatibilityLevel,
 } from '../config/vibe-constants';
+import { DEFAULT_SCORING_PRESET } from '../config/scoring-presets';
 import { TIME_THRESHOLDS } from '@/lib/config/constants';
 
 export function getCompatibilityLevel(score: number): {
@@ -40,12 +41,29 @@ export function formatVibeScore(score: number): string {
 
 export function generateShareText(result: VibeAnalysisResult): string {
   const { score, metadata } = result;
+  const { userOne, userTwo, scoreRange } = metadata;
+
+  // Too few dimensions compared - share the pair without a score
+  if (metadata.scoreSuppressed) {
+    return SHARE_CONFIG.SUPPRESSED_SHARE_TEXT_TEMPLATE.replace('{user1}', userOne).replace(
+      '{user2}',
+      userTwo
+    );
+  }
+
   const compatibility = getCompatibilityLevel(score);
+  const range = scoreRange
+    ? SHARE_CONFIG.SHARE_RANGE_TEMPLATE.replace('{low}', String(scoreRange.low)).replace(
+        '{high}',
+        String(scoreRange.high)
+      )
+    : '';
 
-  return SHARE_CONFIG.SHARE_TEXT_TEMPLATE.replace('{user1}', metadata.userOne)
-    .replace('{user2}', metadata.userTwo)
+  return SHARE_CONFIG.SHARE_TEXT_TEMPLATE.replace('{user1}', userOne)
+    .replace('{user2}', userTwo)
     .replace('{score}', score.toString())
-    .replace('{level}', compatibility.label);
+    .replace('{level}', compatibility.label)
+    .replace('{range}', range);
 }
 
 export function generateShareUrl(result: VibeAnalysisResult): string {
@@ -54,7 +72,10 @@ export function generateShareUrl(result: VibeAnalysisResult): string {
       ? window.location.origin
       : process.env.NEXT_PUBLIC_APP_URL || 'https://matchvibe.app';
 
-  return `${baseUrl}/vibe/${result.metadata.userOne}/${result.metadata.userTwo}`;
+  const preset = result.metadata.scoringPreset;
+  const query = preset && preset !== DEFAULT_SCORING_PRESET ? `?preset=${preset}` : '';
+
+  return `${baseUrl}/vibe/${result.metadata.userOne}/${result.metadata.userTwo}${query}`;
 }
 
 export function calculateAnalysisDuration(timestamp: string): string {
@@ -0,0 +1,383 @@
+import fc from 'fast-check';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CompatibilityCalculator } from './compatibility-calculator';
+import { PERSONALITY_DIMENSIONS, type PersonalityDimension } from './dimension-vector';
+import { SCORING_PRESET_IDS } from '../config/scoring-presets';
+import { SCORE_CONFIDENCE } from '../config/vibe-constants';
+import {
+  type DimensionValues,
+  fullDimensionsArbitrary,
+  makeProfile,
+  ratingArbitrary,
+  sparseDimensionsArbitrary,
+  uniformDimensions,
+} from '../test-utils/profiles';
+
+const calculator = new CompatibilityCalculator();
+
+const COMPLEMENTARY: PersonalityDimension[] = [
+  'debateRating',
+  'personalSharingRating',
+  'extroversionRating',
+];
+
+// politicalRating squares the score once both users are above 0.7, so moving apart until one
+// drops below 0.7 raises it again - that rule is deliberate and excluded from monotonicity
+const MONOTONE_SIMILARITY = PERSONALITY_DIMENSIONS.filter(
+  (dimension) => !COMPLEMENTARY.includes(dimension) && dimension !== 'politicalRating'
+);
+
+function scoreDimension(dimension: PersonalityDimension, value1: number, value2: number): number {
+  const { breakdown } = calculator.calculateScore(
+    makeProfile('one', { [dimension]: value1 }),
+    makeProfile('two', { [dimension]: value2 })
+  );
+  return breakdown[0].score;
+}
+
+/**
+ * Profiles that agree on every similarity dimension and sit 0.5 apart on complementary ones
+ */
+function idealPair() {
+  const base = uniformDimensions(0.6);
+  return [
+    makeProfile('one', base),
+    makeProfile('two', {
+      ...base,
+      ...Object.fromEntries(COMPLEMENTARY.map((dimension) => [dimension, 0.1])),
+    }),
+  ] as const;
+}
+
+describe('CompatibilityCalculator.calculateScore', () => {
+  it('returns an integer score between 0 and 100', () => {
+    fc.assert(
+      fc.property(sparseDimensionsArbitrary, sparseDimensionsArbitrary, (one, two) => {
+        const { score, categoryScores } = calculator.calculateScore(
+          makeProfile('one', one),
+          makeProfile('two', two)
+        );
+
+        expect(Number.isInteger(score)).toBe(true);
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(100);
+        for (const value of Object.values(categoryScores)) {
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThanOrEqual(100);
+        }
+      })
+    );
+  });
+
+  it('keeps every dimension score within 0-1', () => {
+    fc.assert(
+      fc.property(fullDimensionsArbitrary, fullDimensionsArbitrary, (one, two) => {
+        const { breakdown } = calculator.calculateScore(
+          makeProfile('one', one),
+          makeProfile('two', two)
+        );
+
+        expect(breakdown).toHaveLength(PERSONALITY_DIMENSIONS.length);
+        for (const comparison of breakdown) {
+          expect(comparison.score).toBeGreaterThanOrEqual(0);
+          expect(comparison.score).toBeLessThanOrEqual(1);
+        }
+      })
+    );
+  });
+
+  it('is symmetric in the order of the profiles', () => {
+    fc.assert(
+      fc.property(sparseDimensionsArbitrary, sparseDimensionsArbitrary, (one, two) => {
+        const forward = calculator.calculateScore(makeProfile('one', one), makeProfile('two', two));
+        const backward = calculator.calculateScore(
+          makeProfile('two', two),
+          makeProfile('one', one)
+        );
+
+        expect(backward.score).toBe(forward.score);
+        expect(backward.categoryScores).toEqual(forward.categoryScores);
+        expect(backward.breakdown.map((c) => [c.user2Value, c.user1Value, c.score])).toEqual(
+          forward.breakdown.map((c) => [c.user1Value, c.user2Value, c.score])
+        );
+      })
+    );
+  });
+
+  it('only compares dimensions rated for both users', () => {
+    const { breakdown } = calculator.calculateScore(
+      makeProfile('one', { humorRating: 0.4, memeRating: 0.9, optimismRating: null }),
+      makeProfile('two', { humorRating: 0.5, optimismRating: 0.2 })
+    );
+
+    expect(breakdown.map((c) => c.dimension)).toEqual(['humorRating']);
+  });
+
+  it('falls back to neutral scores when no dimension can be compared', () => {
+    const { score, breakdown, categoryScores } = calculator.calculateScore(
+      makeProfile('one'),
+      makeProfile('two', uniformDimensions(0.7))
+    );
+
+    expect(breakdown).toEqual([]);
+    expect(score).toBe(55);
+    expect(Object.values(categoryScores)).toEqual(Array(7).fill(50));
+  });
+
+  it('scores an ideal pair well above a mismatched pair', () => {
+    const [one, two] = idealPair();
+    const mismatched = calculator.calculateScore(
+      makeProfile('one', uniformDimensions(0)),
+      makeProfile('two', uniformDimensions(1))
+    );
+
+    expect(calculator.calculateScore(one, two).score).toBeGreaterThanOrEqual(80);
+    expect(mismatched.score).toBeLessThanOrEqual(20);
+  });
+
+  // The overall score is not monotone: calculateCombinedScore switches aggregation strategy on
+  // thresholds (critical dimensions, min score, distance from the weighted average), so moving one
+  // rating slightly closer can cross into a harsher branch. Monotonicity is asserted per dimension.
+  it.each(MONOTONE_SIMILARITY)('%s never scores higher as ratings move apart', (dimension) => {
+    fc.assert(
+      fc.property(ratingArbitrary, ratingArbitrary, ratingArbitrary, (anchor, a, b) => {
+        // Both candidates on the same side of the anchor, `far` further away than `near`
+        fc.pre((a - anchor) * (b - anchor) >= 0);
+        const [near, far] = Math.abs(a - anchor) <= Math.abs(b - anchor) ? [a, b] : [b, a];
+
+        expect(scoreDimension(dimension, anchor, far)).toBeLessThanOrEqual(
+          scoreDimension(dimension, anchor, near)
+        );
+      })
+    );
+  });
+
+  it.each(COMPLEMENTARY)('%s peaks at a 0.5 difference', (dimension) => {
+    expect(scoreDimension(dimension, 0.2, 0.7)).toBeCloseTo(1);
+    expect(scoreDimension(dimension, 0.5, 0.5)).toBe(0);
+    expect(scoreDimension(dimension, 0, 1)).toBe(0);
+    expect(scoreDimension(dimension, 0.3, 0.55)).toBeCloseTo(0.5);
+  });
+
+  it('applies the special dimension rules', () => {
+    expect(scoreDimension('memeRating', 0.85, 0.99)).toBe(1);
+    expect(scoreDimension('aiGeneratedRating', 0.75, 1)).toBe(1);
+    expect(scoreDimension('shitpostRating', 0.8, 0.9)).toBe(1);
+    expect(scoreDimension('humorRating', 0.1, 0.8)).toBeCloseTo(0.3 * 0.2);
+    expect(scoreDimension('intellectualRating', 0.2, 0.8)).toBeCloseTo(0.4 * 0.3);
+    expect(scoreDimension('authenticityRating', 0.9, 0.2)).toBeCloseTo(0.3 * 0.1);
+    expect(scoreDimension('politicalRating', 0.8, 0.9)).toBeCloseTo(0.9 * 0.9);
+  });
+});
+
+describe('CompatibilityCalculator score range', () => {
+  function firstDimensions(count: number, value: number): DimensionValues {
+    return Object.fromEntries(PERSONALITY_DIMENSIONS.slice(0, count).map((d) => [d, value]));
+  }
+
+  function margin(range: { low: number; high: number }): number {
+    return range.high - range.low;
+  }
+
+  it('always contains the score within 0-100', () => {
+    fc.assert(
+      fc.property(sparseDimensionsArbitrary, sparseDimensionsArbitrary, (one, two) => {
+        const { score, scoreRange } = calculator.calculateScore(
+          makeProfile('one', one),
+          makeProfile('two', two)
+        );
+
+        expect(scoreRange.low).toBeGreaterThanOrEqual(0);
+        expect(scoreRange.low).toBeLessThanOrEqual(score);
+        expect(scoreRange.high).toBeGreaterThanOrEqual(score);
+        expect(scoreRange.high).toBeLessThanOrEqual(100);
+      })
+    );
+  });
+
+  it('narrows as more dimensions are compared', () => {
+    const full = calculator.calculateScore(
+      makeProfile('one', uniformDimensions(0.5)),
+      makeProfile('two', uniformDimensions(0.5))
+    );
+    const partial = calculator.calculateScore(
+      makeProfile('one', firstDimensions(6, 0.5)),
+      makeProfile('two', firstDimensions(6, 0.5))
+    );
+
+    // Both profiles at 80 confidence and completeness: 3 + 22 * (1 - 0.8)
+    expect(full.scoreRange).toEqual({ low: full.score - 7, high: full.score + 7 });
+    expect(margin(partial.scoreRange)).toBeGreaterThan(margin(full.scoreRange));
+  });
+
+  it('widens with the less confident profile', () => {
+    const confident = makeProfile('one', uniformDimensions(0.5));
+    const unsure = {
+      ...makeProfile('two', uniformDimensions(0.5)),
+      searchConfidence: 30,
+      dataCompleteness: 40,
+    };
+
+    const forward = calculator.calculateScore(confident, unsure);
+    const backward = calculator.calculateScore(unsure, confident);
+    const baseline = calculator.calculateScore(confident, { ...unsure, searchConfidence: 80 });
+
+    expect(backward.scoreRange).toEqual(forward.scoreRange);
+    expect(margin(forward.scoreRange)).toBeGreaterThan(margin(baseline.scoreRange));
+  });
+
+  it('suppresses the score when too few dimensions can be compared', () => {
+    const enough = SCORE_CONFIDENCE.MIN_COMPARED_DIMENSIONS;
+
+    expect(
+      calculator.calculateScore(
+        makeProfile('one', firstDimensions(enough - 1, 0.5)),
+        makeProfile('two', uniformDimensions(0.5))
+      ).suppressed
+    ).toBe(true);
+    expect(
+      calculator.calculateScore(
+        makeProfile('one', firstDimensions(enough, 0.5)),
+        makeProfile('two', uniformDimensions(0.5))
+      ).suppressed
+    ).toBe(false);
+  });
+});
+
+describe('CompatibilityCalculator scoring presets', () => {
+  it('uses the balanced preset by default', () => {
+    fc.assert(
+      fc.property(sparseDimensionsArbitrary, sparseDimensionsArbitrary, (one, two) => {
+        const [profileOne, profileTwo] = [makeProfile('one', one), makeProfile('two', two)];
+
+        expect(calculator.calculateScore(profileOne, profileTwo, 'balanced')).toEqual(
+          calculator.calculateScore(profileOne, profileTwo)
+        );
+      })
+    );
+  });
+
+  it.each(SCORING_PRESET_IDS)('%s keeps scores within 0-100 and symmetric', (preset) => {
+    fc.assert(
+      fc.property(sparseDimensionsArbitrary, sparseDimensionsArbitrary, (one, two) => {
+        const forward = calculator.calculateScore(
+          makeProfile('one', one),
+          makeProfile('two', two),
+          preset
+        );
+        const backward = calculator.calculateScore(
+          makeProfile('two', two),
+          makeProfile('one', one),
+          preset
+        );
+
+        expect(forward.score).toBeGreaterThanOrEqual(0);
+        expect(forward.score).toBeLessThanOrEqual(100);
+        expect(backward.score).toBe(forward.score);
+      })
+    );
+  });
+
+  it('scores debateRating as a similarity dimension for debate partners', () => {
+    const score = (preset: 'balanced' | 'debate_partner', value1: number, value2: number) =>
+      calculator.calculateScore(
+        makeProfile('one', { debateRating: value1 }),
+        makeProfile('two', { debateRating: value2 }),
+        preset
+      ).breakdown[0];
+
+    expect(score('balanced', 0.9, 0.9).score).toBe(0);
+    expect(score('debate_partner', 0.9, 0.9).score).toBe(1);
+    expect(score('debate_partner', 0.9, 0.9).weight).toBe(1);
+  });
+
+  it('weighs the same pair differently per preset', () => {
+    const one = makeProfile('one', {
+      ...uniformDimensions(0.6),
+      humorRating: 0.9,
+      memeRating: 0.9,
+    });
+    const two = makeProfile('two', {
+      ...uniformDimensions(0.6),
+      humorRating: 0.9,
+      memeRating: 0.2,
+    });
+    const scores = SCORING_PRESET_IDS.map((preset) => calculator.calculateScore(one, two, preset));
+
+    expect(new Set(scores.map(({ score }) => score)).size).toBeGreaterThan(1);
+    expect(scores[0].breakdown.find((c) => c.dimension === 'memeRating')?.weight).toBe(0.8);
+    expect(scores[1].breakdown.find((c) => c.dimension === 'memeRating')?.weight).toBe(1);
+  });
+});
+
+describe('CompatibilityCalculator amplification', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  async function calculatorWithPower(power: number): Promise<CompatibilityCalculator> {
+    vi.stubEnv('VIBE_AMPLIFICATION_POWER', String(power));
+    vi.resetModules();
+    const { CompatibilityCalculator: Calculator } = await import('./compatibility-calculator');
+    return new Calculator();
+  }
+
+  it('spreads scores further from the middle as the power grows', async () => {
+    const [one, two] = idealPair();
+    const poorOne = makeProfile('one', uniformDimensions(0.3));
+    const poorTwo = makeProfile('two', uniformDimensions(0.9));
+
+    const gentle = await calculatorWithPower(1);
+    const strong = await calculatorWithPower(3.5);
+
+    expect(strong.calculateScore(one, two).score).toBeGreaterThan(
+      gentle.calculateScore(one, two).score
+    );
+    expect(strong.calculateScore(poorOne, poorTwo).score).toBeLessThan(
+      gentle.calculateScore(poorOne, poorTwo).score
+    );
+  });
+
+  it('keeps a neutral raw score at the midpoint regardless of power', async () => {
+    const gentle = await calculatorWithPower(1);
+    const strong = await calculatorWithPower(5);
+
+    expect(gentle.calculateScore(makeProfile('one'), makeProfile('two')).score).toBe(55);
+    expect(strong.calculateScore(makeProfile('one'), makeProfile('two')).score).toBe(55);
+  });
+});
+
+describe('CompatibilityCalculator.getTopMatches', () => {
+  it('returns the best and worst dimensions in order', () => {
+    const { breakdown } = calculator.calculateScore(
+      makeProfile('one', {
+        humorRating: 0.5,
+        memeRating: 0.5,
+        optimismRating: 0.5,
+        empathyRating: 0.5,
+      }),
+      makeProfile('two', {
+        humorRating: 0.5,
+        memeRating: 0.6,
+        optimismRating: 0.8,
+        empathyRating: 0.9,
+      })
+    );
+    const { topMatches, topClashes } = calculator.getTopMatches(breakdown, 2);
+
+    expect(topMatches.map((c) => c.dimension)).toEqual(['humorRating', 'memeRating']);
+    expect(topClashes.map((c) => c.dimension)).toEqual(['empathyRating', 'optimismRating']);
+  });
+});
+
+describe('CompatibilityCalculator.getScoreInterpretation', () => {
+  it.each([
+    [95, 'Perfect vibe sync'],
+    [80, 'Excellent match'],
+    [55, 'Mixed compatibility'],
+    [5, 'Incompatible vibes'],
+  ])('describes %i as "%s"', (score, label) => {
+    expect(calculator.getScoreInterpretation(score)).toBe(label);
+  });
+});
@@ -5,7 +5,17 @@
 
 import type { UserProfile } from '../schemas/profile.schema';
 import { getVibeAmplificationPower } from '@/lib/env';
-import type { DimensionComparison } from './types';
+import type { DimensionComparison, ScoreRange } from './types';
+import { SCORE_CONFIDENCE } from '../config/vibe-constants';
+import { PERSONALITY_DIMENSIONS } from './dimension-vector';
+import {
+  DEFAULT_SCORING_PRESET,
+  getScoringPreset,
+  type AggregationBlend,
+  type AggregationMethod,
+  type AggregationStrategy,
+  type ScoringPresetId,
+} from '../config/scoring-presets';
 import {
   powerMean,
   geometricMean,
@@ -15,46 +25,6 @@ import {
   sigmoidTransform,
 } from './advanced-scoring';
 
-interface DimensionWeight {
-  weight: number;
-  isComplementary?: boolean; // If true, difference is good; if false, similarity is good
-}
-
-/**
- * Dimension weights and configuration
- * Higher weights = more important for compatibility
- */
-const DIMENSION_CONFIG: Record<string, DimensionWeight> = {
-  // Emotional & Mood - similarity preferred
-  positivityRating: { weight: 0.8 },
-  empathyRating: { weight: 0.6 },
-
-  // Interaction Style - mixed
-  engagementRating: { weight: 0.7 },
-  debateRating: { weight: 0.5, isComplementary: true }, // One debater + one listener can work
-
-  // Content Style - strong similarity preferred
-  shitpostRating: { weight: 0.9 }, // Very important to match
-  memeRating: { weight: 0.8 },
-  intellectualRating: { weight: 1.0 }, // Most important - intellectual mismatch is problematic
-
-  // Topic Focus - moderate importance
-  politicalRating: { weight: 0.7 }, // Political differences can be divisive
-  personalSharingRating: { weight: 0.4, isComplementary: true }, // One sharer + one listener works
-  inspirationalQuotesRating: { weight: 0.3 }, // Low importance
-
-  // Social Energy - complementary can work
-  extroversionRating: { weight: 0.5, isComplementary: true }, // Opposites can balance
-  authenticityRating: { weight: 0.8 }, // Both should be similarly authentic
-
-  // Values - important
-  optimismRating: { weight: 0.7 }, // Mismatched optimism causes friction
-
-  // Communication - very important
-  humorRating: { weight: 0.9 }, // Humor compatibility is crucial
-  aiGeneratedRating: { weight: 0.2 }, // Low importance unless both are bots
-};
-
 export class CompatibilityCalculator {
   private readonly amplificationPower: number;
 
@@ -70,38 +40,27 @@ export class CompatibilityCalculator {
 
   /**
    * Calculate compatibility score between two user profiles
+   * The range widens as fewer dimensions are compared and as profile extraction gets less
+   * confident; the score is suppressed below SCORE_CONFIDENCE.MIN_COMPARED_DIMENSIONS
+   * @param presetId - Scoring preset providing dimension weights and the aggregation strategy
    */
   calculateScore(
     profile1: UserProfile,
-    profile2: UserProfile
+    profile2: UserProfile,
+    presetId: ScoringPresetId = DEFAULT_SCORING_PRESET
   ): {
     score: number;
     breakdown: DimensionComparison[];
     categoryScores: Record<string, number>;
+    scoreRange: ScoreRange;
+    suppressed: boolean;
   } {
+    const preset = getScoringPreset(presetId);
     const comparisons: DimensionComparison[] = [];
 
     // Compare each dimension
-    const dimensions = [
-      'positivityRating',
-      'empathyRating',
-      'engagementRating',
-      'debateRating',
-      'shitpostRating',
-      'memeRating',
-      'intellectualRating',
-      'politicalRating',
-      'personalSharingRating',
-      'inspirationalQuotesRating',
-      'extroversionRating',
-      'authenticityRating',
-      'optimismRating',
-      'humorRating',
-      'aiGeneratedRating',
-    ] as const;
-
-    for (const dimension of dimensions) {
-      const config = DIMENSION_CONFIG[dimension];
+    for (const dimension of PERSONALITY_DIMENSIONS) {
+      const config = preset.dimensions[dimension];
       const value1 = profile1.contentStyle[dimension];
       const value2 = profile2.contentStyle[dimension];
 
@@ -140,7 +99,7 @@ export class CompatibilityCalculator {
     }
 
     // Calculate raw score using advanced methods
-    const rawScore = this.calculateCombinedScore(comparisons);
+    const rawScore = this.calculateCombinedScore(comparisons, preset.aggregation);
 
     // Apply amplification to spread scores across full range
     const amplifiedScore = this.amplifyScore(rawScore);
@@ -148,18 +107,50 @@ export class CompatibilityCalculator {
     // Calculate category scores
     const categoryScores = this.calculateCategoryScores(comparisons);
 
+    const score = Math.max(0, Math.min(100, Math.round(amplifiedScore * 100))); // Ensure 0-100 range
+
     return {
-      score: Math.max(0, Math.min(100, Math.round(amplifiedScore * 100))), // Ensure 0-100 range
+      score,
       breakdown: comparisons,
       categoryScores,
+      scoreRange: this.calculateScoreRange(score, comparisons.length, profile1, profile2),
+      suppressed: comparisons.length < SCORE_CONFIDENCE.MIN_COMPARED_DIMENSIONS,
     };
   }
 
+  /**
+   * Uncertainty range around a score
+   * Certainty is the share of dimensions compared times the weaker profile's average of
+   * searchConfidence and dataCompleteness
+   */
+  private calculateScoreRange(
+    score: number,
+    comparedDimensions: number,
+    profile1: UserProfile,
+    profile2: UserProfile
+  ): ScoreRange {
+    const coverage = comparedDimensions / PERSONALITY_DIMENSIONS.length;
+    const quality =
+      Math.min(
+        profile1.searchConfidence + profile1.dataCompleteness,
+        profile2.searchConfidence + profile2.dataCompleteness
+      ) / 200;
+    const margin = Math.round(
+      SCORE_CONFIDENCE.MIN_MARGIN +
+        (SCORE_CONFIDENCE.MAX_MARGIN - SCORE_CONFIDENCE.MIN_MARGIN) * (1 - coverage * quality)
+    );
+
+    return { low: Math.max(0, score - margin), high: Math.min(100, score + margin) };
+  }
+
   /**
    * Calculate combined score using a balanced approach
    * Combines multiple methods to create meaningful differentiation
    */
-  private calculateCombinedScore(comparisons: DimensionComparison[]): number {
+  private calculateCombinedScore(
+    comparisons: DimensionComparison[],
+    aggregation: AggregationStrategy
+  ): number {
     if (comparisons.length === 0) return 0.5;
 
     const scores = comparisons.map((c) => c.score);
@@ -173,7 +164,7 @@ export class CompatibilityCalculator {
       comparisons.reduce((sum, c) => sum + c.weight, 0);
 
     // Calculate various aggregation methods
-    const methods = {
+    const methods: Record<AggregationMethod, number> = {
       // Standard weighted average (baseline)
       weighted: weightedAvg,
 
@@ -197,12 +188,7 @@ export class CompatibilityCalculator {
     };
 
     // Identify critical dimensions and their performance
-    const criticalDimensions = [
-      'intellectualRating',
-      'humorRating',
-      'authenticityRating',
-      'shitpostRating',
-    ];
+    const criticalDimensions: string[] = aggregation.criticalDimensions;
     const criticalScores = comparisons
       .filter((c) => criticalDimensions.includes(c.dimension))
       .map((c) => c.score);
@@ -215,33 +201,21 @@ export class CompatibilityCalculator {
     let finalScore: number;
 
     // Choose aggregation strategy based on score patterns
-    if (minCritical < 0.25) {
+    if (minCritical < aggregation.criticalThreshold) {
       // Critical failure: apply heavy penalties
       finalScore = Math.min(methods.geometric * 0.8, methods.penalty, weightedAvg * 0.7);
     } else if (avgScore > 0.85 && minScore > 0.6) {
       // Excellent match: use optimistic aggregation
-      finalScore =
-        0.4 * methods.quadratic +
-        0.3 * methods.waspas +
-        0.2 * methods.choquet +
-        0.1 * methods.weighted;
+      finalScore = this.blend(methods, aggregation.blends.excellent);
     } else if (avgScore > 0.7) {
       // Good match: balanced approach
-      finalScore =
-        0.3 * methods.weighted +
-        0.25 * methods.geometric +
-        0.25 * methods.waspas +
-        0.2 * methods.choquet;
+      finalScore = this.blend(methods, aggregation.blends.good);
     } else if (minScore < 0.3) {
       // Poor dimensions present: penalize appropriately
-      finalScore = 0.4 * methods.penalty + 0.3 * methods.geometric + 0.3 * methods.weighted;
+      finalScore = this.blend(methods, aggregation.blends.poor);
     } else {
       // Mixed compatibility: use balanced methods
-      finalScore =
-        0.35 * methods.weighted +
-        0.25 * methods.powerHalf +
-        0.25 * methods.waspas +
-        0.15 * methods.choquet;
+      finalScore = this.blend(methods, aggregation.blends.mixed);
     }
 
     // Apply critical dimension modifier
@@ -261,6 +235,16 @@ export class CompatibilityCalculator {
     return Math.max(0, Math.min(1, finalScore));
   }
 
+  /**
+   * Weighted sum of aggregation results using a preset blend
+   */
+  private blend(methods: Record<AggregationMethod, number>, blend: AggregationBlend): number {
+    return Object.entries(blend).reduce(
+      (sum, [method, coefficient]) => sum + coefficient * methods[method as AggregationMethod],
+      0
+    );
+  }
+
   /**
    * Generate interaction matrix for Choquet integral
    * Defines synergies and redundancies between dimensions
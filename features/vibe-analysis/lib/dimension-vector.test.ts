@@ -0,0 +1,57 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { fromDimensionVector, PERSONALITY_DIMENSIONS, toDimensionVector } from './dimension-vector';
+import { fullDimensionsArbitrary, makeProfile } from '../test-utils/profiles';
+
+describe('toDimensionVector', () => {
+  it('encodes every dimension in PERSONALITY_DIMENSIONS order', () => {
+    const profile = makeProfile('alice', { positivityRating: 0.1, aiGeneratedRating: 0.9 });
+
+    const vector = toDimensionVector(profile);
+
+    expect(vector).toHaveLength(PERSONALITY_DIMENSIONS.length);
+    expect(vector[0]).toBe(0.1);
+    expect(vector[PERSONALITY_DIMENSIONS.length - 1]).toBe(0.9);
+    expect(vector.slice(1, -1).every((value) => value === null)).toBe(true);
+  });
+
+  it('clamps to 0-1, rounds to 3 decimals and keeps unknown values null', () => {
+    const profile = makeProfile('alice', {
+      positivityRating: 1.5,
+      empathyRating: -0.2,
+      engagementRating: 0.12345,
+      debateRating: Number.NaN,
+    });
+
+    expect(toDimensionVector(profile).slice(0, 5)).toEqual([1, 0, 0.123, null, null]);
+  });
+});
+
+describe('fromDimensionVector', () => {
+  it('rebuilds the ratings a vector was encoded from', () => {
+    fc.assert(
+      fc.property(fullDimensionsArbitrary, (dimensions) => {
+        const vector = toDimensionVector(makeProfile('alice', dimensions));
+        const profile = fromDimensionVector('alice', vector);
+
+        expect(toDimensionVector(profile)).toEqual(vector);
+        PERSONALITY_DIMENSIONS.forEach((dimension) => {
+          expect(profile.contentStyle[dimension]).toBeCloseTo(dimensions[dimension], 3);
+        });
+      })
+    );
+  });
+
+  it('carries the stored quality metrics (zero when missing)', () => {
+    const vector = toDimensionVector(makeProfile('alice'));
+
+    expect(fromDimensionVector('alice', vector)).toMatchObject({
+      username: 'alice',
+      searchConfidence: 0,
+      dataCompleteness: 0,
+    });
+    expect(
+      fromDimensionVector('alice', vector, { searchConfidence: 70, dataCompleteness: 60 })
+    ).toMatchObject({ searchConfidence: 70, dataCompleteness: 60 });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Dimension Vector
+ * Normalized, fixed-order encoding of the 15 personality dimensions
+ * Stored alongside cached profiles so rankings can score without loading full profiles
+ */
+
+import type { UserProfile } from '../schemas/profile.schema';
+
+/**
+ * The 15 personality dimensions in vector order
+ * Never reorder - stored vectors depend on this order
+ */
+export const PERSONALITY_DIMENSIONS = [
+  'positivityRating',
+  'empathyRating',
+  'engagementRating',
+  'debateRating',
+  'shitpostRating',
+  'memeRating',
+  'intellectualRating',
+  'politicalRating',
+  'personalSharingRating',
+  'inspirationalQuotesRating',
+  'extroversionRating',
+  'authenticityRating',
+  'optimismRating',
+  'humorRating',
+  'aiGeneratedRating',
+] as const;
+
+export type PersonalityDimension = (typeof PERSONALITY_DIMENSIONS)[number];
+
+/**
+ * One entry per dimension, clamped to 0-1, null when the dimension is unknown
+ */
+export type DimensionVector = Array<number | null>;
+
+/**
+ * Encode a profile's personality dimensions as a normalized vector
+ * @param profile - User profile
+ * @returns Vector in PERSONALITY_DIMENSIONS order (3 decimal precision)
+ */
+export function toDimensionVector(profile: UserProfile): DimensionVector {
+  return PERSONALITY_DIMENSIONS.map((dimension) => {
+    const value = profile.contentStyle[dimension];
+    if (value === null || value === undefined || Number.isNaN(value)) {
+      return null;
+    }
+    return Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+  });
+}
+
+/**
+ * Rebuild a minimal profile from a dimension vector
+ * Only the personality dimensions are populated - enough for the compatibility calculator
+ * @param username - X username
+ * @param vector - Stored dimension vector
+ * @param quality - Stored data quality metrics
+ * @returns Profile usable with CompatibilityCalculator.calculateScore
+ */
+export function fromDimensionVector(
+  username: string,
+  vector: DimensionVector,
+  quality: { searchConfidence: number; dataCompleteness: number } = {
+    searchConfidence: 0,
+    dataCompleteness: 0,
+  }
+): UserProfile {
+  const ratings = Object.fromEntries(
+    PERSONALITY_DIMENSIONS.map((dimension, index) => [dimension, vector[index] ?? null])
+  ) as Record<PersonalityDimension, number | null>;
+
+  return {
+    username,
+    displayName: null,
+    recentTweets: null,
+    contentStyle: {
+      primaryContentType: null,
+      humorStyle: null,
+      tone: null,
+      usesEmojis: null,
+      formality: null,
+      ...ratings,
+    },
+    topTopics: null,
+    notableTraits: null,
+    searchConfidence: quality.searchConfidence,
+    dataCompleteness: quality.dataCompleteness,
+  };
+}
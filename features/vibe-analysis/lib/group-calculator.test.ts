@@ -0,0 +1,97 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { GroupCalculator } from './group-calculator';
+import { PERSONALITY_DIMENSIONS } from './dimension-vector';
+import {
+  fullDimensionsArbitrary,
+  makeProfile,
+  sparseDimensionsArbitrary,
+  uniformDimensions,
+} from '../test-utils/profiles';
+
+const calculator = new GroupCalculator();
+
+// Rates too few dimensions for any pair with it to be scored
+const SPARSE = Object.fromEntries(PERSONALITY_DIMENSIONS.slice(0, 2).map((d) => [d, 0.5]));
+
+const groupArbitrary = fc
+  .array(fullDimensionsArbitrary, { minLength: 2, maxLength: 10 })
+  .map((members) => members.map((dimensions, i) => makeProfile(`user${i}`, dimensions)));
+
+describe('GroupCalculator.calculate', () => {
+  it('scores every pair once into a symmetric matrix', () => {
+    fc.assert(
+      fc.property(groupArbitrary, (profiles) => {
+        const { members, matrix, pairs } = calculator.calculate(profiles);
+        const n = profiles.length;
+
+        expect(pairs).toHaveLength((n * (n - 1)) / 2);
+        expect(new Set(pairs.map((p) => `${p.userOne}:${p.userTwo}`)).size).toBe(pairs.length);
+
+        for (const pair of pairs) {
+          const i = members.indexOf(pair.userOne);
+          const j = members.indexOf(pair.userTwo);
+          expect(i).toBeLessThan(j);
+          expect(matrix[i][j]).toBe(pair.score);
+          expect(matrix[j][i]).toBe(pair.score);
+        }
+        members.forEach((_, i) => expect(matrix[i][i]).toBeNull());
+      })
+    );
+  });
+
+  it('picks the highest and lowest scored pairs as best and worst', () => {
+    fc.assert(
+      fc.property(
+        fc.array(sparseDimensionsArbitrary, { minLength: 3, maxLength: 6 }),
+        (members) => {
+          const group = calculator.calculate(members.map((d, i) => makeProfile(`user${i}`, d)));
+          const scored = group.pairs.filter((p) => !p.scoreSuppressed).map((p) => p.score);
+
+          if (scored.length === 0) {
+            expect(group.bestPair).toBeUndefined();
+            expect(group.worstPair).toBeUndefined();
+            expect(group.averageScore).toBeNull();
+            return;
+          }
+
+          expect(group.bestPair?.score).toBe(Math.max(...scored));
+          expect(group.worstPair?.score).toBe(Math.min(...scored));
+          expect(group.bestPair?.scoreSuppressed).toBe(false);
+          expect(group.worstPair?.scoreSuppressed).toBe(false);
+        }
+      )
+    );
+  });
+
+  it('uses the only pair of a 2-member group as best and worst pair', () => {
+    const group = calculator.calculate([
+      makeProfile('alice', uniformDimensions(0.6)),
+      makeProfile('bob', uniformDimensions(0.4)),
+    ]);
+
+    expect(group.pairs).toHaveLength(1);
+    expect(group.bestPair).toBe(group.pairs[0]);
+    expect(group.worstPair).toBe(group.pairs[0]);
+    expect(group.averageScore).toBe(group.pairs[0].score);
+    expect(group.mostCentral?.averageScore).toBe(group.pairs[0].score);
+    expect(group.outlier?.averageScore).toBe(group.pairs[0].score);
+  });
+
+  it('leaves suppressed pairs out of the matrix, averages and best/worst picks', () => {
+    const group = calculator.calculate([
+      makeProfile('alice', uniformDimensions(0.6)),
+      makeProfile('bob', uniformDimensions(0.5)),
+      makeProfile('carol', SPARSE),
+    ]);
+
+    const scored = group.pairs.filter((p) => !p.scoreSuppressed);
+    expect(scored).toHaveLength(1);
+    expect(group.pairs.slice(1).every((p) => p.scoreSuppressed)).toBe(true);
+    expect(group.matrix[2]).toEqual([null, null, null]);
+    expect(group.bestPair).toBe(scored[0]);
+    expect(group.worstPair).toBe(scored[0]);
+    expect(group.averageScore).toBe(scored[0].score);
+    expect(group.outlier?.username).not.toBe('carol');
+  });
+});
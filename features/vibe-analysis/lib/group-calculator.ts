@@ -0,0 +1,92 @@
+/**
+ * Group Calculator
+ * Builds a pairwise compatibility matrix and group-level insights for 3+ users
+ */
+
+import type { UserProfile } from '../schemas/profile.schema';
+import type { GroupMemberScore, GroupPairScore, VibeGroupResult } from '../types';
+import { compatibilityCalculator } from './compatibility-calculator';
+
+export type GroupCompatibility = Omit<VibeGroupResult, 'metadata'>;
+
+export class GroupCalculator {
+  /**
+   * Score every pair in the group - N×(N−1)/2 calculator runs, no API calls
+   * Pairs with too few dimensions in common (suppressed scores) stay out of the matrix, the
+   * averages and the best/worst picks
+   * @param profiles - Profiles of all group members (at least 2)
+   * @returns Matrix, pair scores and group-level insights
+   */
+  calculate(profiles: UserProfile[]): GroupCompatibility {
+    const members = profiles.map((p) => p.username);
+    const matrix: Array<Array<number | null>> = members.map(() => members.map(() => null));
+    const pairs: GroupPairScore[] = [];
+
+    for (let i = 0; i < profiles.length; i++) {
+      for (let j = i + 1; j < profiles.length; j++) {
+        const { score, breakdown, categoryScores, suppressed } =
+          compatibilityCalculator.calculateScore(profiles[i], profiles[j]);
+        const { topMatches, topClashes } = compatibilityCalculator.getTopMatches(breakdown, 3);
+
+        if (!suppressed) {
+          matrix[i][j] = score;
+          matrix[j][i] = score;
+        }
+        pairs.push({
+          userOne: members[i],
+          userTwo: members[j],
+          score,
+          scoreSuppressed: suppressed,
+          categoryScores,
+          topMatches: topMatches.map((d) => d.dimension),
+          topClashes: topClashes.map((d) => d.dimension),
+        });
+      }
+    }
+
+    // Scored pairs best first, then the suppressed ones
+    pairs.sort(
+      (a, b) => Number(a.scoreSuppressed) - Number(b.scoreSuppressed) || b.score - a.score
+    );
+    const scoredPairs = pairs.filter((p) => !p.scoreSuppressed);
+
+    const memberScores = this.calculateMemberScores(members, matrix);
+    const byAverage = [...memberScores].sort((a, b) => b.averageScore - a.averageScore);
+
+    return {
+      members,
+      matrix,
+      pairs,
+      averageScore:
+        scoredPairs.length > 0
+          ? Math.round(scoredPairs.reduce((sum, p) => sum + p.score, 0) / scoredPairs.length)
+          : null,
+      mostCentral: byAverage[0],
+      outlier: byAverage[byAverage.length - 1],
+      bestPair: scoredPairs[0],
+      worstPair: scoredPairs[scoredPairs.length - 1],
+    };
+  }
+
+  /**
+   * Average each member's scores against everyone else in the group
+   * Members without a single scored pair are left out
+   */
+  private calculateMemberScores(
+    members: string[],
+    matrix: Array<Array<number | null>>
+  ): GroupMemberScore[] {
+    return members.flatMap((username, i) => {
+      const scores = matrix[i].filter((score): score is number => score !== null);
+      if (scores.length === 0) {
+        return [];
+      }
+
+      const average = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+      return [{ username, averageScore: Math.round(average) }];
+    });
+  }
+}
+
+// Export singleton instance
+export const groupCalculator = new GroupCalculator();
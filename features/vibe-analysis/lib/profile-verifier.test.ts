@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { profileVerifier } from './profile-verifier';
+import { makeProfile } from '../test-utils/profiles';
+import type { UserProfile } from '../types';
+
+const TWEETS = [
+  'Spent the whole weekend rebuilding my synth rack, no regrets',
+  'Hot take: most productivity advice is just procrastination with extra steps',
+  'Anyone know a good ramen place near the office?',
+];
+
+function withEvidence(
+  tweets: string[],
+  citations: UserProfile['citations'] = null,
+  username = 'alice'
+): UserProfile {
+  return {
+    ...makeProfile(username),
+    recentTweets: tweets.map((text) => ({ text })),
+    citations,
+  };
+}
+
+function citationsFor(tweets: string[], username = 'alice') {
+  return tweets.map((text, i) => ({
+    id: i + 1,
+    url: `https://x.com/${username}/status/${100 + i}`,
+    text,
+  }));
+}
+
+describe('ProfileVerifier.verify', () => {
+  it('gives full evidence to original tweets quoted by own-account citations', () => {
+    const verification = profileVerifier.verify(withEvidence(TWEETS, citationsFor(TWEETS)));
+
+    expect(verification).toMatchObject({
+      evidenceScore: 100,
+      verifiedTweets: 3,
+      accountCitations: 3,
+      flags: [],
+    });
+  });
+
+  it('backs tweets with citations that paraphrase or reformat them', () => {
+    const verification = profileVerifier.verify(
+      withEvidence(TWEETS.slice(0, 1), [
+        {
+          url: 'https://news.example.com/story',
+          text: 'She SPENT the whole weekend rebuilding her synth rack (no regrets!) https://t.co/x',
+        },
+      ])
+    );
+
+    expect(verification.verifiedTweets).toBe(1);
+    expect(verification.accountCitations).toBe(0);
+  });
+
+  it('flags duplicated and template-like tweets', () => {
+    const verification = profileVerifier.verify(
+      withEvidence([
+        TWEETS[0],
+        TWEETS[0],
+        'Thoughts on AI from @alice (tweet 1)',
+        'Thoughts on crypto from @alice (tweet 2)',
+      ])
+    );
+
+    expect(verification.duplicateTweets).toBe(1);
+    expect(verification.templateTweets).toBe(2);
+    expect(verification.flags).toEqual([
+      'no_citations',
+      'unverified_tweets',
+      'duplicate_tweets',
+      'template_tweets',
+    ]);
+  });
+
+  it('treats placeholder text as a template', () => {
+    const verification = profileVerifier.verify(withEvidence(['<actual tweet text>', TWEETS[1]]));
+
+    expect(verification.templateTweets).toBe(1);
+  });
+
+  it('only credits citations of the same account', () => {
+    const verification = profileVerifier.verify(
+      withEvidence(TWEETS, [
+        ...citationsFor(TWEETS, 'bob'),
+        { url: 'https://twitter.com/Alice' },
+        { url: 'not a url' },
+      ])
+    );
+
+    expect(verification.accountCitations).toBe(1);
+  });
+
+  it('scores a profile without tweets or citations as no evidence', () => {
+    const verification = profileVerifier.verify(makeProfile('alice'));
+
+    expect(verification.evidenceScore).toBe(0);
+    expect(verification.flags).toEqual(['no_tweets', 'no_citations']);
+  });
+});
+
+describe('ProfileVerifier.applyVerification', () => {
+  it('scales searchConfidence down only when evidence is thin', () => {
+    const profile = { ...makeProfile('alice'), searchConfidence: 80 };
+    const verified = profileVerifier.verify(withEvidence(TWEETS, citationsFor(TWEETS)));
+    const thin = profileVerifier.verify(withEvidence(TWEETS));
+
+    expect(profileVerifier.applyVerification(profile, verified).searchConfidence).toBe(80);
+    expect(profileVerifier.applyVerification(profile, thin).searchConfidence).toBe(53);
+    expect(
+      profileVerifier.applyVerification(profile, profileVerifier.verify(makeProfile('alice')))
+        .searchConfidence
+    ).toBe(40);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Profile Verifier
+ * Cross-checks the tweets Grok extracted against the citations it returned, so invented
+ * samples lower a profile's confidence instead of feeding the score unchecked
+ */
+
+import type { UserProfile } from '../schemas/profile.schema';
+import { PROFILE_EVIDENCE } from '../config/vibe-constants';
+
+export type EvidenceFlag =
+  | 'no_tweets'
+  | 'no_citations'
+  | 'unverified_tweets' // Fewer than half of the tweets appear in a citation
+  | 'duplicate_tweets'
+  | 'template_tweets'; // Tweets that differ only in a word or two
+
+/**
+ * Outcome of checking a profile's tweets and citations
+ */
+export interface ProfileVerification {
+  evidenceScore: number; // 0-100
+  tweets: number;
+  verifiedTweets: number; // Backed by the text of a citation
+  duplicateTweets: number;
+  templateTweets: number;
+  accountCitations: number; // Citations pointing at the user's own posts or profile
+  flags: EvidenceFlag[];
+}
+
+type Citation = NonNullable<UserProfile['citations']>[number];
+
+const X_HOSTS = new Set(['x.com', 'twitter.com', 'www.x.com', 'www.twitter.com', 'mobile.x.com']);
+
+// Placeholder text models fall back to when they have no real tweet to quote
+const PLACEHOLDER_PATTERN =
+  /lorem ipsum|<[^>]*tweet[^>]*>|\b(?:sample|example|placeholder|mock|fake) tweet\b/i;
+
+export class ProfileVerifier {
+  /**
+   * Check a profile's tweets against its citations
+   * @param profile - Normalized profile from the API
+   * @returns Evidence score (tweet support 50%, own-account citations 30%, originality 20%)
+   */
+  verify(profile: UserProfile): ProfileVerification {
+    const tweets = (profile.recentTweets ?? []).map((tweet) => normalizeText(tweet.text));
+    const citations = profile.citations ?? [];
+    const citationTexts = citations
+      .map((citation) => normalizeText(citation.text ?? ''))
+      .filter(Boolean);
+
+    const duplicates = this.findDuplicates(tweets);
+    const templates = this.findTemplates(tweets, duplicates, profile.recentTweets ?? []);
+    const verifiedTweets = tweets.filter(
+      (tweet, i) => !duplicates.has(i) && citationTexts.some((text) => isCitedIn(tweet, text))
+    ).length;
+    const accountCitations = citations.filter((citation) =>
+      isAccountCitation(citation, profile.username)
+    ).length;
+
+    const original = tweets.length - new Set([...duplicates, ...templates]).size;
+    const tweetSupport = tweets.length > 0 ? verifiedTweets / tweets.length : 0;
+    const citationSupport = Math.min(1, accountCitations / PROFILE_EVIDENCE.FULL_CITATIONS);
+    const originality = tweets.length > 0 ? original / tweets.length : 0;
+
+    const flags: EvidenceFlag[] = [];
+    if (tweets.length === 0) flags.push('no_tweets');
+    if (citations.length === 0) flags.push('no_citations');
+    if (tweets.length > 0 && tweetSupport < 0.5) flags.push('unverified_tweets');
+    if (duplicates.size > 0) flags.push('duplicate_tweets');
+    if (templates.size > 0) flags.push('template_tweets');
+
+    return {
+      evidenceScore: Math.round(
+        100 * (0.5 * tweetSupport + 0.3 * citationSupport + 0.2 * originality)
+      ),
+      tweets: tweets.length,
+      verifiedTweets,
+      duplicateTweets: duplicates.size,
+      templateTweets: templates.size,
+      accountCitations,
+      flags,
+    };
+  }
+
+  /**
+   * Scale searchConfidence down when evidence is thin (halved at an evidence score of 0)
+   * @param profile - Verified profile
+   * @param verification - Result of verify() for the profile
+   * @returns Profile with the adjusted confidence
+   */
+  applyVerification(profile: UserProfile, verification: ProfileVerification): UserProfile {
+    const factor = Math.min(
+      1,
+      0.5 + verification.evidenceScore / (2 * PROFILE_EVIDENCE.FULL_CONFIDENCE_SCORE)
+    );
+
+    return { ...profile, searchConfidence: Math.round(profile.searchConfidence * factor) };
+  }
+
+  /**
+   * Indexes of tweets repeating an earlier tweet (the first occurrence is kept)
+   */
+  private findDuplicates(tweets: string[]): Set<number> {
+    const seen = new Set<string>();
+    const duplicates = new Set<number>();
+
+    tweets.forEach((tweet, i) => {
+      if (seen.has(tweet)) {
+        duplicates.add(i);
+      }
+      seen.add(tweet);
+    });
+
+    return duplicates;
+  }
+
+  /**
+   * Indexes of placeholder tweets and tweets sharing most of their words with another one
+   */
+  private findTemplates(
+    tweets: string[],
+    duplicates: Set<number>,
+    raw: NonNullable<UserProfile['recentTweets']>
+  ): Set<number> {
+    const templates = new Set<number>();
+    const skeletons = tweets.map((tweet) => new Set(tweet.replace(/\d+/g, '#').split(' ')));
+
+    for (let i = 0; i < tweets.length; i++) {
+      if (PLACEHOLDER_PATTERN.test(raw[i].text)) {
+        templates.add(i);
+      }
+      if (duplicates.has(i) || skeletons[i].size < PROFILE_EVIDENCE.MIN_COMPARED_WORDS) {
+        continue;
+      }
+
+      for (let j = i + 1; j < tweets.length; j++) {
+        if (
+          !duplicates.has(j) &&
+          tweets[i] !== tweets[j] &&
+          skeletons[j].size >= PROFILE_EVIDENCE.MIN_COMPARED_WORDS &&
+          jaccard(skeletons[i], skeletons[j]) >= PROFILE_EVIDENCE.TEMPLATE_SIMILARITY
+        ) {
+          templates.add(i);
+          templates.add(j);
+        }
+      }
+    }
+
+    return templates;
+  }
+}
+
+// Lowercased words without links and punctuation (mentions and hashtags keep their sigil)
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}@#_]+/gu, ' ')
+    .trim();
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// A citation backs a tweet when it quotes it, or contains most of its words
+function isCitedIn(tweet: string, citationText: string): boolean {
+  if (!tweet) return false;
+  if (` ${citationText} `.includes(` ${tweet} `)) return true;
+
+  const words = new Set(tweet.split(' '));
+  if (words.size < PROFILE_EVIDENCE.MIN_COMPARED_WORDS) return false;
+
+  const cited = new Set(citationText.split(' '));
+  const found = [...words].filter((word) => cited.has(word)).length;
+  return found / words.size >= PROFILE_EVIDENCE.CITED_WORD_SHARE;
+}
+
+// x.com / twitter.com link to the user's profile or one of their posts
+function isAccountCitation(citation: Citation, username: string): boolean {
+  if (!citation.url) return false;
+
+  try {
+    const url = new URL(citation.url);
+    const [handle] = url.pathname.split('/').filter(Boolean);
+    return X_HOSTS.has(url.hostname) && handle?.toLowerCase() === username.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+export const profileVerifier = new ProfileVerifier();
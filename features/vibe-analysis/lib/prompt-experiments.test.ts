@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { assignPrompt, validatePromptExperiments } from './prompt-experiments';
+import { CURRENT_PROMPTS, type PromptExperiment } from '../config/prompt-registry';
+
+const EXPERIMENT: PromptExperiment = {
+  id: 'fetch-profile-split',
+  stage: 'fetchProfile',
+  variants: [
+    { promptId: 'fetch-profile/v1', weight: 3 },
+    { promptId: 'fetch-profile/v1', weight: 0 },
+    { promptId: 'fetch-profile/v1', weight: 1 },
+  ],
+};
+
+describe('assignPrompt', () => {
+  it('uses the current prompt when the stage has no experiment', () => {
+    expect(assignPrompt('matchVibe', () => 0.5, [EXPERIMENT])).toEqual({
+      promptId: CURRENT_PROMPTS.matchVibe,
+    });
+  });
+
+  it('splits traffic by weight and tags the experiment', () => {
+    const experiments: PromptExperiment[] = [
+      {
+        id: 'match-split',
+        stage: 'matchVibe',
+        variants: [
+          { promptId: 'match-vibe/v1', weight: 3 },
+          { promptId: 'fetch-profile/v1', weight: 1 },
+        ],
+      },
+    ];
+
+    expect(assignPrompt('matchVibe', () => 0, experiments)).toEqual({
+      promptId: 'match-vibe/v1',
+      experimentId: 'match-split',
+    });
+    expect(assignPrompt('matchVibe', () => 0.74, experiments).promptId).toBe('match-vibe/v1');
+    expect(assignPrompt('matchVibe', () => 0.75, experiments).promptId).toBe('fetch-profile/v1');
+    expect(assignPrompt('matchVibe', () => 0.9999, experiments).promptId).toBe('fetch-profile/v1');
+  });
+
+  it('never assigns zero-weight variants', () => {
+    const experiments: PromptExperiment[] = [
+      {
+        id: 'match-split',
+        stage: 'matchVibe',
+        variants: [
+          { promptId: 'match-vibe/v1', weight: 1 },
+          { promptId: 'fetch-profile/v1', weight: 0 },
+        ],
+      },
+    ];
+
+    for (const value of [0, 0.5, 0.9999]) {
+      expect(assignPrompt('matchVibe', () => value, experiments).promptId).toBe('match-vibe/v1');
+    }
+  });
+});
+
+describe('validatePromptExperiments', () => {
+  it('accepts the configured experiments', () => {
+    expect(validatePromptExperiments()).toEqual([]);
+  });
+
+  it('reports duplicate stages, missing weights and prompts of another stage', () => {
+    const problems = validatePromptExperiments([
+      EXPERIMENT,
+      {
+        id: 'second',
+        stage: 'fetchProfile',
+        variants: [{ promptId: 'match-vibe/v1', weight: 0 }],
+      },
+    ]);
+
+    expect(problems).toEqual([
+      'More than one experiment for fetchProfile',
+      'second has no variant with a positive weight',
+      'second uses match-vibe/v1, a matchVibe prompt',
+    ]);
+  });
+});
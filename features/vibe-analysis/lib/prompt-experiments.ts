@@ -0,0 +1,95 @@
+/**
+ * Prompt variant assignment for running experiments (see config/prompt-registry.ts)
+ */
+
+import {
+  CURRENT_PROMPTS,
+  PROMPT_EXPERIMENTS,
+  PROMPT_REGISTRY,
+  type PromptExperiment,
+  type PromptId,
+  type PromptStage,
+} from '../config/prompt-registry';
+import { ConfigError } from '@/shared/lib/errors';
+
+/**
+ * Prompt a request runs with, and the experiment that picked it
+ */
+export interface PromptAssignment {
+  promptId: PromptId;
+  experimentId?: string; // Missing when the stage has no running experiment
+}
+
+/**
+ * Pick the prompt for one request of a stage
+ * Without a running experiment every request gets the current prompt
+ * @param stage - Prompt stage
+ * @param random - Source of randomness in [0, 1) (for tests)
+ * @param experiments - Running experiments
+ * @returns Assigned prompt version
+ */
+export function assignPrompt(
+  stage: PromptStage,
+  random: () => number = Math.random,
+  experiments: PromptExperiment[] = PROMPT_EXPERIMENTS
+): PromptAssignment {
+  const experiment = experiments.find((candidate) => candidate.stage === stage);
+  const variants = experiment?.variants.filter((variant) => variant.weight > 0) ?? [];
+  if (!experiment || variants.length === 0) {
+    return { promptId: CURRENT_PROMPTS[stage] };
+  }
+
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let pick = random() * total;
+
+  for (const variant of variants) {
+    pick -= variant.weight;
+    if (pick < 0) {
+      return { promptId: variant.promptId, experimentId: experiment.id };
+    }
+  }
+
+  // Only reached through floating point rounding
+  return { promptId: variants[variants.length - 1].promptId, experimentId: experiment.id };
+}
+
+/**
+ * Check experiments against the registry
+ * @returns Problems found (empty when every experiment is runnable)
+ */
+export function validatePromptExperiments(
+  experiments: PromptExperiment[] = PROMPT_EXPERIMENTS
+): string[] {
+  const problems: string[] = [];
+  const stages = new Set<PromptStage>();
+
+  for (const experiment of experiments) {
+    if (stages.has(experiment.stage)) {
+      problems.push(`More than one experiment for ${experiment.stage}`);
+    }
+    stages.add(experiment.stage);
+
+    if (!experiment.variants.some((variant) => variant.weight > 0)) {
+      problems.push(`${experiment.id} has no variant with a positive weight`);
+    }
+
+    for (const { promptId } of experiment.variants) {
+      if (PROMPT_REGISTRY[promptId].stage !== experiment.stage) {
+        problems.push(
+          `${experiment.id} uses ${promptId}, a ${PROMPT_REGISTRY[promptId].stage} prompt`
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Fail fast on a misconfigured experiment instead of serving prompts it didn't intend
+const experimentProblems = validatePromptExperiments();
+if (experimentProblems.length > 0) {
+  throw new ConfigError(
+    `Invalid prompt experiments: ${experimentProblems.join('; ')}`,
+    'PROMPT_EXPERIMENTS'
+  );
+}
@@ -10,3 +10,11 @@ export interface DimensionComparison {
   score: number;
   weight: number;
 }
+
+/**
+ * Likely spread of a calculated score (0-100, low <= score <= high)
+ */
+export interface ScoreRange {
+  low: number;
+  high: number;
+}
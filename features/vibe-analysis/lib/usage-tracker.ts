@@ -96,17 +96,21 @@ export function calculateGrokCost(
 }
 
 /**
- * Track and log Grok API usage with cost calculation
+ * Tokens, sources and cost of one Grok API call
  */
-export function trackGrokUsage(
-  model: string,
-  usage: GrokAPIResponse['usage'],
-  logger: Logger
-): void {
-  if (!usage) {
-    return;
-  }
+export interface GrokCallUsage {
+  tokens: ReturnType<typeof calculateTotalTokens>;
+  sourcesUsed: number;
+  costs: ReturnType<typeof calculateGrokCost>;
+}
 
+/**
+ * Calculate tokens, sources and cost for a Grok API response's usage
+ */
+export function summarizeGrokUsage(
+  model: string,
+  usage: NonNullable<GrokAPIResponse['usage']>
+): GrokCallUsage {
   const tokens = calculateTotalTokens(usage);
   const sourcesUsed = usage.num_sources_used || 0;
   const costs = calculateGrokCost(
@@ -117,6 +121,25 @@ export function trackGrokUsage(
     sourcesUsed
   );
 
+  return { tokens, sourcesUsed, costs };
+}
+
+/**
+ * Track and log Grok API usage with cost calculation
+ * @returns The call's usage, or null when the response had none
+ */
+export function trackGrokUsage(
+  model: string,
+  usage: GrokAPIResponse['usage'],
+  logger: Logger
+): GrokCallUsage | null {
+  if (!usage) {
+    return null;
+  }
+
+  const summary = summarizeGrokUsage(model, usage);
+  const { tokens, sourcesUsed, costs } = summary;
+
   logger.info(
     {
       model,
@@ -136,6 +159,30 @@ export function trackGrokUsage(
     },
     `Grok API: ${sourcesUsed} sources | ${tokens.totalTokens} tokens | $${costs.totalCost.toFixed(6)}`
   );
+
+  return summary;
+}
+
+/**
+ * Spend periods (UTC) the budget is checked against
+ * @param now - Unix milliseconds
+ * @returns Period keys as stored in Convex ('day:YYYY-MM-DD', 'month:YYYY-MM')
+ */
+export function getSpendPeriods(now: number): { day: string; month: string } {
+  const date = new Date(now).toISOString();
+  return { day: `day:${date.slice(0, 10)}`, month: `month:${date.slice(0, 7)}` };
+}
+
+/**
+ * Start of the next UTC day or month - when a spent budget resets
+ * @param period - Budget period
+ * @param now - Unix milliseconds
+ */
+export function getSpendPeriodReset(period: 'daily' | 'monthly', now: number): Date {
+  const date = new Date(now);
+  return period === 'daily'
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
 }
 
 /**
@@ -195,15 +242,7 @@ export function createSessionTracker(): {
     track: (model: string, usage: GrokAPIResponse['usage']) => {
       if (!usage) return;
 
-      const tokens = calculateTotalTokens(usage);
-      const sourcesUsed = usage.num_sources_used || 0;
-      const costs = calculateGrokCost(
-        model,
-        tokens.promptTokens,
-        tokens.completionTokens,
-        tokens.reasoningTokens,
-        sourcesUsed
-      );
+      const { tokens, sourcesUsed, costs } = summarizeGrokUsage(model, usage);
 
       session.totalCalls++;
       session.totalTokens += tokens.totalTokens;
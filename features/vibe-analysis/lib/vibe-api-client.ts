@@ -1,4 +1,14 @@
-import type { VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import type {
+  AnalysisProgressEvent,
+  AnalysisProgressListener,
+  UserProfileResult,
+  VibeAnalysisResult,
+  VibeGroupResult,
+} from '@/features/vibe-analysis/types';
+import {
+  DEFAULT_SCORING_PRESET,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
 
 /**
  * Client-side API for vibe analysis
@@ -8,6 +18,28 @@ export interface VibeAnalysisRequest {
   user1: string;
   user2: string;
   analysisDepth?: 'quick' | 'standard' | 'deep';
+  scoringPreset?: ScoringPresetId;
+}
+
+// Client-side timeouts per analysis depth (deep runs include a consistency pass)
+const CLIENT_TIMEOUTS = {
+  quick: 30000,
+  standard: 60000,
+  deep: 180000,
+} as const;
+
+// Group analysis fetches up to 10 profiles before scoring
+const GROUP_CLIENT_TIMEOUT = 120000;
+
+// An uncached profile is fetched from Grok on demand
+const PROFILE_CLIENT_TIMEOUT = 90000;
+
+// Payload of the SSE `error` event (same body as the JSON error response plus its status)
+interface StreamErrorPayload {
+  error?: string;
+  status?: number;
+  details?: unknown;
+  issues?: unknown;
 }
 
 export class VibeAPIError extends Error {
@@ -26,13 +58,15 @@ export class VibeAPIError extends Error {
  * @param user1 - First username (without @)
  * @param user2 - Second username (without @)
  * @param analysisDepth - Depth of analysis (default: standard)
+ * @param scoringPreset - Scoring preset (default: balanced)
  * @returns Vibe analysis result
  * @throws {VibeAPIError} If the API request fails
  */
 export async function fetchVibeAnalysis(
   user1: string,
   user2: string,
-  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard'
+  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard',
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET
 ): Promise<VibeAnalysisResult> {
   // Clean usernames (remove @ if present)
   const cleanUser1 = user1.replace('@', '').trim();
@@ -46,7 +80,8 @@ export async function fetchVibeAnalysis(
 
   // Add timeout handling
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 seconds client timeout (reasonable for most analyses)
+  const timeoutMs = CLIENT_TIMEOUTS[analysisDepth];
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     const response = await fetch(apiUrl, {
@@ -59,6 +94,7 @@ export async function fetchVibeAnalysis(
         userOne: cleanUser1,
         userTwo: cleanUser2,
         analysisDepth,
+        scoringPreset,
       }),
       signal: controller.signal,
     });
@@ -90,7 +126,7 @@ export async function fetchVibeAnalysis(
       throw new VibeAPIError(
         'Request timed out. The analysis is taking longer than expected. Please try again with simpler usernames or try again later.',
         408, // Request Timeout status code
-        { timeout: true, duration: 295000 }
+        { timeout: true, duration: timeoutMs }
       );
     }
 
@@ -108,3 +144,282 @@ export async function fetchVibeAnalysis(
     throw new VibeAPIError(`Network error: ${errorMessage}`, 0, errorDetails);
   }
 }
+
+/**
+ * Run vibe analysis with streamed progress (Server-Sent Events)
+ * Falls back to the plain JSON response if the server doesn't stream (e.g. validation errors)
+ * @param user1 - First username (without @)
+ * @param user2 - Second username (without @)
+ * @param analysisDepth - Depth of analysis (default: standard)
+ * @param scoringPreset - Scoring preset (default: balanced)
+ * @param onProgress - Called for every pipeline stage event
+ * @param signal - Aborts the request; the abort error is rethrown as-is
+ * @returns Vibe analysis result
+ * @throws {VibeAPIError} If the API request fails
+ */
+export async function streamVibeAnalysis(
+  user1: string,
+  user2: string,
+  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard',
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET,
+  onProgress?: AnalysisProgressListener,
+  signal?: AbortSignal,
+  onHandoff?: (token: string) => void
+): Promise<VibeAnalysisResult> {
+  const cleanUser1 = user1.replace('@', '').trim();
+  const cleanUser2 = user2.replace('@', '').trim();
+
+  const apiUrl =
+    typeof window !== 'undefined'
+      ? `${window.location.origin}/api/vibe/analyze`
+      : '/api/vibe/analyze';
+
+  const controller = new AbortController();
+  const timeoutMs = CLIENT_TIMEOUTS[analysisDepth];
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({
+        userOne: cleanUser1,
+        userTwo: cleanUser2,
+        analysisDepth,
+        scoringPreset,
+      }),
+      signal: controller.signal,
+    });
+
+    // Errors raised before the stream starts come back as regular JSON
+    if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new VibeAPIError(
+          data.error || 'Failed to analyze vibe compatibility',
+          response.status,
+          data.details || data.issues
+        );
+      }
+
+      return data as VibeAnalysisResult;
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+
+      // SSE messages are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseSSEMessage(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        if (!message) continue;
+
+        if (message.event === 'progress') {
+          onProgress?.(message.data as AnalysisProgressEvent);
+        } else if (message.event === 'handoff') {
+          onHandoff?.((message.data as { token: string }).token);
+        } else if (message.event === 'result') {
+          return message.data as VibeAnalysisResult;
+        } else if (message.event === 'error') {
+          const data = message.data as StreamErrorPayload;
+          throw new VibeAPIError(
+            data.error || 'Failed to analyze vibe compatibility',
+            data.status ?? 500,
+            data.details || data.issues
+          );
+        }
+      }
+    }
+
+    throw new VibeAPIError('Analysis stream ended without a result', 502);
+  } catch (error) {
+    // Aborted by the caller (e.g. to hand off to a background job), not a timeout
+    if (error instanceof VibeAPIError || signal?.aborted) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new VibeAPIError(
+        'Request timed out. The analysis is taking longer than expected. Please try again with simpler usernames or try again later.',
+        408,
+        { timeout: true, duration: timeoutMs }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new VibeAPIError(`Network error: ${errorMessage}`, 0, {
+      originalError: error,
+      url: apiUrl,
+      method: 'POST',
+      users: { user1: cleanUser1, user2: cleanUser2 },
+      analysisDepth,
+      timestamp: new Date().toISOString(),
+    });
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+/**
+ * Parse a single SSE message block
+ * Comment lines (keep-alives) are ignored
+ */
+function parseSSEMessage(block: string): { event: string; data: unknown } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: JSON.parse(dataLines.join('\n')) };
+}
+
+/**
+ * Fetch group vibe analysis from the API
+ * @param usernames - 3-10 usernames (without @)
+ * @returns Group compatibility matrix and insights
+ * @throws {VibeAPIError} If the API request fails
+ */
+export async function fetchGroupAnalysis(usernames: string[]): Promise<VibeGroupResult> {
+  const cleanUsernames = usernames.map((username) => username.replace('@', '').trim());
+
+  const apiUrl =
+    typeof window !== 'undefined' ? `${window.location.origin}/api/vibe/group` : '/api/vibe/group';
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), GROUP_CLIENT_TIMEOUT);
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify({ usernames: cleanUsernames }),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new VibeAPIError(
+        data.error || 'Failed to analyze group compatibility',
+        response.status,
+        data.details || data.issues
+      );
+    }
+
+    return data as VibeGroupResult;
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof VibeAPIError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new VibeAPIError(
+        'Request timed out. Group analysis is taking longer than expected. Please try again later.',
+        408,
+        { timeout: true, duration: GROUP_CLIENT_TIMEOUT }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new VibeAPIError(`Network error: ${errorMessage}`, 0, {
+      originalError: error,
+      url: apiUrl,
+      method: 'POST',
+      usernames: cleanUsernames,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Fetch a single user's profile (cached, or fetched from X on demand)
+ * @param username - Username (without @)
+ * @returns The profile, flagged stale when Grok is unavailable
+ * @throws {VibeAPIError} If the API request fails
+ */
+export async function fetchUserProfile(username: string): Promise<UserProfileResult> {
+  const cleanUsername = username.replace('@', '').trim();
+  const path = `/api/vibe/profile/${encodeURIComponent(cleanUsername)}`;
+
+  const apiUrl = typeof window !== 'undefined' ? `${window.location.origin}${path}` : path;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROFILE_CLIENT_TIMEOUT);
+
+  try {
+    const response = await fetch(apiUrl, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new VibeAPIError(
+        data.error || 'Failed to load profile',
+        response.status,
+        data.details || data.issues
+      );
+    }
+
+    return data as UserProfileResult;
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof VibeAPIError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new VibeAPIError(
+        'Request timed out. Reading the profile is taking longer than expected. Please try again later.',
+        408,
+        { timeout: true, duration: PROFILE_CLIENT_TIMEOUT }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    throw new VibeAPIError(`Network error: ${errorMessage}`, 0, {
+      originalError: error,
+      url: apiUrl,
+      method: 'GET',
+      username: cleanUsername,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -1,4 +1,10 @@
-export { vibeAnalysisRequestSchema } from './request.schema';
+export {
+  vibeAnalysisRequestSchema,
+  vibeGroupRequestSchema,
+  profileRequestSchema,
+  bestMatchesRequestSchema,
+  oembedRequestSchema,
+} from './request.schema';
 
 export {
   vibeAnalysisResultSchema,
@@ -9,6 +15,12 @@ export {
   type GrokAPIResponse,
 } from './response.schema';
 
+export {
+  PROFILE_RESPONSE_FORMAT,
+  MATCHING_RESPONSE_FORMAT,
+  type JsonSchemaResponseFormat,
+} from './response-format.schema';
+
 import { z } from 'zod';
 import { vibeAnalysisRequestSchema } from './request.schema';
 import { vibeAnalysisResultSchema } from './response.schema';
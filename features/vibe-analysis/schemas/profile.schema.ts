@@ -147,6 +147,18 @@ export const matchingResultSchema = z.object({
   }),
 });
 
+/**
+ * Output contracts sent to the model as JSON schema response formats
+ * Same shapes as the schemas above, minus the preprocessing that cleans up free-form output
+ */
+export const userProfileOutputSchema = userProfileSchema.extend({
+  // The citations array without its preprocessor
+  citations: userProfileSchema.shape.citations.unwrap().out.optional(),
+});
+
+// FETCH_PROFILE answers with a profile or, for unknown users, an error object
+export const profileFetchOutputSchema = z.union([userProfileErrorSchema, userProfileOutputSchema]);
+
 // Type exports
 export type UserProfile = z.infer<typeof userProfileSchema>;
 export type UserProfileError = z.infer<typeof userProfileErrorSchema>;
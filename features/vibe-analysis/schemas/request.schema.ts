@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { BEST_MATCHES, GROUP_ANALYSIS } from '../config/vibe-constants';
+import { DEFAULT_SCORING_PRESET, SCORING_PRESET_IDS } from '../config/scoring-presets';
 
 /**
  * Enhanced username validation with security checks
@@ -42,4 +44,41 @@ export const vibeAnalysisRequestSchema = z.object({
   userOne: usernameSchema,
   userTwo: usernameSchema,
   analysisDepth: z.enum(['quick', 'standard', 'deep']).default('standard').optional(),
+  scoringPreset: z.enum(SCORING_PRESET_IDS).default(DEFAULT_SCORING_PRESET).optional(),
+});
+
+export const vibeJobRequestSchema = vibeAnalysisRequestSchema.extend({
+  // From the `handoff` event of a streamed analysis this job takes over
+  handoffToken: z.string().max(200).optional(),
+});
+
+export const vibeGroupRequestSchema = z.object({
+  usernames: z
+    .array(usernameSchema)
+    .min(GROUP_ANALYSIS.MIN_MEMBERS, `Add at least ${GROUP_ANALYSIS.MIN_MEMBERS} usernames`)
+    .max(GROUP_ANALYSIS.MAX_MEMBERS, `Add at most ${GROUP_ANALYSIS.MAX_MEMBERS} usernames`)
+    .refine(
+      (usernames) => new Set(usernames.map((u) => u.toLowerCase())).size === usernames.length,
+      'Usernames must be unique'
+    ),
+});
+
+export const profileRequestSchema = z.object({
+  username: usernameSchema,
+});
+
+export const bestMatchesRequestSchema = z.object({
+  username: usernameSchema,
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(BEST_MATCHES.MAX_LIMIT)
+    .default(BEST_MATCHES.DEFAULT_LIMIT),
+});
+
+export const oembedRequestSchema = z.object({
+  url: z.string().url(),
+  maxwidth: z.coerce.number().int().positive().optional(),
+  maxheight: z.coerce.number().int().positive().optional(),
 });
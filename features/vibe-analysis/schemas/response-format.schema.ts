@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { matchingResultSchema, profileFetchOutputSchema } from './profile.schema';
+
+/**
+ * JSON schema response format for structured outputs
+ * Sent as response_format { type: 'json_schema' } to providers that support it
+ */
+export interface JsonSchemaResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Generate the response format from a Zod output contract
+ * Uses the input shape, so fields with defaults (e.g. strengths) stay optional for the model
+ */
+function toResponseFormat(name: string, contract: z.ZodType): JsonSchemaResponseFormat {
+  const schema: Record<string, unknown> = z.toJSONSchema(contract, {
+    target: 'draft-7',
+    io: 'input',
+  });
+
+  // Providers expect a bare schema object
+  delete schema.$schema;
+
+  return { name, schema };
+}
+
+export const PROFILE_RESPONSE_FORMAT = toResponseFormat('user_profile', profileFetchOutputSchema);
+
+// MATCH_VIBE and the deep consistency pass share the matching contract
+export const MATCHING_RESPONSE_FORMAT = toResponseFormat('vibe_match', matchingResultSchema);
@@ -1,6 +1,10 @@
 import { GrokService } from '@/features/vibe-analysis/services/grok/grok.service';
 import { vibeAnalysisRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
-import type { VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import type { AnalysisProgressListener, VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import {
+  DEFAULT_SCORING_PRESET,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
 import { getGrokApiKey } from '@/lib/env';
 import { ValidationError } from '@/shared/lib/errors';
 import { createChildLogger } from '@/lib/logger';
@@ -10,7 +14,11 @@ const logger = createChildLogger('AnalyzeService');
 export async function analyzeVibeService(
   userOne: string,
   userTwo: string,
-  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard'
+  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard',
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET,
+  onProgress?: AnalysisProgressListener,
+  beforeFreshAnalysis?: () => Promise<void>,
+  afterFreshAnalysis?: () => void
 ): Promise<VibeAnalysisResult> {
   // Remove @ symbol if present
   const cleanUserOne = userOne.replace('@', '');
@@ -30,6 +38,7 @@ export async function analyzeVibeService(
       userOne: cleanUserOne,
       userTwo: cleanUserTwo,
       analysisDepth,
+      scoringPreset,
     });
 
     // Get validated API key from centralized env management
@@ -37,11 +46,17 @@ export async function analyzeVibeService(
 
     // Initialize service and perform analysis
     const grokService = new GrokService(apiKey);
-    const result = await grokService.analyzeVibe({
-      userOne: validatedData.userOne,
-      userTwo: validatedData.userTwo,
-      analysisDepth: validatedData.analysisDepth || 'standard',
-    });
+    const result = await grokService.analyzeVibe(
+      {
+        userOne: validatedData.userOne,
+        userTwo: validatedData.userTwo,
+        analysisDepth: validatedData.analysisDepth || 'standard',
+        scoringPreset: validatedData.scoringPreset || DEFAULT_SCORING_PRESET,
+      },
+      onProgress,
+      beforeFreshAnalysis,
+      afterFreshAnalysis
+    );
 
     return result;
   } catch (error) {
@@ -53,6 +68,7 @@ export async function analyzeVibeService(
         userOne: cleanUserOne,
         userTwo: cleanUserTwo,
         analysisDepth,
+        scoringPreset,
       },
       'Vibe analysis service error'
     );
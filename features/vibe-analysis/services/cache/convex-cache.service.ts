@@ -5,24 +5,138 @@
 
 import { ConvexHttpClient } from 'convex/browser';
 import { api } from '@/convex/_generated/api';
-import type { UserProfile, VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import type { StaleReason, UserProfile, VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import type { DimensionComparison } from '@/features/vibe-analysis/lib/types';
+import {
+  toDimensionVector,
+  type DimensionVector,
+} from '@/features/vibe-analysis/lib/dimension-vector';
+import {
+  DEFAULT_SCORING_PRESET,
+  isScoringPresetId,
+  toStoredScoringPreset,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { isAnalysisDepth, PROFILE_PAGE } from '@/features/vibe-analysis/config/vibe-constants';
+import { matchingResultSchema } from '@/features/vibe-analysis/schemas/profile.schema';
+import type { PromptId, PromptStage } from '@/features/vibe-analysis/config/prompt-registry';
+import { getConvexServerSecret } from '@/lib/env';
+import { NetworkError } from '@/shared/lib/errors/specific.errors';
 import { createChildLogger } from '@/lib/logger';
 
 const logger = createChildLogger('ConvexCacheService');
 
+// Page size when scanning dimension vectors
+const VECTOR_PAGE_SIZE = 500;
+
+/**
+ * Dimension vector of a cached profile (used for rankings)
+ */
+export interface CachedDimensionVector {
+  username: string;
+  dimensionVector: DimensionVector;
+  searchConfidence: number;
+  dataCompleteness: number;
+}
+
+/**
+ * Expired cache entry served while Grok is unavailable
+ */
+export interface StaleEntry<T> {
+  value: T;
+  createdAt: number; // When the entry was cached (Unix milliseconds)
+}
+
+/**
+ * Pair waiting to be re-analyzed after a stale result was served
+ */
+export interface QueuedRefresh {
+  id: Id<'refreshQueue'>;
+  userOne: string;
+  userTwo: string;
+  scoringPreset: ScoringPresetId;
+  attempts: number;
+}
+
+/**
+ * Outcome of trying to take a cross-instance analysis lease
+ */
+export interface LeaseClaim {
+  acquired: boolean;
+  heldSince: number; // When the current holder took the lease (Unix milliseconds)
+}
+
+/**
+ * One Grok API call for the cost ledger
+ */
+export interface GrokUsageRecord {
+  operation: string;
+  model: string;
+  usernames: string[];
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  sourcesUsed: number;
+  cost: number; // USD
+}
+
+/**
+ * Outcome of one profile fetch or matching call for the prompt variant that ran it
+ */
+export interface PromptRunRecord {
+  stage: PromptStage;
+  promptVersion: PromptId;
+  experimentId?: string;
+  parsed: boolean; // False when the response couldn't be parsed even after repair
+  score?: number; // Profile quality (0-100) of a fetched profile that passed verification
+  vibeType?: string; // Vibe type a matching call picked (before any consistency pass)
+}
+
+/**
+ * Grok spend so far in the current UTC day and month (USD)
+ */
+export interface GrokSpend {
+  daily: number;
+  monthly: number;
+}
+
 /**
  * Cache service for storing and retrieving vibe analysis data
  * Uses Convex database with TTL-based expiration
  */
 export class ConvexCacheService {
-  private convex: ConvexHttpClient;
+  private readonly convex: ConvexHttpClient | null;
+  private readonly serverSecret: string = ''; // Sent to server-only Convex functions
 
   constructor() {
-    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    // CONVEX_CLOUD_URL is set when running inside a Convex action (analysis jobs)
+    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL ?? process.env.CONVEX_CLOUD_URL;
     if (!convexUrl) {
-      throw new Error('NEXT_PUBLIC_CONVEX_URL is not configured');
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('NEXT_PUBLIC_CONVEX_URL is not configured');
+      }
+
+      // Offline mode (local development without a deployment, tests): lookups miss, writes are dropped
+      logger.warn('NEXT_PUBLIC_CONVEX_URL is not configured - caching is disabled');
+      this.convex = null;
+      return;
     }
     this.convex = new ConvexHttpClient(convexUrl);
+    this.serverSecret = getConvexServerSecret() ?? '';
+    if (!this.serverSecret) {
+      logger.warn(
+        'CONVEX_SERVER_SECRET is not configured - server-only Convex calls will be rejected'
+      );
+    }
+  }
+
+  /**
+   * Whether a Convex deployment is configured (false in offline mode)
+   */
+  get isEnabled(): boolean {
+    return this.convex !== null;
   }
 
   /**
@@ -31,6 +145,8 @@ export class ConvexCacheService {
    * @returns UserProfile if fresh, null if expired or not found
    */
   async getCachedProfile(username: string): Promise<UserProfile | null> {
+    if (!this.convex) return null;
+
     try {
       const profile = await this.convex.query(api.userProfiles.getFreshProfile, {
         username: username.toLowerCase(),
@@ -51,11 +167,56 @@ export class ConvexCacheService {
     }
   }
 
+  /**
+   * Get a stored user profile regardless of expiry (for maintenance scripts)
+   * @param username - X username (without @)
+   * @returns UserProfile if stored, null if not found
+   */
+  async getStoredProfile(username: string): Promise<UserProfile | null> {
+    if (!this.convex) return null;
+
+    try {
+      const profile = await this.convex.query(api.userProfiles.getProfile, {
+        username: username.toLowerCase(),
+      });
+
+      return profile ? this.convexProfileToUserProfile(profile) : null;
+    } catch (error) {
+      logger.error({ error, username }, 'Error fetching stored profile');
+      return null;
+    }
+  }
+
+  /**
+   * Get a cached user profile even if it has expired (stale fallback)
+   * @param username - X username (without @)
+   * @returns Profile with its cache time, null if never cached
+   */
+  async getStaleProfile(username: string): Promise<StaleEntry<UserProfile> | null> {
+    if (!this.convex) return null;
+
+    try {
+      const profile = await this.convex.query(api.userProfiles.getProfile, {
+        username: username.toLowerCase(),
+      });
+
+      return profile
+        ? { value: this.convexProfileToUserProfile(profile), createdAt: profile.createdAt }
+        : null;
+    } catch (error) {
+      logger.error({ error, username }, 'Error fetching stale profile');
+      return null;
+    }
+  }
+
   /**
    * Cache a user profile with TTL
    * @param profile - UserProfile to cache
+   * @param promptVersion - Profile prompt that produced it
    */
-  async cacheProfile(profile: UserProfile): Promise<void> {
+  async cacheProfile(profile: UserProfile, promptVersion?: PromptId): Promise<void> {
+    if (!this.convex) return;
+
     try {
       await this.convex.mutation(api.userProfiles.upsertProfile, {
         username: profile.username.toLowerCase(),
@@ -81,10 +242,13 @@ export class ConvexCacheService {
         optimismRating: profile.contentStyle.optimismRating ?? undefined,
         humorRating: profile.contentStyle.humorRating ?? undefined,
         aiGeneratedRating: profile.contentStyle.aiGeneratedRating ?? undefined,
+        dimensionVector: toDimensionVector(profile),
         topTopics: profile.topTopics ?? [],
         notableTraits: profile.notableTraits ?? [],
+        sampleTweets: profile.recentTweets?.slice(0, PROFILE_PAGE.SAMPLE_TWEETS),
         searchConfidence: profile.searchConfidence,
         dataCompleteness: profile.dataCompleteness,
+        promptVersion,
       });
 
       logger.info({ username: profile.username }, 'Profile cached successfully');
@@ -94,21 +258,63 @@ export class ConvexCacheService {
     }
   }
 
+  /**
+   * Get dimension vectors of all fresh cached profiles
+   * Pages through the by_created index so large tables stay within query limits
+   * @returns Vectors of fresh profiles (empty in offline mode)
+   * @throws {NetworkError} When a page fails to load - a partial list would skew the ranking
+   */
+  async getFreshDimensionVectors(): Promise<CachedDimensionVector[]> {
+    if (!this.convex) return [];
+
+    const vectors: CachedDimensionVector[] = [];
+    let cursor: string | null = null;
+
+    try {
+      do {
+        const result: {
+          page: CachedDimensionVector[];
+          isDone: boolean;
+          continueCursor: string;
+        } = await this.convex.query(api.userProfiles.getFreshDimensionVectors, {
+          paginationOpts: { numItems: VECTOR_PAGE_SIZE, cursor },
+        });
+
+        vectors.push(...result.page);
+        cursor = result.isDone ? null : result.continueCursor;
+      } while (cursor);
+
+      logger.debug({ count: vectors.length }, 'Loaded fresh dimension vectors');
+      return vectors;
+    } catch (error) {
+      logger.error({ error, loaded: vectors.length }, 'Error loading dimension vectors');
+      throw new NetworkError('Convex', error);
+    }
+  }
+
   /**
    * Get cached match result if not expired
    * @param user1 - First username
    * @param user2 - Second username
+   * @param scoringPreset - Scoring preset the match was calculated with
    * @returns VibeAnalysisResult if fresh, null if expired or not found
    */
-  async getCachedMatch(user1: string, user2: string): Promise<VibeAnalysisResult | null> {
+  async getCachedMatch(
+    user1: string,
+    user2: string,
+    scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET
+  ): Promise<VibeAnalysisResult | null> {
+    if (!this.convex) return null;
+
     try {
       const match = await this.convex.query(api.vibeMatches.getFreshMatch, {
         user1: user1.toLowerCase(),
         user2: user2.toLowerCase(),
+        scoringPreset: toStoredScoringPreset(scoringPreset),
       });
 
       if (!match) {
-        logger.debug({ user1, user2 }, 'No cached match found or match expired');
+        logger.debug({ user1, user2, scoringPreset }, 'No cached match found or match expired');
         return null;
       }
 
@@ -117,23 +323,63 @@ export class ConvexCacheService {
         'Found cached match'
       );
 
-      // Transform Convex match to VibeAnalysisResult type
-      return this.convexMatchToVibeResult(match);
+      // Transform Convex match to VibeAnalysisResult type (in the caller's user order)
+      return this.convexMatchToVibeResult(match, user1);
     } catch (error) {
       logger.error({ error, user1, user2 }, 'Error fetching cached match');
       return null;
     }
   }
 
+  /**
+   * Get a cached match result even if it has expired (stale fallback)
+   * @param user1 - First username
+   * @param user2 - Second username
+   * @param scoringPreset - Scoring preset the match was calculated with
+   * @returns Match with its cache time, null if never cached
+   */
+  async getStaleMatch(
+    user1: string,
+    user2: string,
+    scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET
+  ): Promise<StaleEntry<VibeAnalysisResult> | null> {
+    if (!this.convex) return null;
+
+    try {
+      const match = await this.convex.query(api.vibeMatches.getMatch, {
+        user1: user1.toLowerCase(),
+        user2: user2.toLowerCase(),
+        scoringPreset: toStoredScoringPreset(scoringPreset),
+      });
+
+      return match
+        ? { value: this.convexMatchToVibeResult(match, user1), createdAt: match.createdAt }
+        : null;
+    } catch (error) {
+      logger.error({ error, user1, user2 }, 'Error fetching stale match');
+      return null;
+    }
+  }
+
   /**
    * Cache a match result with TTL
    * @param result - VibeAnalysisResult to cache
    */
   async cacheMatch(result: VibeAnalysisResult): Promise<void> {
+    if (!this.convex) return;
+
     try {
+      const userOneTag = result.metadata.userOne.toLowerCase();
+      const userTwoTag = result.metadata.userTwo.toLowerCase();
+
+      // Rows are stored in sorted user order - flip the breakdown to match
+      const breakdown = result.metadata.dimensionBreakdown;
+      const dimensionBreakdown =
+        breakdown && userOneTag > userTwoTag ? this.flipBreakdown(breakdown) : breakdown;
+
       await this.convex.mutation(api.vibeMatches.upsertMatch, {
-        userOneTag: result.metadata.userOne.toLowerCase(),
-        userTwoTag: result.metadata.userTwo.toLowerCase(),
+        userOneTag,
+        userTwoTag,
         score: result.score,
         analysis: result.analysis,
         recommendation: result.recommendation,
@@ -141,8 +387,18 @@ export class ConvexCacheService {
         strengths: result.strengths,
         challenges: result.challenges,
         sharedInterests: result.sharedInterests,
+        dimensionAnalysis: result.dimensionAnalysis,
+        dimensionBreakdown,
+        categoryScores: result.metadata.categoryScores,
+        topMatches: result.metadata.topMatches,
+        topClashes: result.metadata.topClashes,
+        scoreRange: result.metadata.scoreRange,
+        scoreSuppressed: result.metadata.scoreSuppressed,
         modelUsed: result.metadata.modelUsed ?? 'grok-3-mini',
         sourcesUsed: result.metadata.sourcesUsed,
+        analysisDepth: result.metadata.analysisDepth,
+        scoringPreset: toStoredScoringPreset(result.metadata.scoringPreset),
+        promptVersion: result.metadata.promptVersion,
       });
 
       logger.info(
@@ -165,7 +421,7 @@ export class ConvexCacheService {
     return {
       username: profile.username,
       displayName: profile.displayName ?? null,
-      recentTweets: null, // Not stored in cache
+      recentTweets: profile.sampleTweets ?? null, // Only a sample is cached
       contentStyle: {
         primaryContentType: profile.primaryContentType ?? null,
         humorStyle: profile.humorStyle ?? null,
@@ -198,51 +454,234 @@ export class ConvexCacheService {
 
   /**
    * Transform Convex match document to VibeAnalysisResult type
+   * @param match - Stored match (users in sorted order)
+   * @param requestedUserOne - First user as requested, so the result keeps the caller's order
    */
-  private convexMatchToVibeResult(match: any): VibeAnalysisResult {
+  private convexMatchToVibeResult(
+    match: Doc<'vibeMatches'>,
+    requestedUserOne: string
+  ): VibeAnalysisResult {
+    const swapped = match.userOneTag !== requestedUserOne.toLowerCase();
+    const breakdown: DimensionComparison[] | undefined = match.dimensionBreakdown;
+    const vibeType = matchingResultSchema.shape.vibeType.safeParse(match.vibeType);
+
     return {
       score: match.score,
       analysis: match.analysis,
       strengths: match.strengths,
       challenges: match.challenges,
       sharedInterests: match.sharedInterests,
-      vibeType: match.vibeType as any,
+      vibeType: vibeType.success ? vibeType.data : undefined,
       recommendation: match.recommendation,
+      dimensionAnalysis: match.dimensionAnalysis,
       metadata: {
-        userOne: match.userOneTag,
-        userTwo: match.userTwoTag,
+        userOne: swapped ? match.userTwoTag : match.userOneTag,
+        userTwo: swapped ? match.userOneTag : match.userTwoTag,
         sourcesUsed: match.sourcesUsed,
         timestamp: new Date(match.createdAt).toISOString(),
         modelUsed: match.modelUsed ?? 'grok-3-mini',
+        analysisDepth: isAnalysisDepth(match.analysisDepth) ? match.analysisDepth : undefined,
+        scoringPreset: isScoringPresetId(match.scoringPreset)
+          ? match.scoringPreset
+          : DEFAULT_SCORING_PRESET,
+        promptVersion: match.promptVersion,
+        dimensionBreakdown: breakdown && swapped ? this.flipBreakdown(breakdown) : breakdown,
+        categoryScores: match.categoryScores,
+        topMatches: match.topMatches,
+        topClashes: match.topClashes,
+        scoreRange: match.scoreRange,
+        scoreSuppressed: match.scoreSuppressed,
       },
     };
   }
 
   /**
-   * Clear expired entries (for maintenance)
+   * Swap user1/user2 values of a dimension breakdown
+   * Scores and differences are symmetric, so only the per-user values move
+   */
+  private flipBreakdown(breakdown: DimensionComparison[]): DimensionComparison[] {
+    return breakdown.map((comparison) => ({
+      ...comparison,
+      user1Value: comparison.user2Value,
+      user2Value: comparison.user1Value,
+    }));
+  }
+
+  /**
+   * Queue a pair to be re-analyzed once Grok recovers (one entry per pair and preset)
+   * @param user1 - First username
+   * @param user2 - Second username
+   * @param scoringPreset - Scoring preset of the stale match
+   * @param reason - Why the stale result was served
    */
-  async clearExpiredEntries(): Promise<{
-    profiles: { deletedCount: number };
-    matches: { deletedCount: number };
-  }> {
+  async enqueueRefresh(
+    user1: string,
+    user2: string,
+    scoringPreset: ScoringPresetId,
+    reason: StaleReason
+  ): Promise<void> {
+    if (!this.convex) return;
+
     try {
-      const [profiles, matches] = await Promise.all([
-        this.convex.mutation(api.userProfiles.deleteExpiredProfiles),
-        this.convex.mutation(api.vibeMatches.deleteExpiredMatches),
-      ]);
+      const { queued } = await this.convex.mutation(api.refreshQueue.enqueueRefresh, {
+        serverSecret: this.serverSecret,
+        user1,
+        user2,
+        scoringPreset: toStoredScoringPreset(scoringPreset),
+        reason,
+      });
 
-      logger.info(
-        {
-          profilesDeleted: profiles.deletedCount,
-          matchesDeleted: matches.deletedCount,
-        },
-        'Expired entries cleared'
-      );
+      logger.info({ users: [user1, user2], scoringPreset, reason, queued }, 'Refresh queued');
+    } catch (error) {
+      logger.error({ error, users: [user1, user2] }, 'Error queueing refresh');
+      // Don't throw - the stale result is still served
+    }
+  }
+
+  /**
+   * Get the oldest queued refreshes
+   * @param limit - Maximum number of entries
+   * @returns Queued pairs (empty on cache errors)
+   */
+  async getPendingRefreshes(limit: number): Promise<QueuedRefresh[]> {
+    if (!this.convex) return [];
+
+    try {
+      const entries = await this.convex.query(api.refreshQueue.getPendingRefreshes, { limit });
+
+      return entries.map((entry) => ({
+        id: entry._id,
+        userOne: entry.userOneTag,
+        userTwo: entry.userTwoTag,
+        scoringPreset: isScoringPresetId(entry.scoringPreset)
+          ? entry.scoringPreset
+          : DEFAULT_SCORING_PRESET,
+        attempts: entry.attempts,
+      }));
+    } catch (error) {
+      logger.error({ error }, 'Error loading refresh queue');
+      return [];
+    }
+  }
+
+  /**
+   * Record the outcome of a queued refresh
+   * Successful refreshes leave the queue, failed ones stay until they run out of attempts
+   * @param id - Queue entry
+   * @param succeeded - Whether the refresh produced a fresh match
+   */
+  async settleRefresh(id: Id<'refreshQueue'>, succeeded: boolean): Promise<void> {
+    if (!this.convex) return;
+
+    try {
+      if (succeeded) {
+        await this.convex.mutation(api.refreshQueue.completeRefresh, {
+          serverSecret: this.serverSecret,
+          id,
+        });
+      } else {
+        await this.convex.mutation(api.refreshQueue.failRefresh, {
+          serverSecret: this.serverSecret,
+          id,
+        });
+      }
+    } catch (error) {
+      logger.error({ error, id }, 'Error updating refresh queue');
+    }
+  }
+
+  /**
+   * Try to take the lease for an analysis so other server instances wait for its result
+   * Fails open: offline mode and Convex errors count as acquired, paying for a duplicate
+   * Grok call rather than blocking the analysis
+   * @param key - Lease key (pair or profile)
+   * @param owner - Random ID of the caller
+   * @param ttlMs - How long the lease holds if it is never released
+   */
+  async acquireLease(key: string, owner: string, ttlMs: number): Promise<LeaseClaim> {
+    if (!this.convex) return { acquired: true, heldSince: Date.now() };
+
+    try {
+      return await this.convex.mutation(api.analysisLeases.acquireLease, {
+        serverSecret: this.serverSecret,
+        key,
+        owner,
+        ttlMs,
+      });
+    } catch (error) {
+      logger.error({ error, key }, 'Error acquiring analysis lease');
+      return { acquired: true, heldSince: Date.now() };
+    }
+  }
+
+  /**
+   * Release a lease taken with acquireLease
+   * @param key - Lease key
+   * @param owner - Caller that took the lease
+   */
+  async releaseLease(key: string, owner: string): Promise<void> {
+    if (!this.convex) return;
+
+    try {
+      await this.convex.mutation(api.analysisLeases.releaseLease, {
+        serverSecret: this.serverSecret,
+        key,
+        owner,
+      });
+    } catch (error) {
+      logger.error({ error, key }, 'Error releasing analysis lease');
+      // Don't throw - the lease expires on its own
+    }
+  }
+
+  /**
+   * Record a Grok API call in the cost ledger
+   * @param record - Operation, model, tokens and cost of the call
+   */
+  async recordGrokUsage(record: GrokUsageRecord): Promise<void> {
+    if (!this.convex) return;
 
-      return { profiles, matches };
+    try {
+      await this.convex.mutation(api.grokUsage.recordUsage, {
+        ...record,
+        serverSecret: this.serverSecret,
+      });
     } catch (error) {
-      logger.error({ error }, 'Error clearing expired entries');
-      throw error;
+      logger.error({ error, operation: record.operation }, 'Error recording Grok usage');
+      // Don't throw - the call already succeeded
+    }
+  }
+
+  /**
+   * Add a profile fetch or matching call to its prompt variant's totals
+   * @param record - Prompt variant and the outcome of the call
+   */
+  async recordPromptRun(record: PromptRunRecord): Promise<void> {
+    if (!this.convex) return;
+
+    try {
+      await this.convex.mutation(api.promptStats.recordPromptRun, {
+        ...record,
+        serverSecret: this.serverSecret,
+      });
+    } catch (error) {
+      logger.error({ error, promptVersion: record.promptVersion }, 'Error recording prompt run');
+      // Don't throw - the call already succeeded or failed on its own
+    }
+  }
+
+  /**
+   * Get Grok spend for the current UTC day and month
+   * @returns Spend in USD, or null when unknown (offline mode, cache errors)
+   */
+  async getGrokSpend(): Promise<GrokSpend | null> {
+    if (!this.convex) return null;
+
+    try {
+      return await this.convex.query(api.grokUsage.getSpend, {});
+    } catch (error) {
+      logger.error({ error }, 'Error loading Grok spend');
+      return null;
     }
   }
 }
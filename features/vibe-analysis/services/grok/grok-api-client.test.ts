@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GrokAPIClient, type GrokAPIOptions } from './grok-api-client';
+import { OpenAICompatibleProvider } from '../llm/openai-compatible-provider';
+import { MATCHING_RESPONSE_FORMAT } from '../../schemas';
+
+const options: GrokAPIOptions = {
+  model: 'grok-test',
+  temperature: 0.2,
+  responseFormat: MATCHING_RESPONSE_FORMAT,
+};
+
+const completion = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'grok-test',
+  choices: [{ index: 0, message: { role: 'assistant', content: '{}' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+};
+
+/**
+ * Send one completion through the provider and return the request body it posted
+ */
+async function sentResponseFormat(provider: GrokAPIClient): Promise<unknown> {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(completion), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+
+  await provider.chatCompletion('system', 'user', options, { operation: 'matchVibe' });
+
+  const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+  return JSON.parse(init.body as string).response_format;
+}
+
+describe('GrokAPIClient response format', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the output contract as a JSON schema', async () => {
+    expect(await sentResponseFormat(new GrokAPIClient('xai-test', 'https://grok.test/v1'))).toEqual(
+      {
+        type: 'json_schema',
+        json_schema: { name: 'vibe_match', schema: MATCHING_RESPONSE_FORMAT.schema },
+      }
+    );
+  });
+
+  it('falls back to JSON mode for providers without structured outputs', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1' });
+    expect(await sentResponseFormat(provider)).toEqual({ type: 'json_object' });
+
+    const structured = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1',
+      jsonSchema: true,
+    });
+    expect(await sentResponseFormat(structured)).toMatchObject({ type: 'json_schema' });
+  });
+});
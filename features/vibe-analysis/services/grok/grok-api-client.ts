@@ -4,11 +4,18 @@
  */
 
 import { GROK_CONFIG } from '../../config/grok-config';
-import { grokAPIResponseSchema } from '../../schemas';
+import { grokAPIResponseSchema, type JsonSchemaResponseFormat } from '../../schemas';
 import type { GrokAPIResponse } from '../../types';
 import { createChildLogger } from '@/lib/logger';
-import { NetworkError, RateLimitError, NotFoundError, ExternalAPIError, CreditExhaustionError } from '@/shared/lib/errors';
-import { GrokRetryManager } from './grok-retry-manager';
+import {
+  NetworkError,
+  RateLimitError,
+  NotFoundError,
+  ExternalAPIError,
+  CreditExhaustionError,
+} from '@/shared/lib/errors';
+import { GrokRetryManager, RetryableStatusError, type RetryContext } from './grok-retry-manager';
+import type { LLMProvider, LLMProviderType } from '../llm/llm-provider';
 
 const logger = createChildLogger('GrokAPIClient');
 
@@ -19,10 +26,12 @@ export interface GrokAPIOptions {
   model: string;
   temperature: number;
   maxTokens?: number;
+  timeout?: number; // Overrides the default GROK_CONFIG.timeouts selection
   searchParameters?: {
     dataSources: string[];
     maxResults: number;
   };
+  responseFormat?: JsonSchemaResponseFormat; // Output contract - plain JSON mode when unsupported
 }
 
 /**
@@ -30,27 +39,54 @@ export interface GrokAPIOptions {
  */
 export interface GrokAPIContext {
   model: string;
-  operation: 'fetchProfile' | 'matchVibe' | 'unknown';
+  operation: 'fetchProfile' | 'matchVibe' | 'consistencyCheck' | 'unknown';
   endpoint: string;
   timeout: number;
   hasSearch: boolean;
   username?: string;
   requestSize?: number;
   startTime?: number;
+  onRetry?: (retry: RetryContext) => void; // Progress hook for retried attempts
+}
+
+/**
+ * Provider settings for clients that aren't the default x.ai endpoint
+ */
+export interface GrokAPIClientOptions {
+  type?: LLMProviderType;
+  serviceName?: string;
+  supportsSearch?: boolean;
+  supportsJsonSchema?: boolean;
+  model?: string;
 }
 
 /**
  * Low-level client for Grok API communication
  * Handles HTTP requests, timeouts, rate limiting, retries, and error mapping
+ * Speaks the OpenAI chat completions format, so it doubles as the base for other providers
  */
-export class GrokAPIClient {
+export class GrokAPIClient implements LLMProvider {
+  readonly type: LLMProviderType;
+  readonly serviceName: string;
+  readonly supportsSearch: boolean;
+  readonly supportsJsonSchema: boolean;
+  readonly model?: string;
   private readonly apiKey: string;
   private readonly baseUrl: string;
   private readonly retryManager: GrokRetryManager;
 
-  constructor(apiKey: string, baseUrl: string = GROK_CONFIG.baseUrl) {
+  constructor(
+    apiKey: string,
+    baseUrl: string = GROK_CONFIG.baseUrl,
+    options: GrokAPIClientOptions = {}
+  ) {
     this.apiKey = apiKey;
-    this.baseUrl = baseUrl;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.type = options.type ?? 'grok';
+    this.serviceName = options.serviceName ?? 'Grok';
+    this.supportsSearch = options.supportsSearch ?? true;
+    this.supportsJsonSchema = options.supportsJsonSchema ?? true;
+    this.model = options.model;
     this.retryManager = new GrokRetryManager();
   }
 
@@ -74,10 +110,12 @@ export class GrokAPIClient {
     const endpoint = `${this.baseUrl}/chat/completions`;
     const startTime = Date.now();
 
-    // Calculate timeout based on search parameters
-    const timeoutMs = options.searchParameters
-      ? GROK_CONFIG.timeouts.searchEnabled
-      : GROK_CONFIG.timeouts.request;
+    // Calculate timeout based on search parameters unless explicitly set
+    const timeoutMs =
+      options.timeout ??
+      (options.searchParameters
+        ? GROK_CONFIG.timeouts.searchEnabled
+        : GROK_CONFIG.timeouts.request);
 
     // Build full context for error handling
     const fullContext: GrokAPIContext = {
@@ -85,7 +123,7 @@ export class GrokAPIClient {
       operation: context?.operation || 'unknown',
       endpoint,
       timeout: timeoutMs,
-      hasSearch: !!options.searchParameters,
+      hasSearch: this.supportsSearch && !!options.searchParameters,
       username: context?.username,
       requestSize: JSON.stringify({ systemPrompt, userPrompt, options }).length,
       startTime,
@@ -129,7 +167,8 @@ export class GrokAPIClient {
         {
           // Custom retry options can be passed here if needed
           maxAttempts: context?.operation === 'fetchProfile' ? 3 : 5,
-        }
+        },
+        context?.onRetry
       );
 
       const responseTime = Date.now() - startTime;
@@ -147,10 +186,26 @@ export class GrokAPIClient {
 
       return result;
     } catch (error) {
+      // Retries exhausted on 429/5xx - map the last response like any other error response
+      if (error instanceof RetryableStatusError) {
+        throw this.mapError(await this.toResponseError(error.response, fullContext), fullContext);
+      }
+
       throw this.mapError(error, fullContext);
     }
   }
 
+  /**
+   * Convert an error response into the matching typed error
+   */
+  private async toResponseError(response: Response, context: GrokAPIContext): Promise<unknown> {
+    try {
+      return await this.handleErrorResponse(response, context);
+    } catch (error) {
+      return error;
+    }
+  }
+
   /**
    * Execute the HTTP request to Grok API
    */
@@ -166,7 +221,8 @@ export class GrokAPIClient {
     return fetch(endpoint, {
       method: 'POST',
       headers: {
-        Authorization: `Bearer ${this.apiKey}`,
+        // Local servers (Ollama, llama.cpp) usually run without a key
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
         'Content-Type': 'application/json',
       },
       signal,
@@ -192,13 +248,21 @@ export class GrokAPIClient {
       response_format: { type: 'json_object' },
     };
 
+    // Structured outputs: the model is held to the contract instead of just emitting JSON
+    if (options.responseFormat && this.supportsJsonSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: options.responseFormat.name, schema: options.responseFormat.schema },
+      };
+    }
+
     // Only add max_tokens if defined
     if (options.maxTokens !== undefined) {
       body.max_tokens = options.maxTokens;
     }
 
-    // Add search parameters if provided
-    if (options.searchParameters) {
+    // Add search parameters if provided (x.ai Live Search only)
+    if (options.searchParameters && this.supportsSearch) {
       body.search_parameters = {
         mode: 'on',
         sources: options.searchParameters.dataSources.map((source) => ({ type: source })),
@@ -264,13 +328,14 @@ export class GrokAPIClient {
       );
     }
 
-    if (response.status === 404) {
+    // With Live Search a 404 means the X user wasn't found; elsewhere it's a wrong model or URL
+    if (response.status === 404 && this.supportsSearch) {
       throw new NotFoundError('X user', context.username || 'unknown');
     }
 
     // Check for credit exhaustion patterns
     if (this.isCreditExhaustionError(response.status, errorText)) {
-      throw new CreditExhaustionError('Grok AI', undefined, {
+      throw new CreditExhaustionError(this.serviceName, undefined, {
         httpStatus: response.status,
         errorBody: errorText,
         operation: context.operation,
@@ -284,7 +349,7 @@ export class GrokAPIClient {
       headers: response.headers,
     });
 
-    throw await ExternalAPIError.fromResponse('Grok', errorResponse, context.operation);
+    throw await ExternalAPIError.fromResponse(this.serviceName, errorResponse, context.operation);
   }
 
   /**
@@ -297,7 +362,9 @@ export class GrokAPIClient {
     if (
       error instanceof RateLimitError ||
       error instanceof NotFoundError ||
-      error instanceof ExternalAPIError
+      error instanceof ExternalAPIError ||
+      error instanceof CreditExhaustionError ||
+      error instanceof NetworkError
     ) {
       return error;
     }
@@ -313,7 +380,7 @@ export class GrokAPIClient {
         `Grok API timeout after ${context.timeout}ms`
       );
 
-      return new NetworkError('Grok API', error, {
+      return new NetworkError(`${this.serviceName} API`, error, {
         timeout: context.timeout,
         operation: context.operation,
         model: context.model,
@@ -334,7 +401,7 @@ export class GrokAPIClient {
         `Network error (${errorType}) connecting to Grok API`
       );
 
-      return new NetworkError('Grok API', error, {
+      return new NetworkError(`${this.serviceName} API`, error, {
         errorType,
         operation: context.operation,
         endpoint: context.endpoint,
@@ -353,7 +420,7 @@ export class GrokAPIClient {
       );
 
       return new ExternalAPIError(
-        'Grok',
+        this.serviceName,
         `Invalid JSON response during ${context.operation}`,
         error,
         502
@@ -371,7 +438,7 @@ export class GrokAPIClient {
       );
 
       return new ExternalAPIError(
-        'Grok',
+        this.serviceName,
         `Invalid API response format during ${context.operation}`,
         error,
         502
@@ -388,7 +455,12 @@ export class GrokAPIClient {
       'Unexpected error during Grok API call'
     );
 
-    return new ExternalAPIError('Grok', `Unexpected error during ${context.operation}`, error, 500);
+    return new ExternalAPIError(
+      this.serviceName,
+      `Unexpected error during ${context.operation}`,
+      error,
+      500
+    );
   }
 
   /**
@@ -420,7 +492,7 @@ export class GrokAPIClient {
   private isCreditExhaustionError(status: number, errorText: string): boolean {
     // Check for payment required status
     if (status === 402) return true;
-    
+
     // Check for common credit exhaustion indicators in error text
     const lowerErrorText = errorText.toLowerCase();
     const exhaustionIndicators = [
@@ -435,9 +507,9 @@ export class GrokAPIClient {
       'usage limit',
       'token limit',
       'out of credits',
-      'out of tokens'
+      'out of tokens',
     ];
-    
-    return exhaustionIndicators.some(indicator => lowerErrorText.includes(indicator));
+
+    return exhaustionIndicators.some((indicator) => lowerErrorText.includes(indicator));
   }
 }
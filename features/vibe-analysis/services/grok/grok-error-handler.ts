@@ -9,7 +9,9 @@ import {
   NetworkError,
   RateLimitError,
   NotFoundError,
+  InsufficientDataError,
   CreditExhaustionError,
+  BudgetExceededError,
 } from '@/shared/lib/errors';
 import { ERROR_MESSAGES } from '../../config/grok-config';
 import { createChildLogger } from '@/lib/logger';
@@ -37,11 +39,18 @@ export class GrokErrorHandler {
    * @param username - The username being fetched
    * @returns Never (always throws)
    * @throws {NotFoundError} When user is not found
+   * @throws {InsufficientDataError} When the profile has too little evidence to score
+   * @throws {RateLimitError} When rate limited after all retries
+   * @throws {CreditExhaustionError} When the provider is out of credits
    * @throws {ExternalAPIError} For other API errors
    */
   handleProfileFetchError(error: unknown, username: string): never {
-    // Re-throw NotFoundError as-is
-    if (error instanceof NotFoundError) {
+    // Re-throw NotFoundError, InsufficientDataError and provider-level errors as-is
+    if (
+      error instanceof NotFoundError ||
+      error instanceof InsufficientDataError ||
+      this.isProviderError(error)
+    ) {
       throw error;
     }
 
@@ -63,9 +72,16 @@ export class GrokErrorHandler {
    * @param error - The error to handle
    * @param context - Additional context about the operation
    * @returns Never (always throws)
-   * @throws {ExternalAPIError} For all matching errors
+   * @throws {RateLimitError} When rate limited after all retries
+   * @throws {CreditExhaustionError} When the provider is out of credits
+   * @throws {ExternalAPIError} For all other matching errors
    */
   handleMatchingError(error: unknown, context?: ErrorContext): never {
+    // Provider-level errors keep their type so every provider maps the same way
+    if (this.isProviderError(error)) {
+      throw error;
+    }
+
     logger.error(
       {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -88,6 +104,8 @@ export class GrokErrorHandler {
    * @throws {ExternalAPIError} For API errors
    * @throws {NetworkError} For network issues
    * @throws {NotFoundError} When user not found
+   * @throws {InsufficientDataError} When a profile has too little evidence to score
+   * @throws {ConfigError} For misconfiguration (e.g. a missing replay fixture)
    */
   handleAnalysisError(error: unknown, userOne: string, userTwo: string): never {
     // Re-throw known errors
@@ -96,7 +114,10 @@ export class GrokErrorHandler {
       error instanceof ExternalAPIError ||
       error instanceof NetworkError ||
       error instanceof NotFoundError ||
-      error instanceof CreditExhaustionError
+      error instanceof InsufficientDataError ||
+      error instanceof CreditExhaustionError ||
+      error instanceof BudgetExceededError ||
+      error instanceof ConfigError
     ) {
       throw error;
     }
@@ -115,6 +136,20 @@ export class GrokErrorHandler {
     throw new ExternalAPIError('Grok', ERROR_MESSAGES.ANALYSIS_FAILED, error);
   }
 
+  /**
+   * Check for errors that describe the provider's state rather than the operation
+   * (rate limits, exhausted credits, connectivity, misconfiguration such as a missing fixture)
+   * - these must reach the caller unwrapped
+   */
+  private isProviderError(error: unknown): boolean {
+    return (
+      error instanceof RateLimitError ||
+      error instanceof CreditExhaustionError ||
+      error instanceof NetworkError ||
+      error instanceof ConfigError
+    );
+  }
+
   /**
    * Handle configuration errors
    * @param message - Error message
@@ -228,6 +263,14 @@ export class GrokErrorHandler {
       };
     }
 
+    if (error instanceof InsufficientDataError) {
+      return {
+        error: error.message,
+        code: 'INSUFFICIENT_DATA',
+        details: error.username,
+      };
+    }
+
     if (error instanceof CreditExhaustionError) {
       return {
         error: ERROR_MESSAGES.CREDIT_EXHAUSTED,
@@ -3,8 +3,10 @@
  * Handles prompt construction and input sanitization
  */
 
-import { FETCH_PROFILE_PROMPT, MATCH_VIBE_PROMPT } from '../../config/prompts';
-import type { UserProfile } from '../../types';
+import { CONSISTENCY_CHECK_PROMPT } from '../../config/prompts';
+import { CURRENT_PROMPTS, PROMPT_REGISTRY, type PromptId } from '../../config/prompt-registry';
+import type { UserProfile, MatchingResult } from '../../types';
+import type { DimensionComparison } from '../../lib/types';
 
 /**
  * Branded type for sanitized usernames
@@ -16,6 +18,7 @@ export type SanitizedUsername = string & { __brand: 'SanitizedUsername' };
  */
 export class GrokPromptBuilder {
   private static readonly MAX_USERNAME_LENGTH = 50;
+  private static readonly DEFAULT_TWEET_SAMPLES = '10-20'; // As requested by FETCH_PROFILE_PROMPT
   private static readonly INJECTION_PATTERNS = [
     { pattern: /\n\s*System:/gi, replacement: '[SYSTEM]' },
     { pattern: /\n\s*Assistant:/gi, replacement: '[ASSISTANT]' },
@@ -26,18 +29,29 @@ export class GrokPromptBuilder {
   /**
    * Build a prompt for fetching a user profile
    * @param username - The username to fetch (will be sanitized)
+   * @param tweetSamples - Optional tweet sample range (e.g. "25-40") overriding the prompt default
+   * @param promptId - Registered profile prompt version
    * @returns Object containing system and user prompts
    */
-  buildProfileFetchPrompt(username: string): {
+  buildProfileFetchPrompt(
+    username: string,
+    tweetSamples?: string,
+    promptId: PromptId = CURRENT_PROMPTS.fetchProfile
+  ): {
     systemPrompt: string;
     userPrompt: string;
     sanitizedUsername: SanitizedUsername;
   } {
     const sanitizedUsername = this.sanitizeUsername(username);
+    let userPrompt = `Fetch profile for X user: @${sanitizedUsername}`;
+
+    if (tweetSamples && tweetSamples !== GrokPromptBuilder.DEFAULT_TWEET_SAMPLES) {
+      userPrompt += `\nInclude ${tweetSamples} ACTUAL tweet samples instead of ${GrokPromptBuilder.DEFAULT_TWEET_SAMPLES}.`;
+    }
 
     return {
-      systemPrompt: FETCH_PROFILE_PROMPT,
-      userPrompt: `Fetch profile for X user: @${sanitizedUsername}`,
+      systemPrompt: PROMPT_REGISTRY[promptId].systemPrompt,
+      userPrompt,
       sanitizedUsername,
     };
   }
@@ -46,11 +60,13 @@ export class GrokPromptBuilder {
    * Build a prompt for matching two user profiles
    * @param profileOne - First user's profile
    * @param profileTwo - Second user's profile
+   * @param promptId - Registered matching prompt version
    * @returns Object containing system and user prompts
    */
   buildMatchingPrompt(
     profileOne: UserProfile,
-    profileTwo: UserProfile
+    profileTwo: UserProfile,
+    promptId: PromptId = CURRENT_PROMPTS.matchVibe
   ): {
     systemPrompt: string;
     userPrompt: string;
@@ -61,11 +77,45 @@ export class GrokPromptBuilder {
     });
 
     return {
-      systemPrompt: MATCH_VIBE_PROMPT,
+      systemPrompt: PROMPT_REGISTRY[promptId].systemPrompt,
       userPrompt: profilesData,
     };
   }
 
+  /**
+   * Build a prompt for the deep-analysis consistency pass
+   * @param profileOne - First user's profile
+   * @param profileTwo - Second user's profile
+   * @param draft - First-pass matching result to review
+   * @param computed - Score and dimension breakdown from the compatibility calculator
+   * @returns Object containing system and user prompts
+   */
+  buildConsistencyPrompt(
+    profileOne: UserProfile,
+    profileTwo: UserProfile,
+    draft: MatchingResult,
+    computed: { score: number; breakdown: DimensionComparison[] }
+  ): {
+    systemPrompt: string;
+    userPrompt: string;
+  } {
+    const reviewData = JSON.stringify({
+      userOne: profileOne,
+      userTwo: profileTwo,
+      computedScore: computed.score,
+      dimensionBreakdown: computed.breakdown.map((d) => ({
+        dimension: d.dimension,
+        score: Number(d.score.toFixed(2)),
+      })),
+      draft,
+    });
+
+    return {
+      systemPrompt: CONSISTENCY_CHECK_PROMPT,
+      userPrompt: reviewData,
+    };
+  }
+
   /**
    * Sanitize a username to prevent prompt injection
    * @param username - Raw username input
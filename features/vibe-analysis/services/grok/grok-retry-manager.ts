@@ -19,6 +19,20 @@ export interface RetryOptions {
   retryAfterMax?: number;
 }
 
+/**
+ * Thrown for retryable HTTP statuses (429, 5xx)
+ * Carries the last response so callers can map it once retries are exhausted
+ */
+export class RetryableStatusError extends Error {
+  constructor(
+    message: string,
+    public readonly response: Response
+  ) {
+    super(message);
+    this.name = 'RetryableStatusError';
+  }
+}
+
 export interface RetryContext {
   attempt: number;
   retriesLeft: number;
@@ -51,10 +65,15 @@ export class GrokRetryManager {
    * Execute a function with automatic retry logic
    * @param fn - Function that returns a Response promise
    * @param options - Optional retry configuration
-   * @returns Response from successful request
-   * @throws {AbortError} When max retries exceeded or non-retryable error
+   * @param onRetry - Optional callback invoked after each failed attempt that will be retried
+   * @returns Response from the last attempt (may be a non-retryable 4xx)
+   * @throws {RetryableStatusError} When retries are exhausted on 429/5xx
    */
-  async retryWithBackoff(fn: () => Promise<Response>, options?: RetryOptions): Promise<Response> {
+  async retryWithBackoff(
+    fn: () => Promise<Response>,
+    options?: RetryOptions,
+    onRetry?: (context: RetryContext) => void
+  ): Promise<Response> {
     const config = this.buildConfig(options);
 
     return pRetry(
@@ -80,7 +99,7 @@ export class GrokRetryManager {
             'Rate limited by Grok API'
           );
 
-          throw new Error('Rate limited');
+          throw new RetryableStatusError('Rate limited', response);
         }
 
         // Check for server errors that should be retried
@@ -93,15 +112,10 @@ export class GrokRetryManager {
             'Server error, will retry'
           );
 
-          throw new Error(`Server error: ${response.status}`);
+          throw new RetryableStatusError(`Server error: ${response.status}`, response);
         }
 
-        // Don't retry client errors (except 429)
-        if (response.status >= 400 && response.status < 500) {
-          throw new AbortError(`Client error: ${response.status} - not retrying`);
-        }
-
-        // Reset delay on success
+        // Success or a non-retryable client error (402, 404, ...) - the caller maps the response
         this.retryAfterDelay = null;
         return response;
       },
@@ -120,6 +134,10 @@ export class GrokRetryManager {
             retryAfterMs: this.retryAfterDelay ?? undefined,
           };
 
+          if (onRetry && context.retriesLeft > 0) {
+            onRetry(context);
+          }
+
           // Use server-specified delay if available and respected
           if (this.retryAfterDelay && config.respectRetryAfter) {
             const delayMs = Math.min(this.retryAfterDelay, config.retryAfterMax);
@@ -0,0 +1,426 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import {
+  BudgetExceededError,
+  CreditExhaustionError,
+  ExternalAPIError,
+  InsufficientDataError,
+  NotFoundError,
+  RateLimitError,
+} from '@/shared/lib/errors';
+import { getGrokBudgetConfig } from '@/lib/env';
+import { GrokService } from './grok.service';
+import { GrokAPIClient } from './grok-api-client';
+import { ConvexCacheService } from '../cache/convex-cache.service';
+import { ResultTransformer } from '../transformers/result.transformer';
+import { makeProfile, uniformDimensions } from '../../test-utils/profiles';
+import type { Id } from '@/convex/_generated/dataModel';
+import type { AnalysisProgressEvent, UserProfile, VibeAnalysisResult } from '../../types';
+
+// No spend caps unless a test sets one
+vi.mock('@/lib/env', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/env')>()),
+  getGrokBudgetConfig: vi.fn(() => ({})),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const alice = makeProfile('alice', uniformDimensions(0.6));
+const bob = makeProfile('bob', uniformDimensions(0.4));
+const cachedMatch = new ResultTransformer().buildCalculatedResult(alice, bob);
+
+const cache = ConvexCacheService.prototype;
+
+// Private pipeline steps, stubbed to count Grok work without building Grok responses
+const pipeline = GrokService.prototype as unknown as {
+  fetchProfile(username: string): Promise<UserProfile>;
+  matchVibes(profileOne: UserProfile, profileTwo: UserProfile): Promise<VibeAnalysisResult>;
+};
+
+function queueId(id: string): Id<'refreshQueue'> {
+  return id as Id<'refreshQueue'>;
+}
+
+describe('GrokService stale fallback', () => {
+  let service: GrokService;
+  let chatCompletion: MockInstance<GrokAPIClient['chatCompletion']>;
+
+  beforeEach(() => {
+    service = new GrokService('xai-test');
+    service.resetCircuitBreaker();
+
+    // Nothing fresh is cached, so every analysis has to reach Grok
+    vi.spyOn(cache, 'getCachedMatch').mockResolvedValue(null);
+    vi.spyOn(cache, 'getCachedProfile').mockResolvedValue(null);
+    vi.spyOn(cache, 'getStaleMatch').mockResolvedValue(null);
+    vi.spyOn(cache, 'getStaleProfile').mockResolvedValue(null);
+    vi.spyOn(cache, 'enqueueRefresh').mockResolvedValue();
+    chatCompletion = vi.spyOn(GrokAPIClient.prototype, 'chatCompletion');
+  });
+
+  afterEach(() => {
+    vi.mocked(getGrokBudgetConfig).mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it('serves the last cached match when Grok is out of credits', async () => {
+    chatCompletion.mockRejectedValue(new CreditExhaustionError('Grok'));
+    vi.mocked(cache.getStaleMatch).mockResolvedValue({
+      value: cachedMatch,
+      createdAt: Date.now() - 3 * HOUR_MS,
+    });
+    vi.mocked(cache.getStaleProfile).mockImplementation(async (username) => ({
+      value: username === 'alice' ? alice : bob,
+      createdAt: Date.now() - 5 * HOUR_MS,
+    }));
+    const events: AnalysisProgressEvent[] = [];
+
+    const result = await service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' }, (event) =>
+      events.push(event)
+    );
+
+    expect(result.stale).toBe(true);
+    expect(result.staleReason).toBe('credits_exhausted');
+    expect(result.staleAgeSeconds).toBeCloseTo(3 * 60 * 60, -1);
+    expect(result.score).toBe(cachedMatch.score);
+    expect(result.profiles?.user1.username).toBe('alice');
+    expect(events).toContainEqual({ type: 'stale_fallback', reason: 'credits_exhausted' });
+    expect(cache.enqueueRefresh).toHaveBeenCalledWith(
+      'alice',
+      'bob',
+      'balanced',
+      'credits_exhausted'
+    );
+  });
+
+  it('calculates a result from cached profiles when the pair was never matched', async () => {
+    chatCompletion.mockRejectedValue(new CreditExhaustionError('Grok'));
+    vi.mocked(cache.getStaleProfile).mockImplementation(async (username) => ({
+      value: username === 'alice' ? alice : bob,
+      createdAt: Date.now() - (username === 'alice' ? 2 : 6) * HOUR_MS,
+    }));
+
+    const result = await service.analyzeVibe({
+      userOne: 'alice',
+      userTwo: 'bob',
+      scoringPreset: 'dating',
+    });
+
+    expect(result.stale).toBe(true);
+    expect(result.metadata.analysisDepth).toBe('quick');
+    expect(result.metadata.scoringPreset).toBe('dating');
+    expect(result.staleAgeSeconds).toBeCloseTo(6 * 60 * 60, -1);
+  });
+
+  it('serves stale data once the circuit breaker opens', async () => {
+    chatCompletion.mockRejectedValue(new ExternalAPIError('Grok', 'Bad gateway'));
+    vi.mocked(cache.getStaleMatch).mockResolvedValue({ value: cachedMatch, createdAt: 0 });
+
+    // The first failures leave the breaker closed, so they are ordinary errors
+    await expect(service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' })).rejects.toThrow(
+      ExternalAPIError
+    );
+    await expect(service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' })).rejects.toThrow(
+      ExternalAPIError
+    );
+
+    const result = await service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' });
+
+    expect(result.stale).toBe(true);
+    expect(result.staleReason).toBe('circuit_open');
+  });
+
+  it('stops fresh analyses once the daily budget is spent and serves the cache', async () => {
+    vi.mocked(getGrokBudgetConfig).mockReturnValue({ daily: 5 });
+    vi.spyOn(cache, 'getGrokSpend').mockResolvedValue({ daily: 5.2, monthly: 40 });
+    vi.mocked(cache.getStaleMatch).mockResolvedValue({ value: cachedMatch, createdAt: 0 });
+
+    const result = await service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' });
+
+    expect(result.stale).toBe(true);
+    expect(result.staleReason).toBe('budget_exceeded');
+    expect(chatCompletion).not.toHaveBeenCalled();
+    expect(cache.enqueueRefresh).toHaveBeenCalledWith(
+      'alice',
+      'bob',
+      'balanced',
+      'budget_exceeded'
+    );
+
+    vi.mocked(cache.getStaleMatch).mockResolvedValue(null);
+    await expect(service.analyzeVibe({ userOne: 'alice', userTwo: 'carol' })).rejects.toThrow(
+      BudgetExceededError
+    );
+  });
+
+  it('does not hide a missing user behind stale data', async () => {
+    chatCompletion.mockRejectedValue(new NotFoundError('X user', 'alice'));
+
+    await expect(service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' })).rejects.toThrow(
+      NotFoundError
+    );
+    expect(cache.getStaleMatch).not.toHaveBeenCalled();
+  });
+
+  it('rejects profiles without evidence instead of scoring them', async () => {
+    const tweet = { text: 'Thoughts on AI from @alice (mock tweet 1)' };
+    chatCompletion.mockResolvedValue({
+      id: 'grok-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'grok-4',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: JSON.stringify({ ...alice, recentTweets: [tweet, tweet], citations: null }),
+          },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+    vi.mocked(cache.getStaleMatch).mockResolvedValue({ value: cachedMatch, createdAt: 0 });
+
+    await expect(service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' })).rejects.toThrow(
+      InsufficientDataError
+    );
+    expect(cache.getStaleMatch).not.toHaveBeenCalled();
+  });
+
+  it('serves a single profile from cache, falling back to stale data when Grok is out', async () => {
+    const beforeFetch = vi.fn(async () => {});
+    vi.mocked(cache.getCachedProfile).mockResolvedValueOnce(alice);
+
+    expect(await service.getProfile('alice', beforeFetch)).toEqual({ profile: alice });
+    expect(beforeFetch).not.toHaveBeenCalled();
+
+    chatCompletion.mockRejectedValue(new CreditExhaustionError('Grok'));
+    vi.mocked(cache.getStaleProfile).mockResolvedValue({ value: bob, createdAt: 0 });
+
+    expect(await service.getProfile('bob', beforeFetch)).toEqual({
+      profile: bob,
+      stale: true,
+      staleReason: 'credits_exhausted',
+    });
+    expect(beforeFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows the outage when nothing was ever cached', async () => {
+    chatCompletion.mockRejectedValue(new CreditExhaustionError('Grok'));
+
+    await expect(service.analyzeVibe({ userOne: 'alice', userTwo: 'bob' })).rejects.toThrow(
+      CreditExhaustionError
+    );
+    expect(cache.enqueueRefresh).not.toHaveBeenCalled();
+  });
+});
+
+describe('GrokService.drainRefreshQueue', () => {
+  let service: GrokService;
+
+  beforeEach(() => {
+    service = new GrokService('xai-test');
+    service.resetCircuitBreaker();
+
+    vi.spyOn(cache, 'getPendingRefreshes').mockResolvedValue([
+      {
+        id: queueId('one'),
+        userOne: 'alice',
+        userTwo: 'bob',
+        scoringPreset: 'balanced',
+        attempts: 0,
+      },
+      {
+        id: queueId('two'),
+        userOne: 'alice',
+        userTwo: 'carol',
+        scoringPreset: 'dating',
+        attempts: 1,
+      },
+    ]);
+    vi.spyOn(cache, 'settleRefresh').mockResolvedValue();
+    vi.spyOn(cache, 'getCachedProfile').mockImplementation(async (username) =>
+      makeProfile(username)
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('settles every pair that refreshes', async () => {
+    vi.spyOn(cache, 'getCachedMatch').mockResolvedValue(cachedMatch);
+
+    await expect(service.drainRefreshQueue(5)).resolves.toEqual({ refreshed: 2, failed: 0 });
+    expect(cache.settleRefresh).toHaveBeenCalledWith('one', true);
+    expect(cache.settleRefresh).toHaveBeenCalledWith('two', true);
+  });
+
+  it('stops at the first outage and keeps the rest queued', async () => {
+    vi.spyOn(cache, 'getCachedMatch').mockResolvedValue(null);
+    vi.spyOn(GrokAPIClient.prototype, 'chatCompletion').mockRejectedValue(
+      new CreditExhaustionError('Grok')
+    );
+
+    await expect(service.drainRefreshQueue(5)).resolves.toEqual({ refreshed: 0, failed: 1 });
+    expect(cache.settleRefresh).toHaveBeenCalledTimes(1);
+    expect(cache.settleRefresh).toHaveBeenCalledWith('one', false);
+  });
+});
+
+describe('GrokService single-flight', () => {
+  beforeEach(() => {
+    vi.spyOn(cache, 'getCachedMatch').mockResolvedValue(null);
+    vi.spyOn(cache, 'getCachedProfile').mockResolvedValue(null);
+    vi.spyOn(cache, 'cacheProfile').mockResolvedValue();
+    vi.spyOn(cache, 'cacheMatch').mockResolvedValue();
+    vi.spyOn(pipeline, 'fetchProfile').mockImplementation(async (username) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return makeProfile(username, uniformDimensions(0.5));
+    });
+    vi.spyOn(pipeline, 'matchVibes').mockImplementation(async (profileOne, profileTwo) =>
+      new ResultTransformer().buildCalculatedResult(profileOne, profileTwo)
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs identical concurrent analyses once and shares the result', async () => {
+    const events: AnalysisProgressEvent[] = [];
+
+    const [first, second] = await Promise.all([
+      new GrokService('xai-test').analyzeVibe({ userOne: 'alice', userTwo: 'bob' }),
+      new GrokService('xai-test').analyzeVibe({ userOne: 'Bob', userTwo: 'alice' }, (event) =>
+        events.push(event)
+      ),
+    ]);
+
+    expect(pipeline.fetchProfile).toHaveBeenCalledTimes(2);
+    expect(pipeline.matchVibes).toHaveBeenCalledTimes(1);
+    expect(second.score).toBe(first.score);
+    expect(second.metadata.userOne).toBe('bob');
+    expect(second.profiles?.user1.username).toBe('bob');
+    expect(events).toContainEqual({ type: 'analysis_shared' });
+  });
+
+  it('charges every caller of a shared analysis against their own quota', async () => {
+    const overQuota = vi.fn(async () => {
+      throw new RateLimitError('Too many new analyses', 60, { bucket: 'fresh' });
+    });
+    const withQuota = vi.fn(async () => {});
+
+    const [leader, follower] = await Promise.allSettled([
+      new GrokService('xai-test').analyzeVibe(
+        { userOne: 'alice', userTwo: 'bob' },
+        undefined,
+        overQuota
+      ),
+      new GrokService('xai-test').analyzeVibe(
+        { userOne: 'bob', userTwo: 'alice' },
+        undefined,
+        withQuota
+      ),
+    ]);
+
+    expect(leader.status).toBe('rejected');
+    expect(leader.status === 'rejected' && leader.reason).toBeInstanceOf(RateLimitError);
+    expect(follower.status).toBe('fulfilled');
+    expect(withQuota).toHaveBeenCalledTimes(1);
+    expect(pipeline.matchVibes).toHaveBeenCalledTimes(1);
+  });
+
+  it('charges a caller joining an in-flight analysis', async () => {
+    const charges = [vi.fn(async () => {}), vi.fn(async () => {})];
+
+    await Promise.all(
+      charges.map((charge) =>
+        new GrokService('xai-test').analyzeVibe(
+          { userOne: 'alice', userTwo: 'bob' },
+          undefined,
+          charge
+        )
+      )
+    );
+
+    expect(charges[0]).toHaveBeenCalledTimes(1);
+    expect(charges[1]).toHaveBeenCalledTimes(1);
+    expect(pipeline.matchVibes).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not charge cache hits', async () => {
+    const charge = vi.fn(async () => {});
+    vi.mocked(cache.getCachedMatch).mockResolvedValue(cachedMatch);
+
+    await new GrokService('xai-test').analyzeVibe(
+      { userOne: 'alice', userTwo: 'bob' },
+      undefined,
+      charge
+    );
+
+    expect(charge).not.toHaveBeenCalled();
+  });
+
+  it('reports a fresh Grok answer only to the caller that ran it', async () => {
+    const answered = [vi.fn(), vi.fn()];
+
+    await Promise.all(
+      answered.map((onFresh) =>
+        new GrokService('xai-test').analyzeVibe(
+          { userOne: 'alice', userTwo: 'bob' },
+          undefined,
+          undefined,
+          onFresh
+        )
+      )
+    );
+    vi.mocked(cache.getCachedMatch).mockResolvedValue(cachedMatch);
+    const cacheHit = vi.fn();
+    await new GrokService('xai-test').analyzeVibe(
+      { userOne: 'alice', userTwo: 'bob' },
+      undefined,
+      undefined,
+      cacheHit
+    );
+
+    expect(answered[0]).toHaveBeenCalledTimes(1);
+    expect(answered[1]).not.toHaveBeenCalled();
+    expect(cacheHit).not.toHaveBeenCalled();
+  });
+
+  it('fetches a profile once for concurrent analyses of different pairs', async () => {
+    await Promise.all([
+      new GrokService('xai-test').analyzeVibe({ userOne: 'alice', userTwo: 'bob' }),
+      new GrokService('xai-test').analyzeVibe({ userOne: 'alice', userTwo: 'carol' }),
+    ]);
+
+    expect(vi.mocked(pipeline.fetchProfile).mock.calls.map(([username]) => username)).toEqual([
+      'alice',
+      'bob',
+      'carol',
+    ]);
+    expect(pipeline.matchVibes).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for another instance's lease and shares its cached match", async () => {
+    vi.useFakeTimers();
+    const heldSince = Date.now();
+    vi.spyOn(cache, 'acquireLease').mockResolvedValue({ acquired: false, heldSince });
+    vi.spyOn(cache, 'getStaleMatch')
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ value: cachedMatch, createdAt: heldSince + 5000 });
+    vi.mocked(cache.getCachedProfile).mockImplementation(async (username) =>
+      username === 'alice' ? alice : bob
+    );
+
+    const pending = new GrokService('xai-test').analyzeVibe({ userOne: 'alice', userTwo: 'bob' });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const result = await pending;
+    expect(result.score).toBe(cachedMatch.score);
+    expect(pipeline.fetchProfile).not.toHaveBeenCalled();
+    expect(pipeline.matchVibes).not.toHaveBeenCalled();
+  });
+});
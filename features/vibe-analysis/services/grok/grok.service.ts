@@ -3,24 +3,62 @@
  * Coordinates between API client, transformers, and error handling
  */
 
-import { ERROR_MESSAGES } from '../../config/grok-config';
+import { randomUUID } from 'crypto';
+import { ERROR_MESSAGES, GROK_CONFIG } from '../../config/grok-config';
 import { PROMPT_MODELS } from '../../config/prompts';
-import type { VibeAnalysisRequest, VibeAnalysisResult, UserProfile } from '../../types';
-import { NotFoundError, ExternalAPIError } from '@/shared/lib/errors';
+import { GROUP_ANALYSIS, SINGLE_FLIGHT, type AnalysisDepth } from '../../config/vibe-constants';
+import { DEFAULT_SCORING_PRESET, type ScoringPresetId } from '../../config/scoring-presets';
+import type {
+  VibeAnalysisRequest,
+  VibeAnalysisResult,
+  VibeGroupRequest,
+  VibeGroupResult,
+  UserProfile,
+  UserProfileResult,
+  MatchingResult,
+  GrokAPIResponse,
+  AnalysisProgressEvent,
+  AnalysisProgressListener,
+  StaleReason,
+} from '../../types';
+import {
+  NotFoundError,
+  InsufficientDataError,
+  ExternalAPIError,
+  CreditExhaustionError,
+  BudgetExceededError,
+} from '@/shared/lib/errors';
 import { createChildLogger } from '@/lib/logger';
 import { CircuitBreaker } from '@/lib/circuit-breaker';
-import { trackGrokUsage, createSessionTracker } from '../../lib/usage-tracker';
+import { SingleFlight } from '@/lib/single-flight';
+import { trackGrokUsage, createSessionTracker, getSpendPeriodReset } from '../../lib/usage-tracker';
+import { getGrokBudgetConfig, getProfileMinEvidenceScore } from '@/lib/env';
+import { compatibilityCalculator } from '../../lib/compatibility-calculator';
+import { groupCalculator } from '../../lib/group-calculator';
+import { assignPrompt, type PromptAssignment } from '../../lib/prompt-experiments';
+import { profileVerifier, type ProfileVerification } from '../../lib/profile-verifier';
+import type { PromptStage } from '../../config/prompt-registry';
 
 // Import new components
-import { GrokAPIClient } from './grok-api-client';
+import type { GrokAPIOptions, GrokAPIContext } from './grok-api-client';
 import { GrokErrorHandler } from './grok-error-handler';
 import { GrokPromptBuilder } from './grok-prompt-builder';
 import { ProfileTransformer } from '../transformers/profile.transformer';
 import { ResultTransformer } from '../transformers/result.transformer';
-import { ConvexCacheService } from '../cache/convex-cache.service';
+import { getModelOutputStats } from '../transformers/model-output';
+import { ConvexCacheService, type PromptRunRecord } from '../cache/convex-cache.service';
+import { createLLMProvider } from '../llm/provider-factory';
+import type { LLMProvider, LLMStage } from '../llm/llm-provider';
 
 const logger = createChildLogger('GrokService');
 
+// Which provider each prompt stage runs on (see LLM_PROFILE_* / LLM_MATCH_*)
+const STAGE_PROVIDERS: Record<keyof typeof PROMPT_MODELS, LLMStage> = {
+  fetchProfile: 'profile',
+  matchVibe: 'match',
+  consistencyCheck: 'match',
+};
+
 // Global circuit breaker for Grok API protection
 const grokCircuitBreaker = new CircuitBreaker({
   failureThreshold: 3,
@@ -29,6 +67,29 @@ const grokCircuitBreaker = new CircuitBreaker({
   expectedThreshold: 0.7, // 70% success rate expected
 });
 
+// Retries per Grok operation since this server instance started (admin dashboard)
+const retryStats = { since: Date.now(), byOperation: {} as Record<string, number> };
+
+// Identical analyses and profile fetches running in this server instance
+const inflightAnalyses = new SingleFlight<VibeAnalysisResult>();
+const inflightProfiles = new SingleFlight<UserProfile>();
+
+// Coalescing key for a pair analysis - the same for either user order
+function analysisKey(
+  userOne: string,
+  userTwo: string,
+  preset: ScoringPresetId,
+  depth: AnalysisDepth
+): string {
+  const [first, second] = [userOne.toLowerCase(), userTwo.toLowerCase()].sort();
+  return `match:${first}:${second}:${preset}:${depth}`;
+}
+
+// Coalescing key for a profile fetch - deep fetches a larger sample, so it never shares
+function profileKey(username: string, depth: AnalysisDepth): string {
+  return `profile:${username.toLowerCase()}:${depth === 'deep' ? 'deep' : 'standard'}`;
+}
+
 /**
  * High-level service for analyzing vibe compatibility between X users
  *
@@ -49,13 +110,16 @@ const grokCircuitBreaker = new CircuitBreaker({
  * ```
  */
 export class GrokService {
-  private readonly apiClient: GrokAPIClient;
+  private readonly providers: Record<LLMStage, LLMProvider>;
   private readonly errorHandler: GrokErrorHandler;
   private readonly promptBuilder: GrokPromptBuilder;
   private readonly profileTransformer: ProfileTransformer;
   private readonly resultTransformer: ResultTransformer;
   private readonly cacheService: ConvexCacheService;
   private sessionTracker: ReturnType<typeof createSessionTracker> | null = null;
+  private progressListener: AnalysisProgressListener | null = null;
+  private beforeFreshAnalysis: (() => Promise<void>) | null = null;
+  private afterFreshAnalysis: (() => void) | null = null;
 
   /**
    * Initialize the Grok service with required dependencies
@@ -69,7 +133,10 @@ export class GrokService {
     }
 
     // Initialize dependencies
-    this.apiClient = new GrokAPIClient(apiKey);
+    this.providers = {
+      profile: createLLMProvider('profile', apiKey),
+      match: createLLMProvider('match', apiKey),
+    };
     this.errorHandler = new GrokErrorHandler();
     this.promptBuilder = new GrokPromptBuilder();
     this.profileTransformer = new ProfileTransformer();
@@ -85,45 +152,218 @@ export class GrokService {
    * 2. Match profiles to determine compatibility
    * 3. Return structured analysis with score
    *
+   * Analysis depth (see GROK_CONFIG.depths):
+   * - quick: reuses cached profiles and skips MATCH_VIBE, narrative comes from the calculator
+   * - standard: profile fetch + MATCH_VIBE
+   * - deep: fresh profiles with more tweets, full dimensionAnalysis and a consistency pass
+   *
+   * The scoring preset only changes the calculated score, so cached profiles are shared across
+   * presets while cached matches are stored per preset
+   *
+   * When the circuit breaker is open, Grok is out of credits or the spend budget is used up, the
+   * last cached match (or a calculated result from cached profiles) is served with `stale: true`
+   * even if it has expired, and the pair is queued for refresh
+   *
    * @param request - Analysis request with two usernames
+   * @param onProgress - Optional listener for real pipeline stage events
+   * @param beforeFreshAnalysis - Called once per caller when the pair has to be analyzed fresh,
+   *   including callers joining an identical analysis (not for cache hits) - throwing cancels the
+   *   analysis for this caller only (e.g. per-client quotas)
+   * @param afterFreshAnalysis - Called once Grok answered an analysis this caller ran (not for
+   *   cache hits, results shared from another caller or stale results)
    * @returns Vibe compatibility analysis
    * @throws {NotFoundError} If user not found
    * @throws {ExternalAPIError} For API failures
    * @throws {RateLimitError} When rate limited
    */
-  async analyzeVibe(request: VibeAnalysisRequest): Promise<VibeAnalysisResult> {
-    // Step 1: Check cache for existing match result
-    const cachedMatch = await this.cacheService.getCachedMatch(request.userOne, request.userTwo);
+  async analyzeVibe(
+    request: VibeAnalysisRequest,
+    onProgress?: AnalysisProgressListener,
+    beforeFreshAnalysis?: () => Promise<void>,
+    afterFreshAnalysis?: () => void
+  ): Promise<VibeAnalysisResult> {
+    this.progressListener = onProgress ?? null;
+    this.beforeFreshAnalysis = beforeFreshAnalysis ?? null;
+    this.afterFreshAnalysis = afterFreshAnalysis ?? null;
+
+    try {
+      return await this.runAnalysis(request);
+    } catch (error) {
+      const staleResult = await this.getStaleResult(request, error);
+      if (staleResult) {
+        return staleResult;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-analyze pairs that were served stale while Grok was unavailable
+   * Runs one pair at a time and stops as soon as Grok becomes unavailable again
+   * @param limit - Maximum number of queued pairs to refresh
+   * @returns Number of refreshed and failed pairs
+   */
+  async drainRefreshQueue(limit: number): Promise<{ refreshed: number; failed: number }> {
+    const pending = await this.cacheService.getPendingRefreshes(limit);
+    let refreshed = 0;
+    let failed = 0;
+
+    for (const entry of pending) {
+      if (!grokCircuitBreaker.isAvailable()) {
+        break;
+      }
+
+      try {
+        await this.runAnalysis({
+          userOne: entry.userOne,
+          userTwo: entry.userTwo,
+          scoringPreset: entry.scoringPreset,
+        });
+        await this.cacheService.settleRefresh(entry.id, true);
+        refreshed++;
+      } catch (error) {
+        await this.cacheService.settleRefresh(entry.id, false);
+        failed++;
+        logger.warn(
+          {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            users: [entry.userOne, entry.userTwo],
+            attempts: entry.attempts + 1,
+          },
+          'Queued refresh failed'
+        );
+
+        if (this.getStaleReason(error)) {
+          break;
+        }
+      }
+    }
+
+    if (pending.length > 0) {
+      logger.info({ refreshed, failed, pending: pending.length }, 'Refresh queue drained');
+    }
+
+    return { refreshed, failed };
+  }
+
+  /**
+   * Run the analysis pipeline without the stale fallback
+   * Cache hits are served directly. Otherwise the caller is charged through beforeFreshAnalysis
+   * and identical concurrent requests for the pair (either user order) share one run
+   */
+  private async runAnalysis(request: VibeAnalysisRequest): Promise<VibeAnalysisResult> {
+    const depth = request.analysisDepth ?? 'standard';
+    const preset = request.scoringPreset ?? DEFAULT_SCORING_PRESET;
+
+    const cached = await this.getCachedResult(request, depth, preset);
+    if (cached) {
+      return cached;
+    }
+
+    // Charged before joining, so a caller neither inherits another client's quota error nor
+    // gets a fresh analysis on another client's quota
+    await this.assertWithinBudget();
+    await this.beforeFreshAnalysis?.();
+
+    const key = analysisKey(request.userOne, request.userTwo, preset, depth);
+    if (!inflightAnalyses.has(key)) {
+      return inflightAnalyses.run(key, () => this.runLeasedAnalysis(request, depth, preset));
+    }
+
+    // Another request in this instance is already analyzing the pair - progress events go to it
+    logger.info({ users: [request.userOne, request.userTwo], depth }, 'Joining in-flight analysis');
+    this.emitProgress({ type: 'analysis_shared' });
+    const shared = await inflightAnalyses.run(key, () =>
+      this.runLeasedAnalysis(request, depth, preset)
+    );
+    this.emitProgress({ type: 'score_computed', score: shared.score });
+
+    return this.resultTransformer.orientResult(shared, request.userOne);
+  }
+
+  /**
+   * Serve the pair without Grok: a cached match, or a quick result from cached profiles
+   * Deep analysis always runs fresh since cached matches have no consistency pass
+   * @returns The result, or null when the pair has to be analyzed fresh
+   */
+  private async getCachedResult(
+    request: VibeAnalysisRequest,
+    depth: AnalysisDepth,
+    preset: ScoringPresetId
+  ): Promise<VibeAnalysisResult | null> {
+    if (depth === 'deep') {
+      return null;
+    }
+
+    const cachedMatch = await this.cacheService.getCachedMatch(
+      request.userOne,
+      request.userTwo,
+      preset
+    );
+    this.emitProgress({ type: 'match_cache', hit: !!cachedMatch });
 
     if (cachedMatch) {
-      // Fetch profiles - either from cache or fresh if not cached
-      const [profileOne, profileTwo] = await Promise.all([
-        this.fetchProfileWithCache(request.userOne),
-        this.fetchProfileWithCache(request.userTwo),
-      ]);
+      return this.withCachedProfiles(cachedMatch, request, depth);
+    }
 
-      // Add profiles to cached match result
-      const resultWithProfiles: VibeAnalysisResult = {
-        ...cachedMatch,
-        profiles: {
-          user1: profileOne,
-          user2: profileTwo,
-        },
-      };
+    // Quick analysis with both profiles cached needs no Grok call at all
+    if (depth === 'quick') {
+      const [cachedOne, cachedTwo] = await Promise.all([
+        this.cacheService.getCachedProfile(request.userOne),
+        this.cacheService.getCachedProfile(request.userTwo),
+      ]);
 
-      logger.info(
-        { users: [request.userOne, request.userTwo], score: cachedMatch.score },
-        'Returning cached match result with profiles'
-      );
-      return resultWithProfiles;
+      if (cachedOne && cachedTwo) {
+        logger.info(
+          { users: [request.userOne, request.userTwo] },
+          'Quick analysis from cached profiles'
+        );
+        const quickResult = this.buildQuickResult(cachedOne, cachedTwo, preset);
+        this.emitProgress({ type: 'score_computed', score: quickResult.score });
+        return quickResult;
+      }
     }
 
+    return null;
+  }
+
+  /**
+   * Analyze the pair fresh in one server instance - the others wait for its result
+   */
+  private runLeasedAnalysis(
+    request: VibeAnalysisRequest,
+    depth: AnalysisDepth,
+    preset: ScoringPresetId
+  ): Promise<VibeAnalysisResult> {
+    return this.withLease(
+      analysisKey(request.userOne, request.userTwo, preset, depth),
+      SINGLE_FLIGHT.MATCH_LEASE_MS,
+      (since) => this.getSharedResult(request, depth, preset, since),
+      async () => {
+        const result = await this.runFreshAnalysis(request, depth, preset);
+        this.afterFreshAnalysis?.();
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Fetch profiles and match them with Grok (nothing usable was cached)
+   */
+  private async runFreshAnalysis(
+    request: VibeAnalysisRequest,
+    depth: AnalysisDepth,
+    preset: ScoringPresetId
+  ): Promise<VibeAnalysisResult> {
     // Create session tracker for cost monitoring
     this.sessionTracker = createSessionTracker();
 
     try {
       // Check circuit breaker state
-      if (!grokCircuitBreaker.isAvailable()) {
+      const breakerAvailable = grokCircuitBreaker.isAvailable();
+      this.emitProgress({ type: 'circuit_breaker', state: grokCircuitBreaker.getStats().state });
+
+      if (!breakerAvailable) {
         const stats = grokCircuitBreaker.getStats();
         logger.warn(stats, 'Circuit breaker is open');
         this.errorHandler.handleCircuitBreakerOpen();
@@ -134,18 +374,30 @@ export class GrokService {
         this.errorHandler.logOperationStart('analyzeVibe', {
           userOne: request.userOne,
           userTwo: request.userTwo,
+          analysisDepth: depth,
+          scoringPreset: preset,
         });
 
         // Step 2: Fetch both profiles (with cache checking)
         const [profileOne, profileTwo] = await Promise.all([
-          this.fetchProfileWithCache(request.userOne),
-          this.fetchProfileWithCache(request.userTwo),
+          this.fetchProfileWithCache(request.userOne, depth),
+          this.fetchProfileWithCache(request.userTwo, depth),
         ]);
 
         logger.debug({ profileOne, profileTwo }, 'Profiles ready for matching');
 
+        // Quick analysis skips MATCH_VIBE and is not cached as a full match
+        if (depth === 'quick') {
+          this.logSessionSummary(request, depth);
+          const quickResult = this.buildQuickResult(profileOne, profileTwo, preset);
+          this.emitProgress({ type: 'score_computed', score: quickResult.score });
+          return quickResult;
+        }
+
         // Step 3: Match vibes
-        const result = await this.matchVibes(profileOne, profileTwo);
+        this.emitProgress({ type: 'matching_started' });
+        const result = await this.matchVibes(profileOne, profileTwo, depth, preset);
+        this.emitProgress({ type: 'score_computed', score: result.score });
 
         // Add profiles to the result
         const resultWithProfiles: VibeAnalysisResult = {
@@ -160,90 +412,616 @@ export class GrokService {
         await this.cacheService.cacheMatch(result);
 
         // Log completion with session summary
+        this.logSessionSummary(request, depth, result.score);
+
+        return resultWithProfiles;
+      });
+    } catch (error) {
+      this.errorHandler.handleAnalysisError(error, request.userOne, request.userTwo);
+    }
+  }
+
+  /**
+   * Analyze a group of 3-10 X users
+   *
+   * Process:
+   * 1. Fetch every profile once (cache first)
+   * 2. Score all pairs locally with the compatibility calculator
+   * 3. Request a Grok narrative for the top pairs only (cached matches are reused)
+   *
+   * @param request - Group request with the member usernames
+   * @returns Compatibility matrix and group-level insights
+   * @throws {NotFoundError} If any user is not found
+   * @throws {ExternalAPIError} For API failures
+   * @throws {BudgetExceededError} When the Grok spend budget is used up
+   */
+  async analyzeGroup(request: VibeGroupRequest): Promise<VibeGroupResult> {
+    await this.assertWithinBudget();
+    this.sessionTracker = createSessionTracker();
+
+    try {
+      if (!grokCircuitBreaker.isAvailable()) {
+        const stats = grokCircuitBreaker.getStats();
+        logger.warn(stats, 'Circuit breaker is open');
+        this.errorHandler.handleCircuitBreakerOpen();
+      }
+
+      return await grokCircuitBreaker.execute(async () => {
+        this.errorHandler.logOperationStart('analyzeGroup', { usernames: request.usernames });
+
+        // Step 1: Fetch each profile exactly once
+        const profiles = await Promise.all(
+          request.usernames.map((username) => this.fetchProfileWithCache(username))
+        );
+
+        // Step 2: Score all pairs locally
+        const group = groupCalculator.calculate(profiles);
+        const profilesByUsername = new Map(profiles.map((p) => [p.username, p]));
+
+        // Step 3: Narratives for the best scored pairs only - a failed narrative doesn't fail the
+        // group. Scored pairs come first, so narratives line up with the start of group.pairs
+        const narrativePairs = group.pairs
+          .filter((pair) => !pair.scoreSuppressed)
+          .slice(0, GROUP_ANALYSIS.NARRATIVE_PAIRS);
+        const narratives = await Promise.allSettled(
+          narrativePairs.map((pair) =>
+            this.getPairNarrative(
+              profilesByUsername.get(pair.userOne)!,
+              profilesByUsername.get(pair.userTwo)!
+            )
+          )
+        );
+
+        const pairs = group.pairs.map((pair, index) => {
+          const narrative = narratives[index];
+          if (!narrative || narrative.status === 'rejected') {
+            return pair;
+          }
+
+          const { analysis, strengths, challenges, sharedInterests, vibeType, recommendation } =
+            narrative.value;
+          return {
+            ...pair,
+            narrative: {
+              analysis,
+              strengths,
+              challenges,
+              sharedInterests,
+              vibeType,
+              recommendation,
+            },
+          };
+        });
+
         if (this.sessionTracker) {
           this.sessionTracker.logSessionSummary(logger);
-          const sessionUsage = this.sessionTracker.getSessionUsage();
-
-          this.errorHandler.logSuccess('analyzeVibe', {
-            userOne: request.userOne,
-            userTwo: request.userTwo,
-            score: result.score,
-            sessionCost: sessionUsage.totalCost.toFixed(6),
+          this.errorHandler.logSuccess('analyzeGroup', {
+            usernames: request.usernames,
+            averageScore: group.averageScore,
+            sessionCost: this.sessionTracker.getSessionUsage().totalCost.toFixed(6),
           });
-
           this.sessionTracker = null;
         }
 
-        return resultWithProfiles;
+        const scoredPairs = pairs.filter((pair) => !pair.scoreSuppressed);
+        return {
+          ...group,
+          pairs,
+          bestPair: scoredPairs[0],
+          worstPair: scoredPairs[scoredPairs.length - 1],
+          metadata: {
+            timestamp: new Date().toISOString(),
+            narrativePairs: narratives.filter((n) => n.status === 'fulfilled').length,
+          },
+        };
       });
     } catch (error) {
-      this.errorHandler.handleAnalysisError(error, request.userOne, request.userTwo);
+      this.errorHandler.handleAnalysisError(
+        error,
+        request.usernames[0],
+        request.usernames.slice(1).join(',')
+      );
+    }
+  }
+
+  /**
+   * Get the Grok narrative for a pair, reusing a cached match when available
+   * @param profileOne - First user's profile
+   * @param profileTwo - Second user's profile
+   * @returns Full vibe result for the pair
+   */
+  private async getPairNarrative(
+    profileOne: UserProfile,
+    profileTwo: UserProfile
+  ): Promise<VibeAnalysisResult> {
+    const cachedMatch = await this.cacheService.getCachedMatch(
+      profileOne.username,
+      profileTwo.username
+    );
+    if (cachedMatch) {
+      return cachedMatch;
+    }
+
+    const result = await this.matchVibes(profileOne, profileTwo);
+    await this.cacheService.cacheMatch(result);
+    return result;
+  }
+
+  /**
+   * Attach profiles to a cached match, in the shape a fresh analysis returns
+   * @param cachedMatch - Match from the cache (in the requested user order)
+   * @param request - Analysis request
+   * @param depth - Depth the profiles are fetched with if they aren't cached
+   */
+  private async withCachedProfiles(
+    cachedMatch: VibeAnalysisResult,
+    request: VibeAnalysisRequest,
+    depth: AnalysisDepth
+  ): Promise<VibeAnalysisResult> {
+    // Fetch profiles - either from cache or fresh if not cached
+    const [profileOne, profileTwo] = await Promise.all([
+      this.fetchProfileWithCache(request.userOne, depth),
+      this.fetchProfileWithCache(request.userTwo, depth),
+    ]);
+
+    // Rebuild the same shape a fresh analysis returns (usernames as resolved, profile quality)
+    const enhanced = this.resultTransformer.enhanceResult(
+      {
+        ...cachedMatch,
+        metadata: {
+          ...cachedMatch.metadata,
+          userOne: profileOne.username,
+          userTwo: profileTwo.username,
+        },
+      },
+      profileOne,
+      profileTwo
+    );
+
+    logger.info(
+      { users: [request.userOne, request.userTwo], score: cachedMatch.score },
+      'Returning cached match result with profiles'
+    );
+    this.emitProgress({ type: 'score_computed', score: cachedMatch.score });
+
+    return {
+      ...enhanced,
+      profiles: {
+        user1: profileOne,
+        user2: profileTwo,
+      },
+    };
+  }
+
+  /**
+   * Result another server instance produced for the pair while this one waited on its lease
+   * @param since - When the other instance took the lease - only data cached after it counts
+   * @returns The shared result, or null while it isn't cached yet
+   */
+  private async getSharedResult(
+    request: VibeAnalysisRequest,
+    depth: AnalysisDepth,
+    preset: ScoringPresetId,
+    since: number
+  ): Promise<VibeAnalysisResult | null> {
+    // Quick results aren't cached as matches - any fresh profiles will do
+    if (depth === 'quick') {
+      const [cachedOne, cachedTwo] = await Promise.all([
+        this.cacheService.getCachedProfile(request.userOne),
+        this.cacheService.getCachedProfile(request.userTwo),
+      ]);
+      return cachedOne && cachedTwo ? this.buildQuickResult(cachedOne, cachedTwo, preset) : null;
+    }
+
+    const match = await this.cacheService.getStaleMatch(request.userOne, request.userTwo, preset);
+    if (!match || match.createdAt < since) {
+      return null;
+    }
+
+    // The holder cached its profiles before the match, so standard reads them back
+    return this.withCachedProfiles(match.value, request, 'standard');
+  }
+
+  /**
+   * Run work under a cross-instance lease so only one server instance pays for it
+   * While another instance holds the lease, poll for its result and share it. If the holder
+   * fails (releasing the lease) or its lease expires, take over and run the work here
+   * @param key - Lease key
+   * @param ttlMs - How long the lease holds if it is never released
+   * @param readShared - Reads the holder's result once cached (null until then)
+   * @param run - The work itself
+   */
+  private async withLease<T>(
+    key: string,
+    ttlMs: number,
+    readShared: (since: number) => Promise<T | null>,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const owner = randomUUID();
+    let claim = await this.cacheService.acquireLease(key, owner, ttlMs);
+
+    if (!claim.acquired) {
+      logger.info({ key }, 'Waiting for another instance to finish the same analysis');
+    }
+
+    while (!claim.acquired) {
+      await new Promise((resolve) => setTimeout(resolve, SINGLE_FLIGHT.POLL_INTERVAL_MS));
+
+      const shared = await readShared(claim.heldSince);
+      if (shared) {
+        return shared;
+      }
+
+      claim = await this.cacheService.acquireLease(key, owner, ttlMs);
+    }
+
+    try {
+      return await run();
+    } finally {
+      await this.cacheService.releaseLease(key, owner);
+    }
+  }
+
+  /**
+   * Serve expired cache when Grok is unavailable
+   * Prefers the last cached match; falls back to a calculated result from cached profiles
+   * @param request - Analysis request that failed
+   * @param error - Error the analysis failed with
+   * @returns Stale result, or null when the error isn't an outage or nothing was ever cached
+   */
+  private async getStaleResult(
+    request: VibeAnalysisRequest,
+    error: unknown
+  ): Promise<VibeAnalysisResult | null> {
+    const reason = this.getStaleReason(error);
+    if (!reason) {
+      return null;
+    }
+
+    const preset = request.scoringPreset ?? DEFAULT_SCORING_PRESET;
+    const [staleMatch, staleOne, staleTwo] = await Promise.all([
+      this.cacheService.getStaleMatch(request.userOne, request.userTwo, preset),
+      this.cacheService.getStaleProfile(request.userOne),
+      this.cacheService.getStaleProfile(request.userTwo),
+    ]);
+
+    let result: VibeAnalysisResult;
+    let cachedAt: number;
+
+    if (staleMatch) {
+      const profiles =
+        staleOne && staleTwo ? { user1: staleOne.value, user2: staleTwo.value } : undefined;
+      result = profiles
+        ? {
+            ...this.resultTransformer.enhanceResult(
+              staleMatch.value,
+              profiles.user1,
+              profiles.user2
+            ),
+            profiles,
+          }
+        : staleMatch.value;
+      cachedAt = staleMatch.createdAt;
+    } else if (staleOne && staleTwo) {
+      result = this.buildQuickResult(staleOne.value, staleTwo.value, preset);
+      cachedAt = Math.min(staleOne.createdAt, staleTwo.createdAt);
+    } else {
+      return null;
+    }
+
+    const staleAgeSeconds = Math.max(0, Math.round((Date.now() - cachedAt) / 1000));
+    logger.warn(
+      { users: [request.userOne, request.userTwo], reason, staleAgeSeconds },
+      'Grok unavailable, serving stale result'
+    );
+
+    await this.cacheService.enqueueRefresh(request.userOne, request.userTwo, preset, reason);
+    this.emitProgress({ type: 'stale_fallback', reason });
+    this.emitProgress({ type: 'score_computed', score: result.score });
+
+    return { ...result, stale: true, staleAgeSeconds, staleReason: reason };
+  }
+
+  /**
+   * Check whether an analysis failed because Grok is unavailable (rather than the request)
+   * @returns The outage reason, or null for errors stale data can't help with
+   */
+  private getStaleReason(error: unknown): StaleReason | null {
+    if (error instanceof CreditExhaustionError) {
+      return 'credits_exhausted';
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return 'budget_exceeded';
+    }
+
+    if (error instanceof NotFoundError || error instanceof InsufficientDataError) {
+      return null;
+    }
+
+    return grokCircuitBreaker.isAvailable() ? null : 'circuit_open';
+  }
+
+  /**
+   * Build a quick analysis result from the compatibility calculator alone
+   * @param profileOne - First user's profile
+   * @param profileTwo - Second user's profile
+   * @param preset - Scoring preset
+   * @returns Vibe result with profiles attached
+   */
+  private buildQuickResult(
+    profileOne: UserProfile,
+    profileTwo: UserProfile,
+    preset: ScoringPresetId
+  ): VibeAnalysisResult {
+    const result = this.resultTransformer.enhanceResult(
+      this.resultTransformer.buildCalculatedResult(profileOne, profileTwo, preset),
+      profileOne,
+      profileTwo
+    );
+
+    return {
+      ...result,
+      metadata: { ...result.metadata, analysisDepth: 'quick' },
+      profiles: {
+        user1: profileOne,
+        user2: profileTwo,
+      },
+    };
+  }
+
+  /**
+   * Notify the progress listener of a pipeline stage
+   * A failing listener (e.g. a closed stream) must never fail the analysis
+   */
+  private emitProgress(event: AnalysisProgressEvent) {
+    if (!this.progressListener) return;
+
+    try {
+      this.progressListener(event);
+    } catch (error) {
+      logger.debug(
+        { error: error instanceof Error ? error.message : 'Unknown error', event: event.type },
+        'Progress listener failed'
+      );
+    }
+  }
+
+  /**
+   * Build the retry hook passed to the API client so retries show up as progress events
+   */
+  private getRetryHook(operation: string, username?: string): GrokAPIContext['onRetry'] {
+    return (retry) => {
+      retryStats.byOperation[operation] = (retryStats.byOperation[operation] ?? 0) + 1;
+      this.emitProgress({
+        type: 'retry',
+        operation,
+        attempt: retry.attempt,
+        retriesLeft: retry.retriesLeft,
+        delayMs: retry.retryAfterMs,
+        username,
+      });
+    };
+  }
+
+  /**
+   * Log the session cost summary and reset the tracker
+   */
+  private logSessionSummary(request: VibeAnalysisRequest, depth: AnalysisDepth, score?: number) {
+    if (!this.sessionTracker) return;
+
+    this.sessionTracker.logSessionSummary(logger);
+    const sessionUsage = this.sessionTracker.getSessionUsage();
+
+    this.errorHandler.logSuccess('analyzeVibe', {
+      userOne: request.userOne,
+      userTwo: request.userTwo,
+      analysisDepth: depth,
+      score,
+      sessionCost: sessionUsage.totalCost.toFixed(6),
+    });
+
+    this.sessionTracker = null;
+  }
+
+  /**
+   * Resolve API options for a prompt stage at the given analysis depth
+   * Stage settings come from PROMPT_MODELS, model/token budget/timeout from GROK_CONFIG.depths,
+   * a provider model override (LLM_*_MODEL) wins over the depth's model
+   */
+  private getStageOptions(stage: keyof typeof PROMPT_MODELS, depth: AnalysisDepth): GrokAPIOptions {
+    const stageOptions: GrokAPIOptions = PROMPT_MODELS[stage];
+    const depthConfig = GROK_CONFIG.depths[depth];
+    const provider = this.getProvider(stage);
+
+    return {
+      ...stageOptions,
+      model: provider.model ?? depthConfig.model,
+      maxTokens: depthConfig.maxTokens,
+      timeout: depthConfig.timeout,
+      ...(stageOptions.searchParameters &&
+        provider.supportsSearch && {
+          searchParameters: {
+            ...stageOptions.searchParameters,
+            maxResults: depthConfig.searchMaxResults,
+          },
+        }),
+    };
+  }
+
+  /**
+   * Get the provider a prompt stage runs on
+   */
+  private getProvider(stage: keyof typeof PROMPT_MODELS): LLMProvider {
+    return this.providers[STAGE_PROVIDERS[stage]];
+  }
+
+  /**
+   * Track token usage for a completed API call and record it in the cost ledger
+   * @param operation - Prompt stage that made the call
+   * @param model - Model the call ran on
+   * @param usage - Usage reported by the API
+   * @param usernames - Users the call was about
+   */
+  private async trackUsage(
+    operation: keyof typeof PROMPT_MODELS,
+    model: string,
+    usage: GrokAPIResponse['usage'],
+    usernames: string[]
+  ) {
+    const summary = trackGrokUsage(model, usage, logger);
+    if (!summary) return;
+
+    if (this.sessionTracker) {
+      this.sessionTracker.track(model, usage);
+    }
+
+    await this.cacheService.recordGrokUsage({
+      operation,
+      model,
+      usernames,
+      ...summary.tokens,
+      sourcesUsed: summary.sourcesUsed,
+      cost: summary.costs.totalCost,
+    });
+  }
+
+  /**
+   * Stop fresh analyses once the daily or monthly Grok budget is spent
+   * Checked when an analysis starts, so calls already running can overshoot the cap slightly.
+   * Fails open when the spend is unknown (offline mode, Convex errors)
+   * @throws {BudgetExceededError} When a configured budget is used up
+   */
+  private async assertWithinBudget(): Promise<void> {
+    const budget = getGrokBudgetConfig();
+    if (budget.daily === undefined && budget.monthly === undefined) return;
+
+    const spend = await this.cacheService.getGrokSpend();
+    if (!spend) return;
+
+    const now = Date.now();
+    for (const period of ['daily', 'monthly'] as const) {
+      const cap = budget[period];
+      if (cap !== undefined && spend[period] >= cap) {
+        logger.warn({ period, spent: spend[period], budget: cap }, 'Grok budget exceeded');
+        throw new BudgetExceededError(
+          period,
+          spend[period],
+          cap,
+          getSpendPeriodReset(period, now).toISOString()
+        );
+      }
     }
   }
 
   /**
    * Fetch a user profile with cache support
    * @param username - X username (without @)
+   * @param depth - Analysis depth (deep always fetches fresh)
    * @returns User profile data (from cache or API)
    */
-  private async fetchProfileWithCache(username: string): Promise<UserProfile> {
-    // Check cache first
-    const cachedProfile = await this.cacheService.getCachedProfile(username);
+  private async fetchProfileWithCache(
+    username: string,
+    depth: AnalysisDepth = 'standard'
+  ): Promise<UserProfile> {
+    // Check cache first - deep analysis wants a larger tweet sample than cached profiles have
+    if (depth !== 'deep') {
+      const cachedProfile = await this.cacheService.getCachedProfile(username);
+
+      this.emitProgress({ type: 'profile_cache', username, hit: !!cachedProfile });
 
-    if (cachedProfile) {
-      logger.info({ username }, 'Using cached profile');
-      return cachedProfile;
+      if (cachedProfile) {
+        logger.info({ username }, 'Using cached profile');
+        return cachedProfile;
+      }
     }
 
-    // Not in cache, fetch from API
-    logger.info({ username }, 'Fetching fresh profile from API');
-    const profile = await this.fetchProfile(username);
+    // Not in cache, fetch from API (or join the identical fetch already running)
+    logger.info({ username, analysisDepth: depth }, 'Fetching fresh profile from API');
+    this.emitProgress({ type: 'profile_fetch_started', username });
+    const key = profileKey(username, depth);
+    const profile = await inflightProfiles.run(key, () =>
+      this.withLease(
+        key,
+        SINGLE_FLIGHT.PROFILE_LEASE_MS,
+        (since) => this.getSharedProfile(username, since),
+        () => this.fetchAndCacheProfile(username, depth)
+      )
+    );
+    this.emitProgress({ type: 'profile_fetch_finished', username });
 
-    // Cache the fetched profile
-    await this.cacheService.cacheProfile(profile);
+    return profile;
+  }
 
+  /**
+   * Profile another server instance fetched while this one waited on its lease
+   * @param since - When the other instance took the lease - older cached profiles don't count
+   */
+  private async getSharedProfile(username: string, since: number): Promise<UserProfile | null> {
+    const cached = await this.cacheService.getStaleProfile(username);
+    return cached && cached.createdAt >= since ? cached.value : null;
+  }
+
+  /**
+   * Fetch a profile from the API and cache it
+   */
+  private async fetchAndCacheProfile(username: string, depth: AnalysisDepth): Promise<UserProfile> {
+    const assignment = assignPrompt('fetchProfile');
+    const profile = await this.fetchProfile(username, depth, assignment);
+    await this.cacheService.cacheProfile(profile, assignment.promptId);
     return profile;
   }
 
   /**
    * Fetch a user profile from X using Grok's search capabilities
    * @param username - X username (without @)
-   * @returns User profile data
+   * @param depth - Analysis depth controlling model, tweet sample size and timeout
+   * @param assignment - Profile prompt to fetch with
+   * @returns User profile data, with searchConfidence lowered when evidence is thin
    * @throws {NotFoundError} If user not found
+   * @throws {InsufficientDataError} If too little of the profile is backed by citations
    * @throws {ExternalAPIError} For API failures
    */
-  private async fetchProfile(username: string): Promise<UserProfile> {
+  private async fetchProfile(
+    username: string,
+    depth: AnalysisDepth = 'standard',
+    assignment: PromptAssignment = assignPrompt('fetchProfile')
+  ): Promise<UserProfile> {
     try {
+      const options = this.getStageOptions('fetchProfile', depth);
+
       // Build prompt with sanitization
       const { systemPrompt, userPrompt, sanitizedUsername } =
-        this.promptBuilder.buildProfileFetchPrompt(username);
+        this.promptBuilder.buildProfileFetchPrompt(
+          username,
+          GROK_CONFIG.depths[depth].tweetSamples,
+          assignment.promptId
+        );
 
       logger.debug(
         {
           username: sanitizedUsername,
-          model: PROMPT_MODELS.fetchProfile.model,
+          model: options.model,
+          analysisDepth: depth,
+          promptVersion: assignment.promptId,
         },
         'Fetching profile'
       );
 
       // Call API
-      const response = await this.apiClient.chatCompletion(
+      const response = await this.getProvider('fetchProfile').chatCompletion(
         systemPrompt,
         userPrompt,
-        PROMPT_MODELS.fetchProfile,
+        options,
         {
           operation: 'fetchProfile',
           username: sanitizedUsername,
+          onRetry: this.getRetryHook('fetchProfile', username),
         }
       );
 
       // Track usage
-      if (response.usage) {
-        trackGrokUsage(PROMPT_MODELS.fetchProfile.model, response.usage, logger);
-        if (this.sessionTracker) {
-          this.sessionTracker.track(PROMPT_MODELS.fetchProfile.model, response.usage);
-        }
-      }
+      await this.trackUsage('fetchProfile', options.model, response.usage, [username]);
 
       // Extract and parse response
       const content = response.choices[0]?.message?.content;
@@ -252,13 +1030,25 @@ export class GrokService {
       }
 
       // Transform response to profile
-      const parseResult = this.profileTransformer.parseProfileResponse(content);
+      const parseResult = await this.parseForPromptStats('fetchProfile', assignment, () =>
+        this.profileTransformer.parseProfileResponse(content)
+      );
 
       if (!parseResult.success) {
         throw new NotFoundError('X user', parseResult.error.username);
       }
 
-      return this.profileTransformer.normalizeProfile(parseResult.data);
+      // Check the extracted tweets against the citations before anything is scored
+      const normalized = this.profileTransformer.normalizeProfile(parseResult.data);
+      const verification = profileVerifier.verify(normalized);
+      const profile = profileVerifier.applyVerification(normalized, verification);
+
+      this.assertEnoughEvidence(profile.username, verification);
+      await this.recordPromptRun('fetchProfile', assignment, {
+        parsed: true,
+        score: this.profileTransformer.calculateProfileQuality(profile),
+      });
+      return profile;
     } catch (error) {
       this.errorHandler.handleProfileFetchError(error, username);
     }
@@ -268,37 +1058,45 @@ export class GrokService {
    * Match two user profiles to determine compatibility
    * @param profileOne - First user's profile
    * @param profileTwo - Second user's profile
+   * @param depth - Analysis depth (deep adds a consistency pass)
+   * @param preset - Scoring preset for the calculated score
    * @returns Compatibility analysis
    * @throws {ExternalAPIError} For API failures
    */
   private async matchVibes(
     profileOne: UserProfile,
-    profileTwo: UserProfile
+    profileTwo: UserProfile,
+    depth: AnalysisDepth = 'standard',
+    preset: ScoringPresetId = DEFAULT_SCORING_PRESET
   ): Promise<VibeAnalysisResult> {
     try {
+      const options = this.getStageOptions('matchVibe', depth);
+      const assignment = assignPrompt('matchVibe');
+
       // Build matching prompt
       const { systemPrompt, userPrompt } = this.promptBuilder.buildMatchingPrompt(
         profileOne,
-        profileTwo
+        profileTwo,
+        assignment.promptId
       );
 
       // Call API
-      const response = await this.apiClient.chatCompletion(
+      const response = await this.getProvider('matchVibe').chatCompletion(
         systemPrompt,
         userPrompt,
-        PROMPT_MODELS.matchVibe,
+        options,
         {
           operation: 'matchVibe',
+          username: `${profileOne.username},${profileTwo.username}`,
+          onRetry: this.getRetryHook('matchVibe'),
         }
       );
 
       // Track usage
-      if (response.usage) {
-        trackGrokUsage(PROMPT_MODELS.matchVibe.model, response.usage, logger);
-        if (this.sessionTracker) {
-          this.sessionTracker.track(PROMPT_MODELS.matchVibe.model, response.usage);
-        }
-      }
+      await this.trackUsage('matchVibe', options.model, response.usage, [
+        profileOne.username,
+        profileTwo.username,
+      ]);
 
       // Extract and parse response
       const content = response.choices[0]?.message?.content;
@@ -307,15 +1105,44 @@ export class GrokService {
       }
 
       // Transform to result format
-      const matchingResult = this.resultTransformer.parseMatchingResult(content);
+      let matchingResult = await this.parseForPromptStats('matchVibe', assignment, () =>
+        this.resultTransformer.parseMatchingResult(content)
+      );
+      // The score is calculated, so the prompt is judged on the vibe type it picked
+      await this.recordPromptRun('matchVibe', assignment, {
+        parsed: true,
+        vibeType: matchingResult.vibeType,
+      });
+
+      // Deep analysis: reconcile the narrative with the calculated breakdown
+      if (depth === 'deep') {
+        this.emitProgress({ type: 'consistency_check_started' });
+        matchingResult = await this.runConsistencyPass(
+          profileOne,
+          profileTwo,
+          matchingResult,
+          preset
+        );
+      }
+
       const vibeResult = this.resultTransformer.transformToVibeResult(
         matchingResult,
         profileOne,
-        profileTwo
+        profileTwo,
+        preset
       );
 
       // Enhance with additional metadata
-      return this.resultTransformer.enhanceResult(vibeResult, profileOne, profileTwo);
+      const enhanced = this.resultTransformer.enhanceResult(vibeResult, profileOne, profileTwo);
+      return {
+        ...enhanced,
+        metadata: {
+          ...enhanced.metadata,
+          modelUsed: options.model,
+          analysisDepth: depth,
+          promptVersion: assignment.promptId,
+        },
+      };
     } catch (error) {
       this.errorHandler.handleMatchingError(error, {
         operation: 'matchVibes',
@@ -324,6 +1151,211 @@ export class GrokService {
     }
   }
 
+  /**
+   * Reject profiles whose evidence score is below PROFILE_MIN_EVIDENCE_SCORE
+   * @throws {InsufficientDataError} If the profile shouldn't be scored
+   */
+  private assertEnoughEvidence(username: string, verification: ProfileVerification): void {
+    const minEvidenceScore = getProfileMinEvidenceScore();
+    if (verification.evidenceScore >= minEvidenceScore) {
+      if (verification.flags.length > 0) {
+        logger.info({ username, ...verification }, 'Profile evidence is thin');
+      }
+      return;
+    }
+
+    logger.warn({ username, ...verification, minEvidenceScore }, 'Rejecting unverified profile');
+    throw new InsufficientDataError(
+      username,
+      verification.evidenceScore,
+      minEvidenceScore,
+      verification.flags
+    );
+  }
+
+  /**
+   * Parse a response, counting output that can't be parsed against the prompt variant
+   * @param parse - Transformer call for the response
+   * @returns Parsed response
+   */
+  private async parseForPromptStats<T>(
+    stage: PromptStage,
+    assignment: PromptAssignment,
+    parse: () => T
+  ): Promise<T> {
+    try {
+      return parse();
+    } catch (error) {
+      await this.recordPromptRun(stage, assignment, { parsed: false });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a call to its prompt variant's totals (see config/prompt-registry.ts)
+   * @param outcome - Whether the response parsed, and what the prompt produced
+   */
+  private async recordPromptRun(
+    stage: PromptStage,
+    assignment: PromptAssignment,
+    outcome: Pick<PromptRunRecord, 'parsed' | 'score' | 'vibeType'>
+  ): Promise<void> {
+    await this.cacheService.recordPromptRun({
+      stage,
+      promptVersion: assignment.promptId,
+      experimentId: assignment.experimentId,
+      ...outcome,
+    });
+  }
+
+  /**
+   * Second pass for deep analysis - checks the draft against the calculated breakdown
+   * Falls back to the draft if the review call fails, since the draft is still usable
+   * @param profileOne - First user's profile
+   * @param profileTwo - Second user's profile
+   * @param draft - First-pass matching result
+   * @param preset - Scoring preset the narrative is checked against
+   * @returns Reviewed matching result
+   */
+  private async runConsistencyPass(
+    profileOne: UserProfile,
+    profileTwo: UserProfile,
+    draft: MatchingResult,
+    preset: ScoringPresetId
+  ): Promise<MatchingResult> {
+    try {
+      const options = this.getStageOptions('consistencyCheck', 'deep');
+      const { score, breakdown } = compatibilityCalculator.calculateScore(
+        profileOne,
+        profileTwo,
+        preset
+      );
+      const { systemPrompt, userPrompt } = this.promptBuilder.buildConsistencyPrompt(
+        profileOne,
+        profileTwo,
+        draft,
+        { score, breakdown }
+      );
+
+      const response = await this.getProvider('consistencyCheck').chatCompletion(
+        systemPrompt,
+        userPrompt,
+        options,
+        {
+          operation: 'consistencyCheck',
+          username: `${profileOne.username},${profileTwo.username}`,
+          onRetry: this.getRetryHook('consistencyCheck'),
+        }
+      );
+
+      await this.trackUsage('consistencyCheck', options.model, response.usage, [
+        profileOne.username,
+        profileTwo.username,
+      ]);
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        return draft;
+      }
+
+      const reviewed = this.resultTransformer.parseMatchingResult(content);
+
+      // Keep the draft's dimension commentary for anything the review dropped
+      return {
+        ...reviewed,
+        dimensionAnalysis: { ...draft.dimensionAnalysis, ...reviewed.dimensionAnalysis },
+      };
+    } catch (error) {
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          users: [profileOne.username, profileTwo.username],
+        },
+        'Consistency pass failed, using first-pass analysis'
+      );
+      return draft;
+    }
+  }
+
+  /**
+   * Get a single user's profile - from cache when fresh, otherwise fetched from Grok
+   * Falls back to the expired cached profile while Grok is unavailable
+   * @param username - X username (without @)
+   * @param beforeFetch - Called before Grok is asked for the profile (not for cache hits) -
+   *   throwing cancels the fetch (e.g. per-client quotas)
+   * @returns The profile, flagged stale when served from expired cache
+   * @throws {NotFoundError} If user not found
+   * @throws {BudgetExceededError} When the Grok spend budget is used up and nothing is cached
+   */
+  async getProfile(
+    username: string,
+    beforeFetch?: () => Promise<void>
+  ): Promise<UserProfileResult> {
+    const cached = await this.cacheService.getCachedProfile(username);
+    if (cached) {
+      return { profile: cached };
+    }
+
+    try {
+      await this.assertWithinBudget();
+      await beforeFetch?.();
+      const profile = await grokCircuitBreaker.execute(() => this.fetchProfileWithCache(username));
+      return { profile };
+    } catch (error) {
+      const reason = this.getStaleReason(error);
+      const stale = reason ? await this.cacheService.getStaleProfile(username) : null;
+      if (!reason || !stale) {
+        throw error;
+      }
+
+      logger.warn({ username, reason }, 'Serving stale profile');
+      return { profile: stale.value, stale: true, staleReason: reason };
+    }
+  }
+
+  /**
+   * Fetch a profile fresh from Grok and replace the cached one (admin force refresh)
+   * @param username - X username (without @)
+   * @returns The fetched profile
+   * @throws {BudgetExceededError} When the Grok spend budget is used up
+   */
+  async refreshProfile(username: string): Promise<UserProfile> {
+    await this.assertWithinBudget();
+    return grokCircuitBreaker.execute(() => this.fetchAndCacheProfile(username, 'standard'));
+  }
+
+  /**
+   * Re-match a pair with Grok and replace the cached match (admin force refresh)
+   * Cached profiles are reused - refresh them first for a fully fresh analysis
+   * @param request - Pair, depth and scoring preset to refresh
+   * @returns The fresh analysis
+   * @throws {BudgetExceededError} When the Grok spend budget is used up
+   */
+  async refreshMatch(request: VibeAnalysisRequest): Promise<VibeAnalysisResult> {
+    await this.assertWithinBudget();
+    return this.runFreshAnalysis(
+      request,
+      request.analysisDepth ?? 'standard',
+      request.scoringPreset ?? DEFAULT_SCORING_PRESET
+    );
+  }
+
+  /**
+   * Get Grok retry counts per operation for this server instance
+   * @returns Retries per operation and when counting started (Unix milliseconds)
+   */
+  getRetryStats(): { since: number; byOperation: Record<string, number> } {
+    return { since: retryStats.since, byOperation: { ...retryStats.byOperation } };
+  }
+
+  /**
+   * Get how often model output broke its contract and was repaired, for this server instance
+   * @returns Validated and repaired responses per output contract and when counting started
+   */
+  getOutputRepairStats() {
+    return getModelOutputStats();
+  }
+
   /**
    * Get current circuit breaker statistics
    * @returns Circuit breaker state and metrics
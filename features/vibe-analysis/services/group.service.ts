@@ -0,0 +1,33 @@
+import { GrokService } from '@/features/vibe-analysis/services/grok/grok.service';
+import { vibeGroupRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import type { VibeGroupResult } from '@/features/vibe-analysis/types';
+import { getGrokApiKey } from '@/lib/env';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('GroupService');
+
+export async function analyzeGroupService(usernames: string[]): Promise<VibeGroupResult> {
+  // Remove @ symbol if present
+  const cleanUsernames = usernames.map((username) => username.replace('@', ''));
+
+  try {
+    // Validate request data with schema (member count, format, uniqueness)
+    const validatedData = vibeGroupRequestSchema.parse({ usernames: cleanUsernames });
+
+    // Get validated API key from centralized env management
+    const apiKey = getGrokApiKey();
+
+    // Initialize service and perform analysis
+    const grokService = new GrokService(apiKey);
+    return await grokService.analyzeGroup({ usernames: validatedData.usernames });
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        usernames: cleanUsernames,
+      },
+      'Group vibe analysis service error'
+    );
+    throw error;
+  }
+}
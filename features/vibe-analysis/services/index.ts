@@ -6,6 +6,8 @@
  *
  * Component exports (for testing/extension):
  * - GrokAPIClient: Low-level API communication
+ * - OpenAICompatibleProvider: Any OpenAI-compatible chat completions endpoint
+ * - FixtureLLMProvider / GrokFixtureStore: Record and replay responses (GROK_FIXTURE_MODE)
  * - GrokErrorHandler: Error handling utilities
  * - GrokPromptBuilder: Prompt construction
  * - ProfileTransformer: Profile data transformation
@@ -19,6 +21,14 @@ export { GrokService } from './grok/grok.service';
 export { GrokAPIClient } from './grok/grok-api-client';
 export type { GrokAPIOptions, GrokAPIContext } from './grok/grok-api-client';
 
+// LLM providers (per-stage, configured via LLM_PROFILE_* / LLM_MATCH_*)
+export { OpenAICompatibleProvider } from './llm/openai-compatible-provider';
+export { FixtureLLMProvider } from './llm/fixture-provider';
+export { GrokFixtureStore } from './llm/fixture-store';
+export type { GrokFixture } from './llm/fixture-store';
+export { createLLMProvider } from './llm/provider-factory';
+export type { LLMProvider, LLMProviderType, LLMStage } from './llm/llm-provider';
+
 // Error handling utilities
 export { GrokErrorHandler } from './grok/grok-error-handler';
 export type { ErrorContext } from './grok/grok-error-handler';
@@ -0,0 +1,120 @@
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { vibeAnalysisRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import type { AnalysisJob, VibeAnalysisResult } from '@/features/vibe-analysis/types';
+import {
+  DEFAULT_SCORING_PRESET,
+  toStoredScoringPreset,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { ConfigError, ValidationError } from '@/shared/lib/errors';
+import { getConvexServerSecret } from '@/lib/env';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('JobService');
+
+let convexClient: ConvexHttpClient | null = null;
+
+/**
+ * Convex client for job documents - jobs run in Convex, so there is no offline mode
+ * @throws {ConfigError} If NEXT_PUBLIC_CONVEX_URL is not configured
+ */
+function getConvexClient(): ConvexHttpClient {
+  if (!convexClient) {
+    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    if (!convexUrl) {
+      throw new ConfigError(
+        'Analysis jobs need a Convex deployment (NEXT_PUBLIC_CONVEX_URL)',
+        'NEXT_PUBLIC_CONVEX_URL'
+      );
+    }
+    convexClient = new ConvexHttpClient(convexUrl);
+  }
+
+  return convexClient;
+}
+
+/**
+ * Queue a background analysis - returns as soon as the job document exists
+ * @param handoffId - Streamed analysis the job takes over (see lib/security/handoff-token.ts)
+ * @returns Job ID to subscribe to or poll - the existing job if the handoff already has one
+ */
+export async function createAnalysisJobService(
+  userOne: string,
+  userTwo: string,
+  analysisDepth: 'quick' | 'standard' | 'deep' = 'standard',
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET,
+  handoffId?: string
+): Promise<string> {
+  // Remove @ symbol if present
+  const cleanUserOne = userOne.replace('@', '');
+  const cleanUserTwo = userTwo.replace('@', '');
+
+  if (cleanUserOne.toLowerCase() === cleanUserTwo.toLowerCase()) {
+    throw new ValidationError('Please enter two different usernames', {
+      field: 'usernames',
+      value: { userOne: cleanUserOne, userTwo: cleanUserTwo },
+    });
+  }
+
+  const validatedData = vibeAnalysisRequestSchema.parse({
+    userOne: cleanUserOne,
+    userTwo: cleanUserTwo,
+    analysisDepth,
+    scoringPreset,
+  });
+
+  const jobId = await getConvexClient().mutation(api.analysisJobs.createJob, {
+    serverSecret: getConvexServerSecret() ?? '',
+    userOne: validatedData.userOne,
+    userTwo: validatedData.userTwo,
+    analysisDepth: validatedData.analysisDepth || 'standard',
+    scoringPreset: toStoredScoringPreset(validatedData.scoringPreset),
+    handoffId,
+  });
+
+  logger.info(
+    {
+      jobId,
+      users: [validatedData.userOne, validatedData.userTwo],
+      analysisDepth,
+      handoff: !!handoffId,
+    },
+    'Analysis job queued'
+  );
+
+  return jobId;
+}
+
+/**
+ * Get the current state of an analysis job
+ * @returns The job, or null if the ID doesn't exist
+ */
+export async function getAnalysisJobService(jobId: string): Promise<AnalysisJob | null> {
+  try {
+    const job = await getConvexClient().query(api.analysisJobs.getJob, {
+      jobId: jobId as Id<'analysisJobs'>,
+    });
+
+    if (!job) {
+      return null;
+    }
+
+    return {
+      jobId: job._id,
+      status: job.status,
+      result: job.result as VibeAnalysisResult | undefined,
+      error: job.error,
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString(),
+    };
+  } catch (error) {
+    // Malformed IDs fail argument validation - treat them like missing jobs
+    if (error instanceof Error && error.message.includes('ArgumentValidationError')) {
+      logger.debug({ jobId }, 'Invalid analysis job ID');
+      return null;
+    }
+    throw error;
+  }
+}
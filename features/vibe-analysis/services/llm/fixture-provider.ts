@@ -0,0 +1,73 @@
+/**
+ * Record/replay wrapper around an LLM provider (GROK_FIXTURE_MODE)
+ * - record: calls the wrapped provider and saves every response
+ * - replay: answers from saved responses and never touches the network
+ */
+
+import { ConfigError } from '@/shared/lib/errors';
+import { createChildLogger } from '@/lib/logger';
+import type { GrokAPIContext, GrokAPIOptions } from '../grok/grok-api-client';
+import type { GrokAPIResponse } from '../../types';
+import type { LLMProvider, LLMProviderType } from './llm-provider';
+import { GrokFixtureStore } from './fixture-store';
+
+const logger = createChildLogger('FixtureLLMProvider');
+
+/**
+ * Provider that records or replays chat completions of another provider
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+  readonly serviceName: string;
+  readonly supportsSearch: boolean;
+  readonly supportsJsonSchema: boolean;
+  readonly model?: string;
+  private readonly inner: LLMProvider;
+  private readonly store: GrokFixtureStore;
+  private readonly mode: 'record' | 'replay';
+
+  constructor(inner: LLMProvider, store: GrokFixtureStore, mode: 'record' | 'replay') {
+    this.inner = inner;
+    this.store = store;
+    this.mode = mode;
+    this.type = inner.type;
+    this.serviceName = inner.serviceName;
+    this.supportsSearch = inner.supportsSearch;
+    this.supportsJsonSchema = inner.supportsJsonSchema;
+    this.model = inner.model;
+  }
+
+  /**
+   * Replay a recorded response or record a live one
+   * @throws {ConfigError} In replay mode when no fixture was recorded for the call
+   */
+  async chatCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GrokAPIOptions,
+    context?: Partial<GrokAPIContext>
+  ): Promise<GrokAPIResponse> {
+    const operation = context?.operation ?? 'unknown';
+    const username = context?.username ?? 'anonymous';
+
+    if (this.mode === 'replay') {
+      const recorded = await this.store.load(operation, username);
+      if (!recorded) {
+        throw new ConfigError(
+          `No recorded fixture for ${operation} @${username} - record one with GROK_FIXTURE_MODE=record`,
+          'GROK_FIXTURE_DIR',
+          { operation, username, path: this.store.getPath(operation, username) }
+        );
+      }
+
+      logger.debug({ operation, username }, 'Replaying recorded response');
+      return recorded;
+    }
+
+    const response = await this.inner.chatCompletion(systemPrompt, userPrompt, options, context);
+    const filePath = await this.store.save(operation, username, options.model, response);
+    logger.info({ operation, username, filePath }, 'Recorded response fixture');
+
+    return response;
+  }
+}
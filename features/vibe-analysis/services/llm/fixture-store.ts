@@ -0,0 +1,97 @@
+/**
+ * File-backed store for recorded chat completion responses
+ * Fixtures live at <dir>/<operation>/<key>.json and are keyed by operation + username only,
+ * so a recording replays regardless of depth, model or prompt changes
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { grokAPIResponseSchema } from '../../schemas';
+import type { GrokAPIResponse } from '../../types';
+
+/**
+ * Recorded fixture file contents
+ */
+export interface GrokFixture {
+  operation: string;
+  username: string;
+  model: string;
+  recordedAt: string;
+  response: GrokAPIResponse;
+}
+
+/**
+ * Reads and writes Grok fixtures on disk
+ */
+export class GrokFixtureStore {
+  private readonly dir: string;
+
+  /**
+   * @param dir - Fixture directory (relative paths resolve against the working directory)
+   */
+  constructor(dir: string) {
+    this.dir = path.resolve(process.cwd(), dir);
+  }
+
+  /**
+   * Build the fixture key for a call
+   * X usernames only contain letters, digits and underscores, so joining pairs with '-' is unambiguous
+   * @param username - Username, or comma-separated usernames for match operations
+   */
+  static toKey(username: string): string {
+    return username
+      .toLowerCase()
+      .replace(/^@/, '')
+      .replace(/[^a-z0-9_]+/g, '-');
+  }
+
+  /**
+   * Path of the fixture file for an operation + username
+   */
+  getPath(operation: string, username: string): string {
+    return path.join(this.dir, operation, `${GrokFixtureStore.toKey(username)}.json`);
+  }
+
+  /**
+   * Load a recorded response
+   * @returns Validated response, or null when nothing was recorded for this call
+   */
+  async load(operation: string, username: string): Promise<GrokAPIResponse | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.getPath(operation, username), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const fixture = JSON.parse(raw) as GrokFixture;
+    return grokAPIResponseSchema.parse(fixture.response);
+  }
+
+  /**
+   * Record a response, replacing any earlier recording for the same call
+   * @returns Path of the written fixture
+   */
+  async save(
+    operation: string,
+    username: string,
+    model: string,
+    response: GrokAPIResponse
+  ): Promise<string> {
+    const filePath = this.getPath(operation, username);
+    const fixture: GrokFixture = {
+      operation,
+      username,
+      model,
+      recordedAt: new Date().toISOString(),
+      response,
+    };
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    return filePath;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * LLM provider abstraction
+ * Every pipeline stage talks to an OpenAI-style chat completions endpoint through this interface,
+ * so profile extraction and matching can each run on x.ai or any OpenAI-compatible server
+ */
+
+import type { GrokAPIContext, GrokAPIOptions } from '../grok/grok-api-client';
+import type { GrokAPIResponse } from '../../types';
+
+/**
+ * Supported provider implementations
+ * - grok: x.ai chat completions with Live Search
+ * - openai-compatible: any /chat/completions endpoint (OpenAI, Ollama, llama.cpp, vLLM, ...)
+ */
+export type LLMProviderType = 'grok' | 'openai-compatible';
+
+/**
+ * Pipeline stages that can be routed to their own provider
+ * - profile: FETCH_PROFILE
+ * - match: MATCH_VIBE and the deep consistency pass
+ */
+export type LLMStage = 'profile' | 'match';
+
+/**
+ * Chat completion provider used by GrokService
+ * Implementations must map failures to the shared error types
+ * (RateLimitError, CreditExhaustionError, NetworkError, ExternalAPIError)
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly serviceName: string; // Used in error messages and metadata
+  readonly supportsSearch: boolean; // Live X search - without it search parameters are dropped
+  readonly supportsJsonSchema: boolean; // Structured outputs - without it only JSON mode is requested
+  readonly model?: string; // Model override from env, replaces the depth's model
+
+  chatCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    options: GrokAPIOptions,
+    context?: Partial<GrokAPIContext>
+  ): Promise<GrokAPIResponse>;
+}
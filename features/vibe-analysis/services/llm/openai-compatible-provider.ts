@@ -0,0 +1,45 @@
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint
+ * (OpenAI, Ollama, llama.cpp server, vLLM, ...)
+ */
+
+import { GrokAPIClient } from '../grok/grok-api-client';
+
+/**
+ * Settings for an OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // Optional for local servers
+  model?: string; // Replaces the depth's Grok model
+  jsonSchema?: boolean; // Server supports json_schema response formats (off: JSON mode only)
+  serviceName?: string; // Shown in errors (defaults to the endpoint host)
+}
+
+/**
+ * Chat completions without x.ai extensions
+ * Reuses GrokAPIClient's HTTP, retry and error mapping, but drops Live Search parameters -
+ * profile extraction then relies on the model's own knowledge instead of live X data
+ */
+export class OpenAICompatibleProvider extends GrokAPIClient {
+  constructor(config: OpenAICompatibleProviderConfig) {
+    super(config.apiKey ?? '', config.baseUrl, {
+      type: 'openai-compatible',
+      serviceName: config.serviceName ?? getHostName(config.baseUrl),
+      supportsSearch: false,
+      supportsJsonSchema: config.jsonSchema ?? false,
+      model: config.model,
+    });
+  }
+}
+
+/**
+ * Readable service name from an endpoint URL
+ */
+function getHostName(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host;
+  } catch {
+    return 'LLM provider';
+  }
+}
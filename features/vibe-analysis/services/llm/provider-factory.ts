@@ -0,0 +1,71 @@
+/**
+ * Builds the LLM provider for each pipeline stage from env config
+ */
+
+import { GROK_CONFIG } from '../../config/grok-config';
+import { getGrokBaseUrl, getGrokFixtureConfig, getLLMStageConfig } from '@/lib/env';
+import { ConfigError } from '@/shared/lib/errors';
+import { createChildLogger } from '@/lib/logger';
+import { GrokAPIClient } from '../grok/grok-api-client';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { FixtureLLMProvider } from './fixture-provider';
+import { GrokFixtureStore } from './fixture-store';
+import type { LLMProvider, LLMStage } from './llm-provider';
+
+const logger = createChildLogger('LLMProviderFactory');
+
+/**
+ * Create the provider configured for a stage (LLM_PROFILE_* / LLM_MATCH_*)
+ * Wrapped for record/replay when GROK_FIXTURE_MODE is set
+ * @param stage - Pipeline stage
+ * @param grokApiKey - Default key for the x.ai provider
+ * @returns Provider for the stage
+ * @throws {ConfigError} If an OpenAI-compatible stage has no base URL
+ */
+export function createLLMProvider(stage: LLMStage, grokApiKey: string): LLMProvider {
+  const provider = createStageProvider(stage, grokApiKey);
+  const fixtures = getGrokFixtureConfig();
+
+  if (fixtures.mode === 'off') {
+    return provider;
+  }
+
+  logger.info({ stage, mode: fixtures.mode, dir: fixtures.dir }, 'Using Grok fixtures');
+  return new FixtureLLMProvider(provider, new GrokFixtureStore(fixtures.dir), fixtures.mode);
+}
+
+/**
+ * Build the live provider for a stage
+ */
+function createStageProvider(stage: LLMStage, grokApiKey: string): LLMProvider {
+  const config = getLLMStageConfig(stage);
+
+  if (config.provider === 'openai-compatible') {
+    if (!config.baseUrl) {
+      throw new ConfigError(
+        `LLM_${stage.toUpperCase()}_BASE_URL is required for the openai-compatible provider`,
+        `LLM_${stage.toUpperCase()}_BASE_URL`
+      );
+    }
+
+    logger.debug(
+      { stage, baseUrl: config.baseUrl, model: config.model, jsonSchema: config.jsonSchema },
+      'Using OpenAI-compatible provider'
+    );
+
+    return new OpenAICompatibleProvider({
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey,
+      model: config.model,
+      jsonSchema: config.jsonSchema,
+    });
+  }
+
+  return new GrokAPIClient(
+    config.apiKey ?? grokApiKey,
+    config.baseUrl ?? getGrokBaseUrl() ?? GROK_CONFIG.baseUrl,
+    {
+      model: config.model,
+    }
+  );
+}
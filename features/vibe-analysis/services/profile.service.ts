@@ -0,0 +1,35 @@
+import { GrokService } from '@/features/vibe-analysis/services/grok/grok.service';
+import { profileRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import type { UserProfileResult } from '@/features/vibe-analysis/types';
+import { getGrokApiKey } from '@/lib/env';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('ProfileService');
+
+export async function getUserProfileService(
+  username: string,
+  beforeFetch?: () => Promise<void>
+): Promise<UserProfileResult> {
+  // Remove @ symbol if present
+  const cleanUsername = username.replace('@', '');
+
+  try {
+    const validatedData = profileRequestSchema.parse({ username: cleanUsername });
+
+    // Get validated API key from centralized env management
+    const apiKey = getGrokApiKey();
+
+    // Cached profiles are served as-is; missing ones are fetched from Grok and cached
+    const grokService = new GrokService(apiKey);
+    return await grokService.getProfile(validatedData.username, beforeFetch);
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        username: cleanUsername,
+      },
+      'User profile service error'
+    );
+    throw error;
+  }
+}
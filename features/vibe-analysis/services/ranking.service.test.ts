@@ -0,0 +1,91 @@
+import { ConvexHttpClient } from 'convex/browser';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConvexCacheService } from './cache/convex-cache.service';
+import { rankBestMatchesService } from './ranking.service';
+import { PERSONALITY_DIMENSIONS, toDimensionVector } from '../lib/dimension-vector';
+import { NetworkError, NotFoundError } from '@/shared/lib/errors/specific.errors';
+import { makeProfile, uniformDimensions, type DimensionValues } from '../test-utils/profiles';
+
+const cache = ConvexCacheService.prototype;
+
+// Rates too few dimensions for a score with anyone
+const SPARSE = Object.fromEntries(PERSONALITY_DIMENSIONS.slice(0, 2).map((d) => [d, 0.5]));
+
+function candidate(username: string, dimensions: DimensionValues) {
+  return {
+    username,
+    dimensionVector: toDimensionVector(makeProfile(username, dimensions)),
+    searchConfidence: 80,
+    dataCompleteness: 80,
+  };
+}
+
+describe('rankBestMatchesService', () => {
+  beforeEach(() => {
+    vi.spyOn(cache, 'getCachedProfile').mockResolvedValue(
+      makeProfile('alice', uniformDimensions(0.5))
+    );
+    vi.spyOn(cache, 'getFreshDimensionVectors').mockResolvedValue([
+      candidate('far', uniformDimensions(1)),
+      candidate('close', uniformDimensions(0.55)),
+      candidate('ALICE', uniformDimensions(0.5)),
+      candidate('sparse', SPARSE),
+      candidate('mid', uniformDimensions(0.8)),
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('orders candidates from most to least similar, without the user or suppressed scores', async () => {
+    const result = await rankBestMatchesService('@alice');
+
+    expect(result.username).toBe('alice');
+    expect(result.candidatesScored).toBe(3);
+    expect(result.mostCompatible.map((m) => m.username)).toEqual(['close', 'mid', 'far']);
+
+    const scores = result.mostCompatible.map((m) => m.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('returns at most `limit` users from each end', async () => {
+    const result = await rankBestMatchesService('alice', 1);
+
+    expect(result.mostCompatible.map((m) => m.username)).toEqual(['close']);
+    expect(result.leastCompatible.map((m) => m.username)).toEqual(['far']);
+  });
+
+  it('never lists a user as both most and least compatible', async () => {
+    const short = await rankBestMatchesService('alice', 2);
+    const all = await rankBestMatchesService('alice');
+
+    expect(short.mostCompatible.map((m) => m.username)).toEqual(['close', 'mid']);
+    expect(short.leastCompatible.map((m) => m.username)).toEqual(['far']);
+    expect(all.leastCompatible).toEqual([]);
+  });
+
+  it('fails instead of ranking against a partial candidate list', async () => {
+    vi.stubEnv('NEXT_PUBLIC_CONVEX_URL', 'https://test-deployment.convex.cloud');
+    vi.mocked(cache.getFreshDimensionVectors).mockRestore();
+    vi.spyOn(ConvexHttpClient.prototype, 'query')
+      .mockResolvedValueOnce({
+        page: [candidate('close', uniformDimensions(0.55))],
+        isDone: false,
+        continueCursor: 'next',
+      })
+      .mockRejectedValueOnce(new Error('Convex unavailable'));
+
+    await expect(new ConvexCacheService().getFreshDimensionVectors()).rejects.toBeInstanceOf(
+      NetworkError
+    );
+  });
+
+  it('throws NotFoundError without a fresh cached profile for the user', async () => {
+    vi.mocked(cache.getCachedProfile).mockResolvedValue(null);
+
+    await expect(rankBestMatchesService('alice')).rejects.toBeInstanceOf(NotFoundError);
+    expect(cache.getFreshDimensionVectors).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { compatibilityCalculator } from '@/features/vibe-analysis/lib/compatibility-calculator';
+import { fromDimensionVector } from '@/features/vibe-analysis/lib/dimension-vector';
+import { bestMatchesRequestSchema } from '@/features/vibe-analysis/schemas/request.schema';
+import { convexCache } from '@/features/vibe-analysis/services/cache/convex-cache.service';
+import type { BestMatchesResult, RankedMatch } from '@/features/vibe-analysis/types';
+import { NotFoundError } from '@/shared/lib/errors/specific.errors';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('RankingService');
+
+/**
+ * Rank a user against every fresh cached profile
+ * Uses the precomputed dimension vectors only - no Grok calls are made
+ * Candidates whose scores would be suppressed (too few dimensions in common) are left out
+ * @param username - Subject X username (must have a fresh cached profile)
+ * @param limit - Number of most and least compatible users to return
+ * @returns Top and bottom matches with category scores (no user appears in both lists)
+ * @throws {NotFoundError} When the subject has no fresh cached profile
+ * @throws {NetworkError} When the cached profiles can't be loaded
+ */
+export async function rankBestMatchesService(
+  username: string,
+  limit?: number
+): Promise<BestMatchesResult> {
+  const validatedData = bestMatchesRequestSchema.parse({
+    username: username.replace('@', ''),
+    limit,
+  });
+
+  const subject = await convexCache.getCachedProfile(validatedData.username);
+  if (!subject) {
+    throw new NotFoundError('Cached profile', validatedData.username, {
+      hint: 'Run a vibe analysis with this user first',
+    });
+  }
+
+  const subjectKey = validatedData.username.toLowerCase();
+  const candidates = await convexCache.getFreshDimensionVectors();
+
+  const ranked: RankedMatch[] = candidates
+    .filter((candidate) => candidate.username.toLowerCase() !== subjectKey)
+    .flatMap((candidate) => {
+      const profile = fromDimensionVector(candidate.username, candidate.dimensionVector, {
+        searchConfidence: candidate.searchConfidence,
+        dataCompleteness: candidate.dataCompleteness,
+      });
+      const { score, categoryScores, suppressed } = compatibilityCalculator.calculateScore(
+        subject,
+        profile
+      );
+      return suppressed ? [] : [{ username: candidate.username, score, categoryScores }];
+    })
+    .sort((a, b) => b.score - a.score || a.username.localeCompare(b.username));
+
+  logger.info(
+    { username: validatedData.username, candidatesScored: ranked.length },
+    'Ranked best matches'
+  );
+
+  // The least compatible come from after the most compatible, so short lists don't overlap
+  const topCount = Math.min(validatedData.limit, ranked.length);
+
+  return {
+    username: validatedData.username,
+    candidatesScored: ranked.length,
+    mostCompatible: ranked.slice(0, topCount),
+    leastCompatible: ranked
+      .slice(Math.max(topCount, ranked.length - validatedData.limit))
+      .reverse(),
+    metadata: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { GrokService } from '@/features/vibe-analysis/services/grok/grok.service';
+import { REFRESH_QUEUE } from '@/features/vibe-analysis/config/vibe-constants';
+import { getGrokApiKey } from '@/lib/env';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('RefreshService');
+
+/**
+ * Refresh pairs that were served stale while Grok was unavailable
+ * Meant to run in the background (after()) once an analysis has succeeded again - never throws
+ */
+export async function drainRefreshQueueService(
+  limit: number = REFRESH_QUEUE.DRAIN_BATCH
+): Promise<{ refreshed: number; failed: number }> {
+  try {
+    const grokService = new GrokService(getGrokApiKey());
+    return await grokService.drainRefreshQueue(limit);
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Refresh queue drain failed'
+    );
+    return { refreshed: 0, failed: 0 };
+  }
+}
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConvexCacheService } from './cache/convex-cache.service';
+import { ResultTransformer } from './transformers/result.transformer';
+import { getVibeOEmbedService, getVibeShareCardService } from './share.service';
+import { NotFoundError } from '@/shared/lib/errors/specific.errors';
+import { makeProfile, uniformDimensions } from '../test-utils/profiles';
+
+const cache = ConvexCacheService.prototype;
+
+describe('getVibeShareCardService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds the card from the cached match with dimension labels', async () => {
+    const match = new ResultTransformer().buildCalculatedResult(
+      makeProfile('alice', uniformDimensions(0.6)),
+      makeProfile('bob', uniformDimensions(0.4))
+    );
+    vi.spyOn(cache, 'getStaleMatch').mockResolvedValue({ value: match, createdAt: 0 });
+
+    const card = await getVibeShareCardService('@alice', 'bob');
+
+    expect(card).toMatchObject({ userOne: 'alice', userTwo: 'bob', score: match.score });
+    expect(card?.topMatches).toHaveLength(3);
+    expect(card?.topMatches.every((label) => !label.endsWith('Rating'))).toBe(true);
+  });
+
+  it('falls back without touching the cache for invalid handles', async () => {
+    const getStaleMatch = vi.spyOn(cache, 'getStaleMatch').mockResolvedValue(null);
+
+    expect(await getVibeShareCardService('alice', '<script>')).toBeNull();
+    expect(getStaleMatch).not.toHaveBeenCalled();
+
+    expect(await getVibeShareCardService('alice', 'bob')).toBeNull();
+  });
+});
+
+describe('getVibeOEmbedService', () => {
+  it('embeds result and embed URLs with their scoring preset, within maxwidth', () => {
+    const oembed = getVibeOEmbedService({
+      url: 'https://matchvibe.app/vibe/alice/bob?preset=cofounder',
+      maxwidth: '320',
+    });
+
+    expect(oembed).toMatchObject({ type: 'rich', width: 320, title: 'Vibe Check: @alice × @bob' });
+    expect(oembed.html).toContain(
+      'src="https://matchvibe.app/embed/vibe/alice/bob?preset=cofounder"'
+    );
+    expect(oembed.thumbnail_url).toBe('https://matchvibe.app/vibe/alice/bob/opengraph-image');
+
+    expect(
+      getVibeOEmbedService({ url: 'https://matchvibe.app/embed/vibe/@alice/bob' }).html
+    ).toContain('src="https://matchvibe.app/embed/vibe/alice/bob"');
+  });
+
+  it('rejects URLs that are not vibe results on this app', () => {
+    for (const url of [
+      'https://example.com/vibe/alice/bob',
+      'https://matchvibe.app/u/alice',
+      'https://matchvibe.app/vibe/alice/%3Cscript%3E',
+    ]) {
+      expect(() => getVibeOEmbedService({ url })).toThrow(NotFoundError);
+    }
+  });
+});
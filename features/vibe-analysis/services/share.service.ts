@@ -0,0 +1,150 @@
+import { convexCache } from '@/features/vibe-analysis/services/cache/convex-cache.service';
+import {
+  oembedRequestSchema,
+  profileRequestSchema,
+} from '@/features/vibe-analysis/schemas/request.schema';
+import {
+  DIMENSION_LABELS,
+  EMBED_CONFIG,
+  SHARE_CONFIG,
+} from '@/features/vibe-analysis/config/vibe-constants';
+import {
+  DEFAULT_SCORING_PRESET,
+  isScoringPresetId,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { NotFoundError } from '@/shared/lib/errors/specific.errors';
+import type { VibeAnalysisResult, VibeOEmbed, VibeShareCard } from '@/features/vibe-analysis/types';
+
+// Dimensions listed on the card per side
+const CARD_DIMENSIONS = 3;
+
+// Size of the Open Graph image (app/vibe/[user1]/[user2]/opengraph-image.tsx)
+const THUMBNAIL_SIZE = { width: 1200, height: 630 };
+
+// Result pages (and their embeds) the oEmbed endpoint answers for
+const VIBE_URL_PATTERN = /^\/(?:embed\/)?vibe\/([^/]+)\/([^/]+)\/?$/;
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || SHARE_CONFIG.BASE_URL;
+}
+
+/**
+ * Validate the two handles of a result URL (leading @ allowed)
+ * @returns Cleaned usernames, or null when either is invalid
+ */
+function parsePair(user1: string, user2: string): [string, string] | null {
+  const [one, two] = [user1, user2].map((username) =>
+    profileRequestSchema.safeParse({ username: username.replace('@', '').trim() })
+  );
+  if (!one.success || !two.success) {
+    return null;
+  }
+
+  return [one.data.username, two.data.username];
+}
+
+/**
+ * Load the share card for a pair from its cached match (default scoring preset, expired or not)
+ * Never calls Grok - link previews must not trigger analyses
+ * @returns Card data, or null when a username is invalid or the pair was never matched
+ */
+export async function getVibeShareCardService(
+  user1: string,
+  user2: string
+): Promise<VibeShareCard | null> {
+  const pair = parsePair(user1, user2);
+  if (!pair) {
+    return null;
+  }
+
+  const [userOne, userTwo] = pair;
+
+  // Cache errors are logged by the cache service and read as a miss
+  const cached = await convexCache.getStaleMatch(userOne, userTwo);
+  if (!cached) {
+    return null;
+  }
+
+  const { value: match } = cached;
+  const toLabels = (dimensions: string[] = []) =>
+    dimensions
+      .slice(0, CARD_DIMENSIONS)
+      .map((dimension) => DIMENSION_LABELS[dimension] ?? dimension);
+
+  return {
+    userOne,
+    userTwo,
+    score: match.score,
+    scoreRange: match.metadata.scoreRange,
+    scoreSuppressed: match.metadata.scoreSuppressed,
+    vibeType: match.vibeType,
+    topMatches: toLabels(match.metadata.topMatches),
+    topClashes: toLabels(match.metadata.topClashes),
+  };
+}
+
+/**
+ * Load the result shown by the embed widget from the cached match (expired or not)
+ * Never calls Grok - embeds on other sites must not trigger analyses
+ * @returns Match result, or null when a username is invalid or the pair was never matched
+ */
+export async function getVibeEmbedService(
+  user1: string,
+  user2: string,
+  scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET
+): Promise<VibeAnalysisResult | null> {
+  const pair = parsePair(user1, user2);
+  if (!pair) {
+    return null;
+  }
+
+  const cached = await convexCache.getStaleMatch(pair[0], pair[1], scoringPreset);
+  return cached?.value ?? null;
+}
+
+/**
+ * Build the oEmbed response for a vibe result URL (/vibe/a/b or /embed/vibe/a/b)
+ * The iframe keeps the URL's scoring preset and shrinks to maxwidth / maxheight
+ * @throws {ZodError} When the query is invalid
+ * @throws {NotFoundError} When the URL is not a vibe result on this app
+ */
+export function getVibeOEmbedService(query: unknown): VibeOEmbed {
+  const { url, maxwidth, maxheight } = oembedRequestSchema.parse(query);
+  const appUrl = new URL(getAppUrl());
+  const target = new URL(url);
+
+  const match = target.origin === appUrl.origin ? VIBE_URL_PATTERN.exec(target.pathname) : null;
+  const pair = match ? parsePair(decodeURIComponent(match[1]), decodeURIComponent(match[2])) : null;
+  if (!pair) {
+    throw new NotFoundError('Vibe result', url);
+  }
+
+  const [userOne, userTwo] = pair;
+  const preset = target.searchParams.get('preset');
+  const presetQuery =
+    isScoringPresetId(preset) && preset !== DEFAULT_SCORING_PRESET ? `?preset=${preset}` : '';
+
+  const width = Math.min(EMBED_CONFIG.WIDTH, maxwidth ?? EMBED_CONFIG.WIDTH);
+  const height = Math.min(EMBED_CONFIG.HEIGHT, maxheight ?? EMBED_CONFIG.HEIGHT);
+  const title = `Vibe Check: @${userOne} × @${userTwo}`;
+
+  // Usernames and presets are restricted to [a-zA-Z0-9_-], so they are safe inside the markup
+  const src = `${appUrl.origin}/embed/vibe/${userOne}/${userTwo}${presetQuery}`;
+  const html = `<iframe src="${src}" width="${width}" height="${height}" title="${title}" style="border:0;border-radius:16px" loading="lazy"></iframe>`;
+
+  return {
+    version: '1.0',
+    type: 'rich',
+    title,
+    provider_name: 'Match Vibe',
+    provider_url: appUrl.origin,
+    html,
+    width,
+    height,
+    thumbnail_url: `${appUrl.origin}/vibe/${userOne}/${userTwo}/opengraph-image`,
+    thumbnail_width: THUMBNAIL_SIZE.width,
+    thumbnail_height: THUMBNAIL_SIZE.height,
+    cache_age: EMBED_CONFIG.CACHE_AGE_SECONDS,
+  };
+}
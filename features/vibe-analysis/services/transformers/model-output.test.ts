@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { z, ZodError } from 'zod';
+import { ExternalAPIError } from '@/shared/lib/errors';
+import { getModelOutputStats, parseModelOutput } from './model-output';
+
+const contract = z.object({ vibe: z.enum(['good', 'bad']), tags: z.array(z.string()) });
+
+// Lenient variant for repaired output, like the citations preprocessor of profiles
+const lenient = contract.extend({ tags: z.array(z.string()).catch([]) });
+
+function parse(content: string) {
+  return parseModelOutput(content, 'matching', contract, (parsed) => lenient.parse(parsed));
+}
+
+function matchingCounts() {
+  return getModelOutputStats().byContract.matching ?? { validated: 0, repaired: 0 };
+}
+
+describe('parseModelOutput', () => {
+  it('returns contract-valid output without repair', () => {
+    const before = matchingCounts();
+
+    expect(parse('{"vibe":"good","tags":["ai"]}')).toEqual({ vibe: 'good', tags: ['ai'] });
+    expect(matchingCounts()).toEqual({ ...before, validated: before.validated + 1 });
+  });
+
+  it.each([
+    ['fenced JSON', '```json\n{"vibe":"good","tags":[]}\n```'],
+    ['prose around the object', 'Here is the analysis: {"vibe":"good","tags":[]} Hope it helps'],
+    ['trailing commas', '{"vibe":"good","tags":[],}'],
+    ['fields the lenient schema cleans up', '{"vibe":"good","tags":"none"}'],
+  ])('repairs %s and counts the repair', (_label, content) => {
+    const before = matchingCounts();
+
+    expect(parse(content)).toEqual({ vibe: 'good', tags: [] });
+    expect(matchingCounts()).toEqual({ ...before, repaired: before.repaired + 1 });
+  });
+
+  it('still rejects output the repair path cannot fix', () => {
+    expect(() => parse('{"vibe":"good","tags":[')).toThrow(SyntaxError);
+    expect(() => parse('["good"]')).toThrow(ExternalAPIError);
+    expect(() => parse('{"vibe":"meh","tags":[]}')).toThrow(ZodError);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Parsing of model output against its structured output contract
+ * Responses are validated as-is first; anything that fails goes through the repair path
+ * (code fences, surrounding prose, trailing commas, lenient schemas) and is counted
+ */
+
+import type { z } from 'zod';
+import { ValidationError, ExternalAPIError } from '@/shared/lib/errors';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('ModelOutput');
+
+const MAX_CONTENT_SIZE = 50000; // 50KB limit
+
+/**
+ * Output contracts (see schemas/response-format.schema.ts)
+ */
+export type OutputContract = 'profile' | 'matching';
+
+// Parsed responses per contract since this server instance started (admin dashboard)
+const outputStats = {
+  since: Date.now(),
+  byContract: {} as Partial<Record<OutputContract, { validated: number; repaired: number }>>,
+};
+
+/**
+ * Parse model output, validating against the contract and repairing when it doesn't hold
+ * @param content - Raw message content from the API
+ * @param contract - Contract the response was requested with
+ * @param contractSchema - Strict schema of the contract
+ * @param repair - Lenient validation for repaired output
+ * @returns Validated output
+ * @throws {ValidationError} If the content is too large
+ * @throws {SyntaxError} If the content is not JSON even after repair
+ * @throws {ExternalAPIError} If the content is not a JSON object
+ * @throws {ZodError} If the repaired output still doesn't validate
+ */
+export function parseModelOutput<T>(
+  content: string,
+  contract: OutputContract,
+  contractSchema: z.ZodType<T>,
+  repair: (parsed: Record<string, unknown>) => T
+): T {
+  if (content.length > MAX_CONTENT_SIZE) {
+    throw new ValidationError(`Response content too large: ${content.length} bytes`, {
+      field: 'response',
+      value: content.length,
+    });
+  }
+
+  const stats = (outputStats.byContract[contract] ??= { validated: 0, repaired: 0 });
+
+  const validated = contractSchema.safeParse(tryParseJson(content));
+  if (validated.success) {
+    stats.validated++;
+    return validated.data;
+  }
+
+  stats.repaired++;
+  logger.warn(
+    { contract, issues: validated.error.issues.slice(0, 5).map((issue) => issue.message) },
+    'Model output does not match its contract, repairing'
+  );
+
+  const parsed = repairJson(content);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ExternalAPIError('Grok API', 'Response must be a JSON object');
+  }
+
+  return repair(parsed as Record<string, unknown>);
+}
+
+/**
+ * Get contract validation counts per contract for this server instance
+ * @returns Validated and repaired responses per contract and when counting started
+ */
+export function getModelOutputStats(): {
+  since: number;
+  byContract: Partial<Record<OutputContract, { validated: number; repaired: number }>>;
+} {
+  return {
+    since: outputStats.since,
+    byContract: Object.fromEntries(
+      Object.entries(outputStats.byContract).map(([contract, counts]) => [contract, { ...counts }])
+    ),
+  };
+}
+
+function tryParseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Recover JSON from free-form output: markdown fences, prose around the object, trailing commas
+ * @throws {SyntaxError} If nothing parseable is left (e.g. truncated output)
+ */
+function repairJson(content: string): unknown {
+  const parsed = tryParseJson(content);
+  if (parsed !== undefined) {
+    return parsed;
+  }
+
+  let candidate = content.trim();
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)\s*```/i.exec(candidate);
+  if (fenced) {
+    candidate = fenced[1];
+  }
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidate = candidate.slice(start, end + 1);
+  }
+
+  return JSON.parse(candidate.replace(/,(\s*[}\]])/g, '$1'));
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { ZodError } from 'zod';
+import { ExternalAPIError, ValidationError } from '@/shared/lib/errors';
+import { ProfileTransformer } from './profile.transformer';
+import { makeProfile, uniformDimensions } from '../../test-utils/profiles';
+
+const transformer = new ProfileTransformer();
+
+/**
+ * Serialize a valid profile with fields overridden the way Grok tends to mangle them
+ */
+function profileJson(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({ ...makeProfile('alice', uniformDimensions(0.5)), ...overrides });
+}
+
+function parseProfile(content: string) {
+  const result = transformer.parseProfileResponse(content);
+  if (!result.success) {
+    throw new Error(`Expected a profile, got error "${result.error.error}"`);
+  }
+  return result.data;
+}
+
+describe('ProfileTransformer.parseProfileResponse', () => {
+  it('parses a well-formed profile', () => {
+    const profile = parseProfile(profileJson());
+
+    expect(profile.username).toBe('alice');
+    expect(profile.contentStyle.humorRating).toBe(0.5);
+  });
+
+  it('returns an error result for Grok error objects', () => {
+    const result = transformer.parseProfileResponse(
+      JSON.stringify({ error: 'User not found', username: 'ghost' })
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: { error: 'User not found', username: 'ghost' },
+    });
+  });
+
+  it('treats an "error" field without a username as a malformed profile', () => {
+    expect(() => transformer.parseProfileResponse(JSON.stringify({ error: 'oops' }))).toThrow(
+      ZodError
+    );
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['null', null],
+    ['"none"', 'none'],
+    ['an empty string', ''],
+    ['"[]"', '[]'],
+    ['a non-JSON string', 'see x.com'],
+    ['a list of strings', ['none', '']],
+    ['a number', 3],
+  ])('normalizes %s citations to null', (_label, citations) => {
+    const profile = parseProfile(profileJson({ citations }));
+    expect(profile.citations ?? null).toBeNull();
+  });
+
+  it('keeps citation objects and drops junk entries', () => {
+    const citation = { url: 'https://x.com/alice/status/1', text: 'hello' };
+    const profile = parseProfile(profileJson({ citations: [citation, 'none', null, [1]] }));
+
+    expect(profile.citations).toEqual([citation]);
+  });
+
+  it('parses citations sent as a JSON string', () => {
+    const citation = { id: 1, source: 'x' };
+    const profile = parseProfile(profileJson({ citations: JSON.stringify([citation]) }));
+
+    expect(profile.citations).toEqual([citation]);
+  });
+
+  it('strips unknown fields', () => {
+    const profile = parseProfile(profileJson({ accountAge: '5 years' }));
+    expect(profile).not.toHaveProperty('accountAge');
+  });
+
+  it('rejects ratings outside 0-1', () => {
+    const profile = makeProfile('alice', { humorRating: 1.4 });
+    expect(() => transformer.parseProfileResponse(JSON.stringify(profile))).toThrow(ZodError);
+  });
+
+  it('rejects unknown enum values', () => {
+    const profile = makeProfile('alice');
+    const content = JSON.stringify({
+      ...profile,
+      contentStyle: { ...profile.contentStyle, tone: 'chaotic' },
+    });
+
+    expect(() => transformer.parseProfileResponse(content)).toThrow(ZodError);
+  });
+
+  it.each([
+    ['an array', '[{"username":"alice"}]'],
+    ['a string', '"alice"'],
+    ['null', 'null'],
+  ])('rejects %s as ExternalAPIError', (_label, content) => {
+    expect(() => transformer.parseProfileResponse(content)).toThrow(ExternalAPIError);
+  });
+
+  it('rejects oversized content before parsing', () => {
+    const content = profileJson({ notableTraits: ['x'.repeat(50_000)] });
+    expect(() => transformer.parseProfileResponse(content)).toThrow(ValidationError);
+  });
+
+  it('repairs fenced JSON but not truncated JSON', () => {
+    expect(parseProfile(`\`\`\`json\n${profileJson()}\n\`\`\``).username).toBe('alice');
+    expect(() =>
+      transformer.parseProfileResponse('{"username": "alice", "contentStyle": {')
+    ).toThrow(SyntaxError);
+  });
+});
+
+describe('ProfileTransformer.normalizeProfile', () => {
+  it('strips the @ prefix and collapses empty values to null', () => {
+    const profile = transformer.normalizeProfile({
+      ...makeProfile('@Alice'),
+      displayName: '',
+      topTopics: null,
+    });
+
+    expect(profile.username).toBe('Alice');
+    expect(profile.displayName).toBeNull();
+    expect(profile.topTopics).toBeNull();
+  });
+
+  it('clamps confidence scores into 0-100', () => {
+    const profile = transformer.normalizeProfile({
+      ...makeProfile('alice'),
+      searchConfidence: 140,
+      dataCompleteness: -5,
+    });
+
+    expect(profile.searchConfidence).toBe(100);
+    expect(profile.dataCompleteness).toBe(0);
+  });
+});
+
+describe('ProfileTransformer.calculateProfileQuality', () => {
+  it('averages confidence, completeness and the tweet / topic bonuses', () => {
+    const profile = {
+      ...makeProfile('alice'),
+      recentTweets: Array.from({ length: 5 }, (_, i) => ({ text: `tweet ${i}` })),
+      topTopics: ['AI', 'music'],
+    };
+
+    // (80 + 80 + 10 + 10) / 4
+    expect(transformer.calculateProfileQuality(profile)).toBe(45);
+    expect(transformer.calculateProfileQuality(makeProfile('alice'))).toBe(80);
+  });
+});
@@ -3,9 +3,13 @@
  * Handles validation and transformation of profile responses
  */
 
-import { userProfileSchema, userProfileErrorSchema } from '../../schemas/profile.schema';
+import {
+  userProfileSchema,
+  userProfileErrorSchema,
+  profileFetchOutputSchema,
+} from '../../schemas/profile.schema';
 import type { UserProfile, UserProfileError } from '../../types';
-import { ValidationError, ExternalAPIError } from '@/shared/lib/errors';
+import { parseModelOutput } from './model-output';
 
 /**
  * Result type for profile parsing
@@ -20,27 +24,27 @@ export type ProfileParseResult =
 export class ProfileTransformer {
   /**
    * Parse and validate profile data from API response content
+   * Output that breaks the profile contract is repaired (e.g. citations sent as "none")
    * @param content - Raw JSON string from API
    * @returns Parsed profile or error result
    * @throws {Error} If JSON parsing fails
    */
   parseProfileResponse(content: string): ProfileParseResult {
-    const parsed = this.parseJsonSafely(content);
+    const parsed = parseModelOutput(content, 'profile', profileFetchOutputSchema, (raw) =>
+      this.isErrorResponse(raw) ? userProfileErrorSchema.parse(raw) : userProfileSchema.parse(raw)
+    );
 
     // Check if it's an error response
-    if (this.isErrorResponse(parsed)) {
-      const errorData = userProfileErrorSchema.parse(parsed);
+    if ('error' in parsed) {
       return {
         success: false,
-        error: errorData,
+        error: parsed,
       };
     }
 
-    // Validate and return profile
-    const profile = userProfileSchema.parse(parsed);
     return {
       success: true,
-      data: profile,
+      data: parsed,
     };
   }
 
@@ -76,34 +80,6 @@ export class ProfileTransformer {
     );
   }
 
-  /**
-   * Safely parse JSON with size validation
-   * @param content - JSON string to parse
-   * @returns Parsed object
-   * @throws {Error} If content is too large or invalid
-   */
-  private parseJsonSafely(content: string): Record<string, unknown> {
-    const MAX_CONTENT_SIZE = 50000; // 50KB limit
-
-    // Check content size
-    if (content.length > MAX_CONTENT_SIZE) {
-      throw new ValidationError(`Response content too large: ${content.length} bytes`, {
-        field: 'response',
-        value: content.length,
-      });
-    }
-
-    // Parse JSON
-    const parsed = JSON.parse(content);
-
-    // Validate structure
-    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-      throw new ExternalAPIError('Grok API', 'Response must be a JSON object');
-    }
-
-    return parsed as Record<string, unknown>;
-  }
-
   /**
    * Extract username from profile or error response
    * @param data - Profile or error data
@@ -0,0 +1,158 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ZodError } from 'zod';
+import { ExternalAPIError } from '@/shared/lib/errors';
+import { GrokFixtureStore } from '../llm/fixture-store';
+import { ProfileTransformer } from './profile.transformer';
+import { ResultTransformer } from './result.transformer';
+import { makeProfile, uniformDimensions } from '../../test-utils/profiles';
+import type { UserProfile } from '../../types';
+
+const transformer = new ResultTransformer();
+const profileTransformer = new ProfileTransformer();
+
+const GOLDEN_DIR = path.join(process.cwd(), 'fixtures/golden');
+const fixtures = new GrokFixtureStore('fixtures/grok');
+
+/**
+ * Expected output for a recorded pair - regenerate deliberately when the scoring engine changes
+ */
+interface GoldenResult {
+  userOne: string;
+  userTwo: string;
+  score: number;
+  scoreRange: { low: number; high: number };
+  scoreSuppressed: boolean;
+  vibeType: string;
+  sharedInterests: string[];
+  sourcesUsed: number;
+  comparedDimensions: string[];
+  categoryScores: Record<string, number>;
+  topMatches: string[];
+  topClashes: string[];
+}
+
+async function loadContent(operation: string, username: string): Promise<string> {
+  const response = await fixtures.load(operation, username);
+  if (!response) {
+    throw new Error(`Missing ${operation} fixture for ${username}`);
+  }
+  return response.choices[0].message.content;
+}
+
+async function loadProfile(username: string): Promise<UserProfile> {
+  const result = profileTransformer.parseProfileResponse(
+    await loadContent('fetchProfile', username)
+  );
+  if (!result.success) {
+    throw new Error(`Fixture for ${username} is an error response`);
+  }
+  return profileTransformer.normalizeProfile(result.data);
+}
+
+const MATCH_JSON = {
+  analysis: 'They get along.',
+  vibeType: 'complementary',
+  recommendation: 'Talk about music.',
+  metadata: { userOne: 'alice', userTwo: 'bob', timestamp: '2025-01-01T00:00:00Z' },
+};
+
+describe('ResultTransformer.parseMatchingResult', () => {
+  it('defaults missing lists to empty arrays', () => {
+    const result = transformer.parseMatchingResult(JSON.stringify(MATCH_JSON));
+
+    expect(result.strengths).toEqual([]);
+    expect(result.challenges).toEqual([]);
+    expect(result.sharedInterests).toEqual([]);
+    expect(result.dimensionAnalysis).toBeUndefined();
+  });
+
+  it('rejects unknown vibe types and empty analyses', () => {
+    expect(() =>
+      transformer.parseMatchingResult(JSON.stringify({ ...MATCH_JSON, vibeType: 'soulmates' }))
+    ).toThrow(ZodError);
+    expect(() =>
+      transformer.parseMatchingResult(JSON.stringify({ ...MATCH_JSON, analysis: '' }))
+    ).toThrow(ZodError);
+  });
+
+  it('rejects non-object payloads', () => {
+    expect(() => transformer.parseMatchingResult('[]')).toThrow(ExternalAPIError);
+  });
+});
+
+describe('ResultTransformer.transformToVibeResult', () => {
+  it('uses the calculated score and server time instead of the model metadata', () => {
+    const matching = transformer.parseMatchingResult(
+      JSON.stringify({ ...MATCH_JSON, metadata: { ...MATCH_JSON.metadata, timestamp: 'soon' } })
+    );
+    const result = transformer.transformToVibeResult(
+      matching,
+      makeProfile('alice', uniformDimensions(0.5)),
+      makeProfile('bob', uniformDimensions(0.5))
+    );
+
+    expect(Number.isNaN(Date.parse(result.metadata.timestamp))).toBe(false);
+    expect(result.metadata.dimensionBreakdown).toHaveLength(15);
+    expect(transformer.validateResult(result)).toBe(true);
+  });
+});
+
+describe('ResultTransformer.buildCalculatedResult', () => {
+  it('derives the narrative and vibe type from the breakdown', () => {
+    const one = { ...makeProfile('alice', uniformDimensions(0.6)), topTopics: ['AI', 'Music'] };
+    const two = { ...makeProfile('bob', uniformDimensions(0.6)), topTopics: ['music', 'golf'] };
+    const result = transformer.buildCalculatedResult(one, two);
+
+    expect(result.analysis).toContain('@alice');
+    expect(result.analysis).toContain('@bob');
+    expect(result.sharedInterests).toEqual(['Music']);
+    expect(result.strengths.length).toBeGreaterThan(0);
+    expect(transformer.validateResult(result)).toBe(true);
+  });
+
+  it('explains when there is nothing to compare', () => {
+    const result = transformer.buildCalculatedResult(makeProfile('alice'), makeProfile('bob'));
+
+    expect(result.analysis).toContain('not enough profile data');
+    expect(result.strengths).toEqual([]);
+    expect(result.recommendation).toBeUndefined();
+  });
+});
+
+describe('golden results', () => {
+  const goldenFiles = readdirSync(GOLDEN_DIR).filter((file) => file.endsWith('.json'));
+
+  it('has golden files to check', () => {
+    expect(goldenFiles.length).toBeGreaterThan(0);
+  });
+
+  it.each(goldenFiles)('%s matches the recorded pair', async (file) => {
+    const golden = JSON.parse(readFileSync(path.join(GOLDEN_DIR, file), 'utf8')) as GoldenResult;
+
+    const [profileOne, profileTwo] = await Promise.all([
+      loadProfile(golden.userOne),
+      loadProfile(golden.userTwo),
+    ]);
+    const matching = transformer.parseMatchingResult(
+      await loadContent('matchVibe', `${golden.userOne},${golden.userTwo}`)
+    );
+    const result = transformer.transformToVibeResult(matching, profileOne, profileTwo);
+
+    expect({
+      userOne: result.metadata.userOne,
+      userTwo: result.metadata.userTwo,
+      score: result.score,
+      scoreRange: result.metadata.scoreRange,
+      scoreSuppressed: result.metadata.scoreSuppressed,
+      vibeType: result.vibeType,
+      sharedInterests: result.sharedInterests,
+      sourcesUsed: result.metadata.sourcesUsed,
+      comparedDimensions: result.metadata.dimensionBreakdown?.map((d) => d.dimension),
+      categoryScores: result.metadata.categoryScores,
+      topMatches: result.metadata.topMatches,
+      topClashes: result.metadata.topClashes,
+    }).toEqual(golden);
+  });
+});
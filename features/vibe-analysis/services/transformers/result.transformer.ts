@@ -6,8 +6,11 @@
 import { matchingResultSchema } from '../../schemas/profile.schema';
 import type { VibeAnalysisResult, UserProfile } from '../../types';
 import type { MatchingResult } from '../../schemas/profile.schema';
-import { ValidationError, ExternalAPIError } from '@/shared/lib/errors';
+import { parseModelOutput } from './model-output';
 import { compatibilityCalculator } from '../../lib/compatibility-calculator';
+import type { DimensionComparison } from '../../lib/types';
+import { DIMENSION_LABELS } from '../../config/vibe-constants';
+import { DEFAULT_SCORING_PRESET, type ScoringPresetId } from '../../config/scoring-presets';
 
 /**
  * Transforms and validates vibe analysis results
@@ -20,8 +23,10 @@ export class ResultTransformer {
    * @throws {Error} If parsing or validation fails
    */
   parseMatchingResult(content: string): MatchingResult {
-    const parsed = this.parseJsonSafely(content);
-    return matchingResultSchema.parse(parsed);
+    // The matching contract has no lenient variant - repair only recovers the JSON itself
+    return parseModelOutput(content, 'matching', matchingResultSchema, (parsed) =>
+      matchingResultSchema.parse(parsed)
+    );
   }
 
   /**
@@ -29,18 +34,18 @@ export class ResultTransformer {
    * @param matchingResult - Result from matching operation
    * @param profileOne - First user's profile
    * @param profileTwo - Second user's profile
+   * @param scoringPreset - Scoring preset for the calculated score
    * @returns Transformed vibe analysis result
    */
   transformToVibeResult(
     matchingResult: MatchingResult,
     profileOne: UserProfile,
-    profileTwo: UserProfile
+    profileTwo: UserProfile,
+    scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET
   ): VibeAnalysisResult {
     // Calculate compatibility score from personality dimensions
-    const { score, breakdown, categoryScores } = compatibilityCalculator.calculateScore(
-      profileOne,
-      profileTwo
-    );
+    const { score, breakdown, categoryScores, scoreRange, suppressed } =
+      compatibilityCalculator.calculateScore(profileOne, profileTwo, scoringPreset);
 
     // Get top matches and clashes for additional context
     const { topMatches, topClashes } = compatibilityCalculator.getTopMatches(breakdown, 3);
@@ -53,11 +58,83 @@ export class ResultTransformer {
       sharedInterests: matchingResult.sharedInterests,
       vibeType: matchingResult.vibeType,
       recommendation: matchingResult.recommendation,
+      dimensionAnalysis: matchingResult.dimensionAnalysis,
       metadata: {
         userOne: profileOne.username,
         userTwo: profileTwo.username,
         sourcesUsed: this.calculateSourcesUsed(profileOne, profileTwo),
-        timestamp: matchingResult.metadata.timestamp,
+        timestamp: new Date().toISOString(), // Server time - the model's own timestamp isn't reliable
+        scoringPreset,
+        scoreRange,
+        scoreSuppressed: suppressed,
+        dimensionBreakdown: breakdown,
+        categoryScores,
+        topMatches: topMatches.map((d) => d.dimension),
+        topClashes: topClashes.map((d) => d.dimension),
+      },
+    };
+  }
+
+  /**
+   * Build a vibe result purely from the compatibility calculator (no MATCH_VIBE call)
+   * Used by quick analysis - the narrative is derived from the dimension breakdown
+   * @param profileOne - First user's profile
+   * @param profileTwo - Second user's profile
+   * @param scoringPreset - Scoring preset for the calculated score
+   * @returns Vibe analysis result with a calculator-generated narrative
+   */
+  buildCalculatedResult(
+    profileOne: UserProfile,
+    profileTwo: UserProfile,
+    scoringPreset: ScoringPresetId = DEFAULT_SCORING_PRESET
+  ): VibeAnalysisResult {
+    const { score, breakdown, categoryScores, scoreRange, suppressed } =
+      compatibilityCalculator.calculateScore(profileOne, profileTwo, scoringPreset);
+    const { topMatches, topClashes } = compatibilityCalculator.getTopMatches(breakdown, 3);
+
+    // Only call out dimensions that are clearly aligned or clearly apart
+    const alignments = topMatches.filter((d) => d.score >= 0.6);
+    const clashes = topClashes.filter((d) => d.score < 0.6);
+
+    const userOne = `@${profileOne.username}`;
+    const userTwo = `@${profileTwo.username}`;
+    const interpretation = compatibilityCalculator.getScoreInterpretation(score);
+
+    let analysis = `${interpretation} between ${userOne} and ${userTwo}.`;
+    if (suppressed) {
+      analysis += ' There was not enough profile data to compare their personality dimensions.';
+    } else {
+      if (alignments.length > 0) {
+        analysis += ` They line up best on ${this.formatDimensionList(alignments)}.`;
+      }
+      if (clashes.length > 0) {
+        analysis += ` ${this.formatDimensionList(clashes, true)} is where their styles pull apart.`;
+      }
+    }
+
+    const recommendation =
+      alignments.length > 0 && clashes.length > 0
+        ? `Start with ${this.getLabel(alignments[0]).toLowerCase()} and give each other room on ${this.getLabel(clashes[0]).toLowerCase()}.`
+        : alignments.length > 0
+          ? `Lean into ${this.getLabel(alignments[0]).toLowerCase()} - it is your strongest common ground.`
+          : undefined;
+
+    return {
+      score,
+      analysis,
+      strengths: alignments.map((d) => this.describeDimension(d)),
+      challenges: clashes.map((d) => this.describeDimension(d)),
+      sharedInterests: this.findSharedTopics(profileOne, profileTwo),
+      vibeType: this.getVibeTypeForScore(score),
+      recommendation,
+      metadata: {
+        userOne: profileOne.username,
+        userTwo: profileTwo.username,
+        sourcesUsed: this.calculateSourcesUsed(profileOne, profileTwo),
+        timestamp: new Date().toISOString(),
+        scoringPreset,
+        scoreRange,
+        scoreSuppressed: suppressed,
         dimensionBreakdown: breakdown,
         categoryScores,
         topMatches: topMatches.map((d) => d.dimension),
@@ -127,28 +204,62 @@ export class ResultTransformer {
   }
 
   /**
-   * Safely parse JSON with validation
-   * @param content - JSON string to parse
-   * @returns Parsed object
-   * @throws {Error} If parsing fails or content is invalid
+   * Get the display label for a dimension comparison
    */
-  private parseJsonSafely(content: string): Record<string, unknown> {
-    const MAX_CONTENT_SIZE = 50000; // 50KB limit
-
-    if (content.length > MAX_CONTENT_SIZE) {
-      throw new ValidationError(`Response content too large: ${content.length} bytes`, {
-        field: 'response',
-        value: content.length,
-      });
-    }
+  private getLabel(comparison: DimensionComparison): string {
+    return DIMENSION_LABELS[comparison.dimension] ?? comparison.dimension;
+  }
+
+  /**
+   * Join dimension labels into a readable list ("A, B and C")
+   */
+  private formatDimensionList(comparisons: DimensionComparison[], capitalize = false): string {
+    const labels = comparisons.map((d) => this.getLabel(d).toLowerCase());
+    const list =
+      labels.length > 1
+        ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`
+        : labels[0];
+
+    return capitalize ? list.charAt(0).toUpperCase() + list.slice(1) : list;
+  }
 
-    const parsed = JSON.parse(content);
+  /**
+   * Describe a single dimension comparison with both users' values
+   */
+  private describeDimension(comparison: DimensionComparison): string {
+    const toPercent = (value: number | null) => `${Math.round((value ?? 0) * 100)}%`;
+    const values = `${toPercent(comparison.user1Value)} vs ${toPercent(comparison.user2Value)}`;
+    const label = this.getLabel(comparison).toLowerCase();
 
-    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-      throw new ExternalAPIError('Grok API', 'Response must be a JSON object');
+    if (comparison.difference <= 0.2) {
+      return `Similar ${label} (${values})`;
     }
 
-    return parsed as Record<string, unknown>;
+    return comparison.score >= 0.6
+      ? `Complementary ${label} (${values})`
+      : `Different ${label} levels (${values})`;
+  }
+
+  /**
+   * Find topics both users talk about (case-insensitive)
+   */
+  private findSharedTopics(profileOne: UserProfile, profileTwo: UserProfile): string[] {
+    const topicsTwo = new Set((profileTwo.topTopics ?? []).map((topic) => topic.toLowerCase()));
+
+    return (profileOne.topTopics ?? [])
+      .filter((topic) => topicsTwo.has(topic.toLowerCase()))
+      .slice(0, 3);
+  }
+
+  /**
+   * Map a calculated score to a vibe type
+   */
+  private getVibeTypeForScore(score: number): NonNullable<VibeAnalysisResult['vibeType']> {
+    if (score >= 85) return 'perfect_match';
+    if (score >= 65) return 'complementary';
+    if (score >= 45) return 'growth';
+    if (score >= 25) return 'challenging';
+    return 'incompatible';
   }
 
   /**
@@ -164,7 +275,7 @@ export class ResultTransformer {
     profileTwo: UserProfile
   ): VibeAnalysisResult {
     // Add profile quality to metadata
-    const enhancedMetadata = {
+    const enhancedMetadata: VibeAnalysisResult['metadata'] = {
       ...result.metadata,
       profileQuality: {
         userOne: {
@@ -180,7 +291,41 @@ export class ResultTransformer {
 
     return {
       ...result,
-      metadata: enhancedMetadata as typeof result.metadata,
+      metadata: enhancedMetadata,
+    };
+  }
+
+  /**
+   * Put a result in the caller's user order
+   * Results shared between requests for the same pair may have the users the other way round
+   * @param result - Result in either order
+   * @param userOne - Username the caller asked for first
+   * @returns Result with userOne first
+   */
+  orientResult(result: VibeAnalysisResult, userOne: string): VibeAnalysisResult {
+    if (result.metadata.userOne.toLowerCase() === userOne.toLowerCase()) {
+      return result;
+    }
+
+    const { metadata, profiles } = result;
+
+    return {
+      ...result,
+      profiles: profiles && { user1: profiles.user2, user2: profiles.user1 },
+      metadata: {
+        ...metadata,
+        userOne: metadata.userTwo,
+        userTwo: metadata.userOne,
+        dimensionBreakdown: metadata.dimensionBreakdown?.map((comparison) => ({
+          ...comparison,
+          user1Value: comparison.user2Value,
+          user2Value: comparison.user1Value,
+        })),
+        profileQuality: metadata.profileQuality && {
+          userOne: metadata.profileQuality.userTwo,
+          userTwo: metadata.profileQuality.userOne,
+        },
+      },
     };
   }
 
@@ -0,0 +1,64 @@
+/**
+ * Profile builders and fast-check arbitraries shared by the vibe-analysis tests
+ */
+
+import fc from 'fast-check';
+import { PERSONALITY_DIMENSIONS, type PersonalityDimension } from '../lib/dimension-vector';
+import type { UserProfile } from '../types';
+
+export type DimensionValues = Partial<Record<PersonalityDimension, number | null>>;
+
+/**
+ * Build a valid profile; dimensions not given are null
+ */
+export function makeProfile(username: string, dimensions: DimensionValues = {}): UserProfile {
+  const ratings = Object.fromEntries(
+    PERSONALITY_DIMENSIONS.map((dimension) => [dimension, dimensions[dimension] ?? null])
+  ) as Record<PersonalityDimension, number | null>;
+
+  return {
+    username,
+    displayName: null,
+    recentTweets: null,
+    contentStyle: {
+      primaryContentType: null,
+      humorStyle: null,
+      tone: null,
+      usesEmojis: null,
+      formality: null,
+      ...ratings,
+    },
+    topTopics: null,
+    notableTraits: null,
+    searchConfidence: 80,
+    dataCompleteness: 80,
+  };
+}
+
+/**
+ * Same rating on every dimension
+ */
+export function uniformDimensions(value: number): DimensionValues {
+  return Object.fromEntries(PERSONALITY_DIMENSIONS.map((dimension) => [dimension, value]));
+}
+
+export const ratingArbitrary = fc.double({ min: 0, max: 1, noNaN: true });
+
+/**
+ * All 15 dimensions rated
+ */
+export const fullDimensionsArbitrary: fc.Arbitrary<Record<PersonalityDimension, number>> =
+  fc.record(
+    Object.fromEntries(
+      PERSONALITY_DIMENSIONS.map((dimension) => [dimension, ratingArbitrary])
+    ) as Record<PersonalityDimension, fc.Arbitrary<number>>
+  );
+
+/**
+ * Any mix of rated and null dimensions
+ */
+export const sparseDimensionsArbitrary: fc.Arbitrary<DimensionValues> = fc.record(
+  Object.fromEntries(
+    PERSONALITY_DIMENSIONS.map((dimension) => [dimension, fc.option(ratingArbitrary)])
+  ) as Record<PersonalityDimension, fc.Arbitrary<number | null>>
+);
@@ -5,15 +5,22 @@
 
 // Import types from Zod schemas (single source of truth)
 import type { UserProfile } from '../schemas/profile.schema';
+import type { AnalysisDepth } from '../config/vibe-constants';
+import type { ScoringPresetId } from '../config/scoring-presets';
+import type { DimensionComparison, ScoreRange } from '../lib/types';
 export type { UserProfile, UserProfileError, MatchingResult } from '../schemas/profile.schema';
 
 // Request type - requires two users
 export interface VibeAnalysisRequest {
   userOne: string;
   userTwo: string;
-  analysisDepth?: 'quick' | 'standard' | 'deep';
+  analysisDepth?: AnalysisDepth;
+  scoringPreset?: ScoringPresetId;
 }
 
+// Why a stale result was served instead of a fresh analysis
+export type StaleReason = 'circuit_open' | 'credits_exhausted' | 'budget_exceeded';
+
 // Result type - compatibility analysis only
 export interface VibeAnalysisResult {
   score: number; // -1 for error, 0-100 for compatibility score
@@ -23,20 +30,173 @@ export interface VibeAnalysisResult {
   sharedInterests: string[]; // Common interests
   vibeType?: 'perfect_match' | 'complementary' | 'growth' | 'challenging' | 'incompatible'; // Optional vibe category
   recommendation?: string; // Optional interaction advice
+  dimensionAnalysis?: Record<string, string>; // Per-dimension commentary (deep analysis)
   profiles?: {
     user1: UserProfile;
     user2: UserProfile;
   };
+  stale?: boolean; // Served from expired cache because Grok is unavailable
+  staleAgeSeconds?: number; // Age of the oldest expired data the result was built from
+  staleReason?: StaleReason;
   metadata: {
     userOne: string;
     userTwo: string;
     sourcesUsed: number; // Number of X posts analyzed
     timestamp: string;
     modelUsed?: string; // AI model used for analysis
-    dimensionBreakdown?: any; // Detailed dimension analysis
+    analysisDepth?: AnalysisDepth; // Pipeline depth that produced this result
+    scoringPreset?: ScoringPresetId; // Scoring preset the score was calculated with
+    promptVersion?: string; // Matching prompt that produced the narrative (config/prompt-registry.ts)
+    scoreRange?: ScoreRange; // Uncertainty range of the score (SCORE_CONFIDENCE)
+    scoreSuppressed?: boolean; // Too few dimensions compared to show the score
+    dimensionBreakdown?: DimensionComparison[]; // Detailed dimension analysis
     categoryScores?: Record<string, number>; // Category scores
     topMatches?: string[]; // Top matching dimensions
     topClashes?: string[]; // Top clashing dimensions
+    profileQuality?: {
+      userOne: { confidence: number; completeness: number };
+      userTwo: { confidence: number; completeness: number };
+    };
+  };
+}
+
+// Single profile (GET /api/vibe/profile/[username])
+export interface UserProfileResult {
+  profile: UserProfile;
+  stale?: boolean; // Served from expired cache because Grok is unavailable
+  staleReason?: StaleReason;
+}
+
+// Data behind the Open Graph share card of a pair (from the cached match)
+export interface VibeShareCard {
+  userOne: string;
+  userTwo: string;
+  score: number;
+  scoreRange?: ScoreRange;
+  scoreSuppressed?: boolean;
+  vibeType?: VibeAnalysisResult['vibeType'];
+  topMatches: string[]; // Dimension labels
+  topClashes: string[]; // Dimension labels
+}
+
+// oEmbed response for a vibe result URL (GET /api/oembed)
+export interface VibeOEmbed {
+  version: '1.0';
+  type: 'rich';
+  title: string;
+  provider_name: string;
+  provider_url: string;
+  html: string;
+  width: number;
+  height: number;
+  thumbnail_url: string;
+  thumbnail_width: number;
+  thumbnail_height: number;
+  cache_age: number;
+}
+
+// Background analysis job (POST /api/vibe/jobs)
+export type AnalysisJobStatus = 'queued' | 'fetching_profiles' | 'matching' | 'done' | 'failed';
+
+export interface AnalysisJobError {
+  code: string; // Same code the analyze API responds with (e.g. USER_NOT_FOUND, CREDIT_EXHAUSTION)
+  message: string;
+  status: number; // HTTP status the analyze API responds with
+  username?: string; // Set for USER_NOT_FOUND and INSUFFICIENT_DATA
+}
+
+export interface AnalysisJob {
+  jobId: string;
+  status: AnalysisJobStatus;
+  result?: VibeAnalysisResult; // Set when done
+  error?: AnalysisJobError; // Set when failed
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Real pipeline stage events emitted while an analysis runs (streamed to the client via SSE)
+export type AnalysisProgressEvent =
+  | { type: 'match_cache'; hit: boolean }
+  | { type: 'profile_cache'; username: string; hit: boolean }
+  | { type: 'profile_fetch_started'; username: string }
+  | { type: 'profile_fetch_finished'; username: string }
+  | {
+      type: 'retry';
+      operation: string;
+      attempt: number;
+      retriesLeft: number;
+      delayMs?: number; // Server-requested delay (Retry-After) if any
+      username?: string;
+    }
+  | { type: 'circuit_breaker'; state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' }
+  | { type: 'matching_started' }
+  | { type: 'consistency_check_started' }
+  | { type: 'stale_fallback'; reason: StaleReason }
+  | { type: 'analysis_shared' } // Joined an identical analysis already running
+  | { type: 'job_status'; status: AnalysisJobStatus } // Client-side, while waiting on a background job
+  | { type: 'score_computed'; score: number };
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
+
+// Group request type - 3 to 10 users
+export interface VibeGroupRequest {
+  usernames: string[];
+}
+
+// Score for a single pair within a group
+export interface GroupPairScore {
+  userOne: string;
+  userTwo: string;
+  score: number;
+  scoreSuppressed: boolean; // Too few dimensions compared to show the score
+  categoryScores: Record<string, number>;
+  topMatches: string[];
+  topClashes: string[];
+  // Grok narrative - only present for the top pairs
+  narrative?: Pick<
+    VibeAnalysisResult,
+    'analysis' | 'strengths' | 'challenges' | 'sharedInterests' | 'vibeType' | 'recommendation'
+  >;
+}
+
+// Group member summary (average score against everyone else)
+export interface GroupMemberScore {
+  username: string;
+  averageScore: number;
+}
+
+// Group result type - pairwise matrix plus group-level insights
+export interface VibeGroupResult {
+  members: string[]; // Row/column order of the matrix
+  matrix: Array<Array<number | null>>; // Pair scores, null on the diagonal and for suppressed pairs
+  pairs: GroupPairScore[]; // Scored pairs best first, then suppressed ones
+  // Insights from scored pairs only - missing (null) when no pair could be scored
+  averageScore: number | null;
+  mostCentral?: GroupMemberScore;
+  outlier?: GroupMemberScore;
+  bestPair?: GroupPairScore;
+  worstPair?: GroupPairScore;
+  metadata: {
+    timestamp: string;
+    narrativePairs: number; // Number of pairs that received a Grok narrative
+  };
+}
+
+// Ranked candidate for best-matches (scored locally, no Grok narrative)
+export interface RankedMatch {
+  username: string;
+  score: number;
+  categoryScores: Record<string, number>;
+}
+
+// Best-matches result - subject ranked against every fresh cached profile
+export interface BestMatchesResult {
+  username: string;
+  candidatesScored: number;
+  mostCompatible: RankedMatch[]; // Best first
+  leastCompatible: RankedMatch[]; // Worst first
+  metadata: {
+    timestamp: string;
   };
 }
 
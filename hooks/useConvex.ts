@@ -1,7 +1,12 @@
 'use client';
 
-import { useQuery, useMutation } from 'convex/react';
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react';
 import { api } from '@/convex/_generated/api';
+import {
+  toStoredScoringPreset,
+  type ScoringPresetId,
+} from '@/features/vibe-analysis/config/scoring-presets';
+import { USER_MATCHES } from '@/features/vibe-analysis/config/vibe-constants';
 
 // User Profile hooks
 export function useUpsertProfile() {
@@ -33,10 +38,33 @@ export function useGetFreshMatch(user1: string | undefined, user2: string | unde
   return useQuery(api.vibeMatches.getFreshMatch, user1 && user2 ? { user1, user2 } : 'skip');
 }
 
+export function useGetMatchHistory(
+  user1: string | undefined,
+  user2: string | undefined,
+  scoringPreset?: ScoringPresetId
+) {
+  return useQuery(
+    api.vibeMatches.getMatchHistory,
+    user1 && user2 ? { user1, user2, scoringPreset: toStoredScoringPreset(scoringPreset) } : 'skip'
+  );
+}
+
 export function useGetUserMatches(username: string | undefined) {
   return useQuery(api.vibeMatches.getUserMatches, username ? { username } : 'skip');
 }
 
+export function useListUserMatches(
+  username: string | undefined,
+  sort: 'score' | 'recent',
+  scoringPreset?: ScoringPresetId
+) {
+  return usePaginatedQuery(
+    api.vibeMatches.listUserMatches,
+    username ? { username, sort, scoringPreset: toStoredScoringPreset(scoringPreset) } : 'skip',
+    { initialNumItems: USER_MATCHES.PAGE_SIZE }
+  );
+}
+
 export function useGetMatchStats() {
   return useQuery(api.vibeMatches.getMatchStats);
 }
@@ -70,6 +70,8 @@ function createBuildTimeEnv(): Env {
     // Core settings with safe defaults
     NODE_ENV: (process.env.NODE_ENV || 'development') as 'development' | 'test' | 'production',
     GROK_API_KEY: 'build-time-placeholder',
+    GROK_FIXTURE_MODE: 'off' as const,
+    GROK_FIXTURE_DIR: 'fixtures/grok',
     GROK_MODEL_VERSION: 'grok-4-0709',
     GROK_MAX_TOKENS: 10000,
     LOG_LEVEL: 'info' as const,
@@ -93,8 +95,25 @@ function createBuildTimeEnv(): Env {
     GROK_RESPECT_RETRY_AFTER: true,
     GROK_RETRY_AFTER_MAX_MS: 120000,
 
+    // LLM provider defaults
+    LLM_PROFILE_PROVIDER: 'grok',
+    LLM_MATCH_PROVIDER: 'grok',
+    LLM_PROFILE_JSON_SCHEMA: false,
+    LLM_MATCH_JSON_SCHEMA: false,
+
+    // Rate limiting defaults
+    RATE_LIMIT_ENABLED: true,
+    RATE_LIMIT_WINDOW_MS: 60000,
+    RATE_LIMIT_REQUESTS: 30,
+    RATE_LIMIT_FRESH_ANALYSES: 5,
+    RATE_LIMIT_GROUP_ANALYSES: 1,
+    RATE_LIMIT_API_KEYS: [],
+    RATE_LIMIT_API_KEY_MULTIPLIER: 10,
+    RATE_LIMIT_TRUSTED_PROXIES: 1,
+
     // Vibe scoring defaults
     VIBE_AMPLIFICATION_POWER: 2.5,
+    PROFILE_MIN_EVIDENCE_SCORE: 20,
   } as Env;
 }
 
@@ -118,6 +137,34 @@ export function getGrokApiKey(): string {
   return key;
 }
 
+/**
+ * Get the x.ai base URL override
+ * @returns GROK_BASE_URL if set (e.g. the local mock server), otherwise undefined
+ */
+export function getGrokBaseUrl(): string | undefined {
+  return getEnv().GROK_BASE_URL;
+}
+
+/**
+ * Grok fixture settings
+ */
+export interface GrokFixtureConfig {
+  mode: 'off' | 'record' | 'replay';
+  dir: string;
+}
+
+/**
+ * Get Grok fixture record/replay settings
+ * @returns Fixture mode and directory
+ */
+export function getGrokFixtureConfig(): GrokFixtureConfig {
+  const environment = getEnv();
+  return {
+    mode: environment.GROK_FIXTURE_MODE,
+    dir: environment.GROK_FIXTURE_DIR,
+  };
+}
+
 /**
  * Get Grok model version
  * @returns Configured model version
@@ -134,6 +181,112 @@ export function getGrokMaxTokens(): number {
   return getEnv().GROK_MAX_TOKENS;
 }
 
+/**
+ * Provider settings for one pipeline stage
+ */
+export interface LLMStageConfig {
+  provider: 'grok' | 'openai-compatible';
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  jsonSchema: boolean; // Structured outputs on an openai-compatible endpoint
+}
+
+/**
+ * Get LLM provider settings for a pipeline stage
+ * @param stage - 'profile' (LLM_PROFILE_*) or 'match' (LLM_MATCH_*)
+ * @returns Provider, endpoint, key and model override for the stage
+ */
+export function getLLMStageConfig(stage: 'profile' | 'match'): LLMStageConfig {
+  const environment = getEnv();
+
+  if (stage === 'profile') {
+    return {
+      provider: environment.LLM_PROFILE_PROVIDER,
+      baseUrl: environment.LLM_PROFILE_BASE_URL,
+      apiKey: environment.LLM_PROFILE_API_KEY,
+      model: environment.LLM_PROFILE_MODEL,
+      jsonSchema: environment.LLM_PROFILE_JSON_SCHEMA,
+    };
+  }
+
+  return {
+    provider: environment.LLM_MATCH_PROVIDER,
+    baseUrl: environment.LLM_MATCH_BASE_URL,
+    apiKey: environment.LLM_MATCH_API_KEY,
+    model: environment.LLM_MATCH_MODEL,
+    jsonSchema: environment.LLM_MATCH_JSON_SCHEMA,
+  };
+}
+
+/**
+ * Per-client rate limit settings
+ */
+export interface RateLimitConfig {
+  enabled: boolean;
+  windowMs: number;
+  requests: number; // Every analysis request, cache hits included
+  freshAnalyses: number; // Analyses that call Grok
+  groupAnalyses: number; // Group analyses, cached or not
+  apiKeys: string[];
+  apiKeyMultiplier: number;
+  trustedProxies: number; // Proxies that append the client address to X-Forwarded-For
+}
+
+/**
+ * Get per-client rate limit settings
+ * @returns Window, limits and known API keys
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  const environment = getEnv();
+  return {
+    enabled: environment.RATE_LIMIT_ENABLED,
+    windowMs: environment.RATE_LIMIT_WINDOW_MS,
+    requests: environment.RATE_LIMIT_REQUESTS,
+    freshAnalyses: environment.RATE_LIMIT_FRESH_ANALYSES,
+    groupAnalyses: environment.RATE_LIMIT_GROUP_ANALYSES,
+    apiKeys: environment.RATE_LIMIT_API_KEYS,
+    apiKeyMultiplier: environment.RATE_LIMIT_API_KEY_MULTIPLIER,
+    trustedProxies: environment.RATE_LIMIT_TRUSTED_PROXIES,
+  };
+}
+
+/**
+ * Grok spend caps in USD (undefined = no cap)
+ */
+export interface GrokBudgetConfig {
+  daily?: number;
+  monthly?: number;
+}
+
+/**
+ * Get Grok spend caps
+ * @returns Daily and monthly caps
+ */
+export function getGrokBudgetConfig(): GrokBudgetConfig {
+  const environment = getEnv();
+  return {
+    daily: environment.GROK_DAILY_BUDGET_USD,
+    monthly: environment.GROK_MONTHLY_BUDGET_USD,
+  };
+}
+
+/**
+ * Get the secret that server-only Convex functions require
+ * @returns CONVEX_SERVER_SECRET, or undefined when not configured (those calls are rejected)
+ */
+export function getConvexServerSecret(): string | undefined {
+  return getEnv().CONVEX_SERVER_SECRET;
+}
+
+/**
+ * Get the admin dashboard token
+ * @returns ADMIN_TOKEN, or undefined when the dashboard is disabled
+ */
+export function getAdminToken(): string | undefined {
+  return getEnv().ADMIN_TOKEN;
+}
+
 /**
  * Get log level
  * @returns Configured log level
@@ -185,3 +338,11 @@ export function isTest(): boolean {
 export function getVibeAmplificationPower(): number {
   return getEnv().VIBE_AMPLIFICATION_POWER;
 }
+
+/**
+ * Get the evidence score fetched profiles need before they are scored
+ * @returns Minimum evidence score (0-100, default 20, 0 disables the check)
+ */
+export function getProfileMinEvidenceScore(): number {
+  return getEnv().PROFILE_MIN_EVIDENCE_SCORE;
+}
@@ -0,0 +1,62 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import {
+  advanceRetentionRun,
+  RETENTION_BATCH_SIZE,
+  RETENTION_MAX_BATCHES,
+  type RetentionProgress,
+} from './retention-batch';
+
+// Run the cleanup over rows past the cutoff (true = expired, false = still in use), a page per
+// batch the way the cron schedules them
+function runCleanup(rows: boolean[]) {
+  let progress: RetentionProgress = { scanned: 0, deleted: 0, batches: 0 };
+  let cursor = 0;
+  let more = true;
+
+  while (more) {
+    const page = rows.slice(cursor, cursor + RETENTION_BATCH_SIZE);
+    cursor += page.length;
+
+    ({ progress, more } = advanceRetentionRun(progress, {
+      scanned: page.length,
+      deleted: page.filter(Boolean).length,
+      isDone: cursor >= rows.length,
+    }));
+  }
+
+  return progress;
+}
+
+describe('advanceRetentionRun', () => {
+  it('keeps scheduling batches until the scan is done', () => {
+    expect(runCleanup(Array(RETENTION_BATCH_SIZE * 2 + 1).fill(true))).toEqual({
+      scanned: RETENTION_BATCH_SIZE * 2 + 1,
+      deleted: RETENTION_BATCH_SIZE * 2 + 1,
+      batches: 3,
+    });
+    expect(runCleanup([])).toEqual({ scanned: 0, deleted: 0, batches: 1 });
+  });
+
+  it('counts rows that were kept as scanned but not deleted', () => {
+    fc.assert(
+      fc.property(fc.array(fc.boolean(), { maxLength: RETENTION_BATCH_SIZE * 3 }), (rows) => {
+        const progress = runCleanup(rows);
+
+        expect(progress.scanned).toBe(rows.length);
+        expect(progress.deleted).toBe(rows.filter(Boolean).length);
+        expect(progress.batches).toBe(Math.max(1, Math.ceil(rows.length / RETENTION_BATCH_SIZE)));
+      })
+    );
+  });
+
+  it('stops after MAX_BATCHES and leaves the rest for the next run', () => {
+    const rows = Array(RETENTION_BATCH_SIZE * RETENTION_MAX_BATCHES + 1).fill(true);
+
+    expect(runCleanup(rows)).toEqual({
+      scanned: RETENTION_BATCH_SIZE * RETENTION_MAX_BATCHES,
+      deleted: RETENTION_BATCH_SIZE * RETENTION_MAX_BATCHES,
+      batches: RETENTION_MAX_BATCHES,
+    });
+  });
+});
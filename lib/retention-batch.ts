@@ -0,0 +1,52 @@
+/**
+ * Progress of a batched retention cleanup run
+ * Pure so the Convex cleanup mutation (convex/retention.ts) and its tests share it
+ */
+
+/**
+ * Rows examined per batch - each batch is its own transaction, well under Convex limits
+ */
+export const RETENTION_BATCH_SIZE = 200;
+
+/**
+ * Batches per run - whatever is left goes in the next day's run
+ */
+export const RETENTION_MAX_BATCHES = 100;
+
+/**
+ * Totals of a run so far
+ */
+export interface RetentionProgress {
+  scanned: number; // Rows examined past the cutoff
+  deleted: number; // Rows actually deleted (the rest were still in use)
+  batches: number;
+}
+
+/**
+ * Outcome of one batch
+ */
+export interface RetentionBatch {
+  scanned: number;
+  deleted: number;
+  isDone: boolean; // The scan reached the end of the rows past the cutoff
+}
+
+/**
+ * Add a batch to a run's totals
+ * @returns New totals and whether another batch should be scheduled
+ */
+export function advanceRetentionRun(
+  progress: RetentionProgress,
+  batch: RetentionBatch
+): { progress: RetentionProgress; more: boolean } {
+  const batches = progress.batches + 1;
+
+  return {
+    progress: {
+      scanned: progress.scanned + batch.scanned,
+      deleted: progress.deleted + batch.deleted,
+      batches,
+    },
+    more: !batch.isDone && batches < RETENTION_MAX_BATCHES,
+  };
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAdminToken } from '@/lib/env';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_MAX_AGE,
+  getAdminSessionValue,
+  isAdminRequest,
+  verifyAdminSession,
+  verifyAdminToken,
+} from './admin-auth';
+
+vi.mock('@/lib/env', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/env')>()),
+  getAdminToken: vi.fn(() => undefined),
+}));
+
+const TOKEN = 'a'.repeat(40);
+
+function adminRequest(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/admin/profiles/alice', {
+    method: 'DELETE',
+    headers,
+  });
+}
+
+describe('admin auth', () => {
+  afterEach(() => {
+    vi.mocked(getAdminToken).mockReset();
+  });
+
+  it('rejects everything while ADMIN_TOKEN is unset', () => {
+    expect(verifyAdminToken(TOKEN)).toBe(false);
+    expect(getAdminSessionValue()).toBeNull();
+    expect(verifyAdminSession('anything')).toBe(false);
+  });
+
+  it('accepts only the configured token', () => {
+    vi.mocked(getAdminToken).mockReturnValue(TOKEN);
+
+    expect(verifyAdminToken(TOKEN)).toBe(true);
+    expect(verifyAdminToken(`${TOKEN}b`)).toBe(false);
+    expect(verifyAdminToken('')).toBe(false);
+  });
+
+  it('signs sessions out when the token rotates', () => {
+    vi.mocked(getAdminToken).mockReturnValue(TOKEN);
+    const session = getAdminSessionValue();
+
+    expect(session).not.toContain(TOKEN);
+    expect(verifyAdminSession(session)).toBe(true);
+
+    vi.mocked(getAdminToken).mockReturnValue('b'.repeat(40));
+    expect(verifyAdminSession(session)).toBe(false);
+  });
+
+  it('expires sessions after the max age and rejects forged issue times', () => {
+    vi.mocked(getAdminToken).mockReturnValue(TOKEN);
+    const now = 1_700_000_000_000;
+    const session = getAdminSessionValue(now)!;
+    const [, signature] = session.split('.');
+
+    expect(verifyAdminSession(session, now + ADMIN_SESSION_MAX_AGE * 1000 - 1)).toBe(true);
+    expect(verifyAdminSession(session, now + ADMIN_SESSION_MAX_AGE * 1000)).toBe(false);
+    expect(verifyAdminSession(`${now + 60_000}.${signature}`, now + 120_000)).toBe(false);
+    expect(verifyAdminSession(getAdminSessionValue(now + 60_000), now)).toBe(false);
+  });
+
+  it('accepts a session cookie or a bearer token', () => {
+    vi.mocked(getAdminToken).mockReturnValue(TOKEN);
+
+    expect(
+      isAdminRequest(adminRequest({ cookie: `${ADMIN_SESSION_COOKIE}=${getAdminSessionValue()}` }))
+    ).toBe(true);
+    expect(isAdminRequest(adminRequest({ authorization: `Bearer ${TOKEN}` }))).toBe(true);
+    expect(isAdminRequest(adminRequest({ authorization: 'Bearer wrong' }))).toBe(false);
+    expect(isAdminRequest(adminRequest({ cookie: `${ADMIN_SESSION_COOKIE}=${TOKEN}` }))).toBe(
+      false
+    );
+  });
+});
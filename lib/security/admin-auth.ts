@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { getAdminToken } from '@/lib/env';
+
+/**
+ * Cookie holding the admin session after signing in on /admin
+ */
+export const ADMIN_SESSION_COOKIE = 'matchvibe_admin';
+
+/**
+ * How long an admin session lasts (seconds)
+ */
+export const ADMIN_SESSION_MAX_AGE = 8 * 60 * 60;
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check whether the admin dashboard is enabled (ADMIN_TOKEN is set)
+ */
+export function isAdminConfigured(): boolean {
+  return !!getAdminToken();
+}
+
+/**
+ * Check a token against ADMIN_TOKEN in constant time
+ * @returns False when the dashboard is disabled
+ */
+export function verifyAdminToken(candidate: string | null | undefined): boolean {
+  const token = getAdminToken();
+  if (!token || !candidate) return false;
+
+  return timingSafeEqual(digest(candidate), digest(token));
+}
+
+function signSession(token: string, issuedAt: number): string {
+  return createHmac('sha256', token).update(`admin-session:${issuedAt}`).digest('base64url');
+}
+
+/**
+ * Session cookie value for a sign-in: when it was issued, signed with the configured token
+ * Signed with the token, so rotating ADMIN_TOKEN signs every session out
+ * @param now - Sign-in time (Unix milliseconds)
+ * @returns Cookie value, or null while the dashboard is disabled
+ */
+export function getAdminSessionValue(now = Date.now()): string | null {
+  const token = getAdminToken();
+  return token ? `${now}.${signSession(token, now)}` : null;
+}
+
+/**
+ * Check an admin session cookie value
+ * Sessions older than ADMIN_SESSION_MAX_AGE are rejected even if the cookie was kept
+ */
+export function verifyAdminSession(value: string | null | undefined, now = Date.now()): boolean {
+  const token = getAdminToken();
+  if (!token || !value) return false;
+
+  const [issued, signature] = value.split('.');
+  const issuedAt = Number(issued);
+  if (!signature || !Number.isSafeInteger(issuedAt)) return false;
+  if (issuedAt > now || now - issuedAt >= ADMIN_SESSION_MAX_AGE * 1000) return false;
+
+  return timingSafeEqual(digest(signature), digest(signSession(token, issuedAt)));
+}
+
+/**
+ * Check whether a request is from an admin
+ * Accepts the session cookie or `Authorization: Bearer <ADMIN_TOKEN>` (scripts)
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return verifyAdminToken(authorization.slice('Bearer '.length));
+  }
+
+  return verifyAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+}
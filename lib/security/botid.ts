@@ -4,7 +4,12 @@ import { checkBotId } from 'botid/server';
  * Protected paths configuration for Bot ID
  * These endpoints will be protected against bot traffic
  */
-export const PROTECTED_PATHS = [{ path: '/api/vibe/analyze', method: 'POST' as const }] as const;
+export const PROTECTED_PATHS = [
+  { path: '/api/vibe/analyze', method: 'POST' as const },
+  { path: '/api/vibe/group', method: 'POST' as const },
+  { path: '/api/vibe/jobs', method: 'POST' as const },
+  { path: '/api/vibe/profile/*', method: 'GET' as const },
+] as const;
 
 /**
  * Bot ID verification result from the actual library
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getConvexServerSecret } from '@/lib/env';
+import { HANDOFF_TOKEN_TTL_MS, issueHandoffToken, verifyHandoffToken } from './handoff-token';
+
+vi.mock('@/lib/env', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/env')>()),
+  getConvexServerSecret: vi.fn(() => 's'.repeat(40)),
+}));
+
+const SUBJECT = {
+  userOne: 'Alice',
+  userTwo: 'bob',
+  analysisDepth: 'standard',
+  scoringPreset: 'balanced',
+};
+const NOW = 1_700_000_000_000;
+
+describe('handoff tokens', () => {
+  afterEach(() => {
+    vi.mocked(getConvexServerSecret).mockReset().mockReturnValue('s'.repeat(40));
+  });
+
+  it('accepts a token for the analysis it was issued for until it expires', () => {
+    const token = issueHandoffToken(SUBJECT, NOW);
+
+    const handoffId = verifyHandoffToken(token, { ...SUBJECT, userOne: 'alice' }, NOW + 1000);
+    expect(handoffId).toEqual(expect.any(String));
+    expect(token?.endsWith(`.${handoffId}`)).toBe(true);
+    expect(verifyHandoffToken(token, SUBJECT, NOW + HANDOFF_TOKEN_TTL_MS + 1)).toBeNull();
+  });
+
+  it('rejects tokens for another analysis or with a changed expiry', () => {
+    const token = issueHandoffToken(SUBJECT, NOW)!;
+    const [, signature] = token.split('.');
+
+    expect(verifyHandoffToken(token, { ...SUBJECT, analysisDepth: 'deep' }, NOW)).toBeNull();
+    expect(verifyHandoffToken(token, { ...SUBJECT, userTwo: 'carol' }, NOW)).toBeNull();
+    expect(
+      verifyHandoffToken(`${NOW + HANDOFF_TOKEN_TTL_MS * 10}.${signature}`, SUBJECT, NOW)
+    ).toBeNull();
+    expect(verifyHandoffToken('garbage', SUBJECT, NOW)).toBeNull();
+  });
+
+  it('issues and accepts nothing without the server secret', () => {
+    const token = issueHandoffToken(SUBJECT, NOW);
+    vi.mocked(getConvexServerSecret).mockReturnValue(undefined);
+
+    expect(issueHandoffToken(SUBJECT, NOW)).toBeNull();
+    expect(verifyHandoffToken(token, SUBJECT, NOW)).toBeNull();
+  });
+});
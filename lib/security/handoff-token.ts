@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getConvexServerSecret } from '@/lib/env';
+
+/**
+ * Tokens a streamed analysis hands to the background job that takes it over
+ * The stream issues one once it has charged the caller's fresh quota, so the job created
+ * from it isn't charged again
+ */
+
+/**
+ * How long a handoff token can be used to create its job
+ */
+export const HANDOFF_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Analysis a token was issued for - the job has to ask for the same one
+ */
+export interface HandoffSubject {
+  userOne: string;
+  userTwo: string;
+  analysisDepth: string;
+  scoringPreset: string;
+}
+
+function sign(secret: string, subject: HandoffSubject, expiresAt: number): string {
+  const payload = [
+    expiresAt,
+    subject.userOne.toLowerCase(),
+    subject.userTwo.toLowerCase(),
+    subject.analysisDepth,
+    subject.scoringPreset,
+  ].join(':');
+
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a token for an analysis the caller was charged for
+ * @returns The token, or null without CONVEX_SERVER_SECRET (jobs need Convex anyway)
+ */
+export function issueHandoffToken(subject: HandoffSubject, now = Date.now()): string | null {
+  const secret = getConvexServerSecret();
+  if (!secret) return null;
+
+  const expiresAt = now + HANDOFF_TOKEN_TTL_MS;
+  return `${expiresAt}.${sign(secret, subject, expiresAt)}`;
+}
+
+/**
+ * Check a token against the analysis a job is created for
+ * @returns Handoff ID (one per token) when the token is valid and unexpired, otherwise null
+ */
+export function verifyHandoffToken(
+  token: string | null | undefined,
+  subject: HandoffSubject,
+  now = Date.now()
+): string | null {
+  const secret = getConvexServerSecret();
+  if (!secret || !token) return null;
+
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt < now) return null;
+
+  const expected = Buffer.from(sign(secret, subject, expiresAt));
+  const candidate = Buffer.from(signature);
+  if (candidate.length !== expected.length || !timingSafeEqual(candidate, expected)) return null;
+
+  return signature;
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminConfigured, isAdminRequest } from '../admin-auth';
+import { AppError, ConfigError, NotFoundError } from '@/shared/lib/errors';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('AdminAuth');
+
+/**
+ * Wraps an API route handler so only admins can call it
+ * Responds 404 while the dashboard is disabled (no ADMIN_TOKEN) and 401 without a valid
+ * session cookie or bearer token
+ *
+ * @example
+ * ```typescript
+ * export const DELETE = withAdminAuth(async (request: NextRequest) => {
+ *   // Admin-only logic
+ * });
+ * ```
+ */
+export function withAdminAuth<T extends unknown[]>(
+  handler: (request: NextRequest, ...args: T) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, ...args: T): Promise<NextResponse> => {
+    if (!isAdminConfigured()) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (!isAdminRequest(request)) {
+      logger.warn({ path: request.nextUrl.pathname }, 'Unauthorized admin request');
+      return NextResponse.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, { status: 401 });
+    }
+
+    return handler(request, ...args);
+  };
+}
+
+/**
+ * Error response for a failed admin action, in the shape the analysis routes use for errors
+ */
+export function adminErrorResponse(error: unknown): NextResponse {
+  logger.error(
+    {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    },
+    'Admin action error'
+  );
+
+  if (error instanceof ConfigError) {
+    return NextResponse.json({ error: error.message, code: 'ADMIN_UNAVAILABLE' }, { status: 503 });
+  }
+
+  if (error instanceof NotFoundError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: 'USER_NOT_FOUND',
+        details: { username: error.metadata?.identifier },
+      },
+      { status: 404 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: 'Admin action failed',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    },
+    { status: 500 }
+  );
+}
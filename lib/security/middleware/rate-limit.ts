@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeRateLimit,
+  getRateLimitClient,
+  getRateLimitHeaders,
+  getRetryAfterSeconds,
+  type RateLimitDecision,
+} from '../rate-limit';
+import { getRateLimitConfig } from '@/lib/env';
+import { RateLimitError } from '@/shared/lib/errors';
+import { createChildLogger } from '@/lib/logger';
+
+const logger = createChildLogger('RateLimit');
+
+/**
+ * Handle passed to rate limited routes
+ */
+export interface RateLimiter {
+  /**
+   * Count a fresh Grok analysis against the client's fresh quota
+   * Call right before the Grok work starts so cache hits stay under the request limit only
+   * @throws {RateLimitError} When the client is out of fresh analyses
+   */
+  consumeFresh: () => Promise<void>;
+
+  /**
+   * Count a group analysis against the client's group quota (instead of the fresh quota)
+   * @throws {RateLimitError} When the client is out of group analyses
+   */
+  consumeGroup: () => Promise<void>;
+}
+
+// Used when rate limiting is disabled
+const UNLIMITED: RateLimiter = {
+  consumeFresh: async () => {},
+  consumeGroup: async () => {},
+};
+
+// Message for each quota the handler consumes
+const QUOTA_MESSAGES: Record<'fresh' | 'group', string> = {
+  fresh:
+    'Too many new analyses. Recently analyzed pairs are still available - please wait before trying new ones.',
+  group: 'Too many group analyses. Please wait a moment before analyzing another group.',
+};
+
+/**
+ * Wraps an API route handler with per-client rate limiting (independent of Bot ID)
+ * Every request counts against the request limit; the handler counts fresh Grok analyses
+ * through the limiter. Responses carry RateLimit-* headers, denied requests get 429
+ *
+ * @example
+ * ```typescript
+ * export const POST = withRateLimit(async (request: NextRequest, limiter: RateLimiter) => {
+ *   await limiter.consumeFresh(); // Before calling Grok
+ * });
+ * ```
+ */
+export function withRateLimit<T extends unknown[]>(
+  handler: (request: NextRequest, limiter: RateLimiter, ...args: T) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, ...args: T): Promise<NextResponse> => {
+    const config = getRateLimitConfig();
+    if (!config.enabled) {
+      return handler(request, UNLIMITED, ...args);
+    }
+
+    const client = getRateLimitClient(request, config);
+    const requests = await consumeRateLimit('requests', client, config);
+
+    if (!requests.allowed) {
+      logger.warn({ client: client.id, path: request.nextUrl.pathname }, 'Request rate limited');
+      return rateLimitedResponse(
+        new RateLimitError(
+          'Too many requests. Please wait a moment before trying again.',
+          getRetryAfterSeconds(requests),
+          { bucket: 'requests' }
+        ),
+        requests
+      );
+    }
+
+    // Headers report whichever bucket is closest to its limit
+    let reported: RateLimitDecision = requests;
+
+    const consumeQuota = async (bucket: 'fresh' | 'group') => {
+      const decision = await consumeRateLimit(bucket, client, config);
+      if (!decision.allowed || decision.remaining < reported.remaining) {
+        reported = decision;
+      }
+
+      if (!decision.allowed) {
+        logger.warn({ client: client.id, bucket }, 'Analysis quota rate limited');
+        throw new RateLimitError(QUOTA_MESSAGES[bucket], getRetryAfterSeconds(decision), {
+          bucket,
+        });
+      }
+    };
+
+    const limiter: RateLimiter = {
+      consumeFresh: () => consumeQuota('fresh'),
+      consumeGroup: () => consumeQuota('group'),
+    };
+
+    const response = await handler(request, limiter, ...args);
+
+    for (const [name, value] of Object.entries(getRateLimitHeaders(reported))) {
+      response.headers.set(name, value);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * 429 response for a rate limit error, in the shape the analysis routes use for errors
+ */
+export function rateLimitedResponse(
+  error: RateLimitError,
+  decision?: RateLimitDecision
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: error.code,
+      details: { retryAfter: error.retryAfter, bucket: error.metadata?.bucket },
+    },
+    {
+      status: 429,
+      headers: decision
+        ? getRateLimitHeaders(decision)
+        : { 'Retry-After': String(error.retryAfter ?? 60) },
+    }
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Rate limit buckets and the limit each one allows
+ * Computed by the app (RATE_LIMIT_* environment variables) and passed to the Convex mutation that
+ * enforces them, or to the in-memory fallback
+ */
+
+/**
+ * Rate limit buckets
+ * - requests: every analysis request, cache hits included
+ * - fresh: analyses that need fresh Grok calls
+ * - group: group analyses (up to 10 profile fetches plus the top-pair narratives each)
+ */
+export type RateLimitBucket = 'requests' | 'fresh' | 'group';
+
+/**
+ * Window and per-bucket limits (RATE_LIMIT_* environment variables)
+ */
+export interface RateLimitSettings {
+  windowMs: number;
+  requests: number;
+  freshAnalyses: number;
+  groupAnalyses: number;
+  apiKeyMultiplier: number; // Applied to clients with a known API key
+}
+
+/**
+ * Limit and window for one client's bucket
+ */
+export function getRateLimitPolicy(
+  bucket: RateLimitBucket,
+  hasApiKey: boolean,
+  settings: RateLimitSettings
+): { limit: number; windowMs: number } {
+  const baseLimit = {
+    requests: settings.requests,
+    fresh: settings.freshAnalyses,
+    group: settings.groupAnalyses,
+  }[bucket];
+  return {
+    limit: hasApiKey ? baseLimit * settings.apiKeyMultiplier : baseLimit,
+    windowMs: settings.windowMs,
+  };
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import type { RateLimitConfig } from '@/lib/env';
+import { consumeRateLimit, getRateLimitClient } from './rate-limit';
+
+const CONFIG: RateLimitConfig = {
+  enabled: true,
+  windowMs: 60000,
+  requests: 30,
+  freshAnalyses: 2,
+  groupAnalyses: 1,
+  apiKeys: ['known-key'],
+  apiKeyMultiplier: 10,
+  trustedProxies: 1,
+};
+
+function requestWith(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/vibe/analyze', { method: 'POST', headers });
+}
+
+describe('getRateLimitClient', () => {
+  it('uses the address appended by the trusted proxy, not the one the client sent', () => {
+    const request = requestWith({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' });
+
+    expect(getRateLimitClient(request, CONFIG).id).toBe('ip:203.0.113.7');
+    expect(getRateLimitClient(request, { ...CONFIG, trustedProxies: 2 }).id).toBe('ip:1.1.1.1');
+  });
+
+  it('ignores X-Real-IP and falls back to unknown without enough hops', () => {
+    const request = requestWith({ 'x-real-ip': '1.1.1.1', 'x-forwarded-for': '203.0.113.7' });
+
+    expect(getRateLimitClient(requestWith({ 'x-real-ip': '1.1.1.1' }), CONFIG).id).toBe(
+      'ip:unknown'
+    );
+    expect(getRateLimitClient(request, { ...CONFIG, trustedProxies: 2 }).id).toBe('ip:unknown');
+  });
+
+  it('limits known API keys per key without storing the key', () => {
+    const client = getRateLimitClient(
+      requestWith({ 'x-api-key': 'known-key', 'x-forwarded-for': '203.0.113.7' }),
+      CONFIG
+    );
+
+    expect(client.hasApiKey).toBe(true);
+    expect(client.id).toMatch(/^key:[0-9a-f]{16}$/);
+  });
+});
+
+describe('consumeRateLimit (offline)', () => {
+  it('counts each bucket separately and multiplies the limit for API keys', async () => {
+    const client = { id: 'ip:198.51.100.1', hasApiKey: false };
+
+    const fresh = [];
+    for (let i = 0; i < 3; i++) {
+      fresh.push((await consumeRateLimit('fresh', client, CONFIG)).allowed);
+    }
+    const requests = await consumeRateLimit('requests', client, CONFIG);
+    const keyed = await consumeRateLimit('fresh', { id: 'key:abc', hasApiKey: true }, CONFIG);
+    const groups = [
+      (await consumeRateLimit('group', client, CONFIG)).allowed,
+      (await consumeRateLimit('group', client, CONFIG)).allowed,
+    ];
+
+    expect(fresh).toEqual([true, true, false]);
+    expect(groups).toEqual([true, false]);
+    expect(requests).toMatchObject({ allowed: true, limit: 30, remaining: 29 });
+    expect(keyed.limit).toBe(20);
+  });
+});
@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import { ConvexHttpClient } from 'convex/browser';
+import type { NextRequest } from 'next/server';
+import { api } from '@/convex/_generated/api';
+import { getConvexServerSecret, getRateLimitConfig, type RateLimitConfig } from '@/lib/env';
+import { createChildLogger } from '@/lib/logger';
+import { consumeSlidingWindow, type SlidingWindowCounter } from './sliding-window';
+import { getRateLimitPolicy, type RateLimitBucket } from './rate-limit-policy';
+
+export type { RateLimitBucket } from './rate-limit-policy';
+
+const logger = createChildLogger('RateLimit');
+
+/**
+ * Outcome of counting one hit against a bucket
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Unix milliseconds
+  windowMs: number;
+}
+
+/**
+ * Who a request is counted against
+ */
+export interface RateLimitClient {
+  id: string; // 'key:<hash>' for known API keys, 'ip:<address>' otherwise
+  hasApiKey: boolean;
+}
+
+let convexClient: ConvexHttpClient | null | undefined;
+
+// In-memory counters for offline development (no Convex deployment)
+const localCounters = new Map<string, SlidingWindowCounter>();
+
+function getConvexClient(): ConvexHttpClient | null {
+  if (convexClient === undefined) {
+    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    convexClient = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+  }
+
+  return convexClient;
+}
+
+/**
+ * Identify the client a request is counted against
+ * Requests with a known X-API-Key are limited per key, everything else per IP. The IP is the
+ * X-Forwarded-For entry appended by the outermost trusted proxy - entries before it are
+ * whatever the client sent
+ */
+export function getRateLimitClient(
+  request: NextRequest,
+  config: RateLimitConfig = getRateLimitConfig()
+): RateLimitClient {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey && config.apiKeys.includes(apiKey)) {
+    // Never store the key itself
+    const hash = createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+    return { id: `key:${hash}`, hasApiKey: true };
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const ip = config.trustedProxies > 0 ? hops[hops.length - config.trustedProxies] : undefined;
+  return { id: `ip:${ip ?? 'unknown'}`, hasApiKey: false };
+}
+
+/**
+ * Count one hit for a client against a bucket
+ * Fails open: Convex errors allow the request rather than blocking every analysis
+ */
+export async function consumeRateLimit(
+  bucket: RateLimitBucket,
+  client: RateLimitClient,
+  config: RateLimitConfig = getRateLimitConfig()
+): Promise<RateLimitDecision> {
+  const { limit, windowMs } = getRateLimitPolicy(bucket, client.hasApiKey, config);
+  const key = `${bucket}:${client.id}`;
+  const convex = getConvexClient();
+
+  if (!convex) {
+    const decision = consumeSlidingWindow(
+      localCounters.get(key) ?? null,
+      Date.now(),
+      limit,
+      windowMs
+    );
+    localCounters.set(key, decision.counter);
+    return { ...decision, limit, windowMs };
+  }
+
+  try {
+    // CONVEX_SERVER_SECRET is required with Convex and rate limiting on (see validateEnv)
+    return await convex.mutation(api.rateLimits.consume, {
+      serverSecret: getConvexServerSecret() ?? '',
+      bucket,
+      client: client.id,
+      limit,
+      windowMs,
+    });
+  } catch (error) {
+    logger.error({ error, key }, 'Error checking rate limit');
+    return {
+      allowed: true,
+      limit,
+      remaining: limit,
+      resetAt: Date.now() + windowMs,
+      windowMs,
+    };
+  }
+}
+
+/**
+ * Seconds until a denied client may retry
+ */
+export function getRetryAfterSeconds(decision: RateLimitDecision): number {
+  return Math.max(1, Math.ceil((decision.resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Standard RateLimit-* response headers (IETF draft-ietf-httpapi-ratelimit-headers)
+ */
+export function getRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((decision.resetAt - Date.now()) / 1000));
+
+  return {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${decision.limit};w=${Math.round(decision.windowMs / 1000)}`,
+    ...(!decision.allowed && { 'Retry-After': String(getRetryAfterSeconds(decision)) }),
+  };
+}
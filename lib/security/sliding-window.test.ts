@@ -0,0 +1,67 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { consumeSlidingWindow, type SlidingWindowCounter } from './sliding-window';
+
+const WINDOW = 60000;
+
+// Send hits at the given times, carrying the counter between them
+function hitAt(times: number[], limit: number) {
+  let counter: SlidingWindowCounter | null = null;
+  return times.map((now) => {
+    const decision = consumeSlidingWindow(counter, now, limit, WINDOW);
+    counter = decision.counter;
+    return decision;
+  });
+}
+
+describe('consumeSlidingWindow', () => {
+  it('allows up to the limit within a window and counts down remaining', () => {
+    const decisions = hitAt([0, 1000, 2000, 3000], 3);
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[0].resetAt).toBe(WINDOW);
+  });
+
+  it("weighs the previous window's hits by how much of it still overlaps", () => {
+    // 4 hits in the first window, then halfway through the next: 4 * 0.5 = 2 still count
+    const [, , , , halfway, next] = hitAt([0, 1, 2, 3, WINDOW * 1.5, WINDOW * 1.5 + 1], 4);
+
+    expect(halfway.allowed).toBe(true);
+    expect(halfway.remaining).toBe(1);
+    expect(next.allowed).toBe(true);
+    expect(next.remaining).toBe(0);
+  });
+
+  it('forgets hits older than the previous window', () => {
+    const decisions = hitAt([0, 1, WINDOW * 3], 2);
+
+    expect(decisions[2].allowed).toBe(true);
+    expect(decisions[2].counter).toEqual({ windowStart: WINDOW * 3, count: 1, previousCount: 0 });
+  });
+
+  it('tells denied clients when the next hit is allowed', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.array(fc.integer({ min: 0, max: WINDOW * 3 }), { minLength: 1, maxLength: 60 }),
+        (limit, offsets) => {
+          let counter: SlidingWindowCounter | null = null;
+
+          for (const now of [...offsets].sort((a, b) => a - b)) {
+            const decision = consumeSlidingWindow(counter, now, limit, WINDOW);
+
+            if (!decision.allowed) {
+              expect(decision.resetAt).toBeGreaterThan(now);
+              expect(consumeSlidingWindow(counter, decision.resetAt, limit, WINDOW).allowed).toBe(
+                true
+              );
+            }
+
+            counter = decision.counter;
+          }
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Sliding window rate limit counter
+ * Approximates a true sliding window from two fixed windows: the previous window's count is
+ * weighted by how much of it still overlaps the sliding window
+ * Pure so the Convex mutation and the in-memory fallback share it
+ */
+
+export interface SlidingWindowCounter {
+  windowStart: number; // Start of the current fixed window (Unix milliseconds)
+  count: number; // Hits in the current fixed window
+  previousCount: number; // Hits in the fixed window before it
+}
+
+export interface SlidingWindowDecision {
+  allowed: boolean;
+  counter: SlidingWindowCounter; // Counter to store (includes this hit when allowed)
+  remaining: number;
+  resetAt: number; // When the next hit is allowed (denied) or the current window ends (allowed)
+}
+
+/**
+ * Count a hit against a sliding window
+ * @param counter - Stored counter (null for a new client)
+ * @param now - Current time (Unix milliseconds)
+ * @param limit - Hits allowed per window
+ * @param windowMs - Window length
+ * @returns Whether the hit is allowed and the counter to store
+ */
+export function consumeSlidingWindow(
+  counter: SlidingWindowCounter | null,
+  now: number,
+  limit: number,
+  windowMs: number
+): SlidingWindowDecision {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let current: SlidingWindowCounter;
+  if (counter?.windowStart === windowStart) {
+    current = counter;
+  } else if (counter?.windowStart === windowStart - windowMs) {
+    current = { windowStart, count: 0, previousCount: counter.count };
+  } else {
+    current = { windowStart, count: 0, previousCount: 0 };
+  }
+
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const estimate = current.previousCount * overlap + current.count;
+
+  if (estimate + 1 <= limit) {
+    const next = { ...current, count: current.count + 1 };
+    return {
+      allowed: true,
+      counter: next,
+      remaining: Math.max(0, Math.floor(limit - estimate - 1)),
+      resetAt: windowStart + windowMs,
+    };
+  }
+
+  return {
+    allowed: false,
+    counter: current,
+    remaining: 0,
+    resetAt: nextAllowedAt(current, limit, windowMs),
+  };
+}
+
+/**
+ * Earliest time the weighted estimate drops enough for one more hit
+ */
+function nextAllowedAt(counter: SlidingWindowCounter, limit: number, windowMs: number): number {
+  const { windowStart, count, previousCount } = counter;
+
+  // Still within this window, as the previous window's share fades out
+  if (count + 1 <= limit && previousCount > 0) {
+    const elapsed = windowMs * (1 - (limit - count - 1) / previousCount);
+    return windowStart + Math.ceil(elapsed);
+  }
+
+  // In the next window, as this window's hits fade out
+  const elapsed = count > 0 ? windowMs * (1 - (limit - 1) / count) : 0;
+  return windowStart + windowMs + Math.ceil(Math.max(0, elapsed));
+}
@@ -0,0 +1,33 @@
+/**
+ * Single-flight request coalescing
+ * Concurrent calls with the same key share one in-flight promise instead of repeating the work
+ */
+
+/**
+ * In-flight calls per key (within this server instance)
+ */
+export class SingleFlight<T> {
+  private readonly inflight = new Map<string, Promise<T>>();
+
+  /**
+   * Whether a call for the key is already running
+   */
+  has(key: string): boolean {
+    return this.inflight.has(key);
+  }
+
+  /**
+   * Run `fn` for the key, or join the call already running for it
+   * Joined calls settle with the running call's result or error
+   */
+  run(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = fn().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+}
@@ -13,6 +13,22 @@ const envSchema = z.object({
     .regex(/^xai-/, 'GROK_API_KEY must start with "xai-"')
     .describe('Grok API key for X user analysis'),
 
+  GROK_BASE_URL: z
+    .string()
+    .url()
+    .optional()
+    .describe('Override the x.ai chat completions base URL (e.g. the local mock server)'),
+
+  GROK_FIXTURE_MODE: z
+    .enum(['off', 'record', 'replay'])
+    .default('off')
+    .describe('Record Grok responses to fixtures or replay them instead of calling the API'),
+
+  GROK_FIXTURE_DIR: z
+    .string()
+    .default('fixtures/grok')
+    .describe('Directory for recorded Grok fixtures (relative to the working directory)'),
+
   GROK_MODEL_VERSION: z.string().default('grok-4-0709').describe('Grok model version to use'),
 
   GROK_MAX_TOKENS: z
@@ -115,6 +131,154 @@ const envSchema = z.object({
     .default(120000)
     .describe('Maximum delay from Retry-After headers (2 minutes)'),
 
+  // LLM Provider per pipeline stage (profile extraction / matching)
+  LLM_PROFILE_PROVIDER: z
+    .enum(['grok', 'openai-compatible'])
+    .default('grok')
+    .describe('Provider for profile extraction'),
+
+  LLM_PROFILE_BASE_URL: z
+    .string()
+    .url()
+    .optional()
+    .describe('Chat completions base URL for profile extraction (required for openai-compatible)'),
+
+  LLM_PROFILE_API_KEY: z
+    .string()
+    .optional()
+    .describe('API key for profile extraction (defaults to GROK_API_KEY for grok)'),
+
+  LLM_PROFILE_MODEL: z
+    .string()
+    .optional()
+    .describe('Model for profile extraction (overrides the per-depth Grok model)'),
+
+  LLM_PROFILE_JSON_SCHEMA: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(false)
+    .describe('Send JSON schema response formats to an openai-compatible profile provider'),
+
+  LLM_MATCH_PROVIDER: z
+    .enum(['grok', 'openai-compatible'])
+    .default('grok')
+    .describe('Provider for vibe matching'),
+
+  LLM_MATCH_BASE_URL: z
+    .string()
+    .url()
+    .optional()
+    .describe('Chat completions base URL for vibe matching (required for openai-compatible)'),
+
+  LLM_MATCH_API_KEY: z
+    .string()
+    .optional()
+    .describe('API key for vibe matching (defaults to GROK_API_KEY for grok)'),
+
+  LLM_MATCH_MODEL: z
+    .string()
+    .optional()
+    .describe('Model for vibe matching (overrides the per-depth Grok model)'),
+
+  LLM_MATCH_JSON_SCHEMA: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(false)
+    .describe('Send JSON schema response formats to an openai-compatible matching provider'),
+
+  // Per-client rate limiting (sliding window, stored in Convex)
+  RATE_LIMIT_ENABLED: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default(true)
+    .describe('Rate limit the analysis endpoints per client'),
+
+  RATE_LIMIT_WINDOW_MS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().positive().int())
+    .default(60000)
+    .describe('Sliding window length in milliseconds'),
+
+  RATE_LIMIT_REQUESTS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().positive().int())
+    .default(30)
+    .describe('Analysis requests per window, including cache hits'),
+
+  RATE_LIMIT_FRESH_ANALYSES: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().positive().int())
+    .default(5)
+    .describe('Analyses per window that need fresh Grok calls'),
+
+  RATE_LIMIT_GROUP_ANALYSES: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().positive().int())
+    .default(1)
+    .describe('Group analyses per window (each may need up to 13 Grok calls)'),
+
+  RATE_LIMIT_API_KEYS: z
+    .string()
+    .transform((val) =>
+      val
+        .split(',')
+        .map((key) => key.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.string()))
+    .default([])
+    .describe('Comma-separated API keys (X-API-Key header) limited per key instead of per IP'),
+
+  RATE_LIMIT_API_KEY_MULTIPLIER: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().positive().int())
+    .default(10)
+    .describe('Limit multiplier for requests with a known API key'),
+
+  RATE_LIMIT_TRUSTED_PROXIES: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(0))
+    .default(1)
+    .describe('Proxies in front of the app that append to X-Forwarded-For (1 on Vercel)'),
+
+  // Grok spend caps (USD, tracked in Convex) - fresh analyses stop once reached
+  GROK_DAILY_BUDGET_USD: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().positive())
+    .optional()
+    .describe('Grok spend cap per UTC day (unset = no cap)'),
+
+  GROK_MONTHLY_BUDGET_USD: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().positive())
+    .optional()
+    .describe('Grok spend cap per UTC month (unset = no cap)'),
+
+  // Shared with the Convex deployment - server-only Convex functions reject calls without it
+  CONVEX_SERVER_SECRET: z
+    .string()
+    .min(32)
+    .optional()
+    .describe('Secret for server-only Convex functions (also set in the Convex deployment)'),
+
+  // Admin dashboard (/admin) - disabled when unset
+  ADMIN_TOKEN: z
+    .string()
+    .min(32)
+    .optional()
+    .describe('Token for the /admin dashboard (also set in the Convex deployment)'),
+
   // Vibe Scoring Configuration
   VIBE_AMPLIFICATION_POWER: z
     .string()
@@ -122,6 +286,13 @@ const envSchema = z.object({
     .pipe(z.number().positive().min(1).max(5))
     .default(2.5)
     .describe('Score amplification power (1=none, 2.5=strong, 3.5=extreme)'),
+
+  PROFILE_MIN_EVIDENCE_SCORE: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(0).max(100))
+    .default(20)
+    .describe('Profiles with a lower evidence score are rejected as insufficient data (0 = off)'),
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -143,6 +314,22 @@ export function validateEnv(): Env {
     );
   }
 
+  // Rate limits are counted by a server-only Convex function - without the secret every check
+  // would be rejected and the limits silently off
+  if (
+    result.data.RATE_LIMIT_ENABLED &&
+    process.env.NEXT_PUBLIC_CONVEX_URL &&
+    !result.data.CONVEX_SERVER_SECRET
+  ) {
+    throw new ConfigError(
+      'CONVEX_SERVER_SECRET is required when rate limiting runs on Convex',
+      'CONVEX_SERVER_SECRET',
+      {
+        help: 'Set the same secret in the app and the Convex deployment, or RATE_LIMIT_ENABLED=false',
+      }
+    );
+  }
+
   return result.data;
 }
 
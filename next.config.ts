@@ -1,61 +1,80 @@
 import type { NextConfig } from 'next';
 import { withBotId } from 'botid/next/config';
 
+// Sites allowed to frame /embed pages (CSP frame-ancestors sources, comma or space separated)
+// Defaults to any site; everything else can't be framed at all
+const embedFrameAncestors =
+  process.env.EMBED_FRAME_ANCESTORS?.split(/[\s,]+/)
+    .filter(Boolean)
+    .join(' ') || '*';
+
+function securityHeaders(frameAncestors: string) {
+  return [
+    {
+      key: 'X-DNS-Prefetch-Control',
+      value: 'on',
+    },
+    {
+      key: 'X-Content-Type-Options',
+      value: 'nosniff',
+    },
+    {
+      key: 'X-XSS-Protection',
+      value: '1; mode=block',
+    },
+    {
+      key: 'Referrer-Policy',
+      value: 'strict-origin-when-cross-origin',
+    },
+    {
+      key: 'Permissions-Policy',
+      value: 'camera=(), microphone=(), geolocation=(), interest-cohort=()',
+    },
+    {
+      // Basic CSP - adjust domains as needed for your specific services
+      key: 'Content-Security-Policy',
+      value: [
+        "default-src 'self'",
+        "script-src 'self' 'unsafe-eval' 'unsafe-inline' https://vercel.live https://*.vercel.app",
+        "style-src 'self' 'unsafe-inline'",
+        "img-src 'self' data: https: blob:",
+        "font-src 'self' data:",
+        "connect-src 'self' https://api.x.ai https://*.convex.cloud https://vercel.live wss://*.convex.cloud https://*.vercel.app",
+        "media-src 'self'",
+        "object-src 'none'",
+        "child-src 'self'",
+        "frame-src 'self' https://vercel.live",
+        `frame-ancestors ${frameAncestors}`,
+        "base-uri 'self'",
+        "form-action 'self'",
+        "manifest-src 'self'",
+        "worker-src 'self' blob:",
+      ].join('; '),
+    },
+  ];
+}
+
 const nextConfig: NextConfig = {
   // Security headers configuration
   async headers() {
     return [
       {
-        // Apply security headers to all routes
-        source: '/(.*)',
+        // Apply security headers to all routes except the embed widget
+        source: '/((?!embed/).*)',
         headers: [
-          {
-            key: 'X-DNS-Prefetch-Control',
-            value: 'on',
-          },
           {
             key: 'X-Frame-Options',
             value: 'DENY',
           },
-          {
-            key: 'X-Content-Type-Options',
-            value: 'nosniff',
-          },
-          {
-            key: 'X-XSS-Protection',
-            value: '1; mode=block',
-          },
-          {
-            key: 'Referrer-Policy',
-            value: 'strict-origin-when-cross-origin',
-          },
-          {
-            key: 'Permissions-Policy',
-            value: 'camera=(), microphone=(), geolocation=(), interest-cohort=()',
-          },
-          {
-            // Basic CSP - adjust domains as needed for your specific services
-            key: 'Content-Security-Policy',
-            value: [
-              "default-src 'self'",
-              "script-src 'self' 'unsafe-eval' 'unsafe-inline' https://vercel.live https://*.vercel.app",
-              "style-src 'self' 'unsafe-inline'",
-              "img-src 'self' data: https: blob:",
-              "font-src 'self' data:",
-              "connect-src 'self' https://api.x.ai https://*.convex.cloud https://vercel.live wss://*.convex.cloud https://*.vercel.app",
-              "media-src 'self'",
-              "object-src 'none'",
-              "child-src 'self'",
-              "frame-src 'self' https://vercel.live",
-              "frame-ancestors 'none'",
-              "base-uri 'self'",
-              "form-action 'self'",
-              "manifest-src 'self'",
-              "worker-src 'self' blob:",
-            ].join('; '),
-          },
+          ...securityHeaders("'none'"),
         ],
       },
+      {
+        // Embed widget (/embed/vibe/[user1]/[user2]) may be framed by the configured sites
+        // No X-Frame-Options here: it can't allow a list of sites, frame-ancestors does
+        source: '/embed/:path*',
+        headers: securityHeaders(embedFrameAncestors),
+      },
       // Only add HSTS header in production
       ...(process.env.NODE_ENV === 'production'
         ? [
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Backfill the calculated breakdown of cached vibe matches
+ * Recomputes dimensionBreakdown, categoryScores, topMatches, topClashes and the score range from
+ * the stored profiles for every vibeMatches row older than MATCH_SCHEMA_VERSION, using the row's
+ * scoring preset. No Grok calls are made. Needs CONVEX_SERVER_SECRET unless it's a dry run.
+ *
+ * Usage: npm run convex:backfill-matches [-- --dry-run]
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from 'dotenv';
+import path from 'path';
+import type { FunctionReturnType } from 'convex/server';
+dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
+
+const PAGE_SIZE = 100;
+
+async function backfill(dryRun: boolean) {
+  // Dynamic imports to ensure env vars are loaded first
+  const { ConvexHttpClient } = await import('convex/browser');
+  const { api } = await import('../convex/_generated/api');
+  const { ConvexCacheService } =
+    await import('../features/vibe-analysis/services/cache/convex-cache.service');
+  const { compatibilityCalculator } =
+    await import('../features/vibe-analysis/lib/compatibility-calculator');
+  const { DEFAULT_SCORING_PRESET, isScoringPresetId } =
+    await import('../features/vibe-analysis/config/scoring-presets');
+
+  const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+  if (!convexUrl) {
+    console.error('❌ NEXT_PUBLIC_CONVEX_URL is not set');
+    process.exit(1);
+  }
+
+  const serverSecret = process.env.CONVEX_SERVER_SECRET ?? '';
+  if (!serverSecret && !dryRun) {
+    console.error('❌ CONVEX_SERVER_SECRET is not set');
+    process.exit(1);
+  }
+
+  const convex = new ConvexHttpClient(convexUrl);
+  const cache = new ConvexCacheService();
+
+  let cursor: string | null = null;
+  let patched = 0;
+  const skipped: string[] = [];
+
+  do {
+    const page: FunctionReturnType<typeof api.vibeMatches.getOutdatedMatches> = await convex.query(
+      api.vibeMatches.getOutdatedMatches,
+      {
+        paginationOpts: { numItems: PAGE_SIZE, cursor },
+      }
+    );
+
+    for (const match of page.page) {
+      const pair = `${match.userOneTag} × ${match.userTwoTag}`;
+
+      // Stored rows are in sorted user order, so the breakdown needs no flipping
+      const [profileOne, profileTwo] = await Promise.all([
+        cache.getStoredProfile(match.userOneTag),
+        cache.getStoredProfile(match.userTwoTag),
+      ]);
+
+      if (!profileOne || !profileTwo) {
+        skipped.push(pair);
+        continue;
+      }
+
+      const { breakdown, categoryScores, scoreRange, suppressed } =
+        compatibilityCalculator.calculateScore(
+          profileOne,
+          profileTwo,
+          isScoringPresetId(match.scoringPreset) ? match.scoringPreset : DEFAULT_SCORING_PRESET
+        );
+      const { topMatches, topClashes } = compatibilityCalculator.getTopMatches(breakdown, 3);
+
+      if (!dryRun) {
+        await convex.mutation(api.vibeMatches.patchMatchBreakdown, {
+          serverSecret,
+          id: match._id,
+          dimensionBreakdown: breakdown,
+          categoryScores,
+          topMatches: topMatches.map((d) => d.dimension),
+          topClashes: topClashes.map((d) => d.dimension),
+          scoreRange,
+          scoreSuppressed: suppressed,
+        });
+      }
+
+      patched++;
+      console.warn(`✅ ${dryRun ? 'Would patch' : 'Patched'} ${pair}`);
+    }
+
+    cursor = page.isDone ? null : page.continueCursor;
+  } while (cursor);
+
+  console.warn(`\n${dryRun ? 'Would patch' : 'Patched'} ${patched} match(es)`);
+  if (skipped.length > 0) {
+    console.warn(`⚠️  Skipped ${skipped.length} match(es) without stored profiles:`);
+    skipped.forEach((pair) => console.warn(`   • ${pair}`));
+  }
+}
+
+backfill(process.argv.includes('--dry-run')).catch((error) => {
+  console.error('❌ Backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
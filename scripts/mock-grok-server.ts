@@ -0,0 +1,374 @@
+#!/usr/bin/env tsx
+/**
+ * Local stand-in for the x.ai chat completions API
+ * Usage: npm run mock:grok [-- --port 4010]
+ * Then point the app at it: GROK_BASE_URL=http://localhost:4010/v1
+ *
+ * Answers FETCH_PROFILE, MATCH_VIBE and CONSISTENCY_CHECK prompts with deterministic
+ * responses derived from the usernames. Special usernames trigger failure modes:
+ *   rate_limited  - always 429 with Retry-After
+ *   flaky         - 429 on the first request for the user, then succeeds
+ *   no_credits    - 402 credit exhaustion
+ *   malformed     - 200 with truncated JSON content
+ *   server_error  - 500
+ *   not_found     - profile "User not found" error object
+ *   no_evidence   - profile with repeated tweets and no citations (fails verification)
+ */
+
+import http from 'http';
+
+const DIMENSIONS = [
+  'positivityRating',
+  'empathyRating',
+  'engagementRating',
+  'debateRating',
+  'shitpostRating',
+  'memeRating',
+  'intellectualRating',
+  'politicalRating',
+  'personalSharingRating',
+  'inspirationalQuotesRating',
+  'extroversionRating',
+  'authenticityRating',
+  'optimismRating',
+  'humorRating',
+  'aiGeneratedRating',
+] as const;
+
+const TOPICS = [
+  'AI',
+  'startups',
+  'gaming',
+  'crypto',
+  'music',
+  'design',
+  'fitness',
+  'memes',
+  'science',
+  'football',
+  'open source',
+  'politics',
+];
+
+// One per tweet so samples don't read as a template
+const TWEET_LINES = [
+  (topic: string) => `Spent the whole weekend deep in ${topic} and regret nothing`,
+  (topic: string) => `Hot take: most ${topic} discourse on here misses the point`,
+  (topic: string) => `Anyone have a good ${topic} recommendation? Asking for a friend`,
+  (topic: string) => `Three things I learned about ${topic} this year, a thread 🧵`,
+];
+
+const CONTENT_TYPES = ['shitposts', 'serious', 'mixed', 'news', 'personal'] as const;
+const HUMOR_STYLES = ['sarcastic', 'wholesome', 'edgy', 'dry', 'none'] as const;
+const TONES = ['positive', 'negative', 'neutral', 'mixed'] as const;
+const FORMALITIES = ['very_formal', 'formal', 'casual', 'very_casual'] as const;
+
+const RETRY_AFTER_SECONDS = 1;
+
+interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+interface ChatRequest {
+  model?: string;
+  messages?: ChatMessage[];
+  search_parameters?: unknown;
+}
+
+interface MockResponse {
+  status: number;
+  body: string;
+  headers?: Record<string, string>;
+}
+
+type MockProfile = ReturnType<typeof buildProfile>;
+
+// Requests seen per username (for the `flaky` failure mode)
+const requestCounts = new Map<string, number>();
+let completionCount = 0;
+
+/**
+ * Deterministic PRNG seeded from a string (FNV-1a + mulberry32)
+ */
+function seededRandom(seed: string): () => number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  return () => {
+    hash = (hash + 0x6d2b79f5) | 0;
+    let t = Math.imul(hash ^ (hash >>> 15), 1 | hash);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function buildProfile(username: string) {
+  const random = seededRandom(username.toLowerCase());
+  const ratings = Object.fromEntries(
+    DIMENSIONS.map((dimension) => [dimension, Math.round(random() * 100) / 100])
+  );
+  const topics = [...TOPICS];
+  for (let i = topics.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [topics[i], topics[j]] = [topics[j], topics[i]];
+  }
+  topics.length = 4;
+  const tweets = topics.map((topic, i) => TWEET_LINES[i](topic));
+
+  return {
+    username,
+    displayName: username,
+    recentTweets: tweets.map((text, i) => ({
+      text,
+      isReply: i % 2 === 1,
+      hasMedia: i === 0,
+    })),
+    contentStyle: {
+      primaryContentType: pick(CONTENT_TYPES, random),
+      humorStyle: pick(HUMOR_STYLES, random),
+      tone: pick(TONES, random),
+      usesEmojis: random() > 0.5,
+      formality: pick(FORMALITIES, random),
+      ...ratings,
+    },
+    topTopics: topics,
+    notableTraits: [`Posts mostly about ${topics[0]}`, `Mock profile for @${username}`],
+    searchConfidence: 85,
+    dataCompleteness: 80,
+    citations: tweets.map((text, i) => ({
+      id: i + 1,
+      source: 'x',
+      url: `https://x.com/${username}/status/${1000 + i + 1}`,
+      text,
+    })),
+  };
+}
+
+function buildMatch(userOne: MockProfile, userTwo: MockProfile) {
+  const one = userOne.contentStyle as Record<string, unknown>;
+  const two = userTwo.contentStyle as Record<string, unknown>;
+  const differences = DIMENSIONS.map((dimension) => ({
+    dimension,
+    difference: Math.abs(Number(one[dimension] ?? 0.5) - Number(two[dimension] ?? 0.5)),
+  })).sort((a, b) => a.difference - b.difference);
+
+  const averageDifference =
+    differences.reduce((sum, { difference }) => sum + difference, 0) / differences.length;
+  const vibeType =
+    averageDifference < 0.2
+      ? 'perfect_match'
+      : averageDifference < 0.3
+        ? 'complementary'
+        : averageDifference < 0.4
+          ? 'growth'
+          : averageDifference < 0.5
+            ? 'challenging'
+            : 'incompatible';
+
+  const label = (dimension: string) => dimension.replace(/Rating$/, '');
+  const topicsOne = userOne.topTopics ?? [];
+  const topicsTwo = userTwo.topTopics ?? [];
+  const shared = topicsOne.filter((topic) => topicsTwo.includes(topic));
+  const interests = shared.length > 0 ? shared : [...topicsOne, ...topicsTwo].slice(0, 1);
+
+  return {
+    dimensionAnalysis: Object.fromEntries(
+      differences.map(({ dimension, difference }) => [
+        label(dimension),
+        difference < 0.2
+          ? `@${userOne.username} and @${userTwo.username} are closely aligned on ${label(dimension)}`
+          : `@${userOne.username} and @${userTwo.username} differ on ${label(dimension)}`,
+      ])
+    ),
+    analysis: `@${userOne.username} and @${userTwo.username} are a mock ${vibeType.replace('_', ' ')} pairing generated offline.`,
+    strengths: differences.slice(0, 3).map(({ dimension }) => `Similar ${label(dimension)}`),
+    challenges: differences.slice(-3).map(({ dimension }) => `Different ${label(dimension)}`),
+    sharedInterests: interests,
+    vibeType,
+    recommendation: `Start with ${interests[0] ?? 'a quick intro'} - it's the easiest common ground.`,
+    metadata: {
+      userOne: userOne.username,
+      userTwo: userTwo.username,
+      timestamp: new Date().toISOString(),
+      modelUsed: 'mock-grok',
+    },
+  };
+}
+
+/**
+ * Failure mode for a username, if it is one of the special names
+ */
+function getFailure(username: string): MockResponse | null {
+  const name = username.toLowerCase();
+  const count = (requestCounts.get(name) ?? 0) + 1;
+  requestCounts.set(name, count);
+
+  if (name === 'rate_limited' || (name === 'flaky' && count === 1)) {
+    return {
+      status: 429,
+      body: JSON.stringify({ error: 'Rate limit exceeded' }),
+      headers: { 'retry-after': String(RETRY_AFTER_SECONDS) },
+    };
+  }
+
+  if (name === 'no_credits') {
+    return {
+      status: 402,
+      body: JSON.stringify({ error: 'Your team has run out of credits' }),
+    };
+  }
+
+  if (name === 'server_error') {
+    return { status: 500, body: JSON.stringify({ error: 'Internal server error' }) };
+  }
+
+  return null;
+}
+
+function completion(model: string, content: string, withSearch: boolean): MockResponse {
+  completionCount++;
+  const promptTokens = 800;
+  const completionTokens = Math.ceil(content.length / 4);
+
+  return {
+    status: 200,
+    body: JSON.stringify({
+      id: `mock-${completionCount}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+        num_sources_used: withSearch ? 10 : 0,
+      },
+    }),
+  };
+}
+
+/**
+ * Route a chat completion request to the matching prompt handler
+ */
+function handleChatCompletion(request: ChatRequest): MockResponse {
+  const model = request.model ?? 'mock-grok';
+  const userPrompt = request.messages?.find((message) => message.role === 'user')?.content ?? '';
+  const withSearch = Boolean(request.search_parameters);
+
+  // FETCH_PROFILE: "Fetch profile for X user: @name"
+  const profileMatch = userPrompt.match(/^Fetch profile for X user: @(\S+)/);
+  if (profileMatch) {
+    const username = profileMatch[1];
+    const failure = getFailure(username);
+    if (failure) return failure;
+
+    if (username.toLowerCase() === 'malformed') {
+      return completion(model, `{"username": "${username}", "contentStyle": {`, withSearch);
+    }
+
+    if (username.toLowerCase() === 'not_found') {
+      return completion(model, JSON.stringify({ error: 'User not found', username }), withSearch);
+    }
+
+    if (username.toLowerCase() === 'no_evidence') {
+      const profile = buildProfile(username);
+      const tweet = profile.recentTweets[0];
+      return completion(
+        model,
+        JSON.stringify({ ...profile, recentTweets: [tweet, tweet, tweet], citations: null }),
+        withSearch
+      );
+    }
+
+    return completion(model, JSON.stringify(buildProfile(username)), withSearch);
+  }
+
+  // MATCH_VIBE / CONSISTENCY_CHECK: JSON with userOne and userTwo profiles
+  let payload: { userOne?: MockProfile; userTwo?: MockProfile; draft?: unknown };
+  try {
+    payload = JSON.parse(userPrompt);
+  } catch {
+    return { status: 400, body: JSON.stringify({ error: 'Unrecognized prompt' }) };
+  }
+
+  if (!payload.userOne?.username || !payload.userTwo?.username) {
+    return { status: 400, body: JSON.stringify({ error: 'Missing userOne/userTwo profiles' }) };
+  }
+
+  for (const username of [payload.userOne.username, payload.userTwo.username]) {
+    const failure = getFailure(username);
+    if (failure) return failure;
+    if (username.toLowerCase() === 'malformed') {
+      return completion(model, '{"analysis": "truncated', withSearch);
+    }
+  }
+
+  // The consistency pass returns the draft unchanged
+  const content = payload.draft
+    ? JSON.stringify(payload.draft)
+    : JSON.stringify(buildMatch(payload.userOne, payload.userTwo));
+
+  return completion(model, content, withSearch);
+}
+
+function send(res: http.ServerResponse, response: MockResponse) {
+  res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+  res.end(response.body);
+}
+
+function getPort(): number {
+  const flagIndex = process.argv.indexOf('--port');
+  const value = flagIndex !== -1 ? process.argv[flagIndex + 1] : process.env.MOCK_GROK_PORT;
+  return value ? parseInt(value, 10) : 4010;
+}
+
+const server = http.createServer((req, res) => {
+  const path = req.url?.split('?')[0] ?? '';
+
+  if (req.method === 'GET' && path === '/health') {
+    send(res, { status: 200, body: JSON.stringify({ status: 'ok' }) });
+    return;
+  }
+
+  if (req.method !== 'POST' || !path.endsWith('/chat/completions')) {
+    send(res, {
+      status: 404,
+      body: JSON.stringify({ error: `No route for ${req.method} ${path}` }),
+    });
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    let request: ChatRequest;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      send(res, { status: 400, body: JSON.stringify({ error: 'Invalid JSON body' }) });
+      return;
+    }
+
+    const response = handleChatCompletion(request);
+    console.warn(`${req.method} ${path} ${request.model ?? '-'} -> ${response.status}`);
+    send(res, response);
+  });
+});
+
+const port = getPort();
+server.listen(port, () => {
+  console.warn(`Mock Grok API listening on http://localhost:${port}/v1`);
+  console.warn(`Use GROK_BASE_URL=http://localhost:${port}/v1`);
+});
+
+process.on('SIGINT', () => server.close(() => process.exit(0)));
+process.on('SIGTERM', () => server.close(() => process.exit(0)));
@@ -74,7 +74,7 @@ async function testGrokService(userOne: string, userTwo: string) {
   try {
     // Dynamic import to ensure env vars are loaded first
     const { GrokService } = await import('../features/vibe-analysis/services/grok/grok.service');
-    const { getGrokApiKey } = await import('../lib/env');
+    const { getGrokApiKey, getGrokBaseUrl, getGrokFixtureConfig } = await import('../lib/env');
 
     // Check for API key
     let apiKey: string;
@@ -87,6 +87,13 @@ async function testGrokService(userOne: string, userTwo: string) {
       process.exit(1);
     }
 
+    // Offline runs: GROK_BASE_URL=http://localhost:4010/v1 (npm run mock:grok) or GROK_FIXTURE_MODE=replay
+    const fixtures = getGrokFixtureConfig();
+    log(`🔌 Endpoint: ${getGrokBaseUrl() ?? 'x.ai (live)'}`, colors.dim);
+    if (fixtures.mode !== 'off') {
+      log(`📼 Fixture mode: ${fixtures.mode} (${fixtures.dir})`, colors.dim);
+    }
+
     log('🚀 Initializing GrokService...', colors.cyan);
     const service = new GrokService(apiKey);
 
@@ -11,6 +11,8 @@ export type ErrorCode =
   | 'EXTERNAL_API_ERROR'
   | 'NETWORK_ERROR'
   | 'CREDIT_EXHAUSTION'
+  | 'BUDGET_EXCEEDED'
+  | 'INSUFFICIENT_DATA'
   | 'INTERNAL_ERROR';
 
 export interface ErrorMetadata {
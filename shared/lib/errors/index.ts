@@ -11,10 +11,12 @@ export {
   ValidationError,
   RateLimitError,
   NotFoundError,
+  InsufficientDataError,
   ConfigError,
   ExternalAPIError,
   NetworkError,
   CreditExhaustionError,
+  BudgetExceededError,
   InternalError,
 } from './specific.errors';
 
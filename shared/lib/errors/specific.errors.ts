@@ -67,6 +67,25 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Profile fetched, but too little of it is backed by evidence to score
+ * Treated like a missing user: never retried, never hidden behind stale data
+ */
+export class InsufficientDataError extends AppError {
+  public readonly username: string;
+
+  constructor(username: string, evidenceScore: number, minEvidenceScore: number, flags: string[]) {
+    super(
+      `Not enough verifiable posts from @${username} to analyze`,
+      'INSUFFICIENT_DATA',
+      422,
+      true,
+      { username, evidenceScore, minEvidenceScore, flags }
+    );
+    this.username = username;
+  }
+}
+
 /**
  * Configuration errors for missing or invalid config
  */
@@ -170,18 +189,37 @@ export class CreditExhaustionError extends AppError {
 
   constructor(service: string, message?: string, metadata?: ErrorMetadata) {
     const defaultMessage = `${service} credits/tokens have been exhausted. Please contact marsc_hb or richkuo7 to top up.`;
-    
+
     super(message || defaultMessage, 'CREDIT_EXHAUSTION', 402, true, {
       ...metadata,
       service,
       requiresManualIntervention: true,
       contacts: ['marsc_hb', 'richkuo7'],
     });
-    
+
     this.service = service;
   }
 }
 
+/**
+ * Spend cap errors - the configured Grok budget for the period is used up
+ * Raised before x.ai credits run out, so cached results can still be served
+ */
+export class BudgetExceededError extends AppError {
+  public readonly period: 'daily' | 'monthly';
+
+  constructor(period: 'daily' | 'monthly', spent: number, budget: number, resetAt: string) {
+    super(
+      `The ${period} analysis budget has been reached. New analyses resume ${period === 'daily' ? 'tomorrow' : 'next month'}.`,
+      'BUDGET_EXCEEDED',
+      503,
+      true,
+      { period, spent, budget, resetAt }
+    );
+    this.period = period;
+  }
+}
+
 /**
  * Internal server errors for unexpected failures
  */
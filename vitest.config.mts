@@ -0,0 +1,23 @@
+import { dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': __dirname,
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    env: {
+      // Env validation runs on first use - tests never talk to x.ai or Convex
+      GROK_API_KEY: 'xai-test',
+      LOG_LEVEL: 'fatal',
+    },
+  },
+});
@@ -17,7 +17,13 @@ export function AnalysisResults({ result, className, loading = false }: Analysis
   return (
     <div className={cn('space-y-6', className)}>
       <div className="animate-in fade-in-0 slide-in-from-bottom-4 duration-700">
-        <VibeScore score={result.score} size="lg" showAnimation={!loading} />
+        <VibeScore
+          score={result.score}
+          range={result.metadata.scoreRange}
+          suppressed={result.metadata.scoreSuppressed}
+          size="lg"
+          showAnimation={!loading}
+        />
       </div>
 
       <div className="animate-in fade-in-0 slide-in-from-bottom-4 delay-150 duration-700">